@@ -0,0 +1,114 @@
+/**
+ * Sync endpoint for Road to Milli, to run on a machine every device can reach:
+ *
+ *   SYNC_TOKEN=secret PORT=8787 npm run sync-server
+ *
+ * SYNC_TOKEN is required: every request must carry it as a bearer token. The server
+ * only listens on 127.0.0.1 unless HOST says otherwise (HOST=0.0.0.0 for the local
+ * network), and SYNC_ORIGIN restricts the web origins allowed to call it.
+ *
+ * It keeps an append-only log of the changes pushed by the devices in a JSON file
+ * and hands them back in order. Merging is done by the app, field by field.
+ *
+ *   GET  /changes?since=<seq>  -> { seq, changes }  changes logged after <seq>
+ *   POST /changes { deviceId, changes } -> { seq }
+ */
+import { createServer } from 'node:http'
+import { readFileSync, writeFileSync, renameSync, existsSync } from 'node:fs'
+import { timingSafeEqual } from 'node:crypto'
+
+const PORT = Number(process.env.PORT) || 8787
+const HOST = process.env.HOST || '127.0.0.1'
+const DATA_FILE = process.env.SYNC_DATA_FILE || new URL('./sync-data.json', import.meta.url).pathname
+const TOKEN = process.env.SYNC_TOKEN || ''
+const ALLOWED_ORIGIN = process.env.SYNC_ORIGIN || '*'
+const MAX_BODY_SIZE = 50 * 1024 * 1024
+
+if (!TOKEN) {
+  console.error('❌ SYNC_TOKEN is not set: the server would hand your data to anyone who can reach it')
+  process.exit(1)
+}
+
+let log = existsSync(DATA_FILE) ? JSON.parse(readFileSync(DATA_FILE, 'utf8')) : { seq: 0, changes: [] }
+
+function save() {
+  // Written aside then renamed, so a crash never leaves half a file
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(log))
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE)
+}
+
+function isAuthorized(req) {
+  const expected = Buffer.from(`Bearer ${TOKEN}`)
+  const received = Buffer.from(req.headers.authorization || '')
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0
+    const chunks = []
+    req.on('data', (chunk) => {
+      size += chunk.length
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error('Body too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204)
+
+  if (!isAuthorized(req)) {
+    return send(res, 401, { error: 'Unauthorized' })
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`)
+  if (url.pathname !== '/changes') return send(res, 404, { error: 'Not found' })
+
+  if (req.method === 'GET') {
+    const since = Number(url.searchParams.get('since')) || 0
+    return send(res, 200, { seq: log.seq, changes: log.changes.filter(c => c.seq > since) })
+  }
+
+  if (req.method === 'POST') {
+    let body
+    try {
+      body = JSON.parse(await readBody(req))
+    } catch {
+      return send(res, 400, { error: 'Invalid JSON' })
+    }
+    if (typeof body.deviceId !== 'string' || !Array.isArray(body.changes)) {
+      return send(res, 400, { error: 'Expected { deviceId, changes }' })
+    }
+
+    for (const change of body.changes) {
+      if (typeof change.table !== 'string' || typeof change.id !== 'string') continue
+      log.changes.push({ ...change, seq: ++log.seq, deviceId: body.deviceId })
+    }
+    save()
+    console.log(`🔄 ${body.changes.length} change(s) from ${body.deviceId}, now at ${log.seq}`)
+    return send(res, 200, { seq: log.seq })
+  }
+
+  send(res, 405, { error: 'Method not allowed' })
+})
+
+server.listen(PORT, HOST, () => {
+  console.log(`✅ Sync server on http://${HOST}:${PORT} (${log.changes.length} change(s) in ${DATA_FILE})`)
+})
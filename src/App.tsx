@@ -2,7 +2,8 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { TransactionProvider } from '@store/TransactionContext'
 import { ToastProvider, SaveReminder, ErrorBoundary } from '@components/common'
 import { AppShell } from '@components/layout'
-import { DashboardPage, ImportPage, TransactionsPage, CategoriesPage, SettingsPage, BudgetPage, PatrimoinePage } from '@pages/index'
+import { HistoryShortcuts } from '@components/history'
+import { DashboardPage, ImportPage, ImportHistoryPage, TransactionsPage, CategoriesPage, RulesPage, TagsPage, SchedulesPage, SubscriptionsPage, HistoryPage, SettingsPage, BudgetPage, PatrimoinePage } from '@pages/index'
 
 export default function App() {
   return (
@@ -16,13 +17,20 @@ export default function App() {
                 <Route path="/budget" element={<BudgetPage />} />
                 <Route path="/patrimoine" element={<PatrimoinePage />} />
                 <Route path="/import" element={<ImportPage />} />
+                <Route path="/import/history" element={<ImportHistoryPage />} />
                 <Route path="/transactions" element={<TransactionsPage />} />
                 <Route path="/categories" element={<CategoriesPage />} />
+                <Route path="/rules" element={<RulesPage />} />
+                <Route path="/tags" element={<TagsPage />} />
+                <Route path="/schedules" element={<SchedulesPage />} />
+                <Route path="/subscriptions" element={<SubscriptionsPage />} />
+                <Route path="/history" element={<HistoryPage />} />
                 <Route path="/settings" element={<SettingsPage />} />
               </Routes>
             </AppShell>
           </TransactionProvider>
           <SaveReminder />
+          <HistoryShortcuts />
         </ToastProvider>
       </BrowserRouter>
     </ErrorBoundary>
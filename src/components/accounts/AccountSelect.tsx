@@ -0,0 +1,33 @@
+import { Landmark } from 'lucide-react'
+import type { BankAccount } from '@/types'
+
+interface AccountSelectProps {
+  accounts: BankAccount[]
+  value: string | null // null = all accounts
+  onChange: (accountId: string | null) => void
+  className?: string
+}
+
+export function AccountSelect({ accounts, value, onChange, className = '' }: AccountSelectProps) {
+  // Nothing to choose from with a single account
+  if (accounts.length < 2) return null
+
+  return (
+    <div className={`flex items-center gap-1 bg-gray-700 rounded-lg px-2 py-1 ${className}`}>
+      <Landmark className="w-4 h-4 text-gray-400" />
+      <select
+        value={value ?? 'all'}
+        onChange={(e) => onChange(e.target.value === 'all' ? null : e.target.value)}
+        className="bg-transparent border-none text-sm text-white focus:outline-none cursor-pointer"
+        aria-label="Filtrer par compte"
+      >
+        <option value="all">Tous les comptes</option>
+        {accounts.map(account => (
+          <option key={account.id} value={account.id}>
+            {account.name}{account.isActive ? '' : ' (archivé)'}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
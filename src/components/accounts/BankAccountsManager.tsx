@@ -0,0 +1,292 @@
+import { useState, useMemo, useCallback } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Wallet, Plus, Check, Archive, ArchiveRestore, Trash2, X, AlertTriangle, CheckCircle } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { bankAccountService, balanceCheckpointService } from '@services/db'
+import { reconcileBalances, deriveInitialBalance, type BalanceCheck } from '@services/balances'
+import { isSettled } from '@services/scheduled'
+import { formatMoney, formatDate, getToday } from '@utils/formatters'
+import { BANK_ACCOUNT_TYPES, type BankAccount, type BankAccountType, type Transaction } from '@/types'
+
+interface BankAccountsManagerProps {
+  accounts: BankAccount[]
+  transactions: Transaction[]
+}
+
+export function BankAccountsManager({ accounts, transactions }: BankAccountsManagerProps) {
+  const toast = useToast()
+  const [balanceInputs, setBalanceInputs] = useState<Record<string, string>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+  const [formName, setFormName] = useState('')
+  const [formType, setFormType] = useState<BankAccountType>('checking')
+  const [formInstitution, setFormInstitution] = useState('')
+
+  // Current balance per account (initial balance + cleared transactions up to today)
+  const balances = useMemo(() => {
+    const today = getToday()
+    const totals = new Map(accounts.map(a => [a.id, a.initialBalance]))
+    for (const t of transactions) {
+      if (!t.accountId || !isSettled(t, today) || !totals.has(t.accountId)) continue
+      totals.set(t.accountId, totals.get(t.accountId)! + t.amount)
+    }
+    return totals
+  }, [accounts, transactions])
+
+  // Bank balances read from imported statements, compared with the transactions
+  const checkpoints = useLiveQuery(() => balanceCheckpointService.getAll())
+  const balanceChecks = useMemo(() => {
+    const checks = new Map<string, BalanceCheck[]>()
+    for (const account of accounts) {
+      const accountCheckpoints = (checkpoints ?? []).filter(c => c.accountId === account.id)
+      if (accountCheckpoints.length === 0) continue
+      const accountTransactions = transactions.filter(t => t.accountId === account.id)
+      checks.set(account.id, reconcileBalances(account.initialBalance, accountTransactions, accountCheckpoints))
+    }
+    return checks
+  }, [accounts, transactions, checkpoints])
+
+  const handleDeriveInitialBalance = useCallback(async (account: BankAccount, check: BalanceCheck) => {
+    const accountTransactions = transactions.filter(t => t.accountId === account.id)
+    const initialBalance = deriveInitialBalance(accountTransactions, check.checkpoint)
+    await bankAccountService.update(account.id, { initialBalance })
+    toast.success('Solde initial', `${account.name} : ${formatMoney(initialBalance)}, d'après le solde du ${formatDate(check.checkpoint.date)}`)
+  }, [transactions, toast])
+
+  const handleCalibrate = useCallback(async (account: BankAccount) => {
+    const targetBalance = parseFloat((balanceInputs[account.id] || '').replace(',', '.'))
+    if (isNaN(targetBalance)) {
+      toast.error('Erreur', 'Entrez un montant valide')
+      return
+    }
+
+    setSavingId(account.id)
+    try {
+      const initialBalance = await bankAccountService.calibrate(account.id, targetBalance)
+      setBalanceInputs(prev => ({ ...prev, [account.id]: '' }))
+      toast.success('Solde calibré', `${account.name} : solde initial ajusté à ${formatMoney(initialBalance)}`)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    } finally {
+      setSavingId(null)
+    }
+  }, [balanceInputs, toast])
+
+  const handleAdd = useCallback(async () => {
+    if (!formName.trim()) return
+    try {
+      await bankAccountService.add({
+        name: formName.trim(),
+        type: formType,
+        institution: formInstitution.trim() || undefined,
+        initialBalance: 0,
+        color: BANK_ACCOUNT_TYPES[formType].color,
+        isActive: true,
+      })
+      toast.success('Compte ajouté', `${formName.trim()} peut maintenant être choisi à l'import`)
+      setFormName('')
+      setFormInstitution('')
+      setFormType('checking')
+      setIsAdding(false)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [formName, formType, formInstitution, toast])
+
+  const handleToggleActive = useCallback(async (account: BankAccount) => {
+    await bankAccountService.update(account.id, { isActive: !account.isActive })
+  }, [])
+
+  const handleDelete = useCallback(async (account: BankAccount) => {
+    try {
+      await bankAccountService.delete(account.id)
+      toast.success('Compte supprimé', `${account.name} a été supprimé`)
+    } catch (err) {
+      toast.error('Suppression impossible', (err as Error).message)
+    }
+  }, [toast])
+
+  return (
+    <Card className="border-green-500/50">
+      <CardTitle icon={<Wallet className="w-5 h-5 text-green-400" />}>
+        Comptes bancaires
+      </CardTitle>
+      <p className="text-gray-400 text-sm mt-2 mb-4">
+        Entrez le solde réel de chaque compte pour que l'app calcule automatiquement son solde initial.
+      </p>
+
+      <div className="space-y-3">
+        {accounts.map(account => {
+          const balance = balances.get(account.id) ?? account.initialBalance
+          return (
+            <div
+              key={account.id}
+              className={`bg-gray-700/50 rounded-lg p-4 ${account.isActive ? '' : 'opacity-60'}`}
+            >
+              <div className="flex justify-between items-center gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: account.color }} />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{account.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {BANK_ACCOUNT_TYPES[account.type].label}
+                      {account.institution ? ` • ${account.institution}` : ''}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className={`text-lg font-bold mr-2 ${balance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {formatMoney(balance)}
+                  </span>
+                  <button
+                    onClick={() => handleToggleActive(account)}
+                    className="p-1.5 text-gray-400 hover:text-white rounded"
+                    title={account.isActive ? 'Archiver' : 'Réactiver'}
+                  >
+                    {account.isActive ? <Archive className="w-4 h-4" /> : <ArchiveRestore className="w-4 h-4" />}
+                  </button>
+                  {accounts.length > 1 && (
+                    <button
+                      onClick={() => handleDelete(account)}
+                      className="p-1.5 text-gray-400 hover:text-red-400 rounded"
+                      title="Supprimer"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {account.initialBalance !== 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Solde initial enregistré : {formatMoney(account.initialBalance)}
+                </p>
+              )}
+
+              {/* Reconciliation with bank balances */}
+              {balanceChecks.has(account.id) && (
+                <BalanceCheckSummary
+                  checks={balanceChecks.get(account.id)!}
+                  onDeriveInitialBalance={(check) => handleDeriveInitialBalance(account, check)}
+                />
+              )}
+
+              {/* Calibration */}
+              <div className="flex gap-2 mt-3">
+                <input
+                  type="text"
+                  value={balanceInputs[account.id] || ''}
+                  onChange={(e) => setBalanceInputs(prev => ({ ...prev, [account.id]: e.target.value }))}
+                  placeholder="Solde réel aujourd'hui (ex: 243,62)"
+                  className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+                />
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => handleCalibrate(account)}
+                  isLoading={savingId === account.id}
+                  leftIcon={<Check className="w-4 h-4" />}
+                  disabled={!balanceInputs[account.id]}
+                >
+                  Calibrer
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {/* Add account */}
+      {isAdding ? (
+        <div className="mt-4 bg-gray-700/30 rounded-lg p-4 space-y-3">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={formName}
+              onChange={(e) => setFormName(e.target.value)}
+              placeholder="Nom du compte (ex: Compte joint)"
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+              autoFocus
+            />
+            <select
+              value={formType}
+              onChange={(e) => setFormType(e.target.value as BankAccountType)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+            >
+              {(Object.keys(BANK_ACCOUNT_TYPES) as BankAccountType[]).map(type => (
+                <option key={type} value={type}>{BANK_ACCOUNT_TYPES[type].label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={formInstitution}
+              onChange={(e) => setFormInstitution(e.target.value)}
+              placeholder="Banque (optionnel)"
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm sm:col-span-2"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button variant="primary" size="sm" onClick={handleAdd} disabled={!formName.trim()}>
+              Ajouter
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsAdding(false)} leftIcon={<X className="w-4 h-4" />}>
+              Annuler
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="secondary"
+          className="mt-4"
+          onClick={() => setIsAdding(true)}
+          leftIcon={<Plus className="w-4 h-4" />}
+        >
+          Ajouter un compte
+        </Button>
+      )}
+    </Card>
+  )
+}
+
+function BalanceCheckSummary({
+  checks,
+  onDeriveInitialBalance,
+}: {
+  checks: BalanceCheck[]
+  onDeriveInitialBalance: (check: BalanceCheck) => void
+}) {
+  const last = checks[checks.length - 1]
+  const mismatches = checks.filter(c => c.periodGap !== 0)
+
+  return (
+    <div className="mt-3 text-xs space-y-1">
+      <p className={`flex items-center gap-1 ${mismatches.length > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+        {mismatches.length > 0 ? <AlertTriangle className="w-3 h-3" /> : <CheckCircle className="w-3 h-3" />}
+        {checks.length} solde(s) bancaire(s), dernier le {formatDate(last.checkpoint.date)} : {formatMoney(last.checkpoint.balance)}
+        {mismatches.length > 0 ? ` • ${mismatches.length} écart(s)` : ' • tout correspond'}
+      </p>
+      {mismatches.slice(0, 5).map(check => (
+        <div key={check.checkpoint.id} className="pl-4 text-gray-400">
+          {check.periodStart
+            ? `Du ${formatDate(check.periodStart)} au ${formatDate(check.checkpoint.date)}`
+            : `Jusqu'au ${formatDate(check.checkpoint.date)}`}
+          {' : '}écart de <span className="text-amber-400">{formatMoney(check.periodGap)}</span>
+          {' '}(ligne manquante ou en double ?)
+          {check.suspects.length > 0 && (
+            <span className="block text-gray-500">
+              Doublon possible : {check.suspects.map(t => `${t.description} (${formatDate(t.date)})`).join(', ')}
+            </span>
+          )}
+          {/* Before the first checkpoint, the gap comes from the initial balance */}
+          {!check.periodStart && (
+            <button
+              onClick={() => onDeriveInitialBalance(check)}
+              className="block text-blue-400 hover:text-blue-300"
+            >
+              Déduire le solde initial de ce relevé
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
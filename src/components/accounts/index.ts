@@ -0,0 +1,2 @@
+export { AccountSelect } from './AccountSelect'
+export { BankAccountsManager } from './BankAccountsManager'
@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Lock, Unlock, ShieldCheck, KeyRound } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { settingsService } from '@services/db'
+import {
+  createAutoBackup,
+  unlockBackups,
+  isBackupEncryptionEnabled,
+  isBackupEncryptionLocked,
+  enableBackupEncryption,
+  disableBackupEncryption,
+  INCLUDE_SECRETS_SETTING,
+} from '@services/storage'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+/**
+ * Passphrase encryption of every backup (auto-backup, auto-save file, downloads)
+ * and whether secrets such as the Claude API key go into them
+ */
+export function BackupEncryptionSettings() {
+  const toast = useToast()
+  const [isEnabled, setIsEnabled] = useState(isBackupEncryptionEnabled())
+  const [isLocked, setIsLocked] = useState(isBackupEncryptionLocked())
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [includeSecrets, setIncludeSecrets] = useState(false)
+
+  useEffect(() => {
+    settingsService.get(INCLUDE_SECRETS_SETTING).then(value => setIncludeSecrets(value === true))
+  }, [])
+
+  const refresh = () => {
+    setIsEnabled(isBackupEncryptionEnabled())
+    setIsLocked(isBackupEncryptionLocked())
+    setPassphrase('')
+    setConfirmation('')
+  }
+
+  const handleEnable = useCallback(async () => {
+    setIsWorking(true)
+    try {
+      enableBackupEncryption(passphrase)
+      // The readable copy in the browser is replaced right away
+      await createAutoBackup()
+      refresh()
+      toast.success('Chiffrement activé', 'Vos prochaines sauvegardes seront chiffrées. Sans la phrase secrète, elles ne pourront pas être restaurées.')
+    } finally {
+      setIsWorking(false)
+    }
+  }, [passphrase, toast])
+
+  const handleUnlock = useCallback(async () => {
+    setIsWorking(true)
+    try {
+      await unlockBackups(passphrase)
+      await createAutoBackup()
+      refresh()
+      toast.success('Sauvegardes déverrouillées', 'Les sauvegardes automatiques reprennent')
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    } finally {
+      setIsWorking(false)
+    }
+  }, [passphrase, toast])
+
+  const handleDisable = useCallback(async () => {
+    disableBackupEncryption()
+    await createAutoBackup()
+    refresh()
+    toast.info('Chiffrement désactivé', 'Les prochaines sauvegardes seront lisibles sans phrase secrète')
+  }, [toast])
+
+  const handleIncludeSecretsChange = useCallback(async (checked: boolean) => {
+    setIncludeSecrets(checked)
+    await settingsService.set(INCLUDE_SECRETS_SETTING, checked)
+  }, [])
+
+  const passphraseInput = (
+    <input
+      type="password"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      placeholder="Phrase secrète"
+      autoComplete="new-password"
+      className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+    />
+  )
+
+  return (
+    <Card>
+      <CardTitle icon={<ShieldCheck className="w-5 h-5 text-green-400" />}>
+        Chiffrement des sauvegardes
+      </CardTitle>
+      <p className="text-gray-400 text-sm mt-2 mb-4">
+        Chiffre la sauvegarde du navigateur, le fichier d'auto-save et les téléchargements avec une phrase secrète (AES-GCM).
+        La phrase n'est jamais enregistrée : elle est demandée à chaque restauration.
+      </p>
+
+      {!isEnabled && (
+        <div className="space-y-2">
+          {passphraseInput}
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirmer la phrase secrète"
+            autoComplete="new-password"
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+          />
+          {confirmation && confirmation !== passphrase && (
+            <p className="text-xs text-red-400">Les deux phrases sont différentes</p>
+          )}
+          <Button
+            variant="primary"
+            onClick={handleEnable}
+            isLoading={isWorking}
+            disabled={passphrase.length < MIN_PASSPHRASE_LENGTH || confirmation !== passphrase}
+            leftIcon={<Lock className="w-4 h-4" />}
+          >
+            Activer le chiffrement
+          </Button>
+          <p className="text-xs text-gray-500">Au moins {MIN_PASSPHRASE_LENGTH} caractères.</p>
+        </div>
+      )}
+
+      {isEnabled && isLocked && (
+        <div className="space-y-2">
+          <p className="text-sm text-yellow-400">
+            Sauvegardes automatiques en pause : saisissez la phrase secrète pour les reprendre.
+          </p>
+          {passphraseInput}
+          <Button
+            variant="primary"
+            onClick={handleUnlock}
+            isLoading={isWorking}
+            disabled={!passphrase}
+            leftIcon={<KeyRound className="w-4 h-4" />}
+          >
+            Déverrouiller
+          </Button>
+        </div>
+      )}
+
+      {isEnabled && !isLocked && (
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-2 p-3 bg-green-500/10 border border-green-500/30 rounded-lg flex-1">
+            <Lock className="w-5 h-5 text-green-400" />
+            <p className="text-green-400 font-medium">Sauvegardes chiffrées</p>
+          </div>
+          <Button variant="ghost" onClick={handleDisable} leftIcon={<Unlock className="w-4 h-4" />}>
+            Désactiver
+          </Button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 mt-4 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={includeSecrets}
+          onChange={(e) => handleIncludeSecretsChange(e.target.checked)}
+          className="rounded border-gray-600 bg-gray-700"
+        />
+        Inclure la clé API Claude dans les sauvegardes
+      </label>
+    </Card>
+  )
+}
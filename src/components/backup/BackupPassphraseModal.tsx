@@ -0,0 +1,34 @@
+import { Lock, X } from 'lucide-react'
+import { Card, CardTitle } from '@components/common'
+import { PassphrasePrompt } from './PassphrasePrompt'
+
+interface BackupPassphraseModalProps {
+  onSubmit: (passphrase: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Passphrase of the encrypted automatic backup, asked on startup when the database is empty
+ */
+export function BackupPassphraseModal({ onSubmit, onCancel }: BackupPassphraseModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-md">
+        <div className="flex items-center justify-between">
+          <CardTitle icon={<Lock className="w-5 h-5 text-blue-400" />}>
+            Sauvegarde chiffrée
+          </CardTitle>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-700 rounded-lg">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+        <PassphrasePrompt
+          fileName="Sauvegarde automatique"
+          message="Une sauvegarde chiffrée a été trouvée. Saisissez sa phrase secrète pour la restaurer."
+          onSubmit={onSubmit}
+          onCancel={onCancel}
+        />
+      </Card>
+    </div>
+  )
+}
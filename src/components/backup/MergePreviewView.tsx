@@ -0,0 +1,200 @@
+import { useState, useMemo } from 'react'
+import { GitMerge, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Button } from '@components/common'
+import { TABLE_LABELS } from '@utils/constants'
+import { conflictKey, type MergePreview, type MergeChoices, type MergeSide, type RecordMerge } from '@services/storage'
+
+interface MergePreviewViewProps {
+  preview: MergePreview
+  isApplying?: boolean
+  onApply: (choices: MergeChoices) => void
+  onCancel: () => void
+}
+
+const KIND_LABELS: Record<RecordMerge['kind'], string> = {
+  added: 'Ajout',
+  modified: 'Modification',
+  deleted: 'Suppression',
+}
+
+function formatDateTime(date: string): string {
+  return new Date(date).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Oui' : 'Non'
+  if (typeof value === 'string' || typeof value === 'number') return String(value)
+  const json = JSON.stringify(value)
+  return json.length > 80 ? `${json.slice(0, 77)}…` : json
+}
+
+function getRecordName(record: RecordMerge): string {
+  const row = record.local ?? record.file ?? {}
+  const name = row.name ?? row.description ?? row.label ?? row.month
+  return typeof name === 'string' && name ? name : record.id
+}
+
+interface ChoiceProps {
+  label: string
+  value: string
+  isSelected: boolean
+  onSelect: () => void
+}
+
+function Choice({ label, value, isSelected, onSelect }: ChoiceProps) {
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      aria-pressed={isSelected}
+      className={clsx(
+        'flex-1 min-w-0 text-left rounded-lg border px-3 py-2 transition-colors',
+        isSelected ? 'border-blue-500 bg-blue-500/20' : 'border-gray-600 hover:border-gray-500'
+      )}
+    >
+      <p className="text-xs text-gray-400">{label}</p>
+      <p className="text-sm text-white break-words">{value}</p>
+    </button>
+  )
+}
+
+/**
+ * Three-way merge of a backup file: what it adds, modifies and deletes per table,
+ * and the conflicts side by side, each waiting for a choice before anything is written
+ */
+export function MergePreviewView({ preview, isApplying, onApply, onCancel }: MergePreviewViewProps) {
+  const [choices, setChoices] = useState<MergeChoices>({})
+  const [openTable, setOpenTable] = useState<string | null>(null)
+
+  // One entry per choice to make: a field, or the whole record when it was deleted on one side
+  const conflicts = useMemo(() => preview.tables.flatMap(table => table.records.flatMap(record => [
+    ...(record.deletedIn ? [{ record, conflict: undefined, key: conflictKey(record) }] : []),
+    ...record.conflicts.map(conflict => ({ record, conflict, key: conflictKey(record, conflict.field) })),
+  ])), [preview])
+
+  const choose = (key: string, side: MergeSide) => setChoices(prev => ({ ...prev, [key]: side }))
+  const chooseAll = (side: MergeSide) => setChoices(Object.fromEntries(conflicts.map(c => [c.key, side])))
+  const remaining = conflicts.filter(c => !choices[c.key]).length
+
+  if (preview.tables.length === 0) {
+    return (
+      <div className="mt-4 rounded-lg border border-gray-600 p-4">
+        <p className="text-sm text-gray-300">Ce fichier n'apporte aucune modification.</p>
+        <Button variant="ghost" size="sm" className="mt-3" onClick={onCancel}>Fermer</Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-4 rounded-lg border border-blue-500/50 bg-blue-500/10 p-4 space-y-4">
+      <div>
+        <div className="flex items-center gap-2">
+          <GitMerge className="w-5 h-5 text-blue-400" />
+          <p className="font-medium text-white">Fusion de la sauvegarde du {formatDateTime(preview.backup.savedAt)}</p>
+        </div>
+        {preview.baseSavedAt ? (
+          <p className="text-xs text-gray-400 mt-1">
+            Comparée à votre version commune du {formatDateTime(preview.baseSavedAt)}
+          </p>
+        ) : (
+          <p className="text-xs text-yellow-400 mt-1 flex items-start gap-1">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            Aucune version commune trouvée : chaque différence est un conflit et aucune suppression n'est détectée.
+          </p>
+        )}
+      </div>
+
+      {/* Changes per table */}
+      <div className="text-sm">
+        {preview.tables.map(table => (
+          <div key={table.table} className="border-t border-gray-700/50">
+            <button
+              type="button"
+              onClick={() => setOpenTable(openTable === table.table ? null : table.table)}
+              className="w-full flex items-center gap-2 py-1.5 text-left"
+              aria-expanded={openTable === table.table}
+            >
+              {openTable === table.table
+                ? <ChevronDown className="w-4 h-4 text-gray-400" />
+                : <ChevronRight className="w-4 h-4 text-gray-400" />}
+              <span className="flex-1 text-gray-300">{TABLE_LABELS[table.table] ?? table.table}</span>
+              {table.added > 0 && <span className="text-green-400">+{table.added}</span>}
+              {table.modified > 0 && <span className="text-blue-400">~{table.modified}</span>}
+              {table.deleted > 0 && <span className="text-red-400">−{table.deleted}</span>}
+              {table.conflicts > 0 && <span className="text-yellow-400">{table.conflicts} conflit(s)</span>}
+            </button>
+            {openTable === table.table && (
+              <ul className="pl-6 pb-2 space-y-0.5 text-xs text-gray-400">
+                {table.records.map(record => (
+                  <li key={record.id}>
+                    <span className="text-gray-300">{getRecordName(record)}</span>
+                    {' · '}{KIND_LABELS[record.kind]}
+                    {record.fields.length > 0 && ` (${record.fields.join(', ')})`}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <p className="flex-1 text-sm font-medium text-yellow-400">
+              {conflicts.length} conflit(s){remaining > 0 && `, ${remaining} sans choix`}
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => chooseAll('local')}>Tout garder ici</Button>
+            <Button variant="ghost" size="sm" onClick={() => chooseAll('file')}>Tout prendre du fichier</Button>
+          </div>
+          {conflicts.map(({ record, conflict, key }) => (
+            <div key={key} className="space-y-1">
+              <p className="text-xs text-gray-400">
+                {TABLE_LABELS[record.table] ?? record.table} · <span className="text-gray-300">{getRecordName(record)}</span>
+                {conflict
+                  ? <> · {conflict.field}{preview.baseSavedAt && ` (avant : ${formatValue(conflict.base)})`}</>
+                  : record.deletedIn === 'file' ? ' · supprimé dans le fichier, modifié ici' : ' · supprimé ici, modifié dans le fichier'}
+              </p>
+              <div className="flex gap-2">
+                <Choice
+                  label="Ici"
+                  value={conflict ? formatValue(conflict.local) : record.deletedIn === 'file' ? 'Garder' : 'Laisser supprimé'}
+                  isSelected={choices[key] === 'local'}
+                  onSelect={() => choose(key, 'local')}
+                />
+                <Choice
+                  label="Fichier"
+                  value={conflict ? formatValue(conflict.file) : record.deletedIn === 'file' ? 'Supprimer' : 'Restaurer'}
+                  isSelected={choices[key] === 'file'}
+                  onSelect={() => choose(key, 'file')}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview.ignoredTables.length > 0 && (
+        <p className="text-xs text-yellow-400">
+          Tables inconnues ignorées : {preview.ignoredTables.join(', ')}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="primary"
+          onClick={() => onApply(choices)}
+          isLoading={isApplying}
+          disabled={remaining > 0}
+          leftIcon={<GitMerge className="w-4 h-4" />}
+        >
+          Appliquer la fusion
+        </Button>
+        <Button variant="ghost" onClick={onCancel}>Annuler</Button>
+      </div>
+    </div>
+  )
+}
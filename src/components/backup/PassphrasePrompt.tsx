@@ -0,0 +1,52 @@
+import { useState } from 'react'
+import { KeyRound } from 'lucide-react'
+import { Button } from '@components/common'
+
+interface PassphrasePromptProps {
+  fileName: string
+  message?: string // Replaces the default sentence naming the file
+  isLoading?: boolean
+  onSubmit: (passphrase: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Passphrase of an encrypted backup file, asked before restoring it
+ */
+export function PassphrasePrompt({ fileName, message, isLoading, onSubmit, onCancel }: PassphrasePromptProps) {
+  const [passphrase, setPassphrase] = useState('')
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        if (passphrase) onSubmit(passphrase)
+      }}
+      className="mt-4 p-4 rounded-lg border border-blue-500/50 bg-blue-500/10 space-y-3"
+    >
+      <p className="text-sm text-gray-300">
+        {message ?? (
+          <>
+            <span className="font-medium text-white">{fileName}</span> est chiffré. Saisissez sa phrase secrète pour le restaurer.
+          </>
+        )}
+      </p>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Phrase secrète"
+        autoFocus
+        className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+      />
+      <div className="flex gap-2">
+        <Button type="submit" variant="primary" isLoading={isLoading} disabled={!passphrase} leftIcon={<KeyRound className="w-4 h-4" />}>
+          Déchiffrer
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Annuler
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,58 @@
+import { CheckCircle, AlertTriangle, RefreshCw } from 'lucide-react'
+import { Button } from '@components/common'
+import { TABLE_LABELS } from '@utils/constants'
+import type { RestoreReport } from '@services/storage'
+
+interface RestoreReportViewProps {
+  report: RestoreReport
+  onReload: () => void
+}
+
+/**
+ * What a restore put back, table by table, with the problems the integrity check found
+ */
+export function RestoreReportView({ report, onReload }: RestoreReportViewProps) {
+  const hasIssues = report.ignoredTables.length > 0 || report.tables.some(t => t.issues.length > 0)
+
+  return (
+    <div className={`mt-4 rounded-lg border p-4 ${hasIssues ? 'border-yellow-500/50 bg-yellow-500/10' : 'border-green-500/50 bg-green-500/10'}`}>
+      <div className="flex items-center gap-2 mb-1">
+        {hasIssues
+          ? <AlertTriangle className="w-5 h-5 text-yellow-400" />
+          : <CheckCircle className="w-5 h-5 text-green-400" />}
+        <p className="font-medium text-white">
+          {hasIssues ? 'Restauration terminée avec des remarques' : 'Restauration terminée'}
+        </p>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        Sauvegarde du {new Date(report.savedAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+        {' · '}format v{report.version}
+      </p>
+
+      <table className="w-full text-sm">
+        <tbody>
+          {report.tables.map(table => (
+            <tr key={table.table} className="border-t border-gray-700/50 align-top">
+              <td className="py-1.5 pr-3 text-gray-300">{TABLE_LABELS[table.table] ?? table.table}</td>
+              <td className="py-1.5 pr-3 text-right text-white whitespace-nowrap">
+                {table.restored}
+                {table.inFile !== table.restored && <span className="text-gray-500"> / {table.inFile}</span>}
+              </td>
+              <td className="py-1.5 text-xs text-yellow-400">{table.issues.join(' · ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {report.ignoredTables.length > 0 && (
+        <p className="text-xs text-yellow-400 mt-2">
+          Tables inconnues ignorées : {report.ignoredTables.join(', ')}
+        </p>
+      )}
+
+      <Button variant="secondary" size="sm" className="mt-4" onClick={onReload} leftIcon={<RefreshCw className="w-4 h-4" />}>
+        Recharger l'application
+      </Button>
+    </div>
+  )
+}
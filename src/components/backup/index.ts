@@ -0,0 +1,5 @@
+export { RestoreReportView } from './RestoreReportView'
+export { BackupEncryptionSettings } from './BackupEncryptionSettings'
+export { PassphrasePrompt } from './PassphrasePrompt'
+export { BackupPassphraseModal } from './BackupPassphraseModal'
+export { MergePreviewView } from './MergePreviewView'
@@ -3,7 +3,7 @@ import { Plus, X, ShoppingBag, Home, TrendingUp, TrendingDown, User } from 'luci
 import { v4 as uuidv4 } from 'uuid'
 import { Card, CardTitle, Button } from '@components/common'
 import { transactionService } from '@services/db'
-import { formatMoney } from '@utils/formatters'
+import { formatMoney, getToday } from '@utils/formatters'
 import type { Category, Transaction, CategoryBudget } from '@/types'
 
 interface QuickAddExpenseProps {
@@ -71,6 +71,8 @@ export function QuickAddExpense({
         source: 'manual',
         budgetGroup: mode === 'expense' ? budgetGroup : undefined,
         assignedTo: assignedTo || undefined,
+        // A future date plans the transaction, it is merged with the bank line when imported
+        status: date > getToday() ? 'scheduled' : 'cleared',
         createdAt: now,
         updatedAt: now,
       }
@@ -273,6 +275,11 @@ export function QuickAddExpense({
                   onChange={(e) => setDate(e.target.value)}
                   className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
                 />
+                {date > getToday() && (
+                  <p className="text-xs text-violet-400 mt-1">
+                    Date future : l'opération sera prévue et rapprochée de la banque à l'import
+                  </p>
+                )}
               </div>
 
               {/* Assigned To - Only show if household members exist */}
@@ -1,4 +1,5 @@
-import { memo, useCallback } from 'react'
+import { memo, useCallback, useMemo, useState } from 'react'
+import { ArrowLeft } from 'lucide-react'
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts'
 import { formatMoney } from '@utils/formatters'
 import { TOOLTIP_STYLE } from '@utils/constants'
@@ -8,6 +9,7 @@ interface PieChartData {
   name: string // Display name (French)
   value: number
   color: string
+  children?: PieChartData[] // Subcategories for drill-down
 }
 
 interface ExpensesPieChartProps {
@@ -21,8 +23,23 @@ export const ExpensesPieChart = memo(function ExpensesPieChart({
   selectedCategory,
   onCategoryClick,
 }: ExpensesPieChartProps) {
+  const [drilledCategory, setDrilledCategory] = useState<PieChartData | null>(null)
+
+  // Drilled into a parent: its subcategories plus what was spent directly on the parent
+  const displayData = useMemo(() => {
+    const current = drilledCategory && data.find(d => (d.id || d.name) === (drilledCategory.id || drilledCategory.name))
+    if (!current?.children) return data
+    const direct = current.value - current.children.reduce((sum, c) => sum + c.value, 0)
+    return direct > 0.005
+      ? [...current.children, { id: current.id, name: `${current.name} (autre)`, value: direct, color: current.color }]
+      : current.children
+  }, [data, drilledCategory])
+
   const handleClick = useCallback(
     (entry: PieChartData) => {
+      if (entry.children && entry.children.length > 0) {
+        setDrilledCategory(entry)
+      }
       // Use id (categoryId) if available, otherwise use name
       onCategoryClick(entry.id || entry.name)
     },
@@ -38,35 +55,46 @@ export const ExpensesPieChart = memo(function ExpensesPieChart({
   }
 
   return (
-    <ResponsiveContainer width="100%" height="100%" minHeight={200}>
-      <PieChart>
-        <Pie
-          data={data}
-          cx="50%"
-          cy="50%"
-          innerRadius={50}
-          outerRadius={80}
-          paddingAngle={2}
-          dataKey="value"
-          onClick={handleClick}
+    <div className="relative h-full">
+      {displayData !== data && drilledCategory && (
+        <button
+          onClick={() => setDrilledCategory(null)}
+          className="absolute top-0 left-0 z-10 flex items-center gap-1 text-xs text-gray-400 hover:text-white"
         >
-          {data.map((entry, index) => (
-            <Cell
-              key={`cell-${index}`}
-              fill={entry.color}
-              stroke={selectedCategory === (entry.id || entry.name) ? '#fff' : 'transparent'}
-              strokeWidth={2}
-              style={{ cursor: 'pointer' }}
-            />
-          ))}
-        </Pie>
-        <Tooltip
-          formatter={(value) => formatMoney(Number(value) || 0)}
-          contentStyle={TOOLTIP_STYLE.contentStyle}
-          itemStyle={TOOLTIP_STYLE.itemStyle}
-          labelStyle={TOOLTIP_STYLE.labelStyle}
-        />
-      </PieChart>
-    </ResponsiveContainer>
+          <ArrowLeft className="w-3 h-3" />
+          {drilledCategory.name}
+        </button>
+      )}
+      <ResponsiveContainer width="100%" height="100%" minHeight={200}>
+        <PieChart>
+          <Pie
+            data={displayData}
+            cx="50%"
+            cy="50%"
+            innerRadius={50}
+            outerRadius={80}
+            paddingAngle={2}
+            dataKey="value"
+            onClick={handleClick}
+          >
+            {displayData.map((entry, index) => (
+              <Cell
+                key={`cell-${index}`}
+                fill={entry.color}
+                stroke={selectedCategory === (entry.id || entry.name) ? '#fff' : 'transparent'}
+                strokeWidth={2}
+                style={{ cursor: 'pointer' }}
+              />
+            ))}
+          </Pie>
+          <Tooltip
+            formatter={(value) => formatMoney(Number(value) || 0)}
+            contentStyle={TOOLTIP_STYLE.contentStyle}
+            itemStyle={TOOLTIP_STYLE.itemStyle}
+            labelStyle={TOOLTIP_STYLE.labelStyle}
+          />
+        </PieChart>
+      </ResponsiveContainer>
+    </div>
   )
 })
@@ -3,22 +3,29 @@ import { X, CheckCircle, AlertCircle, Info, AlertTriangle } from 'lucide-react'
 
 type ToastType = 'success' | 'error' | 'info' | 'warning'
 
+// Button shown in the toast, ex: "Annuler" right after a change
+export interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
 interface Toast {
   id: string
   type: ToastType
   title: string
   message?: string
   duration?: number
+  action?: ToastAction
 }
 
 interface ToastContextType {
   toasts: Toast[]
   addToast: (toast: Omit<Toast, 'id'>) => void
   removeToast: (id: string) => void
-  success: (title: string, message?: string) => void
-  error: (title: string, message?: string) => void
-  info: (title: string, message?: string) => void
-  warning: (title: string, message?: string) => void
+  success: (title: string, message?: string, action?: ToastAction) => void
+  error: (title: string, message?: string, action?: ToastAction) => void
+  info: (title: string, message?: string, action?: ToastAction) => void
+  warning: (title: string, message?: string, action?: ToastAction) => void
 }
 
 const ToastContext = createContext<ToastContextType | null>(null)
@@ -72,6 +79,17 @@ function ToastItem({ toast, onRemove }: ToastItemProps) {
         {toast.message && (
           <p className="text-sm text-gray-300 mt-1">{toast.message}</p>
         )}
+        {toast.action && (
+          <button
+            onClick={() => {
+              toast.action!.onClick()
+              onRemove(toast.id)
+            }}
+            className="text-sm font-medium text-white underline underline-offset-2 hover:no-underline mt-2"
+          >
+            {toast.action.label}
+          </button>
+        )}
       </div>
       <button
         onClick={() => onRemove(toast.id)}
@@ -106,20 +124,20 @@ export function ToastProvider({ children }: ToastProviderProps) {
     }
   }, [removeToast])
 
-  const success = useCallback((title: string, message?: string) => {
-    addToast({ type: 'success', title, message })
+  const success = useCallback((title: string, message?: string, action?: ToastAction) => {
+    addToast({ type: 'success', title, message, action })
   }, [addToast])
 
-  const error = useCallback((title: string, message?: string) => {
-    addToast({ type: 'error', title, message, duration: 8000 })
+  const error = useCallback((title: string, message?: string, action?: ToastAction) => {
+    addToast({ type: 'error', title, message, action, duration: 8000 })
   }, [addToast])
 
-  const info = useCallback((title: string, message?: string) => {
-    addToast({ type: 'info', title, message })
+  const info = useCallback((title: string, message?: string, action?: ToastAction) => {
+    addToast({ type: 'info', title, message, action })
   }, [addToast])
 
-  const warning = useCallback((title: string, message?: string) => {
-    addToast({ type: 'warning', title, message, duration: 6000 })
+  const warning = useCallback((title: string, message?: string, action?: ToastAction) => {
+    addToast({ type: 'warning', title, message, action, duration: 6000 })
   }, [addToast])
 
   return (
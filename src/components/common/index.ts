@@ -11,6 +11,7 @@ export {
   DashboardSkeleton,
 } from './Skeleton'
 export { ToastProvider, useToast } from './Toast'
+export type { ToastAction } from './Toast'
 export { LoadingOverlay, Spinner } from './LoadingOverlay'
 export { SaveReminder, markAsSaved } from './SaveReminder'
 export { PeriodSelector } from './PeriodSelector'
@@ -11,8 +11,8 @@ import {
   ReferenceLine,
   Legend,
 } from 'recharts'
-import { formatMoney } from '@utils/formatters'
-import type { Transaction } from '@/types'
+import { formatMoney, getCurrentMonth, getNextMonth } from '@utils/formatters'
+import type { Transaction, BankAccount } from '@/types'
 
 interface MonthlyBalance {
   month: string
@@ -20,20 +20,30 @@ interface MonthlyBalance {
   income: number
   expenses: number
   balance: number
-  cumulativeBalance: number
+  cumulativeBalance?: number // Undefined for months with scheduled entries only
+  projectedBalance?: number // With scheduled entries, from the current month on
+  accountBalances: Record<string, number> // Cumulative balance per account id
 }
 
 interface BalanceEvolutionChartProps {
   transactions: Transaction[]
   initialBalance?: number
+  accounts?: BankAccount[] // When several, one balance curve per account is drawn
   monthsToShow?: number
+  scheduled?: Transaction[] // Planned entries, drawn as a projected balance
+  projectionMonths?: number // Months after the current one covered by the projection
 }
 
 export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
   transactions,
   initialBalance = 0,
+  accounts = [],
   monthsToShow = 12,
+  scheduled = [],
+  projectionMonths = 3,
 }: BalanceEvolutionChartProps) {
+  const showAccounts = accounts.length > 1
+
   const chartData = useMemo(() => {
     // Group transactions by month (use budgetMonth if set, otherwise use date)
     const byMonth = new Map<string, { income: number; expenses: number }>()
@@ -59,15 +69,25 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
 
     // Calculate cumulative balance
     let cumulative = initialBalance
+    const accountCumulative: Record<string, number> = {}
+    const accountByMonth = new Map<string, Record<string, number>>()
+    for (const account of accounts) {
+      accountCumulative[account.id] = account.initialBalance
+    }
 
     // Add balance from transactions before the displayed period
     const firstDisplayedMonth = sortedMonths[0]?.[0]
-    if (firstDisplayedMonth) {
-      for (const t of transactions) {
-        const tMonth = t.budgetMonth || t.date.substring(0, 7)
-        if (tMonth < firstDisplayedMonth) {
-          cumulative += t.amount
+    for (const t of transactions) {
+      const tMonth = t.budgetMonth || t.date.substring(0, 7)
+      if (firstDisplayedMonth && tMonth < firstDisplayedMonth) {
+        cumulative += t.amount
+        if (t.accountId && t.accountId in accountCumulative) {
+          accountCumulative[t.accountId] += t.amount
         }
+      } else if (t.accountId && t.accountId in accountCumulative) {
+        const monthTotals = accountByMonth.get(tMonth) || {}
+        monthTotals[t.accountId] = (monthTotals[t.accountId] || 0) + t.amount
+        accountByMonth.set(tMonth, monthTotals)
       }
     }
 
@@ -77,6 +97,10 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
       const balance = income - expenses
       cumulative += balance
 
+      for (const [accountId, amount] of Object.entries(accountByMonth.get(month) || {})) {
+        accountCumulative[accountId] += amount
+      }
+
       // Format month label
       const date = new Date(month + '-01')
       const monthLabel = date.toLocaleDateString('fr-FR', { month: 'short' })
@@ -88,11 +112,51 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
         expenses,
         balance,
         cumulativeBalance: cumulative,
+        accountBalances: { ...accountCumulative },
       })
     }
 
+    // Projection: scheduled entries on top of the balance, overdue ones count this month
+    const currentMonth = getCurrentMonth()
+    let lastProjectedMonth = currentMonth
+    for (let i = 0; i < projectionMonths; i++) {
+      lastProjectedMonth = getNextMonth(lastProjectedMonth)
+    }
+    const scheduledByMonth = new Map<string, number>()
+    for (const t of scheduled) {
+      const month = t.budgetMonth || t.date.substring(0, 7)
+      const effectiveMonth = month < currentMonth ? currentMonth : month
+      if (effectiveMonth > lastProjectedMonth) continue
+      scheduledByMonth.set(effectiveMonth, (scheduledByMonth.get(effectiveMonth) || 0) + t.amount)
+    }
+    if (scheduledByMonth.size === 0) return data
+
+    for (const month of scheduledByMonth.keys()) {
+      if (data.some(d => d.month === month)) continue
+      const monthLabel = new Date(month + '-01').toLocaleDateString('fr-FR', { month: 'short' })
+      data.push({
+        month,
+        monthLabel: monthLabel.charAt(0).toUpperCase() + monthLabel.slice(1),
+        income: 0,
+        expenses: 0,
+        balance: 0,
+        accountBalances: {},
+      })
+    }
+    data.sort((a, b) => a.month.localeCompare(b.month))
+
+    let lastCumulative = data.find(d => d.cumulativeBalance !== undefined)?.cumulativeBalance ?? initialBalance
+    let scheduledTotal = 0
+    for (const point of data) {
+      lastCumulative = point.cumulativeBalance ?? lastCumulative
+      scheduledTotal += scheduledByMonth.get(point.month) || 0
+      if (point.month >= currentMonth) {
+        point.projectedBalance = lastCumulative + scheduledTotal
+      }
+    }
+
     return data
-  }, [transactions, initialBalance, monthsToShow])
+  }, [transactions, initialBalance, accounts, monthsToShow, scheduled, projectionMonths])
 
   if (chartData.length === 0) {
     return (
@@ -103,7 +167,10 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
   }
 
   // Find min/max for better visualization
-  const balances = chartData.map(d => d.cumulativeBalance)
+  const balances = chartData.flatMap(d =>
+    [d.cumulativeBalance, d.projectedBalance, ...(showAccounts ? Object.values(d.accountBalances) : [])]
+      .filter((v): v is number => v !== undefined)
+  )
   const minBalance = Math.min(...balances)
   const maxBalance = Math.max(...balances)
   const padding = Math.max(Math.abs(maxBalance - minBalance) * 0.1, 500)
@@ -155,7 +222,7 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
           }}
           domain={[minBalance - padding, maxBalance + padding]}
         />
-        <Tooltip content={<CustomTooltip />} />
+        <Tooltip content={<CustomTooltip accounts={showAccounts ? accounts : []} />} />
         <Legend
           verticalAlign="top"
           height={36}
@@ -164,6 +231,11 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
               income: 'Revenus',
               expenses: 'Dépenses',
               cumulativeBalance: 'Solde',
+              projectedBalance: 'Solde prévu',
+            }
+            const account = accounts.find(a => `accountBalances.${a.id}` === value)
+            if (account) {
+              return <span className="text-gray-400 text-xs">{account.name}</span>
             }
             return <span className="text-gray-400 text-xs">{labels[value] || value}</span>
           }}
@@ -198,6 +270,33 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
           dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
           activeDot={{ r: 6, fill: '#3b82f6' }}
         />
+
+        {/* Projected balance with scheduled entries */}
+        {chartData.some(d => d.projectedBalance !== undefined) && (
+          <Line
+            yAxisId="right"
+            type="monotone"
+            dataKey="projectedBalance"
+            stroke="#a78bfa"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            dot={{ fill: '#a78bfa', r: 3 }}
+          />
+        )}
+
+        {/* One dashed line per bank account */}
+        {showAccounts && accounts.map(account => (
+          <Line
+            key={account.id}
+            yAxisId="right"
+            type="monotone"
+            dataKey={`accountBalances.${account.id}`}
+            stroke={account.color}
+            strokeWidth={2}
+            strokeDasharray="5 3"
+            dot={false}
+          />
+        ))}
       </ComposedChart>
     </ResponsiveContainer>
   )
@@ -206,9 +305,10 @@ export const BalanceEvolutionChart = memo(function BalanceEvolutionChart({
 interface TooltipProps {
   active?: boolean
   payload?: Array<{ payload: MonthlyBalance; dataKey: string; color: string }>
+  accounts?: BankAccount[]
 }
 
-function CustomTooltip({ active, payload }: TooltipProps) {
+function CustomTooltip({ active, payload, accounts = [] }: TooltipProps) {
   if (!active || !payload?.length) return null
 
   const data = payload[0].payload
@@ -233,10 +333,26 @@ function CustomTooltip({ active, payload }: TooltipProps) {
             {data.balance >= 0 ? '+' : ''}{formatMoney(data.balance)}
           </span>
         </div>
-        <div className="flex justify-between gap-4 font-medium">
-          <span className="text-gray-300">Solde cumulé:</span>
-          <span className="text-blue-400">{formatMoney(data.cumulativeBalance)}</span>
-        </div>
+        {data.cumulativeBalance !== undefined && (
+          <div className="flex justify-between gap-4 font-medium">
+            <span className="text-gray-300">Solde cumulé:</span>
+            <span className="text-blue-400">{formatMoney(data.cumulativeBalance)}</span>
+          </div>
+        )}
+        {data.projectedBalance !== undefined && (
+          <div className="flex justify-between gap-4 font-medium">
+            <span className="text-gray-300">Solde prévu:</span>
+            <span className="text-violet-400">{formatMoney(data.projectedBalance)}</span>
+          </div>
+        )}
+        {data.cumulativeBalance !== undefined && accounts.map(account => (
+          <div key={account.id} className="flex justify-between gap-4 text-xs">
+            <span className="text-gray-500">{account.name}:</span>
+            <span style={{ color: account.color }}>
+              {formatMoney(data.accountBalances[account.id] ?? 0)}
+            </span>
+          </div>
+        ))}
       </div>
     </div>
   )
@@ -1,7 +1,8 @@
 import { memo } from 'react'
 import {
-  AreaChart,
+  ComposedChart,
   Area,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -26,14 +27,14 @@ export const CashFlowChart = memo(function CashFlowChart({ data }: CashFlowChart
   }
 
   // Find min/max for better visualization
-  const values = data.map(d => d.cumulativeBalance)
+  const values = data.flatMap(d => [d.cumulativeBalance, d.projectedBalance].filter((v): v is number => v !== undefined))
   const minValue = Math.min(...values, 0)
   const maxValue = Math.max(...values, 0)
   const padding = Math.max(Math.abs(maxValue - minValue) * 0.1, 100)
 
   return (
     <ResponsiveContainer width="100%" height="100%" minHeight={200}>
-      <AreaChart
+      <ComposedChart
         data={data}
         margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
       >
@@ -74,7 +75,17 @@ export const CashFlowChart = memo(function CashFlowChart({ data }: CashFlowChart
           dot={false}
           activeDot={{ r: 4, fill: '#3b82f6' }}
         />
-      </AreaChart>
+        {/* Projected balance with pending and scheduled entries */}
+        <Line
+          type="monotone"
+          dataKey="projectedBalance"
+          stroke="#a78bfa"
+          strokeWidth={2}
+          strokeDasharray="5 3"
+          dot={false}
+          activeDot={{ r: 4, fill: '#a78bfa' }}
+        />
+      </ComposedChart>
     </ResponsiveContainer>
   )
 })
@@ -107,12 +118,22 @@ function CustomTooltip({ active, payload }: TooltipProps) {
             {data.netFlow >= 0 ? '+' : ''}{formatMoney(data.netFlow)}
           </span>
         </div>
-        <div className="flex justify-between gap-4 font-medium">
-          <span className="text-gray-300">Solde cumulé:</span>
-          <span className={data.cumulativeBalance >= 0 ? 'text-blue-400' : 'text-red-400'}>
-            {formatMoney(data.cumulativeBalance)}
-          </span>
-        </div>
+        {data.cumulativeBalance !== undefined && (
+          <div className="flex justify-between gap-4 font-medium">
+            <span className="text-gray-300">Solde cumulé:</span>
+            <span className={data.cumulativeBalance >= 0 ? 'text-blue-400' : 'text-red-400'}>
+              {formatMoney(data.cumulativeBalance)}
+            </span>
+          </div>
+        )}
+        {data.projectedBalance !== undefined && (
+          <div className="flex justify-between gap-4 font-medium">
+            <span className="text-gray-300">Solde prévu:</span>
+            <span className={data.projectedBalance >= 0 ? 'text-violet-400' : 'text-red-400'}>
+              {formatMoney(data.projectedBalance)}
+            </span>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -1,5 +1,5 @@
 import { memo, useState } from 'react'
-import { Repeat, ChevronDown, ChevronUp } from 'lucide-react'
+import { Repeat, ChevronDown, ChevronUp, CalendarPlus, CalendarCheck } from 'lucide-react'
 import { formatMoney } from '@utils/formatters'
 import type { RecurringTransaction, Category } from '@/types'
 
@@ -7,12 +7,16 @@ interface RecurringExpensesListProps {
   recurring: RecurringTransaction[]
   categories: Category[]
   maxItems?: number
+  onSchedule?: (item: RecurringTransaction) => void
+  scheduledPatterns?: Set<string> // Patterns already turned into a schedule
 }
 
 export const RecurringExpensesList = memo(function RecurringExpensesList({
   recurring,
   categories,
   maxItems = 5,
+  onSchedule,
+  scheduledPatterns,
 }: RecurringExpensesListProps) {
   const [showAll, setShowAll] = useState(false)
 
@@ -37,6 +41,7 @@ export const RecurringExpensesList = memo(function RecurringExpensesList({
     <div className="space-y-2">
       {displayItems.map((item, index) => {
         const category = categoryMap.get(item.category)
+        const isScheduled = scheduledPatterns?.has(item.pattern)
         return (
           <div
             key={index}
@@ -56,13 +61,31 @@ export const RecurringExpensesList = memo(function RecurringExpensesList({
                 </p>
               </div>
             </div>
-            <div className="text-right flex-shrink-0 ml-2">
-              <p className="text-sm font-medium text-red-400">
-                -{formatMoney(item.totalAmount)}
-              </p>
-              <p className="text-xs text-gray-500">
-                ~{formatMoney(item.avgAmount)}/fois
-              </p>
+            <div className="flex items-center gap-1 flex-shrink-0 ml-2">
+              <div className="text-right">
+                <p className="text-sm font-medium text-red-400">
+                  -{formatMoney(item.totalAmount)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  ~{formatMoney(item.avgAmount)}/fois
+                </p>
+              </div>
+              {onSchedule && (
+                isScheduled ? (
+                  <span className="p-1.5 text-violet-400" title="Déjà dans l'échéancier">
+                    <CalendarCheck className="w-4 h-4" />
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => onSchedule(item)}
+                    className="p-1.5 text-gray-400 hover:text-violet-400 rounded transition-colors"
+                    title="Planifier dans l'échéancier"
+                    aria-label="Planifier dans l'échéancier"
+                  >
+                    <CalendarPlus className="w-4 h-4" />
+                  </button>
+                )
+              )}
             </div>
           </div>
         )
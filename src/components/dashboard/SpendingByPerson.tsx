@@ -1,6 +1,7 @@
 import { memo, useMemo } from 'react'
 import { User, Users } from 'lucide-react'
 import { formatMoney, formatPercent } from '@utils/formatters'
+import { expandSplits } from '@services/splits'
 import type { Transaction } from '@/types'
 
 interface SpendingByPersonProps {
@@ -20,8 +21,8 @@ export const SpendingByPerson = memo(function SpendingByPerson({
   householdMembers,
 }: SpendingByPersonProps) {
   const data = useMemo(() => {
-    // Only count expenses (negative amounts)
-    const expenses = transactions.filter(t => t.amount < 0)
+    // Only count expenses (negative amounts), a shared bill counts for each person's share
+    const expenses = expandSplits(transactions).filter(t => t.amount < 0)
     const totalExpenses = expenses.reduce((sum, t) => sum + Math.abs(t.amount), 0)
 
     // Group by assigned person
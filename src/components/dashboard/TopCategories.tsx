@@ -23,57 +23,90 @@ export const TopCategories = memo(function TopCategories({
   emptyMessage = 'Aucune depense ce mois',
 }: TopCategoriesProps) {
   const [showAll, setShowAll] = useState(false)
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
 
   const displayCategories = showAll ? categories : categories.slice(0, maxItems)
   const hasMore = categories.length > maxItems
   const maxAmount = categories[0]?.amount || 1
 
-  return (
-    <Card>
-      <CardTitle>{title}</CardTitle>
-      <div className="space-y-3 mt-4">
-        {displayCategories.map((cat) => {
-          const isSelected = selectedCategory === cat.categoryId
-          return (
-            <button
-              key={cat.categoryId}
-              onClick={() => onCategoryClick?.(cat.categoryId)}
-              className={`w-full flex items-center gap-3 p-2 -m-2 rounded-lg transition-all ${
-                onCategoryClick ? 'hover:bg-gray-700/50 cursor-pointer' : ''
-              } ${isSelected ? 'bg-gray-700/50 ring-2 ring-white/30' : ''}`}
+  const toggleExpanded = (categoryId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(categoryId)) next.delete(categoryId)
+      else next.add(categoryId)
+      return next
+    })
+  }
+
+  const renderCategory = (cat: CategoryStat, scale: number, depth: number) => {
+    const isSelected = selectedCategory === cat.categoryId
+    const isExpanded = expandedIds.has(cat.categoryId)
+    const percent = Math.round((cat.amount / scale) * 100)
+    return (
+      <div key={cat.categoryId} className={depth > 0 ? 'ml-6' : ''}>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => onCategoryClick?.(cat.categoryId)}
+            className={`flex-1 min-w-0 flex items-center gap-3 p-2 -m-2 rounded-lg transition-all ${
+              onCategoryClick ? 'hover:bg-gray-700/50 cursor-pointer' : ''
+            } ${isSelected ? 'bg-gray-700/50 ring-2 ring-white/30' : ''}`}
+          >
+            <div
+              className={`${depth > 0 ? 'w-8 h-8' : 'w-10 h-10'} rounded-lg flex items-center justify-center flex-shrink-0`}
+              style={{ backgroundColor: `${cat.color}20` }}
             >
-              <div
-                className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0"
-                style={{ backgroundColor: `${cat.color}20` }}
-              >
-                <CategoryIcon categoryId={cat.categoryId} color={cat.color} />
+              <CategoryIcon categoryId={cat.categoryId} color={cat.color} />
+            </div>
+            <div className="flex-1 text-left min-w-0">
+              <div className="flex justify-between items-center mb-1 gap-2">
+                <span className="text-sm font-medium truncate">{cat.name}</span>
+                <span className="text-sm text-gray-400 flex-shrink-0">
+                  {formatMoney(cat.amount)}
+                  <span className="text-xs ml-1">({cat.transactionCount})</span>
+                </span>
               </div>
-              <div className="flex-1 text-left min-w-0">
-                <div className="flex justify-between items-center mb-1 gap-2">
-                  <span className="text-sm font-medium truncate">{cat.name}</span>
-                  <span className="text-sm text-gray-400 flex-shrink-0">
-                    {formatMoney(cat.amount)}
-                    <span className="text-xs ml-1">({cat.transactionCount})</span>
-                  </span>
-                </div>
-                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
-                  <div
-                    className="h-full rounded-full transition-all duration-500"
-                    style={{
-                      width: `${(cat.amount / maxAmount) * 100}%`,
-                      backgroundColor: cat.color,
-                    }}
-                    role="progressbar"
-                    aria-valuenow={Math.round((cat.amount / maxAmount) * 100)}
-                    aria-valuemin={0}
-                    aria-valuemax={100}
-                    aria-label={`${cat.name}: ${formatMoney(cat.amount)} (${Math.round((cat.amount / maxAmount) * 100)}%)`}
-                  />
-                </div>
+              <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full transition-all duration-500"
+                  style={{
+                    width: `${(cat.amount / scale) * 100}%`,
+                    backgroundColor: cat.color,
+                  }}
+                  role="progressbar"
+                  aria-valuenow={percent}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-label={`${cat.name}: ${formatMoney(cat.amount)} (${percent}%)`}
+                />
               </div>
+            </div>
+          </button>
+          {cat.children && (
+            <button
+              onClick={() => toggleExpanded(cat.categoryId)}
+              className="p-1 ml-2 text-gray-400 hover:text-white rounded"
+              aria-label={isExpanded ? 'Masquer les sous-catégories' : 'Afficher les sous-catégories'}
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
             </button>
-          )
-        })}
+          )}
+        </div>
+        {/* Subcategories, bars relative to the parent */}
+        {cat.children && isExpanded && (
+          <div className="space-y-3 mt-3">
+            {cat.children.map(child => renderCategory(child, cat.amount || 1, depth + 1))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardTitle>{title}</CardTitle>
+      <div className="space-y-3 mt-4">
+        {displayCategories.map((cat) => renderCategory(cat, maxAmount, 0))}
         {displayCategories.length === 0 && (
           <p className="text-gray-500 text-center py-4">{emptyMessage}</p>
         )}
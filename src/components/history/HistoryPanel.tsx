@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { History, Undo2, Redo2, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react'
+import { Card, CardTitle, Button } from '@components/common'
+import { useHistory } from '@hooks/index'
+import { journalService } from '@services/db'
+import { describeEntry, getChangedFields, getTableLabel } from '@services/history'
+import type { JournalChange, JournalEntry } from '@/types'
+
+// Name of the record for the reader: description, name or pattern, its id otherwise
+function getRecordName(change: JournalChange): string {
+  const image = change.after ?? change.before ?? {}
+  const name = image.description ?? image.name ?? image.pattern ?? image.key
+  return typeof name === 'string' ? name : change.id.slice(0, 8)
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text
+}
+
+function ChangeDetails({ change }: { change: JournalChange }) {
+  const kind = !change.before ? 'Création' : !change.after ? 'Suppression' : null
+  return (
+    <div className="text-xs py-1.5 border-t border-gray-700/50">
+      <p className="text-gray-300">
+        <span className="text-gray-500">{getTableLabel(change.table)}</span> · {getRecordName(change)}
+        {kind && <span className="ml-2 text-gray-500">({kind})</span>}
+      </p>
+      {!kind && (
+        <div className="mt-0.5 space-y-0.5">
+          {getChangedFields(change).map(field => (
+            <p key={field} className="font-mono text-gray-400">
+              {field} : <span className="text-red-400/80">{formatValue(change.before?.[field])}</span>
+              {' → '}
+              <span className="text-green-400/80">{formatValue(change.after?.[field])}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface EntryRowProps {
+  entry: JournalEntry
+  onRevert: (id: string) => void
+}
+
+function EntryRow({ entry, onRevert }: EntryRowProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const isInactive = Boolean(entry.undoneAt || entry.revertedAt)
+
+  return (
+    <div className={`rounded-lg bg-gray-700/30 px-3 py-2 ${isInactive ? 'opacity-60' : ''}`}>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded
+            ? <ChevronDown className="w-4 h-4 text-gray-500 flex-shrink-0" />
+            : <ChevronRight className="w-4 h-4 text-gray-500 flex-shrink-0" />}
+          <div className="min-w-0">
+            <p className={`text-sm truncate ${isInactive ? 'text-gray-400 line-through' : 'text-white'}`}>
+              {describeEntry(entry)}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(entry.createdAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+              {' · '}{entry.changes.length} élément(s)
+              {entry.undoneAt && ' · annulée, Ctrl+Maj+Z pour rétablir'}
+              {entry.revertedAt && ' · annulée depuis l\'historique'}
+            </p>
+          </div>
+        </button>
+        {!isInactive && (
+          <button
+            onClick={() => onRevert(entry.id)}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-orange-400 flex-shrink-0"
+            title="Annuler cette modification seulement"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Annuler
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="mt-2 ml-6">
+          {entry.changes.map(change => (
+            <ChangeDetails key={`${change.table}:${change.id}`} change={change} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Journal of the changes to the data, newest first, each one revertable on its own
+ */
+export function HistoryPanel() {
+  const entries = useLiveQuery(() => journalService.getAll()) ?? []
+  const { undo, redo, revert } = useHistory()
+
+  const canUndo = entries.some(e => !e.undoneAt)
+  const canRedo = entries.some(e => e.undoneAt)
+
+  return (
+    <Card>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <CardTitle icon={<History className="w-5 h-5 text-blue-400" />}>
+          Modifications récentes
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={undo} disabled={!canUndo} leftIcon={<Undo2 className="w-4 h-4" />}>
+            Annuler
+          </Button>
+          <Button variant="secondary" size="sm" onClick={redo} disabled={!canRedo} leftIcon={<Redo2 className="w-4 h-4" />}>
+            Rétablir
+          </Button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4 text-center">
+          Aucune modification enregistrée pour l'instant.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <EntryRow key={entry.id} entry={entry} onRevert={revert} />
+          ))}
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,2 @@
+export { HistoryPanel } from './HistoryPanel'
+export { HistoryShortcuts } from './HistoryShortcuts'
@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { Columns, Save } from 'lucide-react'
+import { Button } from '@components/common'
+import type { ColumnMapping, ImportDateFormat, ImportSignConvention, ImportProfile } from '@/types'
+
+export interface MappingSettings {
+  mapping: ColumnMapping
+  dateFormat: ImportDateFormat
+  signConvention: ImportSignConvention
+}
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Libellé' },
+  { key: 'amount', label: 'Montant' },
+  { key: 'debit', label: 'Débit' },
+  { key: 'credit', label: 'Crédit' },
+  { key: 'type', label: 'Type' },
+  { key: 'balance', label: 'Solde' },
+]
+
+const DATE_FORMATS: { value: ImportDateFormat; label: string }[] = [
+  { value: 'DD/MM/YYYY', label: 'JJ/MM/AAAA' },
+  { value: 'MM/DD/YYYY', label: 'MM/JJ/AAAA (US)' },
+  { value: 'YYYY-MM-DD', label: 'AAAA-MM-JJ' },
+]
+
+const SIGN_CONVENTIONS: { value: ImportSignConvention; label: string }[] = [
+  { value: 'negative-debit', label: 'Négatif = dépense' },
+  { value: 'positive-debit', label: 'Positif = dépense' },
+]
+
+interface ColumnMappingEditorProps {
+  headers: string[]
+  settings: MappingSettings
+  profile: ImportProfile | null
+  onChange: (settings: MappingSettings) => void
+  onSaveProfile: (name: string) => Promise<void>
+}
+
+export function ColumnMappingEditor({
+  headers,
+  settings,
+  profile,
+  onChange,
+  onSaveProfile,
+}: ColumnMappingEditorProps) {
+  const [profileName, setProfileName] = useState(profile?.name ?? '')
+  const [saving, setSaving] = useState(false)
+
+  const handleColumnChange = (key: keyof ColumnMapping, value: string) => {
+    const mapping = { ...settings.mapping }
+    if (value === '') {
+      delete mapping[key]
+    } else {
+      mapping[key] = Number(value)
+    }
+    onChange({ ...settings, mapping })
+  }
+
+  const handleSave = async () => {
+    if (!profileName.trim()) return
+    setSaving(true)
+    try {
+      await onSaveProfile(profileName.trim())
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <details className="bg-gray-700/30 rounded-lg p-3" open={!profile}>
+      <summary className="text-sm text-gray-400 cursor-pointer flex items-center gap-2">
+        <Columns className="w-4 h-4" />
+        Colonnes
+        {profile && (
+          <span className="px-1.5 py-0.5 bg-green-500/20 text-green-400 text-xs rounded">
+            Profil « {profile.name} »
+          </span>
+        )}
+      </summary>
+
+      <div className="mt-3 grid grid-cols-2 gap-3">
+        {MAPPING_FIELDS.map(({ key, label }) => (
+          <label key={key} className="text-xs text-gray-500 space-y-1">
+            <span>{label}</span>
+            <select
+              value={settings.mapping[key] ?? ''}
+              onChange={(e) => handleColumnChange(key, e.target.value)}
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+            >
+              <option value="">— Aucune —</option>
+              {headers.map((header, i) => (
+                <option key={i} value={i}>
+                  {header || `Colonne ${i + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>Format de date</span>
+          <select
+            value={settings.dateFormat}
+            onChange={(e) => onChange({ ...settings, dateFormat: e.target.value as ImportDateFormat })}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {DATE_FORMATS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="text-xs text-gray-500 space-y-1">
+          <span>Signe du montant</span>
+          <select
+            value={settings.signConvention}
+            onChange={(e) => onChange({ ...settings, signConvention: e.target.value as ImportSignConvention })}
+            disabled={settings.mapping.amount === undefined}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50"
+          >
+            {SIGN_CONVENTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {settings.mapping.amount !== undefined &&
+        (settings.mapping.debit !== undefined || settings.mapping.credit !== undefined) && (
+        <p className="text-xs text-yellow-400 mt-2">
+          La colonne Montant est prioritaire sur Débit/Crédit.
+        </p>
+      )}
+
+      {/* Save as bank profile */}
+      <div className="mt-3 flex gap-2">
+        <input
+          type="text"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Nom du profil (ex: Boursorama)"
+          className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={handleSave}
+          isLoading={saving}
+          disabled={!profileName.trim()}
+          leftIcon={<Save className="w-4 h-4" />}
+        >
+          {profile ? 'Mettre à jour' : 'Enregistrer'}
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Le profil sera appliqué automatiquement aux prochains fichiers avec les mêmes colonnes.
+      </p>
+    </details>
+  )
+}
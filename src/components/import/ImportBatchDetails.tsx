@@ -0,0 +1,187 @@
+import { useState, useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { db } from '@services/db'
+import { getImportDiff, type ImportDiffStatus } from '@services/import'
+import { formatDate, formatMoney } from '@utils/formatters'
+import type { ImportBatch, ImportedRow, Category, Transaction } from '@/types'
+
+type Tab = 'rows' | 'errors' | 'changes'
+
+interface ImportBatchDetailsProps {
+  batch: ImportBatch
+  categories: Category[]
+}
+
+const STATUS_STYLES: Record<ImportDiffStatus, { sign: string; className: string; label: string }> = {
+  added: { sign: '+', className: 'text-green-400', label: 'Ajoutée' },
+  modified: { sign: '~', className: 'text-amber-400', label: 'Modifiée depuis' },
+  deleted: { sign: '−', className: 'text-red-400', label: 'Supprimée depuis' },
+}
+
+export function ImportBatchDetails({ batch, categories }: ImportBatchDetailsProps) {
+  const [tab, setTab] = useState<Tab>('rows')
+
+  const current = useLiveQuery(
+    () => db.transactions.where('importId').equals(batch.id).toArray(),
+    [batch.id]
+  )
+  // Older transactions the import recategorized
+  const changedTransactionIds = (batch.changes ?? [])
+    .filter(c => c.table === 'transactions')
+    .map(c => c.id)
+    .join(',')
+  const changedTransactions = useLiveQuery(
+    () => db.transactions.bulkGet(changedTransactionIds ? changedTransactionIds.split(',') : []),
+    [changedTransactionIds]
+  )
+
+  const categoryNames = useMemo(() => new Map(categories.map(c => [c.id, c.name])), [categories])
+  const diff = useMemo(() => getImportDiff(batch, current ?? []), [batch, current])
+  const changedById = useMemo(() => {
+    const map = new Map<string, Transaction>()
+    for (const t of changedTransactions ?? []) {
+      if (t) map.set(t.id, t)
+    }
+    return map
+  }, [changedTransactions])
+
+  const formatValue = (key: string, value: unknown): string => {
+    if (value === undefined || value === null) return '—'
+    if (key === 'category' || key === 'categoryId') return categoryNames.get(String(value)) ?? String(value)
+    if (Array.isArray(value)) return value.map(v => `#${v}`).join(' ')
+    return String(value)
+  }
+
+  const tabs: { id: Tab; label: string; count: number }[] = [
+    { id: 'rows', label: 'Lignes', count: diff.length },
+    { id: 'errors', label: 'Erreurs', count: batch.errors?.length ?? 0 },
+    { id: 'changes', label: 'Autres modifications', count: batch.changes?.length ?? 0 },
+  ]
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-700">
+      <div className="flex gap-1 mb-3" role="tablist">
+        {tabs.map(t => (
+          <button
+            key={t.id}
+            role="tab"
+            aria-selected={tab === t.id}
+            onClick={() => setTab(t.id)}
+            className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+              tab === t.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {t.label} <span className="text-xs text-gray-500">{t.count}</span>
+          </button>
+        ))}
+      </div>
+
+      {tab === 'rows' && (
+        diff.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">
+            {batch.status === 'rolled-back' ? 'Import annulé, ses lignes ont été supprimées.' : 'Aucune ligne.'}
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-gray-700/50">
+                {diff.map(row => {
+                  const style = STATUS_STYLES[row.status]
+                  const changed = (field: keyof ImportedRow) => row.changedFields.includes(field)
+                  return (
+                    <tr key={row.imported.id} title={style.label}>
+                      <td className={`py-1.5 pr-2 font-mono font-bold ${style.className}`}>{style.sign}</td>
+                      <td className="py-1.5 pr-2 text-gray-400 whitespace-nowrap">
+                        {formatDate(row.imported.date)}
+                        {changed('date') && row.current && <span className="text-amber-400"> → {formatDate(row.current.date)}</span>}
+                      </td>
+                      <td className={`py-1.5 pr-2 ${row.status === 'deleted' ? 'line-through text-gray-500' : 'text-white'}`}>
+                        {row.imported.description}
+                        {changed('description') && row.current && (
+                          <span className="block text-xs text-amber-400">→ {row.current.description}</span>
+                        )}
+                      </td>
+                      <td className="py-1.5 pr-2 text-gray-400 whitespace-nowrap">
+                        {formatValue('category', row.imported.category)}
+                        {changed('category') && row.current && (
+                          <span className="text-amber-400"> → {formatValue('category', row.current.category)}</span>
+                        )}
+                      </td>
+                      <td className="py-1.5 text-right whitespace-nowrap">
+                        {formatMoney(row.imported.amount)}
+                        {changed('amount') && row.current && (
+                          <span className="block text-xs text-amber-400">→ {formatMoney(row.current.amount)}</span>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {tab === 'errors' && (
+        (batch.errors?.length ?? 0) === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">Toutes les lignes du fichier ont été lues.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="pb-2 font-medium" scope="col">Ligne</th>
+                  <th className="pb-2 font-medium" scope="col">Champ</th>
+                  <th className="pb-2 font-medium" scope="col">Erreur</th>
+                  <th className="pb-2 font-medium" scope="col">Valeur</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700/50">
+                {batch.errors!.map((e, i) => (
+                  <tr key={i}>
+                    <td className="py-1.5 pr-2 text-gray-400">{e.row}</td>
+                    <td className="py-1.5 pr-2 text-gray-400">{e.field}</td>
+                    <td className="py-1.5 pr-2 text-red-400">{e.message}</td>
+                    <td className="py-1.5 text-gray-500 font-mono text-xs truncate max-w-[200px]">
+                      {e.value === undefined || e.value === null ? '—' : String(e.value)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+
+      {tab === 'changes' && (
+        (batch.changes?.length ?? 0) === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">
+            Cet import n'a modifié aucune autre transaction ni règle.
+          </p>
+        ) : (
+          <ul className="space-y-1.5 max-h-80 overflow-y-auto custom-scrollbar text-sm">
+            {batch.changes!.map((change, i) => (
+              <li key={i} className="flex flex-wrap gap-x-2 text-gray-300">
+                {change.deleted ? (
+                  <span className="text-gray-500">
+                    Opération prévue rapprochée : {String(change.before.description)} ({formatMoney(Number(change.before.amount))})
+                  </span>
+                ) : (
+                  <span className="text-gray-500">
+                    {change.table === 'rules' ? 'Règle apprise' : changedById.get(change.id)?.description ?? 'Transaction supprimée'}
+                  </span>
+                )}
+                {Object.keys(change.after).map(key => (
+                  <span key={key}>
+                    {formatValue(key, change.before[key])}
+                    <span className="text-amber-400"> → {formatValue(key, change.after[key])}</span>
+                  </span>
+                ))}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  )
+}
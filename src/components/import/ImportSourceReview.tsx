@@ -0,0 +1,167 @@
+import { useMemo } from 'react'
+import { Plus, HelpCircle, Copy } from 'lucide-react'
+import { formatDate, formatMoney } from '@utils/formatters'
+import type { ReconciledTransaction, DuplicateStatus } from '@services/import'
+
+interface ImportSourceReviewProps {
+  rows: ReconciledTransaction[]
+  approvedIds: Set<string>
+  onToggle: (id: string) => void
+  onToggleGroup: (rows: ReconciledTransaction[], approve: boolean) => void
+}
+
+/**
+ * Rows of one imported file (or sheet) grouped by duplicate status, to approve before import
+ */
+export function ImportSourceReview({ rows, approvedIds, onToggle, onToggleGroup }: ImportSourceReviewProps) {
+  const byStatus = useMemo(() => {
+    const groups: Record<DuplicateStatus, ReconciledTransaction[]> = { new: [], likely: [], exact: [] }
+    for (const r of rows) {
+      groups[r.status].push(r)
+    }
+    return groups
+  }, [rows])
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <p className="text-sm text-gray-400">Nouvelles</p>
+          <p className="text-2xl font-bold text-green-400">{byStatus.new.length}</p>
+        </div>
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <p className="text-sm text-gray-400">Doublons probables</p>
+          <p className="text-2xl font-bold text-yellow-400">{byStatus.likely.length}</p>
+        </div>
+        <div className="bg-gray-700/50 rounded-lg p-4">
+          <p className="text-sm text-gray-400">Déjà importées</p>
+          <p className="text-2xl font-bold text-gray-400">{byStatus.exact.length}</p>
+        </div>
+      </div>
+
+      {/* Review: approve rows group by group */}
+      {REVIEW_GROUPS.map(group => (
+        <ReviewGroup
+          key={group.status}
+          {...group}
+          rows={byStatus[group.status]}
+          approvedIds={approvedIds}
+          onToggle={onToggle}
+          onToggleAll={(approve) => onToggleGroup(byStatus[group.status], approve)}
+        />
+      ))}
+    </div>
+  )
+}
+
+const REVIEW_GROUPS: {
+  status: DuplicateStatus
+  title: string
+  description: string
+  icon: typeof Plus
+  color: string
+}[] = [
+  {
+    status: 'new',
+    title: 'Nouvelles transactions',
+    description: 'Absentes de vos données, importées par défaut',
+    icon: Plus,
+    color: 'text-green-400',
+  },
+  {
+    status: 'likely',
+    title: 'Doublons probables',
+    description: 'Même montant à quelques jours près avec un libellé proche',
+    icon: HelpCircle,
+    color: 'text-yellow-400',
+  },
+  {
+    status: 'exact',
+    title: 'Déjà importées',
+    description: 'Même date, montant, libellé et position dans la journée, ou déjà dans un fichier précédent de la file',
+    icon: Copy,
+    color: 'text-gray-400',
+  },
+]
+
+interface ReviewGroupProps {
+  status: DuplicateStatus
+  title: string
+  description: string
+  icon: typeof Plus
+  color: string
+  rows: ReconciledTransaction[]
+  approvedIds: Set<string>
+  onToggle: (id: string) => void
+  onToggleAll: (approve: boolean) => void
+}
+
+function ReviewGroup({
+  status,
+  title,
+  description,
+  icon: Icon,
+  color,
+  rows,
+  approvedIds,
+  onToggle,
+  onToggleAll,
+}: ReviewGroupProps) {
+  if (rows.length === 0) return null
+
+  const approvedCount = rows.filter(r => approvedIds.has(r.transaction.id)).length
+  const allApproved = approvedCount === rows.length
+
+  return (
+    <details className="bg-gray-700/30 rounded-lg p-3" open={status !== 'exact'}>
+      <summary className="cursor-pointer flex items-center justify-between gap-2">
+        <span className={`flex items-center gap-2 text-sm font-medium ${color}`}>
+          <Icon className="w-4 h-4" />
+          {title} ({approvedCount}/{rows.length})
+        </span>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.preventDefault()
+            onToggleAll(!allApproved)
+          }}
+          className="text-xs text-blue-400 hover:text-blue-300"
+        >
+          {allApproved ? 'Tout exclure' : 'Tout inclure'}
+        </button>
+      </summary>
+      <p className="text-xs text-gray-500 mt-1 mb-2">{description}</p>
+      <div className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar text-sm">
+        {rows.map(({ transaction: t, match }) => (
+          <label
+            key={t.id}
+            className="flex items-start gap-3 py-1.5 px-2 rounded hover:bg-gray-700/50 cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={approvedIds.has(t.id)}
+              onChange={() => onToggle(t.id)}
+              className="mt-1 w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500 cursor-pointer"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between gap-3">
+                <span className="truncate">
+                  <span className="text-gray-400 mr-2">{formatDate(t.date)}</span>
+                  {t.description}
+                </span>
+                <span className={`flex-shrink-0 ${t.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {t.amount >= 0 ? '+' : ''}{formatMoney(t.amount)}
+                </span>
+              </div>
+              {match && (
+                <p className="text-xs text-gray-500 truncate">
+                  Existante : {formatDate(match.date)} • {match.description}
+                </p>
+              )}
+            </div>
+          </label>
+        ))}
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,4 @@
+export { ColumnMappingEditor } from './ColumnMappingEditor'
+export type { MappingSettings } from './ColumnMappingEditor'
+export { ImportBatchDetails } from './ImportBatchDetails'
+export { ImportSourceReview } from './ImportSourceReview'
@@ -0,0 +1,180 @@
+import { useState, useCallback } from 'react'
+import { Stethoscope, Wrench, CheckCircle, AlertTriangle } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { useHistory } from '@hooks/index'
+import { TABLE_LABELS } from '@utils/constants'
+import {
+  checkIntegrity,
+  applyRepairs,
+  type IntegrityReport,
+  type IntegrityRepair,
+  type RepairChange,
+} from '@services/integrity'
+
+// Repairs waiting for confirmation, with the label of the journal entry they make
+interface PendingRepair {
+  label: string
+  repairs: IntegrityRepair[]
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Oui' : 'Non'
+  if (typeof value === 'string' || typeof value === 'number') return String(value)
+  const json = JSON.stringify(value)
+  return json.length > 80 ? `${json.slice(0, 77)}…` : json
+}
+
+function ChangeLine({ change }: { change: RepairChange }) {
+  const table = TABLE_LABELS[change.table] ?? change.table
+  return (
+    <li>
+      <span className="text-gray-500">{table} · </span>
+      <span className="text-gray-300">{change.name}</span>
+      {change.type === 'add' && <span className="text-green-400"> · ajout</span>}
+      {change.type === 'delete' && <span className="text-red-400"> · suppression</span>}
+      {change.type === 'update' && change.fields.map(f => (
+        <span key={f.field}> · {f.field} : {formatValue(f.before)} → <span className="text-blue-400">{formatValue(f.after)}</span></span>
+      ))}
+    </li>
+  )
+}
+
+/**
+ * Diagnostic of the references between tables and of the amounts computed from
+ * other records, with repairs previewed before they are written
+ */
+export function IntegrityChecker() {
+  const toast = useToast()
+  const { undoAction } = useHistory()
+  const [report, setReport] = useState<IntegrityReport | null>(null)
+  const [pending, setPending] = useState<PendingRepair | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const runCheck = useCallback(async () => {
+    setIsWorking(true)
+    try {
+      setReport(await checkIntegrity())
+    } catch (err) {
+      toast.error('Diagnostic impossible', (err as Error).message)
+    } finally {
+      setIsWorking(false)
+    }
+  }, [toast])
+
+  const handleApply = useCallback(async () => {
+    if (!pending) return
+    setIsWorking(true)
+    try {
+      const count = await applyRepairs(pending.repairs, pending.label)
+      toast.success('Réparation effectuée', `${count} enregistrement(s) modifié(s)`, undoAction)
+    } catch (err) {
+      toast.error('Réparation impossible', (err as Error).message)
+    } finally {
+      setPending(null)
+      setReport(await checkIntegrity())
+      setIsWorking(false)
+    }
+  }, [pending, toast, undoAction])
+
+  const repairable = report?.issues.filter(issue => issue.repairs.length > 0) ?? []
+  const pendingChanges = pending?.repairs.flatMap(r => r.changes) ?? []
+
+  return (
+    <Card>
+      <CardTitle icon={<Stethoscope className="w-5 h-5 text-teal-400" />}>
+        Diagnostic
+      </CardTitle>
+      <p className="text-gray-400 text-sm mt-2 mb-4">
+        Vérifie les liens entre vos données (catégories, comptes, objectifs supprimés) et les montants
+        calculés à partir d'autres enregistrements (soldes des comptes de patrimoine, montants épargnés).
+        Chaque réparation est prévisualisée avant d'être appliquée et peut être annulée.
+      </p>
+
+      <div className="flex flex-wrap gap-3">
+        <Button
+          variant="secondary"
+          onClick={runCheck}
+          isLoading={isWorking && !pending}
+          leftIcon={<Stethoscope className="w-4 h-4" />}
+        >
+          Lancer le diagnostic
+        </Button>
+        {repairable.length > 1 && (
+          <Button
+            variant="ghost"
+            onClick={() => setPending({ label: 'Tout réparer', repairs: repairable.map(issue => issue.repairs[0]) })}
+            disabled={isWorking}
+            leftIcon={<Wrench className="w-4 h-4" />}
+          >
+            Tout réparer ({repairable.length})
+          </Button>
+        )}
+      </div>
+
+      {report && (
+        <div className="mt-4 space-y-3">
+          {report.issues.length === 0 ? (
+            <p className="text-sm text-green-400 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              {report.recordCount} enregistrement(s) vérifié(s), aucune incohérence
+            </p>
+          ) : (
+            <p className="text-sm text-yellow-400 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" />
+              {report.issues.length} incohérence(s) sur {report.recordCount} enregistrement(s)
+            </p>
+          )}
+
+          {report.issues.map(issue => (
+            <div key={issue.key} className="p-3 bg-gray-700/50 rounded-lg text-sm">
+              <p className="text-xs text-gray-400">
+                {TABLE_LABELS[issue.table] ?? issue.table} · <span className="text-gray-300">{issue.name}</span>
+              </p>
+              <p className="text-white mt-1">{issue.cause}</p>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {issue.repairs.map(repair => (
+                  <Button
+                    key={repair.label}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPending({ label: repair.label, repairs: [repair] })}
+                    disabled={isWorking}
+                  >
+                    {repair.label}
+                  </Button>
+                ))}
+                {issue.repairs.length === 0 && (
+                  <span className="text-xs text-gray-500">Aucune réparation automatique, corrigez l'enregistrement à la main</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Preview of the repairs before they are written */}
+      {pending && (
+        <div className="mt-4 rounded-lg border border-teal-500/50 bg-teal-500/10 p-4 space-y-3">
+          <p className="font-medium text-white">
+            {pending.label} : {pendingChanges.length} enregistrement(s) modifié(s)
+          </p>
+          <ul className="max-h-64 overflow-y-auto space-y-0.5 text-xs text-gray-400 break-words">
+            {pendingChanges.map((change, i) => <ChangeLine key={`${change.table}:${change.id}:${i}`} change={change} />)}
+          </ul>
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              onClick={handleApply}
+              isLoading={isWorking}
+              leftIcon={<Wrench className="w-4 h-4" />}
+            >
+              Appliquer
+            </Button>
+            <Button variant="ghost" onClick={() => setPending(null)} disabled={isWorking}>Annuler</Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1 @@
+export { IntegrityChecker } from './IntegrityChecker'
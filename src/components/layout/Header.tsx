@@ -1,8 +1,9 @@
 import { memo } from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { LayoutDashboard, Upload, Settings, FileText, Tags, PiggyBank, Target } from 'lucide-react'
+import { LayoutDashboard, Upload, Settings, FileText, Tags, PiggyBank, Target, Wand2, Hash, CalendarClock, Repeat, History } from 'lucide-react'
 import { clsx } from 'clsx'
 import { PeriodSelector } from '@components/common'
+import { SyncIndicator } from '@components/sync'
 import type { Period } from '@/types'
 
 const navItems = [
@@ -12,6 +13,11 @@ const navItems = [
   { path: '/import', label: 'Import', icon: Upload },
   { path: '/transactions', label: 'Transactions', icon: FileText },
   { path: '/categories', label: 'Categories', icon: Tags },
+  { path: '/rules', label: 'Regles', icon: Wand2 },
+  { path: '/tags', label: 'Tags', icon: Hash },
+  { path: '/schedules', label: 'Echeancier', icon: CalendarClock },
+  { path: '/subscriptions', label: 'Abonnements', icon: Repeat },
+  { path: '/history', label: 'Historique', icon: History },
   { path: '/settings', label: 'Parametres', icon: Settings },
 ]
 
@@ -61,14 +67,19 @@ export const Header = memo(function Header({
             })}
           </nav>
 
-          {/* Period selector */}
-          {selectedPeriod && months.length > 0 && onPeriodChange && (
-            <PeriodSelector
-              selectedPeriod={selectedPeriod}
-              availableMonths={months}
-              onPeriodChange={onPeriodChange}
-            />
-          )}
+          <div className="flex items-center gap-2">
+            {/* Sync status */}
+            <SyncIndicator />
+
+            {/* Period selector */}
+            {selectedPeriod && months.length > 0 && onPeriodChange && (
+              <PeriodSelector
+                selectedPeriod={selectedPeriod}
+                availableMonths={months}
+                onPeriodChange={onPeriodChange}
+              />
+            )}
+          </div>
         </div>
 
         {/* Mobile navigation */}
@@ -0,0 +1,280 @@
+import { useState, useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { X, CalendarClock, Plus, Trash2, Link, Check } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { db, journal, liabilityService, netWorthSnapshotService } from '@services/db'
+import { buildAmortizationSchedule, getLegalPenalty, linkLoanPayments, matchInstallments, refreshLoan, summarizeLoan } from '@services/loans'
+import { formatMoney, formatDate, getToday } from '@utils/formatters'
+import type { EarlyRepayment, Liability } from '@/types'
+
+interface AmortizationModalProps {
+  liability: Liability
+  onClose: () => void
+}
+
+const KEEP_LABELS: Record<EarlyRepayment['keep'], string> = {
+  payment: 'Même échéance, durée réduite',
+  duration: 'Même durée, échéance réduite',
+}
+
+function SummaryItem({ label, value, className = 'text-white' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="p-3 bg-gray-700/30 rounded-lg">
+      <p className="text-xs text-gray-400">{label}</p>
+      <p className={`font-semibold ${className}`}>{value}</p>
+    </div>
+  )
+}
+
+/**
+ * Amortization schedule of a loan: principal and interest of each installment,
+ * the bank debit that paid it, and the early repayments
+ */
+export function AmortizationModal({ liability: initial, onClose }: AmortizationModalProps) {
+  const toast = useToast()
+  const liability = useLiveQuery(() => db.liabilities.get(initial.id), [initial.id]) ?? initial
+  const payments = useLiveQuery(() => db.transactions.where('liabilityId').equals(initial.id).toArray(), [initial.id]) ?? []
+  const [date, setDate] = useState(getToday)
+  const [amount, setAmount] = useState('')
+  const [penalty, setPenalty] = useState('')
+  const [keep, setKeep] = useState<EarlyRepayment['keep']>('payment')
+  const [isWorking, setIsWorking] = useState(false)
+
+  const today = getToday()
+  const schedule = useMemo(() => buildAmortizationSchedule(liability), [liability])
+  const summary = useMemo(() => summarizeLoan(schedule, liability.initialAmount ?? 0, today), [schedule, liability.initialAmount, today])
+  const rows = useMemo(() => matchInstallments(schedule, payments), [schedule, payments])
+  const penalties = new Map(schedule.flatMap(i => i.earlyRepayments).map(r => [r.id, r.penalty]))
+
+  const repaymentAmount = parseFloat(amount)
+  const legalPenalty = repaymentAmount > 0
+    ? getLegalPenalty(repaymentAmount, summary.remainingBalance, liability.interestRate ?? 0)
+    : undefined
+
+  // The repayments and the balance computed from them are undone together
+  const saveRepayments = async (earlyRepayments: EarlyRepayment[], label: string) => {
+    setIsWorking(true)
+    try {
+      await journal.withLabel(label, async () => {
+        await liabilityService.update(liability.id, { earlyRepayments })
+        await refreshLoan({ ...liability, earlyRepayments })
+      })
+      await netWorthSnapshotService.createSnapshot()
+      return true
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+      return false
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleAddRepayment = async () => {
+    if (!(repaymentAmount > 0) || !date) return
+    const repayment: EarlyRepayment = {
+      id: crypto.randomUUID(),
+      date,
+      amount: repaymentAmount,
+      penalty: penalty === '' ? undefined : parseFloat(penalty),
+      keep,
+    }
+    const saved = await saveRepayments(
+      [...(liability.earlyRepayments ?? []), repayment],
+      `Remboursement anticipé sur ${liability.name}`
+    )
+    if (saved) {
+      toast.success('Remboursement anticipé ajouté', `${formatMoney(repaymentAmount)} le ${formatDate(date)}`)
+      setAmount('')
+      setPenalty('')
+    }
+  }
+
+  const handleDeleteRepayment = (id: string) => saveRepayments(
+    (liability.earlyRepayments ?? []).filter(r => r.id !== id),
+    `Suppression d'un remboursement anticipé sur ${liability.name}`
+  )
+
+  const handleLink = async () => {
+    setIsWorking(true)
+    try {
+      const linked = await journal.withLabel(`Prélèvements rattachés à ${liability.name}`, () => linkLoanPayments(liability))
+      if (linked > 0) {
+        toast.success('Prélèvements rattachés', `${linked} prélèvement(s) rattaché(s) aux échéances`)
+      } else {
+        toast.info('Aucun nouveau prélèvement', 'Vérifiez le libellé du prélèvement et le montant des échéances')
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <CardTitle icon={<CalendarClock className="w-5 h-5 text-red-400" />}>
+            Échéancier · {liability.name}
+          </CardTitle>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <SummaryItem label="Capital restant dû" value={formatMoney(summary.remainingBalance)} className="text-red-400" />
+          <SummaryItem label="Intérêts payés à ce jour" value={formatMoney(summary.interestPaid)} />
+          <SummaryItem label="Assurance payée à ce jour" value={formatMoney(summary.insurancePaid)} />
+          <SummaryItem label="Fin prévue" value={summary.payoffDate ? formatDate(summary.payoffDate) : '—'} className="text-green-400" />
+          <SummaryItem label="Échéances passées" value={`${summary.paidCount} / ${summary.totalCount}`} />
+          <SummaryItem label="Prélèvements rattachés" value={String(payments.length)} />
+          <SummaryItem label="Intérêts sur la durée" value={formatMoney(summary.totalInterest)} />
+          <SummaryItem label="Coût total du crédit" value={formatMoney(summary.totalCost)} />
+        </div>
+
+        {/* Early repayments */}
+        <div className="mt-6">
+          <h3 className="font-medium text-white mb-2">Remboursements anticipés</h3>
+          {(liability.earlyRepayments ?? []).length > 0 && (
+            <div className="space-y-2 mb-3">
+              {[...liability.earlyRepayments!].sort((a, b) => a.date.localeCompare(b.date)).map(repayment => (
+                <div key={repayment.id} className="flex items-center justify-between p-2 bg-gray-700/30 rounded-lg text-sm">
+                  <div>
+                    <span className="text-white font-medium">{formatMoney(repayment.amount)}</span>
+                    <span className="text-gray-400"> le {formatDate(repayment.date)} · {KEEP_LABELS[repayment.keep]}</span>
+                    <span className="text-gray-500">
+                      {' · '}indemnité {formatMoney(penalties.get(repayment.id) ?? repayment.penalty ?? 0)}
+                      {repayment.penalty === undefined && ' (plafond légal)'}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteRepayment(repayment.id)}
+                    disabled={isWorking}
+                    className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Date</label>
+              <input
+                type="date"
+                value={date}
+                onChange={e => setDate(e.target.value)}
+                className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Montant</label>
+              <input
+                type="number"
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                placeholder="0.00"
+                className="w-32 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Indemnité</label>
+              <input
+                type="number"
+                value={penalty}
+                onChange={e => setPenalty(e.target.value)}
+                placeholder={legalPenalty !== undefined ? `${legalPenalty} (légal)` : 'Plafond légal'}
+                className="w-36 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+              />
+            </div>
+            <select
+              value={keep}
+              onChange={e => setKeep(e.target.value as EarlyRepayment['keep'])}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+            >
+              {(Object.keys(KEEP_LABELS) as EarlyRepayment['keep'][]).map(option => (
+                <option key={option} value={option}>{KEEP_LABELS[option]}</option>
+              ))}
+            </select>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={handleAddRepayment}
+              disabled={!(repaymentAmount > 0) || !date || isWorking}
+              leftIcon={<Plus className="w-4 h-4" />}
+            >
+              Ajouter
+            </Button>
+          </div>
+        </div>
+
+        {/* Schedule */}
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-medium text-white">Échéances</h3>
+            <Button variant="ghost" size="sm" onClick={handleLink} isLoading={isWorking} leftIcon={<Link className="w-4 h-4" />}>
+              Rattacher les prélèvements
+            </Button>
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-800 text-xs text-gray-400">
+                <tr className="text-right">
+                  <th className="py-2 text-left">N°</th>
+                  <th className="py-2 text-left">Date</th>
+                  <th className="py-2">Échéance</th>
+                  <th className="py-2">Capital</th>
+                  <th className="py-2">Intérêts</th>
+                  <th className="py-2">Assurance</th>
+                  <th className="py-2">Restant dû</th>
+                  <th className="py-2 pl-3 text-left">Prélèvement</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ installment, transaction }) => {
+                  const isPast = installment.date <= today
+                  return (
+                    <tr
+                      key={installment.number}
+                      className={`border-t border-gray-700/50 text-right ${isPast ? 'text-gray-500' : 'text-gray-300'}`}
+                    >
+                      <td className="py-1.5 text-left">{installment.number}</td>
+                      <td className="py-1.5 text-left">
+                        {formatDate(installment.date)}
+                        {installment.isDeferred && <span className="ml-1 text-xs text-yellow-400">différé</span>}
+                        {installment.earlyRepayments.map(r => (
+                          <span key={r.id} className="block text-xs text-blue-400">
+                            Remboursement anticipé {formatMoney(r.amount)}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="py-1.5 text-white">{formatMoney(installment.payment + installment.insurance)}</td>
+                      <td className="py-1.5">{formatMoney(installment.principal)}</td>
+                      <td className="py-1.5">{formatMoney(installment.interest)}</td>
+                      <td className="py-1.5">{formatMoney(installment.insurance)}</td>
+                      <td className="py-1.5">{formatMoney(installment.balanceAfter)}</td>
+                      <td className="py-1.5 pl-3 text-left">
+                        {transaction ? (
+                          <span className="inline-flex items-center gap-1 text-green-400" title={transaction.description}>
+                            <Check className="w-3.5 h-3.5" />
+                            {formatDate(transaction.date)}
+                          </span>
+                        ) : isPast && installment.payment + installment.insurance > 0 ? (
+                          <span className="text-yellow-400">Non trouvé</span>
+                        ) : (
+                          <span>—</span>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,322 @@
+import { useState } from 'react'
+import { X, Plus, Edit2, Home, Car, ShoppingBag, CreditCard } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { journal, liabilityService, netWorthSnapshotService } from '@services/db'
+import { addMonths } from '@services/recurring'
+import { buildAmortizationSchedule, getLoanDuration, hasLoanTerms, refreshLoan, summarizeLoan } from '@services/loans'
+import { formatMoney, formatDate, getToday } from '@utils/formatters'
+import { LIABILITY_TYPES } from '@/types'
+import type { Liability, LiabilityType, LoanDeferralType } from '@/types'
+
+// Icon mapping
+const ICONS: Record<string, React.ComponentType<{ className?: string; style?: React.CSSProperties }>> = {
+  Home,
+  ShoppingBag,
+  Car,
+  CreditCard,
+}
+
+interface LiabilityModalProps {
+  liability?: Liability // Edited, a new one otherwise
+  onClose: () => void
+}
+
+function parseAmount(value: string): number | undefined {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Add or edit a debt. With the loan terms, its balance follows the amortization
+ * schedule; without them it is typed by hand.
+ */
+export function LiabilityModal({ liability, onClose }: LiabilityModalProps) {
+  const toast = useToast()
+  const [type, setType] = useState<LiabilityType>(liability?.type ?? 'credit-immobilier')
+  const [name, setName] = useState(liability?.name ?? '')
+  const [institution, setInstitution] = useState(liability?.institution ?? '')
+  const [initialAmount, setInitialAmount] = useState(liability?.initialAmount?.toString() ?? '')
+  const [interestRate, setInterestRate] = useState(liability?.interestRate?.toString() ?? '')
+  const [startDate, setStartDate] = useState(liability?.startDate ?? '')
+  const [duration, setDuration] = useState(
+    liability?.startDate && liability.endDate ? getLoanDuration(liability.startDate, liability.endDate).toString() : ''
+  )
+  const [insuranceMonthly, setInsuranceMonthly] = useState(liability?.insuranceMonthly?.toString() ?? '')
+  const [deferralMonths, setDeferralMonths] = useState(liability?.deferralMonths?.toString() ?? '')
+  const [deferralType, setDeferralType] = useState<LoanDeferralType>(liability?.deferralType ?? 'partial')
+  const [paymentPattern, setPaymentPattern] = useState(liability?.paymentPattern ?? '')
+  const [remainingBalance, setRemainingBalance] = useState(liability?.remainingBalance.toString() ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const months = parseInt(duration, 10)
+  const terms = {
+    initialAmount: parseAmount(initialAmount),
+    interestRate: parseAmount(interestRate) ?? 0,
+    startDate: startDate || undefined,
+    endDate: startDate && months > 0 ? addMonths(startDate, months - 1) : undefined,
+    insuranceMonthly: parseAmount(insuranceMonthly),
+    deferralMonths: parseInt(deferralMonths, 10) || undefined,
+    deferralType: parseInt(deferralMonths, 10) > 0 ? deferralType : undefined,
+    earlyRepayments: liability?.earlyRepayments,
+  }
+  const isLoan = hasLoanTerms(terms)
+
+  // Installment and payoff of the loan as typed
+  const schedule = isLoan ? buildAmortizationSchedule(terms) : []
+  const preview = isLoan ? {
+    payment: schedule.find(i => !i.isDeferred)?.payment ?? 0,
+    summary: summarizeLoan(schedule, terms.initialAmount!),
+  } : null
+
+  const canSave = !!name.trim() && (isLoan || parseAmount(remainingBalance) !== undefined)
+
+  const handleSave = async () => {
+    if (!canSave) return
+    setIsSaving(true)
+    try {
+      const now = new Date().toISOString()
+      const data: Liability = {
+        id: liability?.id ?? crypto.randomUUID(),
+        name: name.trim(),
+        type,
+        institution: institution.trim() || undefined,
+        remainingBalance: isLoan ? liability?.remainingBalance ?? terms.initialAmount! : parseAmount(remainingBalance)!,
+        initialAmount: terms.initialAmount,
+        interestRate: parseAmount(interestRate),
+        monthlyPayment: liability?.monthlyPayment,
+        startDate: terms.startDate,
+        endDate: terms.endDate ?? liability?.endDate,
+        insuranceMonthly: terms.insuranceMonthly,
+        deferralMonths: terms.deferralMonths,
+        deferralType: terms.deferralType,
+        earlyRepayments: liability?.earlyRepayments,
+        paymentPattern: paymentPattern.trim() || undefined,
+        color: LIABILITY_TYPES[type].color,
+        isActive: liability?.isActive ?? true,
+        createdAt: liability?.createdAt ?? now,
+        updatedAt: now,
+      }
+
+      // The debt and the balance computed from its schedule are undone together
+      const linked = await journal.withLabel(`${liability ? 'Modification' : 'Ajout'} du crédit ${data.name}`, async () => {
+        if (liability) {
+          await liabilityService.update(data.id, data)
+        } else {
+          await liabilityService.add(data)
+        }
+        return refreshLoan(data)
+      })
+      await netWorthSnapshotService.createSnapshot()
+
+      toast.success(
+        liability ? 'Crédit modifié' : 'Crédit ajouté',
+        linked > 0 ? `${linked} prélèvement(s) rattaché(s) aux échéances` : data.name
+      )
+      onClose()
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <CardTitle icon={liability ? <Edit2 className="w-5 h-5 text-blue-400" /> : <Plus className="w-5 h-5 text-red-400" />}>
+            {liability ? 'Modifier le crédit' : 'Nouveau crédit'}
+          </CardTitle>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg">
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {/* Type */}
+          <div className="grid grid-cols-4 gap-2">
+            {(Object.keys(LIABILITY_TYPES) as LiabilityType[]).map(liabilityType => {
+              const preset = LIABILITY_TYPES[liabilityType]
+              const IconComponent = ICONS[preset.icon] ?? CreditCard
+              return (
+                <button
+                  key={liabilityType}
+                  type="button"
+                  onClick={() => setType(liabilityType)}
+                  className={`flex flex-col items-center gap-1 p-3 rounded-lg border transition-all ${
+                    type === liabilityType
+                      ? 'border-white/50 bg-white/10'
+                      : 'border-gray-600 bg-gray-700/30 hover:border-gray-500'
+                  }`}
+                >
+                  <IconComponent className="w-5 h-5" style={{ color: preset.color }} />
+                  <span className="text-xs text-center">{preset.label}</span>
+                </button>
+              )
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Nom</label>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Ex: Prêt résidence principale"
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">
+                Établissement <span className="text-gray-500">(optionnel)</span>
+              </label>
+              <input
+                type="text"
+                value={institution}
+                onChange={e => setInstitution(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+            </div>
+          </div>
+
+          {/* Loan terms */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Montant emprunté</label>
+              <input
+                type="number"
+                value={initialAmount}
+                onChange={e => setInitialAmount(e.target.value)}
+                placeholder="0.00"
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Taux nominal (%)</label>
+              <input
+                type="number"
+                value={interestRate}
+                onChange={e => setInterestRate(e.target.value)}
+                placeholder="0"
+                step="0.01"
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Première échéance</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={e => setStartDate(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Durée (mois)</label>
+              <input
+                type="number"
+                value={duration}
+                onChange={e => setDuration(e.target.value)}
+                placeholder="240"
+                min="1"
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">
+                Assurance / mois <span className="text-gray-500">(optionnel)</span>
+              </label>
+              <input
+                type="number"
+                value={insuranceMonthly}
+                onChange={e => setInsuranceMonthly(e.target.value)}
+                placeholder="0.00"
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+            </div>
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">
+                Différé (mois) <span className="text-gray-500">(optionnel)</span>
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  value={deferralMonths}
+                  onChange={e => setDeferralMonths(e.target.value)}
+                  placeholder="0"
+                  min="0"
+                  className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+                />
+                <select
+                  value={deferralType}
+                  onChange={e => setDeferralType(e.target.value as LoanDeferralType)}
+                  disabled={!(parseInt(deferralMonths, 10) > 0)}
+                  className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-2 py-2 text-sm"
+                >
+                  <option value="partial">Partiel</option>
+                  <option value="total">Total</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-400 mb-2">
+              Libellé du prélèvement <span className="text-gray-500">(optionnel)</span>
+            </label>
+            <input
+              type="text"
+              value={paymentPattern}
+              onChange={e => setPaymentPattern(e.target.value)}
+              placeholder="Ex: ECHEANCE PRET"
+              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Les prélèvements contenant ce texte et du montant d'une échéance y sont rattachés.
+            </p>
+          </div>
+
+          {preview ? (
+            <div className="p-3 bg-gray-700/50 rounded-lg text-sm space-y-1">
+              <p className="text-white">
+                Échéance : <span className="font-medium">{formatMoney(preview.payment)}</span>
+                {terms.insuranceMonthly ? ` + ${formatMoney(terms.insuranceMonthly)} d'assurance` : ''}
+              </p>
+              <p className="text-gray-400">
+                Capital restant dû au {formatDate(getToday())} : {formatMoney(preview.summary.remainingBalance)}
+              </p>
+              <p className="text-gray-400">
+                Coût total : {formatMoney(preview.summary.totalCost)}
+                {preview.summary.payoffDate && ` · dernière échéance le ${formatDate(preview.summary.payoffDate)}`}
+              </p>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm text-gray-400 mb-2">Capital restant dû</label>
+              <input
+                type="number"
+                value={remainingBalance}
+                onChange={e => setRemainingBalance(e.target.value)}
+                placeholder="0.00"
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Renseignez le montant emprunté, la première échéance et la durée pour qu'il suive l'échéancier.
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <Button variant="ghost" onClick={onClose} className="flex-1">
+              Annuler
+            </Button>
+            <Button variant="primary" onClick={handleSave} disabled={!canSave} isLoading={isSaving} className="flex-1">
+              {liability ? 'Enregistrer' : 'Ajouter'}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  )
+}
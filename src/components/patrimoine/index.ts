@@ -1 +1,3 @@
 export { TransferModal } from './TransferModal'
+export { LiabilityModal } from './LiabilityModal'
+export { AmortizationModal } from './AmortizationModal'
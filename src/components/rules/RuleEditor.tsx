@@ -0,0 +1,429 @@
+import { useState, useMemo } from 'react'
+import { Plus, X, Check, Eye } from 'lucide-react'
+import { Card, CardTitle, Button } from '@components/common'
+import { matchesRule, getRuleConditions } from '@services/categorizer/rules'
+import { normalizeTags } from '@services/tags'
+import { TRANSACTION_TYPE_LABELS } from '@utils/constants'
+import { formatMoney } from '@utils/formatters'
+import type {
+  CategorizationRule,
+  RuleCondition,
+  Category,
+  BankAccount,
+  Transaction,
+  TransactionType,
+} from '@/types'
+
+type ConditionField = RuleCondition['field']
+
+const CONDITION_FIELDS: { value: ConditionField; label: string }[] = [
+  { value: 'description', label: 'Libellé' },
+  { value: 'type', label: 'Type' },
+  { value: 'amount', label: 'Montant' },
+  { value: 'sign', label: 'Sens' },
+  { value: 'weekday', label: 'Jour de la semaine' },
+  { value: 'account', label: 'Compte' },
+]
+
+const WEEKDAYS = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam']
+
+function defaultCondition(field: ConditionField): RuleCondition {
+  switch (field) {
+    case 'description':
+      return { field, operator: 'contains', value: '' }
+    case 'type':
+      return { field, operator: 'in', values: [] }
+    case 'amount':
+      return { field, operator: 'between' }
+    case 'sign':
+      return { field, operator: 'is', value: 'expense' }
+    case 'weekday':
+      return { field, operator: 'in', values: [] }
+    case 'account':
+      return { field, operator: 'in', values: [] }
+  }
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
+
+interface RuleEditorProps {
+  rule: CategorizationRule | null // null = new rule
+  categories: Category[]
+  accounts: BankAccount[]
+  householdMembers: string[]
+  transactions: Transaction[]
+  onSave: (rule: CategorizationRule) => Promise<void>
+  onCancel: () => void
+}
+
+export function RuleEditor({
+  rule,
+  categories,
+  accounts,
+  householdMembers,
+  transactions,
+  onSave,
+  onCancel,
+}: RuleEditorProps) {
+  const [name, setName] = useState(rule?.name ?? '')
+  const [match, setMatch] = useState<'all' | 'any'>(rule?.match ?? 'all')
+  const [conditions, setConditions] = useState<RuleCondition[]>(
+    rule ? getRuleConditions(rule) : [defaultCondition('description')]
+  )
+  const [categoryId, setCategoryId] = useState(rule?.categoryId ?? '')
+  const [budgetGroup, setBudgetGroup] = useState(rule?.actions?.budgetGroup ?? '')
+  const [assignedTo, setAssignedTo] = useState(rule?.actions?.assignedTo ?? '')
+  const [tagsInput, setTagsInput] = useState((rule?.actions?.tags ?? []).join(', '))
+  const [saving, setSaving] = useState(false)
+
+  const tags = useMemo(
+    () => normalizeTags(tagsInput.split(',')),
+    [tagsInput]
+  )
+
+  const draft = useMemo((): CategorizationRule => {
+    const now = new Date().toISOString()
+    return {
+      id: rule?.id ?? crypto.randomUUID(),
+      name: name.trim() || undefined,
+      categoryId: categoryId || undefined,
+      // Keep a readable pattern for the learning service and for the list
+      pattern: conditions.map(c => (c.field === 'description' ? c.value : '')).find(Boolean) ?? '',
+      field: 'description',
+      conditions,
+      match,
+      actions: {
+        budgetGroup: (budgetGroup || undefined) as 'needs' | 'wants' | undefined,
+        assignedTo: assignedTo || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+      },
+      source: rule?.source ?? 'user',
+      priority: rule?.priority ?? 100,
+      isActive: rule?.isActive ?? true,
+      createdAt: rule?.createdAt ?? now,
+      updatedAt: now,
+    }
+  }, [rule, name, categoryId, conditions, match, budgetGroup, assignedTo, tags])
+
+  // Live preview on existing transactions
+  const preview = useMemo(() => {
+    const matching = transactions.filter(t => matchesRule(draft, t))
+    return {
+      count: matching.length,
+      editedCount: matching.filter(t => t.isManuallyEdited).length,
+      examples: matching.slice(0, 5),
+    }
+  }, [transactions, draft])
+
+  const hasAction = Boolean(categoryId || budgetGroup || assignedTo || tags.length > 0)
+  const hasEmptyCondition = conditions.some(c =>
+    ((c.field === 'description' || c.field === 'type') && c.operator !== 'in' && !c.value.trim()) ||
+    (c.operator === 'in' && c.values.length === 0) ||
+    (c.field === 'amount' && c.min === undefined && c.max === undefined)
+  )
+  const canSave = conditions.length > 0 && !hasEmptyCondition && hasAction
+
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    setConditions(prev => prev.map((c, i) => (i === index ? condition : c)))
+  }
+
+  const handleSave = async () => {
+    if (!canSave) return
+    setSaving(true)
+    try {
+      await onSave(draft)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderConditionInput = (condition: RuleCondition, index: number) => {
+    switch (condition.field) {
+      case 'description':
+      case 'type':
+        if (condition.operator === 'in') {
+          return (
+            <div className="flex flex-wrap gap-1">
+              {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map(type => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => updateCondition(index, { ...condition, values: toggleValue(condition.values, type) })}
+                  className={`px-2 py-1 rounded text-xs ${
+                    condition.values.includes(type) ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-400'
+                  }`}
+                >
+                  {TRANSACTION_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          )
+        }
+        return (
+          <div className="flex gap-2">
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { ...condition, operator: e.target.value as 'contains' | 'regex' })}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-sm"
+            >
+              <option value="contains">contient</option>
+              <option value="regex">expression régulière</option>
+            </select>
+            <input
+              type="text"
+              value={condition.value}
+              onChange={(e) => updateCondition(index, { ...condition, value: e.target.value })}
+              placeholder={condition.operator === 'regex' ? 'carrefour|leclerc' : 'CARREFOUR'}
+              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-sm"
+            />
+          </div>
+        )
+      case 'amount':
+        return (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            entre
+            <input
+              type="number"
+              value={condition.min ?? ''}
+              onChange={(e) => updateCondition(index, { ...condition, min: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder="min"
+              className="w-24 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-white"
+              step="0.01"
+            />
+            et
+            <input
+              type="number"
+              value={condition.max ?? ''}
+              onChange={(e) => updateCondition(index, { ...condition, max: e.target.value === '' ? undefined : Number(e.target.value) })}
+              placeholder="max"
+              className="w-24 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-white"
+              step="0.01"
+            />
+            €
+          </div>
+        )
+      case 'sign':
+        return (
+          <select
+            value={condition.value}
+            onChange={(e) => updateCondition(index, { ...condition, value: e.target.value as 'expense' | 'income' })}
+            className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-sm"
+          >
+            <option value="expense">Dépense</option>
+            <option value="income">Revenu</option>
+          </select>
+        )
+      case 'weekday':
+        return (
+          <div className="flex flex-wrap gap-1">
+            {WEEKDAYS.map((label, day) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => updateCondition(index, { ...condition, values: toggleValue(condition.values, day) })}
+                className={`px-2 py-1 rounded text-xs ${
+                  condition.values.includes(day) ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )
+      case 'account':
+        return (
+          <div className="flex flex-wrap gap-1">
+            {accounts.map(account => (
+              <button
+                key={account.id}
+                type="button"
+                onClick={() => updateCondition(index, { ...condition, values: toggleValue(condition.values, account.id) })}
+                className={`px-2 py-1 rounded text-xs ${
+                  condition.values.includes(account.id) ? 'bg-blue-500 text-white' : 'bg-gray-700 text-gray-400'
+                }`}
+              >
+                {account.name}
+              </button>
+            ))}
+          </div>
+        )
+    }
+  }
+
+  return (
+    <Card className="border-blue-500/50">
+      <CardTitle>{rule ? 'Modifier la règle' : 'Nouvelle règle'}</CardTitle>
+
+      <div className="space-y-4 mt-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nom de la règle (optionnel)"
+          className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm"
+        />
+
+        {/* Conditions */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-gray-400">Conditions</p>
+            <div className="flex gap-1 p-0.5 bg-gray-800 rounded-lg text-xs">
+              <button
+                type="button"
+                onClick={() => setMatch('all')}
+                className={`px-2 py-1 rounded ${match === 'all' ? 'bg-gray-600 text-white' : 'text-gray-400'}`}
+              >
+                Toutes (ET)
+              </button>
+              <button
+                type="button"
+                onClick={() => setMatch('any')}
+                className={`px-2 py-1 rounded ${match === 'any' ? 'bg-gray-600 text-white' : 'text-gray-400'}`}
+              >
+                Au moins une (OU)
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex flex-col sm:flex-row gap-2 p-2 bg-gray-700/30 rounded-lg">
+                <select
+                  value={condition.field}
+                  onChange={(e) => updateCondition(index, defaultCondition(e.target.value as ConditionField))}
+                  className="sm:w-40 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-sm"
+                >
+                  {CONDITION_FIELDS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <div className="flex-1 min-w-0">{renderConditionInput(condition, index)}</div>
+                {conditions.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-400 self-start"
+                    title="Supprimer la condition"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setConditions(prev => [...prev, defaultCondition('amount')])}
+            className="flex items-center gap-1 mt-2 text-xs text-blue-400 hover:text-blue-300"
+          >
+            <Plus className="w-3 h-3" />
+            Ajouter une condition
+          </button>
+        </div>
+
+        {/* Actions */}
+        <div>
+          <p className="text-sm text-gray-400 mb-2">Actions</p>
+          <div className="grid sm:grid-cols-2 gap-3">
+            <label className="text-xs text-gray-500 space-y-1">
+              <span>Catégorie</span>
+              <select
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+              >
+                <option value="">Ne pas changer</option>
+                {categories.map(c => (
+                  <option key={c.id} value={c.id}>{c.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-500 space-y-1">
+              <span>Groupe budgétaire</span>
+              <select
+                value={budgetGroup}
+                onChange={(e) => setBudgetGroup(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+              >
+                <option value="">Ne pas changer</option>
+                <option value="needs">Besoins</option>
+                <option value="wants">Envies</option>
+              </select>
+            </label>
+            {householdMembers.length > 0 && (
+              <label className="text-xs text-gray-500 space-y-1">
+                <span>Imputer à</span>
+                <select
+                  value={assignedTo}
+                  onChange={(e) => setAssignedTo(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+                >
+                  <option value="">Ne pas changer</option>
+                  {householdMembers.map(member => (
+                    <option key={member} value={member}>{member}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="text-xs text-gray-500 space-y-1">
+              <span>Ajouter les tags</span>
+              <input
+                type="text"
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder="vacances, pro"
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+              />
+            </label>
+          </div>
+        </div>
+
+        {/* Live preview */}
+        <div className="p-3 bg-gray-700/30 rounded-lg">
+          <p className="text-sm flex items-center gap-2">
+            <Eye className="w-4 h-4 text-blue-400" />
+            <span className="font-medium">{preview.count}</span>
+            <span className="text-gray-400">transaction(s) existante(s) correspondent</span>
+          </p>
+          {preview.editedCount > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              dont {preview.editedCount} modifiée(s) à la main, qui ne seront pas changées
+            </p>
+          )}
+          {preview.examples.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {preview.examples.map(t => (
+                <li key={t.id} className="flex justify-between gap-2 text-xs text-gray-400">
+                  <span className="truncate">{t.date} • {t.description}</span>
+                  <span className="flex-shrink-0">{formatMoney(t.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {!hasAction && (
+          <p className="text-xs text-yellow-400">Choisissez au moins une action.</p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSave}
+            isLoading={saving}
+            disabled={!canSave}
+            leftIcon={<Check className="w-4 h-4" />}
+          >
+            Enregistrer
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onCancel} leftIcon={<X className="w-4 h-4" />}>
+            Annuler
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1 @@
+export { RuleEditor } from './RuleEditor'
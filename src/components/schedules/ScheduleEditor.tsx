@@ -0,0 +1,219 @@
+import { useState, useMemo } from 'react'
+import { X, Check, CalendarDays } from 'lucide-react'
+import { Card, CardTitle, Button } from '@components/common'
+import { getOccurrences, addMonths } from '@services/recurring'
+import { formatDate, formatMoney, getToday } from '@utils/formatters'
+import { SCHEDULE_FREQUENCIES } from '@/types'
+import type { RecurringSchedule, ScheduleFrequency, Category, BankAccount } from '@/types'
+
+interface ScheduleEditorProps {
+  schedule: RecurringSchedule | null // null = new schedule
+  categories: Category[]
+  accounts: BankAccount[]
+  defaultCategory?: string
+  onSave: (schedule: RecurringSchedule) => Promise<void>
+  onCancel: () => void
+}
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white'
+
+export function ScheduleEditor({
+  schedule,
+  categories,
+  accounts,
+  defaultCategory = 'other',
+  onSave,
+  onCancel,
+}: ScheduleEditorProps) {
+  const [description, setDescription] = useState(schedule?.description ?? '')
+  const [amount, setAmount] = useState(schedule ? String(Math.abs(schedule.amount)) : '')
+  const [isIncome, setIsIncome] = useState(schedule ? schedule.amount > 0 : false)
+  const [category, setCategory] = useState(schedule?.category ?? defaultCategory)
+  const [accountId, setAccountId] = useState(schedule?.accountId ?? '')
+  const [frequency, setFrequency] = useState<ScheduleFrequency>(schedule?.frequency ?? 'monthly')
+  const [every, setEvery] = useState(String(schedule?.interval ?? 1))
+  const [startDate, setStartDate] = useState(schedule?.startDate ?? getToday())
+  const [endDate, setEndDate] = useState(schedule?.endDate ?? '')
+  const [saving, setSaving] = useState(false)
+
+  const parsedAmount = parseFloat(amount.replace(',', '.'))
+  const parsedInterval = Math.max(1, parseInt(every, 10) || 1)
+
+  const draft = useMemo((): RecurringSchedule => {
+    const now = new Date().toISOString()
+    const value = Number.isFinite(parsedAmount) ? Math.abs(parsedAmount) : 0
+    return {
+      id: schedule?.id ?? crypto.randomUUID(),
+      description: description.trim(),
+      amount: isIncome ? value : -value,
+      category,
+      accountId: accountId || undefined,
+      frequency,
+      interval: parsedInterval,
+      startDate,
+      endDate: endDate || undefined,
+      pattern: schedule?.pattern,
+      isActive: schedule?.isActive ?? true,
+      generatedUntil: schedule?.generatedUntil,
+      createdAt: schedule?.createdAt ?? now,
+      updatedAt: now,
+    }
+  }, [schedule, description, parsedAmount, isIncome, category, accountId, frequency, parsedInterval, startDate, endDate])
+
+  // Next dates, to check the frequency reads as intended
+  const preview = useMemo(() => {
+    const today = getToday()
+    return getOccurrences(draft, today, addMonths(today, 24 * draft.interval)).slice(0, 4)
+  }, [draft])
+
+  const canSave = Boolean(draft.description) && draft.amount !== 0 && Boolean(startDate) &&
+    (!endDate || endDate >= startDate)
+
+  const handleSave = async () => {
+    if (!canSave) return
+    setSaving(true)
+    try {
+      await onSave(draft)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="border-blue-500/50">
+      <CardTitle>{schedule ? "Modifier l'échéance" : 'Nouvelle échéance'}</CardTitle>
+
+      <div className="space-y-4 mt-4">
+        <div className="grid sm:grid-cols-2 gap-3">
+          <label className="text-xs text-gray-500 space-y-1 sm:col-span-2">
+            <span>Libellé</span>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Loyer, salaire, assurance..."
+              className={inputClass}
+            />
+          </label>
+          <label className="text-xs text-gray-500 space-y-1">
+            <span>Montant</span>
+            <div className="flex gap-2">
+              <div className="flex gap-1 p-0.5 bg-gray-800 rounded-lg text-xs flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => setIsIncome(false)}
+                  className={`px-2 py-1 rounded ${!isIncome ? 'bg-gray-600 text-white' : 'text-gray-400'}`}
+                >
+                  Débit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsIncome(true)}
+                  className={`px-2 py-1 rounded ${isIncome ? 'bg-gray-600 text-white' : 'text-gray-400'}`}
+                >
+                  Crédit
+                </button>
+              </div>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0,00"
+                className={inputClass}
+              />
+            </div>
+          </label>
+          <label className="text-xs text-gray-500 space-y-1">
+            <span>Catégorie</span>
+            <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+              {categories.map(c => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-500 space-y-1">
+            <span>Fréquence</span>
+            <div className="flex gap-2">
+              <span className="self-center text-gray-400 flex-shrink-0">Tous les</span>
+              <input
+                type="number"
+                min={1}
+                value={every}
+                onChange={(e) => setEvery(e.target.value)}
+                className={`${inputClass} w-16`}
+              />
+              <select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as ScheduleFrequency)}
+                className={inputClass}
+              >
+                {(Object.keys(SCHEDULE_FREQUENCIES) as ScheduleFrequency[]).map(value => (
+                  <option key={value} value={value}>{SCHEDULE_FREQUENCIES[value].unit}</option>
+                ))}
+              </select>
+            </div>
+          </label>
+          {accounts.length > 1 && (
+            <label className="text-xs text-gray-500 space-y-1">
+              <span>Compte</span>
+              <select value={accountId} onChange={(e) => setAccountId(e.target.value)} className={inputClass}>
+                <option value="">Compte par défaut</option>
+                {accounts.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="text-xs text-gray-500 space-y-1">
+            <span>Première échéance</span>
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-xs text-gray-500 space-y-1">
+            <span>Fin (optionnel)</span>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+
+        <div className="p-3 bg-gray-700/30 rounded-lg">
+          <p className="text-sm flex items-center gap-2 text-gray-400">
+            <CalendarDays className="w-4 h-4 text-blue-400" />
+            Prochaines échéances
+          </p>
+          {preview.length > 0 ? (
+            <ul className="mt-2 space-y-1">
+              {preview.map(date => (
+                <li key={date} className="flex justify-between gap-2 text-xs text-gray-400">
+                  <span>{formatDate(date)}</span>
+                  <span>{formatMoney(draft.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-500 mt-2">Aucune échéance à venir</p>
+          )}
+        </div>
+
+        {endDate && endDate < startDate && (
+          <p className="text-xs text-yellow-400">La fin doit être après la première échéance.</p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            variant="primary"
+            size="sm"
+            onClick={handleSave}
+            isLoading={saving}
+            disabled={!canSave}
+            leftIcon={<Check className="w-4 h-4" />}
+          >
+            Enregistrer
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onCancel} leftIcon={<X className="w-4 h-4" />}>
+            Annuler
+          </Button>
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1 @@
+export { ScheduleEditor } from './ScheduleEditor'
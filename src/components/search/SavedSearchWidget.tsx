@@ -0,0 +1,113 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Bookmark } from 'lucide-react'
+import { Card, CardTitle } from '@components/common'
+import { savedSearchService, settingsService } from '@services/db'
+import { parseSearchQuery, filterTransactions, hasDateRange } from '@services/search'
+import { formatDate, formatMoney } from '@utils/formatters'
+import type { Transaction, Category, BankAccount } from '@/types'
+
+interface SavedSearchWidgetProps {
+  periodTransactions: Transaction[]
+  allTransactions: Transaction[] // Used when the search sets its own dates
+  categories: Category[]
+  accounts: BankAccount[]
+  maxItems?: number
+}
+
+const SETTING_KEY = 'dashboardSavedSearchId'
+
+/**
+ * Total and latest transactions of a saved search, for the selected period
+ * unless the search has its own dates
+ */
+export function SavedSearchWidget({
+  periodTransactions,
+  allTransactions,
+  categories,
+  accounts,
+  maxItems = 5,
+}: SavedSearchWidgetProps) {
+  const searches = useLiveQuery(() => savedSearchService.getAll())
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  useEffect(() => {
+    settingsService.get(SETTING_KEY).then(id => {
+      if (typeof id === 'string') setSelectedId(id)
+    })
+  }, [])
+
+  const search = searches?.find(s => s.id === selectedId) ?? searches?.[0]
+
+  const result = useMemo(() => {
+    if (!search) return null
+    const { filters } = parseSearchQuery(search.query, { categories, accounts })
+    const source = hasDateRange(filters) ? allTransactions : periodTransactions
+    const matching = filterTransactions(source, filters, categories).sort((a, b) => b.date.localeCompare(a.date))
+    return {
+      matching,
+      total: matching.reduce((sum, t) => sum + t.amount, 0),
+      usesOwnDates: hasDateRange(filters),
+    }
+  }, [search, categories, accounts, allTransactions, periodTransactions])
+
+  if (!searches || searches.length === 0) return null
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id)
+    settingsService.set(SETTING_KEY, id)
+  }
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <CardTitle icon={<Bookmark className="w-5 h-5 text-blue-400" />}>
+          Recherche suivie
+        </CardTitle>
+        <select
+          value={search?.id}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white max-w-[50%]"
+          aria-label="Recherche enregistrée"
+        >
+          {searches.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {search && result && (
+        <>
+          <div className="flex items-baseline justify-between gap-3">
+            <p className={`text-2xl font-bold ${result.total >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {formatMoney(result.total)}
+            </p>
+            <p className="text-sm text-gray-400">
+              {result.matching.length} transaction(s){result.usesOwnDates ? '' : ' sur la période'}
+            </p>
+          </div>
+          <p className="text-xs text-gray-500 font-mono truncate mt-1" title={search.query}>{search.query}</p>
+
+          <div className="space-y-1 mt-3">
+            {result.matching.slice(0, maxItems).map(t => (
+              <div key={t.id} className="flex justify-between gap-3 text-sm">
+                <span className="text-gray-300 truncate">
+                  <span className="text-gray-500">{formatDate(t.date)}</span> {t.description}
+                </span>
+                <span className={`flex-shrink-0 ${t.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {formatMoney(t.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+          {result.matching.length > maxItems && (
+            <Link to="/transactions" className="block text-center text-xs text-gray-400 hover:text-white mt-3">
+              Voir dans les transactions
+            </Link>
+          )}
+        </>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,147 @@
+import { useState, useMemo, useCallback } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Bookmark, BookmarkPlus, Download, Trash2, Check, X } from 'lucide-react'
+import { Card, CardTitle, useToast } from '@components/common'
+import { savedSearchService } from '@services/db'
+import { searchTransactions, normalizeText } from '@services/search'
+import { exportToCSV } from '@services/export/csv'
+import type { Transaction, Category, BankAccount } from '@/types'
+
+interface SavedSearchesPanelProps {
+  query: string
+  onSelect: (query: string) => void
+  transactions: Transaction[] // Searched for the counts and exports, whatever the period
+  categories: Category[]
+  accounts: BankAccount[]
+}
+
+function toFileName(name: string): string {
+  return normalizeText(name).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recherche'
+}
+
+export function SavedSearchesPanel({ query, onSelect, transactions, categories, accounts }: SavedSearchesPanelProps) {
+  const searches = useLiveQuery(() => savedSearchService.getAll()) ?? []
+  const toast = useToast()
+  const [isNaming, setIsNaming] = useState(false)
+  const [name, setName] = useState('')
+
+  const results = useMemo(() => {
+    const byId = new Map<string, Transaction[]>()
+    for (const search of searches) {
+      byId.set(search.id, searchTransactions(transactions, search.query, { categories, accounts }))
+    }
+    return byId
+  }, [searches, transactions, categories, accounts])
+
+  const trimmedQuery = query.trim()
+  const isSaved = searches.some(s => s.query === trimmedQuery)
+
+  const handleSave = useCallback(async () => {
+    if (!name.trim() || !trimmedQuery) return
+    await savedSearchService.add(name.trim(), trimmedQuery)
+    toast.success('Recherche enregistrée', `« ${name.trim()} » est disponible dans le tableau de bord et les exports`)
+    setName('')
+    setIsNaming(false)
+  }, [name, trimmedQuery, toast])
+
+  const handleExport = useCallback((id: string, searchName: string) => {
+    exportToCSV(results.get(id) ?? [], categories, `${toFileName(searchName)}.csv`)
+  }, [results, categories])
+
+  return (
+    <Card>
+      <CardTitle icon={<Bookmark className="w-5 h-5 text-blue-400" />}>
+        Recherches
+      </CardTitle>
+
+      <div className="space-y-1 mt-3">
+        {searches.map(search => {
+          const isActive = search.query === trimmedQuery
+          return (
+            <div
+              key={search.id}
+              className={`group flex items-center gap-1 rounded-lg transition-colors ${
+                isActive ? 'bg-blue-500/20' : 'hover:bg-gray-700/50'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(isActive ? '' : search.query)}
+                className="flex-1 min-w-0 text-left px-2 py-1.5"
+                title={search.query}
+              >
+                <p className={`text-sm truncate ${isActive ? 'text-blue-400 font-medium' : 'text-gray-300'}`}>
+                  {search.name}
+                </p>
+                <p className="text-xs text-gray-500 truncate font-mono">{search.query}</p>
+              </button>
+              <span className="text-xs text-gray-500 flex-shrink-0">{results.get(search.id)?.length ?? 0}</span>
+              <button
+                onClick={() => handleExport(search.id, search.name)}
+                className="p-1.5 text-gray-500 hover:text-green-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                title="Exporter en CSV"
+                aria-label={`Exporter « ${search.name} » en CSV`}
+              >
+                <Download className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => savedSearchService.delete(search.id)}
+                className="p-1.5 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                title="Supprimer"
+                aria-label={`Supprimer « ${search.name} »`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )
+        })}
+        {searches.length === 0 && (
+          <p className="text-xs text-gray-500 py-2">
+            Enregistrez une recherche pour la retrouver ici, dans le tableau de bord et dans les exports.
+          </p>
+        )}
+      </div>
+
+      {trimmedQuery && !isSaved && (
+        isNaming ? (
+          <div className="flex items-center gap-1 mt-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave()
+                if (e.key === 'Escape') setIsNaming(false)
+              }}
+              placeholder="Nom de la recherche"
+              autoFocus
+              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-sm"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!name.trim()}
+              className="p-1.5 text-green-400 hover:text-white disabled:opacity-50"
+              aria-label="Enregistrer"
+            >
+              <Check className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsNaming(false)}
+              className="p-1.5 text-gray-400 hover:text-white"
+              aria-label="Annuler"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsNaming(true)}
+            className="w-full flex items-center justify-center gap-1.5 mt-3 py-1.5 text-sm text-blue-400 hover:text-blue-300 border border-dashed border-gray-600 rounded-lg"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+            Enregistrer la recherche
+          </button>
+        )
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,151 @@
+import { useState, useRef, useMemo, useId } from 'react'
+import { Search, X, AlertCircle } from 'lucide-react'
+import { getSearchSuggestions, applySuggestion } from '@services/search'
+import type { SearchSuggestion, SuggestionContext } from '@services/search'
+
+interface SearchQueryInputProps {
+  value: string
+  onChange: (query: string) => void
+  context: SuggestionContext
+  errors?: string[]
+  placeholder?: string
+}
+
+/**
+ * Search box of the query language, with completion of keys and values
+ * (Tab or Enter to accept, arrows to move, Escape to close)
+ */
+export function SearchQueryInput({
+  value,
+  onChange,
+  context,
+  errors = [],
+  placeholder = 'Rechercher… cat:restaurant amount<-50 date:2026-Q2 -desc:uber',
+}: SearchQueryInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [cursor, setCursor] = useState(value.length)
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const listId = useId()
+
+  const result = useMemo(
+    () => getSearchSuggestions(value, cursor, context),
+    [value, cursor, context]
+  )
+  const suggestions = isOpen ? result.suggestions : []
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length)
+  }
+
+  const accept = (suggestion: SearchSuggestion) => {
+    const next = applySuggestion(value, result, suggestion)
+    onChange(next.query)
+    setCursor(next.cursor)
+    setActiveIndex(0)
+    // Keys are followed by their values, the list stays open for them
+    setIsOpen(suggestion.isKey)
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(next.cursor, next.cursor)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex(i => (i + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(i => (i - 1 + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && value.slice(result.start, cursor).trim())) {
+      e.preventDefault()
+      accept(suggestions[Math.min(activeIndex, suggestions.length - 1)])
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus-within:border-blue-500">
+        <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setCursor(e.target.selectionStart ?? e.target.value.length)
+            setActiveIndex(0)
+            setIsOpen(true)
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={updateCursor}
+          onClick={updateCursor}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          placeholder={placeholder}
+          className="flex-1 min-w-0 bg-transparent text-sm text-white placeholder-gray-500 focus:outline-none font-mono"
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-label="Rechercher des transactions"
+        />
+        {value && (
+          <button
+            type="button"
+            onClick={() => {
+              onChange('')
+              setCursor(0)
+            }}
+            className="text-gray-400 hover:text-white"
+            aria-label="Effacer la recherche"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-50 top-full left-0 right-0 mt-1 bg-gray-800 border border-gray-600 rounded-lg shadow-xl max-h-64 overflow-y-auto"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insert}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep the focus in the input
+              onMouseDown={(e) => {
+                e.preventDefault()
+                accept(suggestion)
+              }}
+              className={`flex items-center justify-between gap-3 px-3 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+              }`}
+            >
+              <span className="font-mono truncate">{suggestion.label}</span>
+              {suggestion.hint && <span className="text-xs text-gray-500 truncate">{suggestion.hint}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-1.5 space-y-0.5">
+          {errors.map(error => (
+            <p key={error} className="flex items-center gap-1 text-xs text-amber-400">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
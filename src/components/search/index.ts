@@ -0,0 +1,3 @@
+export { SearchQueryInput } from './SearchQueryInput'
+export { SavedSearchesPanel } from './SavedSearchesPanel'
+export { SavedSearchWidget } from './SavedSearchWidget'
@@ -0,0 +1,47 @@
+import { memo } from 'react'
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react'
+import { clsx } from 'clsx'
+import { useSyncStatus } from '@hooks/index'
+import { syncNow } from '@services/sync'
+
+/**
+ * Sync status in the header, hidden until sync is turned on in the settings.
+ * A click syncs right away.
+ */
+export const SyncIndicator = memo(function SyncIndicator() {
+  const { state, lastSyncAt, error, pendingCount } = useSyncStatus()
+  if (state === 'disabled') return null
+
+  const lastSync = lastSyncAt
+    ? `Dernière synchronisation : ${new Date(lastSyncAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}`
+    : 'Jamais synchronisé'
+  const pending = pendingCount > 0 ? `${pendingCount} modification(s) à envoyer` : 'Tout est envoyé'
+  const title = [error, lastSync, pending].filter(Boolean).join('\n')
+
+  const Icon = state === 'syncing' ? RefreshCw
+    : state === 'offline' ? CloudOff
+      : state === 'error' ? AlertTriangle
+        : Cloud
+
+  return (
+    <button
+      type="button"
+      onClick={() => syncNow().catch(() => {})} // Shown through the status
+      disabled={state === 'syncing'}
+      title={title}
+      aria-label={`Synchronisation : ${title}`}
+      className={clsx(
+        'relative p-2 rounded-lg transition-colors hover:bg-gray-700',
+        state === 'idle' && 'text-green-400',
+        state === 'syncing' && 'text-blue-400',
+        state === 'offline' && 'text-gray-500',
+        state === 'error' && 'text-red-400'
+      )}
+    >
+      <Icon className={clsx('w-4 h-4', state === 'syncing' && 'animate-spin')} aria-hidden="true" />
+      {pendingCount > 0 && state !== 'syncing' && (
+        <span className="absolute top-1 right-1 w-2 h-2 rounded-full bg-yellow-400" aria-hidden="true" />
+      )}
+    </button>
+  )
+})
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Cloud, RefreshCw, CloudOff } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { useSyncStatus } from '@hooks/index'
+import { getSyncConfig, enableSync, disableSync, syncNow, type SyncConfig, type SyncResult } from '@services/sync'
+
+function describeResult(result: SyncResult): string {
+  const parts = [`${result.pushed} envoyée(s)`, `${result.pulled} reçue(s)`]
+  if (result.conflicts > 0) parts.push(`${result.conflicts} conflit(s) fusionné(s)`)
+  return `Modifications : ${parts.join(', ')}`
+}
+
+/**
+ * Endpoint this device syncs with (see server/sync-server.js)
+ */
+export function SyncSettings() {
+  const toast = useToast()
+  const { state, error, pendingCount } = useSyncStatus()
+  const [config, setConfig] = useState<SyncConfig | null>(null)
+  const [endpoint, setEndpoint] = useState('')
+  const [token, setToken] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    getSyncConfig().then(setConfig)
+  }, [state])
+
+  const runSync = useCallback(async (sync: () => Promise<SyncResult | null>) => {
+    setIsWorking(true)
+    try {
+      const result = await sync()
+      if (result) toast.success('Synchronisé', describeResult(result))
+    } catch (err) {
+      toast.error('Synchronisation impossible', (err as Error).message)
+    } finally {
+      setIsWorking(false)
+      setConfig(await getSyncConfig())
+    }
+  }, [toast])
+
+  const handleDisable = useCallback(async () => {
+    await disableSync()
+    setConfig(null)
+    toast.info('Synchronisation désactivée', 'Les données restent sur cet appareil')
+  }, [toast])
+
+  return (
+    <Card>
+      <CardTitle icon={<Cloud className="w-5 h-5 text-blue-400" />}>
+        Synchronisation entre appareils
+      </CardTitle>
+      <p className="text-gray-400 text-sm mt-2 mb-4">
+        Synchronise vos données avec vos autres appareils via votre propre serveur
+        (<code className="bg-gray-700 px-1 rounded">SYNC_TOKEN=… HOST=0.0.0.0 npm run sync-server</code>,
+        sans <code className="bg-gray-700 px-1 rounded">HOST</code> il n'écoute que sur la machine elle-même).
+        Les modifications faites des deux côtés sont fusionnées champ par champ, la plus récente l'emporte.
+        Les paramètres, dont la clé API Claude, restent sur chaque appareil.
+      </p>
+
+      {config ? (
+        <div className="space-y-3">
+          <div className="p-3 bg-gray-700/50 rounded-lg text-sm">
+            <p className="text-white font-medium break-all">{config.endpoint}</p>
+            <p className="text-gray-400">
+              {config.lastSyncAt
+                ? `Dernière synchronisation : ${new Date(config.lastSyncAt).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}`
+                : 'Jamais synchronisé'}
+              {pendingCount > 0 && ` · ${pendingCount} modification(s) à envoyer`}
+            </p>
+            {error && <p className="text-red-400 mt-1">{error}</p>}
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Button
+              variant="primary"
+              onClick={() => runSync(syncNow)}
+              isLoading={isWorking || state === 'syncing'}
+              leftIcon={<RefreshCw className="w-4 h-4" />}
+            >
+              Synchroniser maintenant
+            </Button>
+            <Button variant="ghost" onClick={handleDisable} leftIcon={<CloudOff className="w-4 h-4" />}>
+              Désactiver
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <input
+            type="url"
+            value={endpoint}
+            onChange={(e) => setEndpoint(e.target.value)}
+            placeholder="http://192.168.1.10:8787"
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+          />
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="Jeton (SYNC_TOKEN du serveur)"
+            autoComplete="off"
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
+          />
+          <Button
+            variant="primary"
+            onClick={() => runSync(() => enableSync(endpoint, token))}
+            isLoading={isWorking}
+            disabled={!endpoint.trim() || !token.trim()}
+            leftIcon={<Cloud className="w-4 h-4" />}
+          >
+            Activer la synchronisation
+          </Button>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,2 @@
+export { SyncIndicator } from './SyncIndicator'
+export { SyncSettings } from './SyncSettings'
@@ -0,0 +1,76 @@
+import { useState, useId } from 'react'
+import { X } from 'lucide-react'
+import { normalizeTag } from '@services/tags'
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  suggestions?: string[] // Existing tags, offered while typing
+  placeholder?: string
+  autoFocus?: boolean
+}
+
+export function TagInput({
+  value,
+  onChange,
+  suggestions = [],
+  placeholder = 'Ajouter un tag…',
+  autoFocus = false,
+}: TagInputProps) {
+  const [draft, setDraft] = useState('')
+  const listId = useId()
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw)
+    setDraft('')
+    if (!tag || value.includes(tag)) return
+    onChange([...value, tag])
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      addTag(draft)
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 px-2 py-1.5 bg-gray-700 border border-gray-600 rounded-lg focus-within:border-blue-500">
+      {value.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 px-2 py-0.5 bg-amber-500/20 text-amber-400 text-xs rounded-full"
+        >
+          #{tag}
+          <button
+            type="button"
+            onClick={() => onChange(value.filter(t => t !== tag))}
+            className="hover:text-white"
+            aria-label={`Retirer le tag ${tag}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft && addTag(draft)}
+        list={listId}
+        placeholder={value.length === 0 ? placeholder : ''}
+        autoFocus={autoFocus}
+        className="flex-1 min-w-[100px] bg-transparent text-sm text-white focus:outline-none"
+        aria-label="Ajouter un tag"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(s => !value.includes(s)).map(s => (
+          <option key={s} value={s} />
+        ))}
+      </datalist>
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { Hash } from 'lucide-react'
+
+interface TagSelectProps {
+  tags: string[]
+  value: string | null // null = all transactions
+  onChange: (tag: string | null) => void
+  className?: string
+}
+
+export function TagSelect({ tags, value, onChange, className = '' }: TagSelectProps) {
+  if (tags.length === 0) return null
+
+  return (
+    <div className={`flex items-center gap-1 bg-gray-700 rounded-lg px-2 py-1 ${className}`}>
+      <Hash className="w-4 h-4 text-gray-400" />
+      <select
+        value={value ?? 'all'}
+        onChange={(e) => onChange(e.target.value === 'all' ? null : e.target.value)}
+        className="bg-transparent border-none text-sm text-white focus:outline-none cursor-pointer"
+        aria-label="Filtrer par tag"
+      >
+        <option value="all">Tous les tags</option>
+        {tags.map(tag => (
+          <option key={tag} value={tag}>#{tag}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
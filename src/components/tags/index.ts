@@ -0,0 +1,2 @@
+export { TagInput } from './TagInput'
+export { TagSelect } from './TagSelect'
@@ -1,12 +1,17 @@
 import { useState, useMemo } from 'react'
-import { X, Save, Trash2 } from 'lucide-react'
+import { X, Save, Trash2, ArrowLeftRight, Unlink, Split, Plus } from 'lucide-react'
 import { Card, CardTitle, Button } from '@components/common'
 import { formatMoney } from '@utils/formatters'
-import type { Transaction, Category } from '@/types'
+import { isInternalTransfer, unlinkTransfer } from '@services/transfers'
+import { validateSplits } from '@services/splits'
+import { TagInput } from '@components/tags'
+import type { Transaction, TransactionSplit, Category } from '@/types'
 
 interface EditTransactionModalProps {
   transaction: Transaction
   categories: Category[]
+  householdMembers?: string[]
+  allTags?: string[]
   onSave: (id: string, updates: Partial<Transaction>) => Promise<void>
   onDelete: (id: string) => Promise<void>
   onClose: () => void
@@ -15,6 +20,8 @@ interface EditTransactionModalProps {
 export function EditTransactionModal({
   transaction,
   categories,
+  householdMembers = [],
+  allTags = [],
   onSave,
   onDelete,
   onClose,
@@ -24,8 +31,16 @@ export function EditTransactionModal({
   const [date, setDate] = useState(transaction.date)
   const [categoryId, setCategoryId] = useState(transaction.category)
   const [isExpense, setIsExpense] = useState(transaction.amount < 0)
+  const [tags, setTags] = useState<string[]>(transaction.tags ?? [])
   const [saving, setSaving] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  // Split lines are edited as positive amounts, the sign follows the transaction type
+  const [splits, setSplits] = useState<TransactionSplit[]>(
+    (transaction.splits ?? []).map(s => ({ ...s, amount: Math.abs(s.amount) }))
+  )
+  const [splitAmounts, setSplitAmounts] = useState<Record<string, string>>(
+    Object.fromEntries((transaction.splits ?? []).map(s => [s.id, Math.abs(s.amount).toString()]))
+  )
 
   const expenseCategories = useMemo(() =>
     categories.filter(c => !c.isIncome),
@@ -39,9 +54,65 @@ export function EditTransactionModal({
 
   const currentCategories = isExpense ? expenseCategories : incomeCategories
 
+  const signedSplits = useMemo(() =>
+    splits.map(s => {
+      const value = parseFloat((splitAmounts[s.id] || '').replace(',', '.'))
+      return { ...s, amount: isNaN(value) ? 0 : (isExpense ? -Math.abs(value) : Math.abs(value)) }
+    }),
+    [splits, splitAmounts, isExpense]
+  )
+
+  const splitError = useMemo(() => {
+    if (splits.length === 0) return null
+    const parsedAmount = parseFloat(amount)
+    if (isNaN(parsedAmount)) return null
+    return validateSplits(isExpense ? -Math.abs(parsedAmount) : Math.abs(parsedAmount), signedSplits)
+  }, [splits.length, signedSplits, amount, isExpense])
+
+  const splitRemaining = useMemo(() => {
+    const parsedAmount = parseFloat(amount) || 0
+    return Math.abs(parsedAmount) - signedSplits.reduce((sum, s) => sum + Math.abs(s.amount), 0)
+  }, [amount, signedSplits])
+
+  const handleStartSplit = () => {
+    const parsedAmount = Math.abs(parseFloat(amount) || 0)
+    const first = { id: crypto.randomUUID(), amount: 0, category: categoryId, assignedTo: transaction.assignedTo }
+    const second = { id: crypto.randomUUID(), amount: 0, category: categoryId }
+    setSplits([first, second])
+    setSplitAmounts({ [first.id]: parsedAmount.toFixed(2), [second.id]: '' })
+  }
+
+  const handleAddSplit = () => {
+    const line = { id: crypto.randomUUID(), amount: 0, category: categoryId }
+    setSplits(prev => [...prev, line])
+    setSplitAmounts(prev => ({ ...prev, [line.id]: Math.max(0, splitRemaining).toFixed(2) }))
+  }
+
+  const handleSplitChange = (id: string, updates: Partial<TransactionSplit>) => {
+    setSplits(prev => prev.map(s => (s.id === id ? { ...s, ...updates } : s)))
+  }
+
+  const handleRemoveSplit = (id: string) => {
+    // A single line is not a split anymore
+    setSplits(prev => {
+      const next = prev.filter(s => s.id !== id)
+      return next.length < 2 ? [] : next
+    })
+  }
+
+  const handleUnlinkTransfer = async () => {
+    setSaving(true)
+    try {
+      await unlinkTransfer(transaction.id)
+      onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
   const handleSave = async () => {
     const parsedAmount = parseFloat(amount)
-    if (isNaN(parsedAmount) || parsedAmount <= 0) return
+    if (isNaN(parsedAmount) || parsedAmount <= 0 || splitError) return
 
     setSaving(true)
     try {
@@ -50,6 +121,8 @@ export function EditTransactionModal({
         amount: isExpense ? -Math.abs(parsedAmount) : Math.abs(parsedAmount),
         date,
         category: categoryId,
+        splits: signedSplits.length > 0 ? signedSplits : undefined,
+        tags: tags.length > 0 ? tags : undefined,
         isManuallyEdited: true,
       })
       onClose()
@@ -150,6 +223,25 @@ export function EditTransactionModal({
               </button>
             </div>
 
+            {/* Internal transfer link */}
+            {isInternalTransfer(transaction) && (
+              <div className="flex items-center justify-between gap-3 p-3 bg-cyan-500/10 border border-cyan-500/30 rounded-xl">
+                <div className="flex items-center gap-2 text-sm text-cyan-400">
+                  <ArrowLeftRight className="w-4 h-4 flex-shrink-0" />
+                  Virement interne, exclu des statistiques
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleUnlinkTransfer}
+                  disabled={saving}
+                  leftIcon={<Unlink className="w-4 h-4" />}
+                >
+                  Délier
+                </Button>
+              </div>
+            )}
+
             {/* Description */}
             <div>
               <label className="block text-sm text-gray-400 mb-1">Description</label>
@@ -212,6 +304,114 @@ export function EditTransactionModal({
               </div>
             </div>
 
+            {/* Tags */}
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Tags</label>
+              <TagInput value={tags} onChange={setTags} suggestions={allTags} />
+            </div>
+
+            {/* Split lines */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm text-gray-400">Répartition</label>
+                {splits.length === 0 ? (
+                  <button
+                    type="button"
+                    onClick={handleStartSplit}
+                    className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+                  >
+                    <Split className="w-3 h-3" />
+                    Répartir
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setSplits([])}
+                    className="text-xs text-gray-400 hover:text-white"
+                  >
+                    Ne plus répartir
+                  </button>
+                )}
+              </div>
+
+              {splits.length > 0 && (
+                <div className="space-y-2">
+                  {splits.map(split => (
+                    <div key={split.id} className="p-2 bg-gray-700/30 rounded-lg space-y-2">
+                      <div className="flex gap-2">
+                        <input
+                          type="number"
+                          value={splitAmounts[split.id] ?? ''}
+                          onChange={(e) => setSplitAmounts(prev => ({ ...prev, [split.id]: e.target.value }))}
+                          className="w-24 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm"
+                          step="0.01"
+                          placeholder="€"
+                        />
+                        <select
+                          value={split.category}
+                          onChange={(e) => handleSplitChange(split.id, { category: e.target.value })}
+                          className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm"
+                        >
+                          {currentCategories.map(cat => (
+                            <option key={cat.id} value={cat.id}>{cat.name}</option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveSplit(split.id)}
+                          className="p-1 text-gray-400 hover:text-red-400"
+                          title="Supprimer la ligne"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      {isExpense && (
+                        <div className="flex gap-2">
+                          {householdMembers.length > 0 && (
+                            <select
+                              value={split.assignedTo ?? ''}
+                              onChange={(e) => handleSplitChange(split.id, { assignedTo: e.target.value || undefined })}
+                              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-xs"
+                            >
+                              <option value="">Non assigné</option>
+                              {householdMembers.map(member => (
+                                <option key={member} value={member}>{member}</option>
+                              ))}
+                            </select>
+                          )}
+                          <select
+                            value={split.budgetGroup ?? ''}
+                            onChange={(e) => handleSplitChange(split.id, {
+                              budgetGroup: (e.target.value || undefined) as TransactionSplit['budgetGroup'],
+                            })}
+                            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-xs"
+                          >
+                            <option value="">Groupe auto</option>
+                            <option value="needs">Besoins</option>
+                            <option value="wants">Envies</option>
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between">
+                    <button
+                      type="button"
+                      onClick={handleAddSplit}
+                      className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Ajouter une ligne
+                    </button>
+                    <span className={`text-xs ${Math.abs(splitRemaining) < 0.005 ? 'text-green-400' : 'text-yellow-400'}`}>
+                      Reste à répartir : {formatMoney(splitRemaining)}
+                    </span>
+                  </div>
+                  {splitError && <p className="text-xs text-red-400">{splitError}</p>}
+                </div>
+              )}
+            </div>
+
             {/* Actions */}
             <div className="flex gap-3 pt-2">
               <Button
@@ -232,7 +432,7 @@ export function EditTransactionModal({
                 variant="primary"
                 onClick={handleSave}
                 isLoading={saving}
-                disabled={!description.trim() || !amount || parseFloat(amount) <= 0}
+                disabled={!description.trim() || !amount || parseFloat(amount) <= 0 || Boolean(splitError)}
                 className="flex-1"
               >
                 Enregistrer
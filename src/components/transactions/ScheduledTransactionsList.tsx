@@ -0,0 +1,125 @@
+import { memo, useState, useCallback } from 'react'
+import { CalendarClock, Check, Trash2, ChevronDown, ChevronUp } from 'lucide-react'
+import { Card, CardTitle } from '@components/common'
+import { transactionService } from '@services/db'
+import { formatDate, formatMoney, getToday } from '@utils/formatters'
+import type { Transaction, Category, BankAccount } from '@/types'
+
+interface ScheduledTransactionsListProps {
+  scheduled: Transaction[]
+  categories: Category[]
+  accounts: BankAccount[]
+  maxItems?: number
+}
+
+/**
+ * Planned entries waiting for their bank line. They are merged automatically
+ * when the statement is imported, or can be marked as done by hand (cash, cheque).
+ */
+export const ScheduledTransactionsList = memo(function ScheduledTransactionsList({
+  scheduled,
+  categories,
+  accounts,
+  maxItems = 5,
+}: ScheduledTransactionsListProps) {
+  const [showAll, setShowAll] = useState(false)
+
+  const handleMarkCleared = useCallback(async (transaction: Transaction) => {
+    await transactionService.update(transaction.id, { status: 'cleared' })
+  }, [])
+
+  const handleDelete = useCallback(async (transaction: Transaction) => {
+    await transactionService.delete(transaction.id)
+  }, [])
+
+  if (scheduled.length === 0) return null
+
+  const today = getToday()
+  const categoryMap = new Map(categories.map(c => [c.id, c]))
+  const accountMap = new Map(accounts.map(a => [a.id, a]))
+  const displayItems = showAll ? scheduled : scheduled.slice(0, maxItems)
+  const total = scheduled.reduce((sum, t) => sum + t.amount, 0)
+
+  return (
+    <Card>
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <CardTitle icon={<CalendarClock className="w-5 h-5 text-violet-400" />}>
+          Opérations prévues
+        </CardTitle>
+        <span className={`text-sm font-medium ${total >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+          {total >= 0 ? '+' : ''}{formatMoney(total)}
+        </span>
+      </div>
+      <div className="space-y-2">
+        {displayItems.map(t => {
+          const category = categoryMap.get(t.category)
+          const account = t.accountId && accounts.length > 1 ? accountMap.get(t.accountId) : undefined
+          const isOverdue = t.date < today
+          return (
+            <div
+              key={t.id}
+              className="flex items-center justify-between gap-3 p-3 bg-gray-700/30 rounded-lg hover:bg-gray-700/50 transition-colors"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <div
+                  className="w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: category?.color || '#94a3b8' }}
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{t.description}</p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(t.date)} • {category?.name || 'Autre'}
+                    {account && ` • ${account.name}`}
+                    {isOverdue && <span className="text-amber-400"> • en retard, pas encore vue à la banque</span>}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <span className={`text-sm font-medium mr-2 ${t.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {t.amount >= 0 ? '+' : ''}{formatMoney(t.amount)}
+                </span>
+                <button
+                  onClick={() => handleMarkCleared(t)}
+                  className="p-1.5 text-gray-400 hover:text-green-400 rounded transition-colors"
+                  title="Marquer comme passée"
+                  aria-label="Marquer comme passée"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(t)}
+                  className="p-1.5 text-gray-400 hover:text-red-400 rounded transition-colors"
+                  title="Supprimer"
+                  aria-label="Supprimer l'opération prévue"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+      {scheduled.length > maxItems && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="w-full flex items-center justify-center gap-1 mt-3 text-sm text-gray-400 hover:text-white"
+        >
+          {showAll ? (
+            <>
+              <ChevronUp className="w-4 h-4" />
+              Voir moins
+            </>
+          ) : (
+            <>
+              <ChevronDown className="w-4 h-4" />
+              Voir les {scheduled.length} opérations
+            </>
+          )}
+        </button>
+      )}
+      <p className="text-xs text-gray-500 mt-3">
+        Hors statistiques et solde bancaire. Elles sont rapprochées de leur ligne bancaire à l'import.
+      </p>
+    </Card>
+  )
+})
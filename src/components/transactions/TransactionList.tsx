@@ -1,16 +1,28 @@
 import { memo, useMemo, useState, useCallback, useRef, useEffect } from 'react'
-import { CreditCard, X, CheckSquare, Tag, XCircle, Calendar } from 'lucide-react'
-import type { Transaction, Category } from '@/types'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { CreditCard, X, CheckSquare, Tag, XCircle, Calendar, Hash } from 'lucide-react'
+import type { Transaction, Category, BankAccount } from '@/types'
 import { Card, CardTitle, Button, EmptyTransactions, EmptySearch, useToast } from '@components/common'
 import { TransactionRow } from './TransactionRow'
 import { EditTransactionModal } from './EditTransactionModal'
-import { transactionService } from '@services/db'
+import { AccountSelect } from '@components/accounts'
+import { TagInput, TagSelect } from '@components/tags'
+import { SearchQueryInput } from '@components/search'
+import { transactionService, assetAccountService, db } from '@services/db'
+import { getDescendantIds } from '@services/categories'
+import { parseSearchQuery, filterTransactions } from '@services/search'
+import { formatDate } from '@utils/formatters'
 
 type ViewMode = 'all' | 'expenses' | 'income'
 
 interface TransactionListProps {
   transactions: Transaction[]
   categories: Category[]
+  accounts?: BankAccount[]
+  selectedAccountId?: string | null
+  onAccountChange?: (accountId: string | null) => void
+  selectedTag?: string | null
+  onTagFilterChange?: (tag: string | null) => void
   selectedCategory?: string | null
   householdMembers?: string[]
   onClearCategory?: () => void
@@ -18,11 +30,18 @@ interface TransactionListProps {
   onBudgetMonthChange?: (transactionId: string, budgetMonth: string | undefined) => void
   onAssignedToChange?: (transactionId: string, assignedTo: string | undefined) => void
   onBulkCategoryChange?: (transactionIds: string[], categoryId: string) => void
+  searchQuery?: string // Controlled search, the list keeps its own otherwise
+  onSearchQueryChange?: (query: string) => void
 }
 
 export const TransactionList = memo(function TransactionList({
   transactions,
   categories,
+  accounts = [],
+  selectedAccountId = null,
+  onAccountChange,
+  selectedTag = null,
+  onTagFilterChange,
   selectedCategory,
   householdMembers = [],
   onClearCategory,
@@ -30,15 +49,23 @@ export const TransactionList = memo(function TransactionList({
   onBudgetMonthChange,
   onAssignedToChange,
   onBulkCategoryChange,
+  searchQuery,
+  onSearchQueryChange,
 }: TransactionListProps) {
   const toast = useToast()
+  const [localQuery, setLocalQuery] = useState('')
+  const query = searchQuery ?? localQuery
+  const setQuery = onSearchQueryChange ?? setLocalQuery
   const [viewMode, setViewMode] = useState<ViewMode>('all')
   const [selectedMonth, setSelectedMonth] = useState<string>('all') // 'all' or 'YYYY-MM'
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [isSelectionMode, setIsSelectionMode] = useState(false)
   const [showBulkDropdown, setShowBulkDropdown] = useState(false)
+  const [showBulkTags, setShowBulkTags] = useState(false)
+  const [bulkTags, setBulkTags] = useState<string[]>([])
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null)
   const bulkDropdownRef = useRef<HTMLDivElement>(null)
+  const bulkTagsRef = useRef<HTMLDivElement>(null)
 
   // Get unique months from transactions
   const availableMonths = useMemo(() => {
@@ -53,25 +80,79 @@ export const TransactionList = memo(function TransactionList({
     return new Map(categories.map((c) => [c.id, c]))
   }, [categories])
 
-  // Close dropdown when clicking outside
+  // Internal transfers: load counterparts (they may be on a filtered-out account)
+  const transferPairKey = transactions
+    .map(t => t.transferPairId)
+    .filter(Boolean)
+    .join(',')
+  const transferCounterparts = useLiveQuery(
+    () => db.transactions.bulkGet(transferPairKey ? transferPairKey.split(',') : []),
+    [transferPairKey]
+  )
+  const assetAccounts = useLiveQuery(() => assetAccountService.getAll())
+  const allTags = useLiveQuery(() => transactionService.getAllTags()) ?? []
+
+  // People are the household members plus anyone a transaction was assigned to
+  const suggestionContext = useMemo(() => {
+    const people = new Set(householdMembers)
+    for (const t of transactions) {
+      if (t.assignedTo) people.add(t.assignedTo)
+    }
+    return { categories, accounts, tags: allTags, people: Array.from(people) }
+  }, [categories, accounts, allTags, householdMembers, transactions])
+
+  const search = useMemo(
+    () => parseSearchQuery(query, { categories, accounts }),
+    [query, categories, accounts]
+  )
+
+  const transferLabels = useMemo(() => {
+    const labels = new Map<string, string>()
+    const accountNames = new Map(accounts.map(a => [a.id, a.name]))
+    const assetNames = new Map((assetAccounts ?? []).map(a => [a.id, a.name]))
+    const counterparts = new Map(
+      (transferCounterparts ?? []).filter((t): t is Transaction => Boolean(t)).map(t => [t.id, t])
+    )
+    for (const t of transactions) {
+      if (t.transferPairId) {
+        const counterpart = counterparts.get(t.transferPairId)
+        if (!counterpart) continue
+        const accountName = counterpart.accountId ? accountNames.get(counterpart.accountId) : undefined
+        labels.set(t.id, `${t.amount < 0 ? 'vers' : 'de'} ${accountName ?? 'autre compte'} • ${formatDate(counterpart.date)}`)
+      } else if (t.transferAssetAccountId) {
+        const assetName = assetNames.get(t.transferAssetAccountId) ?? 'épargne'
+        labels.set(t.id, `${t.amount < 0 ? 'vers' : 'de'} ${assetName}`)
+      }
+    }
+    return labels
+  }, [transactions, transferCounterparts, assetAccounts, accounts])
+
+  // Close dropdowns when clicking outside
   useEffect(() => {
-    if (!showBulkDropdown) return
+    if (!showBulkDropdown && !showBulkTags) return
 
     const handleClickOutside = (e: MouseEvent) => {
       if (bulkDropdownRef.current && !bulkDropdownRef.current.contains(e.target as Node)) {
         setShowBulkDropdown(false)
       }
+      if (bulkTagsRef.current && !bulkTagsRef.current.contains(e.target as Node)) {
+        setShowBulkTags(false)
+      }
     }
 
     document.addEventListener('mousedown', handleClickOutside)
     return () => document.removeEventListener('mousedown', handleClickOutside)
-  }, [showBulkDropdown])
+  }, [showBulkDropdown, showBulkTags])
 
   const filteredTransactions = useMemo(() => {
     let filtered = transactions
 
     if (selectedCategory) {
-      filtered = filtered.filter((t) => t.category === selectedCategory)
+      // A parent category also shows its subcategories
+      const categoryIds = new Set(getDescendantIds(categories, selectedCategory))
+      filtered = filtered.filter((t) =>
+        categoryIds.has(t.category) || t.splits?.some(s => categoryIds.has(s.category))
+      )
     }
 
     if (selectedMonth !== 'all') {
@@ -84,8 +165,12 @@ export const TransactionList = memo(function TransactionList({
       filtered = filtered.filter((t) => t.amount > 0)
     }
 
+    if (query.trim()) {
+      filtered = filterTransactions(filtered, search.filters, categories)
+    }
+
     return [...filtered].sort((a, b) => b.date.localeCompare(a.date))
-  }, [transactions, selectedCategory, selectedMonth, viewMode])
+  }, [transactions, categories, selectedCategory, selectedMonth, viewMode, query, search])
 
   const handleViewModeChange = useCallback((mode: ViewMode) => {
     setViewMode(mode)
@@ -129,6 +214,20 @@ export const TransactionList = memo(function TransactionList({
     }
   }, [onBulkCategoryChange, selectedIds])
 
+  const handleBulkAddTags = useCallback(async () => {
+    if (selectedIds.size === 0 || bulkTags.length === 0) return
+    const updated = await transactionService.addTags(Array.from(selectedIds), bulkTags)
+    toast.success('Tags ajoutés', `${bulkTags.map(t => `#${t}`).join(', ')} sur ${updated} transaction(s)`)
+    setBulkTags([])
+    setShowBulkTags(false)
+    setSelectedIds(new Set())
+    setIsSelectionMode(false)
+  }, [selectedIds, bulkTags, toast])
+
+  const handleTagsChange = useCallback(async (transactionId: string, tags: string[]) => {
+    await transactionService.update(transactionId, { tags: tags.length > 0 ? tags : undefined })
+  }, [])
+
   const handleClearSelection = useCallback(() => {
     setSelectedIds(new Set())
   }, [])
@@ -169,6 +268,16 @@ export const TransactionList = memo(function TransactionList({
           )}
         </CardTitle>
         <div className="flex gap-2 flex-wrap items-center" role="group" aria-label="Filtrer par type">
+          {/* Account filter */}
+          {onAccountChange && (
+            <AccountSelect accounts={accounts} value={selectedAccountId} onChange={onAccountChange} />
+          )}
+
+          {/* Tag filter */}
+          {onTagFilterChange && (
+            <TagSelect tags={allTags} value={selectedTag} onChange={onTagFilterChange} />
+          )}
+
           {/* Month filter */}
           <div className="flex items-center gap-1 bg-gray-700 rounded-lg px-2 py-1">
             <Calendar className="w-4 h-4 text-gray-400" />
@@ -214,6 +323,15 @@ export const TransactionList = memo(function TransactionList({
         </div>
       </div>
 
+      <div className="mb-4">
+        <SearchQueryInput
+          value={query}
+          onChange={setQuery}
+          context={suggestionContext}
+          errors={search.errors}
+        />
+      </div>
+
       {/* Bulk action bar */}
       {isSelectionMode && isSomeSelected && (
         <div className="bg-blue-500/20 border border-blue-500/50 rounded-lg p-3 mb-4 flex flex-wrap items-center justify-between gap-3">
@@ -229,32 +347,58 @@ export const TransactionList = memo(function TransactionList({
               <XCircle className="w-5 h-5" />
             </button>
           </div>
-          <div className="relative" ref={bulkDropdownRef}>
-            <Button
-              variant="primary"
-              size="sm"
-              onClick={() => setShowBulkDropdown(!showBulkDropdown)}
-              leftIcon={<Tag className="w-4 h-4" />}
-            >
-              Changer catégorie
-            </Button>
-            {showBulkDropdown && (
-              <div className="absolute z-50 top-full right-0 mt-2 bg-gray-800 border border-gray-600 rounded-lg shadow-xl max-h-60 overflow-y-auto min-w-[200px]">
-                {categories.map((cat) => (
-                  <button
-                    key={cat.id}
-                    onClick={() => handleBulkCategoryChange(cat.id)}
-                    className="w-full text-left px-3 py-2 text-sm hover:bg-gray-700 flex items-center gap-2"
+          <div className="flex items-center gap-2">
+            <div className="relative" ref={bulkTagsRef}>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => setShowBulkTags(!showBulkTags)}
+                leftIcon={<Hash className="w-4 h-4" />}
+              >
+                Ajouter un tag
+              </Button>
+              {showBulkTags && (
+                <div className="absolute z-50 top-full right-0 mt-2 bg-gray-800 border border-gray-600 rounded-lg shadow-xl p-3 w-72 space-y-2">
+                  <TagInput value={bulkTags} onChange={setBulkTags} suggestions={allTags} autoFocus />
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    className="w-full"
+                    onClick={handleBulkAddTags}
+                    disabled={bulkTags.length === 0}
                   >
-                    <span
-                      className="w-3 h-3 rounded-full flex-shrink-0"
-                      style={{ backgroundColor: cat.color }}
-                    />
-                    <span className="truncate">{cat.name}</span>
-                  </button>
-                ))}
-              </div>
-            )}
+                    Ajouter à {selectedIds.size} transaction(s)
+                  </Button>
+                </div>
+              )}
+            </div>
+            <div className="relative" ref={bulkDropdownRef}>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={() => setShowBulkDropdown(!showBulkDropdown)}
+                leftIcon={<Tag className="w-4 h-4" />}
+              >
+                Changer catégorie
+              </Button>
+              {showBulkDropdown && (
+                <div className="absolute z-50 top-full right-0 mt-2 bg-gray-800 border border-gray-600 rounded-lg shadow-xl max-h-60 overflow-y-auto min-w-[200px]">
+                  {categories.map((cat) => (
+                    <button
+                      key={cat.id}
+                      onClick={() => handleBulkCategoryChange(cat.id)}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-gray-700 flex items-center gap-2"
+                    >
+                      <span
+                        className="w-3 h-3 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: cat.color }}
+                      />
+                      <span className="truncate">{cat.name}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -262,7 +406,12 @@ export const TransactionList = memo(function TransactionList({
       {transactions.length === 0 ? (
         <EmptyTransactions />
       ) : filteredTransactions.length === 0 ? (
-        <EmptySearch onClear={onClearCategory} />
+        <EmptySearch
+          onClear={() => {
+            setQuery('')
+            onClearCategory?.()
+          }}
+        />
       ) : (
         <>
           <div className="overflow-x-auto max-h-96 overflow-y-auto custom-scrollbar">
@@ -311,9 +460,12 @@ export const TransactionList = memo(function TransactionList({
                     category={categoryMap.get(t.category)}
                     allCategories={categories}
                     householdMembers={householdMembers}
+                    transferLabel={transferLabels.get(t.id)}
+                    allTags={allTags}
                     onCategoryChange={onCategoryChange}
                     onBudgetMonthChange={onBudgetMonthChange}
                     onAssignedToChange={onAssignedToChange}
+                    onTagsChange={handleTagsChange}
                     onEdit={handleEdit}
                     onDelete={handleDelete}
                     isSelected={selectedIds.has(t.id)}
@@ -336,6 +488,8 @@ export const TransactionList = memo(function TransactionList({
         <EditTransactionModal
           transaction={editingTransaction}
           categories={categories}
+          householdMembers={householdMembers}
+          allTags={allTags}
           onSave={handleSaveEdit}
           onDelete={handleDelete}
           onClose={() => setEditingTransaction(null)}
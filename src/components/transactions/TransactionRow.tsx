@@ -1,18 +1,22 @@
 import { memo, useState, useRef, useEffect, useCallback } from 'react'
 import { createPortal } from 'react-dom'
-import { Pencil, Trash2, MoreVertical, User } from 'lucide-react'
+import { Pencil, Trash2, MoreVertical, User, ArrowLeftRight, Split, Hash } from 'lucide-react'
 import type { Transaction, Category } from '@/types'
 import { formatMoney, formatDate } from '@utils/formatters'
 import { COLORS } from '@utils/constants'
+import { TagInput } from '@components/tags'
 
 interface TransactionRowProps {
   transaction: Transaction
   category?: Category
   allCategories?: Category[]
   householdMembers?: string[]
+  transferLabel?: string // Counterpart of an internal transfer
+  allTags?: string[] // Suggestions for the tag editor
   onCategoryChange?: (transactionId: string, categoryId: string) => void
   onBudgetMonthChange?: (transactionId: string, budgetMonth: string | undefined) => void
   onAssignedToChange?: (transactionId: string, assignedTo: string | undefined) => void
+  onTagsChange?: (transactionId: string, tags: string[]) => void
   onEdit?: (transaction: Transaction) => void
   onDelete?: (transactionId: string) => void
   isSelected?: boolean
@@ -25,26 +29,31 @@ export const TransactionRow = memo(function TransactionRow({
   category,
   allCategories = [],
   householdMembers = [],
+  transferLabel,
+  allTags = [],
   onCategoryChange,
   onBudgetMonthChange,
   onAssignedToChange,
+  onTagsChange,
   onEdit,
   onDelete,
   isSelected = false,
   onSelect,
   showCheckbox = false,
 }: TransactionRowProps) {
-  const { id, date, description, type, amount, category: categoryId, budgetMonth, assignedTo } = transaction
+  const { id, date, description, type, amount, category: categoryId, budgetMonth, assignedTo, tags = [] } = transaction
   const isCredit = amount > 0
   const color = category?.color || COLORS[categoryId] || COLORS.other
   const [showDropdown, setShowDropdown] = useState(false)
   const [showMonthPicker, setShowMonthPicker] = useState(false)
   const [showActions, setShowActions] = useState(false)
   const [showPersonPicker, setShowPersonPicker] = useState(false)
+  const [showTagEditor, setShowTagEditor] = useState(false)
   const [dropdownPosition, setDropdownPosition] = useState({ top: 0, left: 0 })
   const [monthPickerPosition, setMonthPickerPosition] = useState({ top: 0, left: 0 })
   const [actionsPosition, setActionsPosition] = useState({ top: 0, left: 0 })
   const [personPickerPosition, setPersonPickerPosition] = useState({ top: 0, left: 0 })
+  const [tagEditorPosition, setTagEditorPosition] = useState({ top: 0, left: 0 })
   const buttonRef = useRef<HTMLButtonElement>(null)
   const dropdownRef = useRef<HTMLDivElement>(null)
   const dateButtonRef = useRef<HTMLButtonElement>(null)
@@ -53,6 +62,8 @@ export const TransactionRow = memo(function TransactionRow({
   const actionsRef = useRef<HTMLDivElement>(null)
   const personButtonRef = useRef<HTMLButtonElement>(null)
   const personPickerRef = useRef<HTMLDivElement>(null)
+  const tagButtonRef = useRef<HTMLButtonElement>(null)
+  const tagEditorRef = useRef<HTMLDivElement>(null)
 
   // Get the natural month from the transaction date
   const naturalMonth = date.substring(0, 7) // YYYY-MM
@@ -60,7 +71,7 @@ export const TransactionRow = memo(function TransactionRow({
 
   // Close dropdown when clicking outside
   useEffect(() => {
-    if (!showDropdown && !showMonthPicker && !showActions && !showPersonPicker) return
+    if (!showDropdown && !showMonthPicker && !showActions && !showPersonPicker && !showTagEditor) return
 
     const handleClickOutside = (e: MouseEvent) => {
       // Handle category dropdown
@@ -95,6 +106,14 @@ export const TransactionRow = memo(function TransactionRow({
       ) {
         setShowPersonPicker(false)
       }
+      // Handle tag editor
+      if (
+        showTagEditor &&
+        tagEditorRef.current && !tagEditorRef.current.contains(e.target as Node) &&
+        tagButtonRef.current && !tagButtonRef.current.contains(e.target as Node)
+      ) {
+        setShowTagEditor(false)
+      }
     }
 
     // Close on scroll (but not if scrolling inside the dropdown)
@@ -108,10 +127,14 @@ export const TransactionRow = memo(function TransactionRow({
       if (personPickerRef.current && personPickerRef.current.contains(e.target as Node)) {
         return // Don't close if scrolling inside person picker
       }
+      if (tagEditorRef.current && tagEditorRef.current.contains(e.target as Node)) {
+        return // Don't close if scrolling inside tag editor
+      }
       setShowDropdown(false)
       setShowMonthPicker(false)
       setShowActions(false)
       setShowPersonPicker(false)
+      setShowTagEditor(false)
     }
 
     document.addEventListener('mousedown', handleClickOutside)
@@ -120,7 +143,7 @@ export const TransactionRow = memo(function TransactionRow({
       document.removeEventListener('mousedown', handleClickOutside)
       document.removeEventListener('scroll', handleScroll, true)
     }
-  }, [showDropdown, showMonthPicker, showActions, showPersonPicker])
+  }, [showDropdown, showMonthPicker, showActions, showPersonPicker, showTagEditor])
 
   const handleActionsClick = useCallback(() => {
     if (actionsButtonRef.current) {
@@ -208,6 +231,17 @@ export const TransactionRow = memo(function TransactionRow({
     setShowPersonPicker(false)
   }, [onAssignedToChange, id])
 
+  const handleTagClick = useCallback(() => {
+    if (onTagsChange && tagButtonRef.current) {
+      const rect = tagButtonRef.current.getBoundingClientRect()
+      setTagEditorPosition({
+        top: rect.bottom + 4,
+        left: rect.left,
+      })
+      setShowTagEditor(prev => !prev)
+    }
+  }, [onTagsChange])
+
   const handleCategorySelect = (newCategoryId: string) => {
     if (onCategoryChange) {
       onCategoryChange(id, newCategoryId)
@@ -288,8 +322,72 @@ export const TransactionRow = memo(function TransactionRow({
               Manuel
             </span>
           )}
+          {transaction.status === 'pending' && (
+            <span
+              className="px-1.5 py-0.5 bg-yellow-500/20 text-yellow-400 text-[10px] rounded font-medium whitespace-nowrap"
+              title="Affichée par la banque mais pas encore débitée, hors solde bancaire"
+            >
+              En attente
+            </span>
+          )}
+          {transaction.splits && transaction.splits.length > 0 && (
+            <span
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-purple-500/20 text-purple-400 text-[10px] rounded font-medium whitespace-nowrap"
+              title="Montant réparti entre plusieurs catégories"
+            >
+              <Split className="w-3 h-3" />
+              {transaction.splits.length} lignes
+            </span>
+          )}
+          {transferLabel && (
+            <span
+              className="inline-flex items-center gap-1 px-1.5 py-0.5 bg-cyan-500/20 text-cyan-400 text-[10px] rounded font-medium whitespace-nowrap"
+              title="Virement interne, exclu des revenus et dépenses"
+            >
+              <ArrowLeftRight className="w-3 h-3" />
+              {transferLabel}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <p className="text-xs text-gray-500">{type}</p>
+          {tags.map(tag => (
+            <span key={tag} className="px-1.5 py-0.5 bg-amber-500/20 text-amber-400 text-[10px] rounded-full">
+              #{tag}
+            </span>
+          ))}
+          {onTagsChange && (
+            <button
+              ref={tagButtonRef}
+              onClick={handleTagClick}
+              className="p-0.5 text-gray-500 hover:text-amber-400 transition-colors"
+              title="Modifier les tags"
+              aria-label="Modifier les tags"
+            >
+              <Hash className="w-3 h-3" />
+            </button>
+          )}
         </div>
-        <p className="text-xs text-gray-500">{type}</p>
+
+        {/* Tag editor */}
+        {showTagEditor && onTagsChange && createPortal(
+          <div
+            ref={tagEditorRef}
+            className="fixed z-[100] bg-gray-800 border border-gray-600 rounded-lg shadow-xl w-64 p-2"
+            style={{
+              top: tagEditorPosition.top,
+              left: tagEditorPosition.left,
+            }}
+          >
+            <TagInput
+              value={tags}
+              onChange={(newTags) => onTagsChange(id, newTags)}
+              suggestions={allTags}
+              autoFocus
+            />
+          </div>,
+          document.body
+        )}
       </td>
       <td className="py-3">
         <button
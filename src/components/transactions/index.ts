@@ -1,3 +1,4 @@
 export { TransactionRow } from './TransactionRow'
 export { TransactionList } from './TransactionList'
 export { CategoryFilterButton } from './CategoryFilterButton'
+export { ScheduledTransactionsList } from './ScheduledTransactionsList'
@@ -7,3 +7,5 @@ export {
   useUnusualTransactions,
 } from './useFinancialInsights'
 export { useFinancialAdvisor } from './useFinancialAdvisor'
+export { useHistory } from './useHistory'
+export { useSyncStatus } from './useSyncStatus'
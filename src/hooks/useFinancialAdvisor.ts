@@ -18,6 +18,7 @@ import {
   categoryBudgetService,
   settingsService,
 } from '@services/db'
+import { expandSplits } from '@services/splits'
 import type { Transaction, MonthlyStats, CategoryStat } from '@/types'
 
 interface UseFinancialAdvisorResult {
@@ -36,7 +37,7 @@ interface UseFinancialAdvisorResult {
 }
 
 export function useFinancialAdvisor(
-  allTransactions: Transaction[],
+  transactions: Transaction[],
   categories: { id: string; name: string; color: string; isIncome: boolean }[]
 ): UseFinancialAdvisorResult {
   // Charger les données nécessaires
@@ -44,6 +45,9 @@ export function useFinancialAdvisor(
   const monthlyBudgetConfig = useLiveQuery(() => monthlyBudgetConfigService.getLatest(), [])
   const categoryBudgets = useLiveQuery(() => categoryBudgetService.getAll(), []) ?? []
 
+  // Les règles raisonnent par catégorie : une transaction répartie compte pour chacune de ses lignes
+  const allTransactions = useMemo(() => expandSplits(transactions), [transactions])
+
   // Calculer le mois courant et précédent
   const { currentMonth, previousMonth } = useMemo(() => {
     const now = new Date()
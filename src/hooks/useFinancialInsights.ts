@@ -1,4 +1,6 @@
 import { useMemo } from 'react'
+import { isSettled, projectBalance } from '@services/scheduled'
+import { getToday } from '@utils/formatters'
 import type {
   Transaction,
   FinancialInsights,
@@ -165,23 +167,38 @@ export function useRecurringTransactions(transactions: Transaction[]): Recurring
 }
 
 /**
- * Calculate cash flow over time with cumulative balance
+ * Calculate cash flow over time with cumulative balance, then the projected
+ * balance from today with pending rows and scheduled entries
  */
-export function useCashFlow(transactions: Transaction[], initialBalance = 0): CashFlowPoint[] {
+export function useCashFlow(
+  transactions: Transaction[],
+  initialBalance = 0,
+  scheduled: Transaction[] = []
+): CashFlowPoint[] {
   return useMemo(() => {
-    if (transactions.length === 0) return []
+    const today = getToday()
+    const settled = transactions.filter(t => isSettled(t, today))
+    const upcoming = [...transactions.filter(t => !isSettled(t, today)), ...scheduled]
+    if (settled.length === 0 && upcoming.length === 0) return []
+
+    const formatLabel = (date: string) =>
+      new Date(date).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' })
 
-    // Group by date
+    // Group by date (upcoming entries on their expected date, overdue ones today)
     const dailyData = new Map<string, { income: number; expenses: number }>()
+    const upcomingDaily = new Map<string, { income: number; expenses: number }>()
 
-    for (const t of transactions) {
-      const existing = dailyData.get(t.date) || { income: 0, expenses: 0 }
+    for (const t of [...settled, ...upcoming]) {
+      const isUpcoming = !isSettled(t, today)
+      const date = isUpcoming && t.date < today ? today : t.date
+      const daily = isUpcoming ? upcomingDaily : dailyData
+      const existing = daily.get(date) || { income: 0, expenses: 0 }
       if (t.amount > 0) {
         existing.income += t.amount
       } else {
         existing.expenses += Math.abs(t.amount)
       }
-      dailyData.set(t.date, existing)
+      daily.set(date, existing)
     }
 
     // Sort by date and calculate cumulative
@@ -196,7 +213,7 @@ export function useCashFlow(transactions: Transaction[], initialBalance = 0): Ca
 
       result.push({
         date,
-        dateLabel: new Date(date).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short' }),
+        dateLabel: formatLabel(date),
         income: data.income,
         expenses: data.expenses,
         netFlow,
@@ -204,8 +221,34 @@ export function useCashFlow(transactions: Transaction[], initialBalance = 0): Ca
       })
     }
 
+    if (upcoming.length === 0) return result
+
+    // The projection starts from the balance of today
+    let todayPoint = result[result.length - 1]
+    if (todayPoint?.date !== today) {
+      todayPoint = { date: today, dateLabel: formatLabel(today), income: 0, expenses: 0, netFlow: 0, cumulativeBalance: cumulative }
+      result.push(todayPoint)
+    }
+    todayPoint.projectedBalance = cumulative
+
+    for (const { date, balance } of projectBalance(cumulative, upcoming, today)) {
+      if (date === today) {
+        todayPoint.projectedBalance = balance
+        continue
+      }
+      const data = upcomingDaily.get(date)!
+      result.push({
+        date,
+        dateLabel: formatLabel(date),
+        income: data.income,
+        expenses: data.expenses,
+        netFlow: data.income - data.expenses,
+        projectedBalance: balance,
+      })
+    }
+
     return result
-  }, [transactions, initialBalance])
+  }, [transactions, initialBalance, scheduled])
 }
 
 /**
@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from 'react'
+import { useToast } from '@components/common'
+import { undoLast, redoLast, revertEntry, describeEntry, type HistoryResult } from '@services/history'
+
+function describeSkipped(result: HistoryResult): string | undefined {
+  return result.skipped > 0
+    ? `${result.skipped} élément(s) modifié(s) depuis ont été laissés tels quels`
+    : undefined
+}
+
+/**
+ * Undo, redo and revert from the journal, reported in toasts
+ * that offer the opposite action
+ */
+export function useHistory() {
+  const toast = useToast()
+
+  const redo = useCallback(async () => {
+    try {
+      const result = await redoLast()
+      if (!result) {
+        toast.info('Rien à rétablir')
+        return
+      }
+      toast.success(`Rétabli : ${describeEntry(result.entry)}`, describeSkipped(result))
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [toast])
+
+  const undo = useCallback(async () => {
+    try {
+      const result = await undoLast()
+      if (!result) {
+        toast.info('Rien à annuler')
+        return
+      }
+      toast.success(`Annulé : ${describeEntry(result.entry)}`, describeSkipped(result), {
+        label: 'Rétablir',
+        onClick: redo,
+      })
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [toast, redo])
+
+  const revert = useCallback(async (id: string) => {
+    try {
+      const result = await revertEntry(id)
+      toast.success(`Annulé : ${describeEntry(result.entry)}`, describeSkipped(result), {
+        label: 'Rétablir',
+        onClick: undo,
+      })
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [toast, undo])
+
+  // Action for the toasts confirming a change
+  const undoAction = useMemo(() => ({ label: 'Annuler', onClick: undo }), [undo])
+
+  return { undo, redo, revert, undoAction }
+}
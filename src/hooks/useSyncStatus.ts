@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { getSyncStatus, subscribeSyncStatus, countPendingChanges } from '@services/sync'
+
+/**
+ * Sync status with the count of local changes waiting to be pushed
+ */
+export function useSyncStatus() {
+  const status = useSyncExternalStore(subscribeSyncStatus, getSyncStatus)
+  const pendingCount = useLiveQuery(countPendingChanges, [], 0)
+  return { ...status, pendingCount }
+}
@@ -35,6 +35,9 @@ import {
   db,
 } from '@services/db'
 import { useAllTransactions } from '@hooks/index'
+import { expandSplits, updateTransactionLine } from '@services/splits'
+import { isSettled } from '@services/scheduled'
+import { rollUpAmounts, getAncestorIds, getDescendantIds, flattenCategoryTree } from '@services/categories'
 import { formatMoney, formatPercent } from '@utils/formatters'
 import type {
   CategoryBudget,
@@ -101,52 +104,13 @@ export function BudgetPage() {
       }
     })
 
-    // Cleanup duplicate categoryBudgets (keep only one per categoryId, prefer the one with higher limit)
-    categoryBudgetService.getAll().then(async (budgets) => {
-      const seen = new Map<string, typeof budgets[0]>()
-      const toDelete: string[] = []
-
-      for (const budget of budgets) {
-        const existing = seen.get(budget.categoryId)
-        if (!existing) {
-          seen.set(budget.categoryId, budget)
-        } else {
-          // Keep the one with higher monthlyLimit
-          if (budget.monthlyLimit > existing.monthlyLimit) {
-            toDelete.push(existing.id)
-            seen.set(budget.categoryId, budget)
-          } else {
-            toDelete.push(budget.id)
-          }
-        }
-      }
-
-      // Also remove budgets for old 'housing' category if 'loyer' or 'energie' exist
-      const hasLoyer = seen.has('loyer')
-      const hasEnergie = seen.has('energie')
-      if ((hasLoyer || hasEnergie) && seen.has('housing')) {
-        toDelete.push(seen.get('housing')!.id)
-        seen.delete('housing')
-      }
-
-      if (toDelete.length > 0) {
-        console.log(`🧹 Nettoyage de ${toDelete.length} budget(s) catégorie en double`)
-        for (const id of toDelete) {
-          await categoryBudgetService.delete(id)
-        }
-      }
-    })
-
     return () => { isMounted = false }
   }, [])
 
-  // Calculate real bank balance (initial balance + transactions up to today only)
+  // Calculate real bank balance (initial balance + cleared transactions up to today only)
   const bankBalance = useMemo(() => {
     if (initialBalance === null) return null
-    // Use local date, not UTC (toISOString returns UTC which can cause timezone issues)
-    const now = new Date()
-    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-    const pastTransactions = allTransactionsFromHook.filter(t => t.date <= today)
+    const pastTransactions = allTransactionsFromHook.filter(t => isSettled(t))
     const transactionsTotal = pastTransactions.reduce((sum, t) => sum + t.amount, 0)
     return initialBalance + transactionsTotal
   }, [initialBalance, allTransactionsFromHook])
@@ -176,7 +140,7 @@ export function BudgetPage() {
   // Calculate actual spending by category for selected month
   const spendingByCategory = useMemo(() => {
     const map = new Map<string, number>()
-    for (const t of transactions) {
+    for (const t of expandSplits(transactions)) {
       if (t.amount < 0) {
         const current = map.get(t.category) || 0
         map.set(t.category, current + Math.abs(t.amount))
@@ -197,14 +161,18 @@ export function BudgetPage() {
     result.set('wants', 0)
     result.set('savings', 0)
 
+    // A parent budget includes its subcategories, whose own budgets are then not added twice
+    const rolledUpSpending = rollUpAmounts(spendingByCategory, categories)
+    const budgetedIds = new Set(categoryBudgets.map(b => b.categoryId))
     for (const budget of categoryBudgets) {
-      const spent = spendingByCategory.get(budget.categoryId) || 0
+      if (getAncestorIds(categories, budget.categoryId).some(id => budgetedIds.has(id))) continue
+      const spent = rolledUpSpending.get(budget.categoryId) || 0
       const current = result.get(budget.group) || 0
       result.set(budget.group, current + spent)
     }
 
     return result
-  }, [categoryBudgets, spendingByCategory])
+  }, [categoryBudgets, spendingByCategory, categories])
 
   // Monthly income (from config or actual)
   // Use selected month's config, or fall back to latest config for future months
@@ -257,6 +225,12 @@ export function BudgetPage() {
         await db.transactions.update(tx.id, { budgetGroup: undefined })
         count++
       }
+      if (tx.splits?.some(s => s.budgetGroup)) {
+        await db.transactions.update(tx.id, {
+          splits: tx.splits.map(s => ({ ...s, budgetGroup: undefined })),
+        })
+        count++
+      }
     }
     toast.success('Réinitialisé', `${count} transactions remises à zéro`)
   }, [toast])
@@ -514,6 +488,15 @@ function BudgetOverview({
 }: BudgetOverviewProps) {
   const categoryMap = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories])
 
+  // Split transactions are counted and assigned line by line
+  const transactionLines = useMemo(() => expandSplits(transactions), [transactions])
+
+  // Budgets set on a parent category count the spending of its subcategories
+  const rolledUpSpending = useMemo(
+    () => rollUpAmounts(spendingByCategory, categories),
+    [spendingByCategory, categories]
+  )
+
   // Calculate total savings progress
   const totalSavingsCurrent = savingsGoals.reduce((sum, g) => sum + g.currentAmount, 0)
 
@@ -525,13 +508,16 @@ function BudgetOverview({
     result.set('wants', 0)
     result.set('savings', 0)
 
-    // Get all category IDs explicitly assigned to "needs"
+    // Get all category IDs explicitly assigned to "needs" (with their subcategories)
     const needsCategoryIds = new Set(
-      categoryBudgets.filter(b => b.isActive && b.group === 'needs').map(b => b.categoryId)
+      categoryBudgets
+        .filter(b => b.isActive && b.group === 'needs')
+        .flatMap(b => getDescendantIds(categories, b.categoryId))
     )
 
-    for (const t of transactions) {
+    for (const t of transactionLines) {
       if (t.amount >= 0) continue // Skip income
+      if (t.budgetGroup === 'ignored') continue
 
       const amount = Math.abs(t.amount)
 
@@ -553,7 +539,7 @@ function BudgetOverview({
     }
 
     return result
-  }, [transactions, categoryBudgets])
+  }, [transactionLines, categoryBudgets, categories])
 
   // Calculate total fixed charges - PLANNED amount (for budget display)
   const totalFixedChargesPlanned = useMemo(() => {
@@ -666,7 +652,7 @@ function BudgetOverview({
   }
 
   // Calculate totals for the visual summary
-  const totalExpenses = transactions
+  const totalExpenses = transactionLines
     .filter(t => t.amount < 0)
     .reduce((sum, t) => sum + Math.abs(t.amount), 0)
 
@@ -753,7 +739,7 @@ function BudgetOverview({
           }
 
           // Transactions assignées par l'utilisateur
-          const assignedTransactions = transactions.filter(t =>
+          const assignedTransactions = transactionLines.filter(t =>
             t.amount < 0 && t.budgetGroup === group.id
           )
 
@@ -780,7 +766,9 @@ function BudgetOverview({
           // For "needs": only explicitly assigned categories, EXCLUDING fixed charge categories
           // For "wants": ALL categories with spending that are NOT in "needs" (default behavior)
           const needsCategoryIds = new Set(
-            categoryBudgets.filter(b => b.isActive && b.group === 'needs').map(b => b.categoryId)
+            categoryBudgets
+              .filter(b => b.isActive && b.group === 'needs')
+              .flatMap(b => getDescendantIds(categories, b.categoryId))
           )
 
           // Categories used in fixed charges should not appear in variable expenses
@@ -797,12 +785,14 @@ function BudgetOverview({
               .map(b => ({
                 categoryId: b.categoryId,
                 budget: b,
-                spent: spendingByCategory.get(b.categoryId) || 0,
+                spent: rolledUpSpending.get(b.categoryId) || 0,
               }))
           } else {
             // Wants: explicitly configured wants + all spending not in needs
             const wantsBudgetCategoryIds = new Set(
-              categoryBudgets.filter(b => b.isActive && b.group === 'wants').map(b => b.categoryId)
+              categoryBudgets
+                .filter(b => b.isActive && b.group === 'wants')
+                .flatMap(b => getDescendantIds(categories, b.categoryId))
             )
 
             // Start with explicitly configured wants categories
@@ -811,7 +801,7 @@ function BudgetOverview({
               .map(b => ({
                 categoryId: b.categoryId,
                 budget: b,
-                spent: spendingByCategory.get(b.categoryId) || 0,
+                spent: rolledUpSpending.get(b.categoryId) || 0,
               }))
 
             // Add categories with spending that are NOT in needs, NOT in configured wants, and NOT fixed charges
@@ -981,7 +971,7 @@ function BudgetOverview({
                                 <span className="text-sm font-medium text-white">{formatMoney(Math.abs(t.amount))}</span>
                                 <button
                                   onClick={async () => {
-                                    await db.transactions.update(t.id, { budgetGroup: 'wants' })
+                                    await updateTransactionLine(t, { budgetGroup: 'wants' })
                                   }}
                                   className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white"
                                   title="Déplacer vers Envies"
@@ -1021,7 +1011,7 @@ function BudgetOverview({
                             <span className="text-sm font-medium text-white">{formatMoney(Math.abs(t.amount))}</span>
                             <button
                               onClick={async () => {
-                                await db.transactions.update(t.id, { budgetGroup: 'needs' })
+                                await updateTransactionLine(t, { budgetGroup: 'needs' })
                               }}
                               className="p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white"
                               title="Déplacer vers Besoins"
@@ -1095,8 +1085,8 @@ function BudgetOverview({
       {/* Gestion des dépenses du mois */}
       {(() => {
         // Toutes les dépenses du mois (sauf ignorées)
-        const allExpenses = transactions.filter(t => t.amount < 0 && t.budgetGroup !== 'ignored')
-        const unassignedCount = transactions.filter(t => t.amount < 0 && !t.budgetGroup).length
+        const allExpenses = transactionLines.filter(t => t.amount < 0 && t.budgetGroup !== 'ignored')
+        const unassignedCount = transactionLines.filter(t => t.amount < 0 && !t.budgetGroup).length
 
         return (
           <Card>
@@ -1134,7 +1124,7 @@ function BudgetOverview({
                         <span className="text-sm font-bold text-white">{formatMoney(Math.abs(t.amount))}</span>
                         <button
                           onClick={async () => {
-                            await db.transactions.update(t.id, { budgetGroup: 'needs' })
+                            await updateTransactionLine(t, { budgetGroup: 'needs' })
                           }}
                           className={`px-2 py-1 text-xs rounded ${isAssignedNeeds ? 'bg-blue-500 text-white' : 'bg-blue-500/20 text-blue-400 hover:bg-blue-500/30'}`}
                         >
@@ -1142,7 +1132,7 @@ function BudgetOverview({
                         </button>
                         <button
                           onClick={async () => {
-                            await db.transactions.update(t.id, { budgetGroup: 'wants' })
+                            await updateTransactionLine(t, { budgetGroup: 'wants' })
                           }}
                           className={`px-2 py-1 text-xs rounded ${isAssignedWants ? 'bg-yellow-500 text-white' : 'bg-yellow-500/20 text-yellow-400 hover:bg-yellow-500/30'}`}
                         >
@@ -1150,7 +1140,7 @@ function BudgetOverview({
                         </button>
                         <button
                           onClick={async () => {
-                            await db.transactions.update(t.id, { budgetGroup: 'ignored' })
+                            await updateTransactionLine(t, { budgetGroup: 'ignored' })
                           }}
                           className="p-1 text-gray-400 hover:bg-red-500/20 hover:text-red-400 rounded"
                           title="Ignorer (ne pas comptabiliser)"
@@ -1488,8 +1478,9 @@ function CategoryBudgetManager({
     }
   }
 
-  // Filter expense categories
-  const expenseCategories = categories.filter(c => !c.isIncome)
+  // Expense categories in tree order, a parent's limit covers its subcategories
+  const expenseCategories = flattenCategoryTree(categories.filter(c => !c.isIncome))
+  const rolledUpSpending = rollUpAmounts(spendingByCategory, categories)
 
   // Calculate real-time totals from current inputs
   const budgetTotals = useMemo(() => {
@@ -1700,15 +1691,16 @@ function CategoryBudgetManager({
       )}
 
       <div className="space-y-3">
-        {expenseCategories.map(category => {
+        {expenseCategories.map(({ category, depth }) => {
           const input = budgetInputs.get(category.id) || { group: 'needs' as const, limit: '' }
-          const spent = spendingByCategory.get(category.id) || 0
+          const spent = rolledUpSpending.get(category.id) || 0
           const existingBudget = categoryBudgets.find(b => b.categoryId === category.id)
 
           return (
             <div
               key={category.id}
               className="flex flex-col md:flex-row md:items-center gap-3 p-3 bg-gray-700/30 rounded-lg"
+              style={depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined}
             >
               {/* Category name */}
               <div className="flex items-center gap-2 md:w-40">
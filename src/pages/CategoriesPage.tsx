@@ -1,9 +1,11 @@
-import { useState, useCallback } from 'react'
-import { Plus, Pencil, Trash2, Check, X, Eye, EyeOff } from 'lucide-react'
-import { Card, CardTitle, Button } from '@components/common'
+import { useState, useCallback, useMemo } from 'react'
+import { Plus, Pencil, Trash2, Check, X, Eye, EyeOff, GripVertical, CornerDownRight } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
 import { useTransactions } from '@store/TransactionContext'
 import { categoryService } from '@services/db'
+import { flattenCategoryTree, canReparent, getChildren } from '@services/categories'
 import type { Category } from '@/types'
+
 const PRESET_COLORS = [
   '#22c55e', '#f97316', '#3b82f6', '#a855f7', '#ec4899',
   '#eab308', '#14b8a6', '#ef4444', '#6b7280', '#10b981',
@@ -16,6 +18,7 @@ interface CategoryFormData {
   icon: string
   isIncome: boolean
   isExcludedFromStats: boolean
+  parentId: string // '' = top-level category
 }
 
 const defaultFormData: CategoryFormData = {
@@ -24,6 +27,7 @@ const defaultFormData: CategoryFormData = {
   icon: 'MoreHorizontal',
   isIncome: false,
   isExcludedFromStats: false,
+  parentId: '',
 }
 
 export function CategoriesPage() {
@@ -32,9 +36,14 @@ export function CategoriesPage() {
   const [isAdding, setIsAdding] = useState(false)
   const [formData, setFormData] = useState<CategoryFormData>(defaultFormData)
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const toast = useToast()
 
-  const expenseCategories = categories.filter(c => !c.isIncome)
-  const incomeCategories = categories.filter(c => c.isIncome)
+  const expenseCategories = useMemo(() => categories.filter(c => !c.isIncome), [categories])
+  const incomeCategories = useMemo(() => categories.filter(c => c.isIncome), [categories])
+  const expenseTree = useMemo(() => flattenCategoryTree(expenseCategories), [expenseCategories])
+  const incomeTree = useMemo(() => flattenCategoryTree(incomeCategories), [incomeCategories])
 
   const handleEdit = useCallback((category: Category) => {
     setEditingId(category.id)
@@ -44,6 +53,7 @@ export function CategoriesPage() {
       icon: category.icon,
       isIncome: category.isIncome,
       isExcludedFromStats: category.isExcludedFromStats,
+      parentId: category.parentId ?? '',
     })
     setIsAdding(false)
   }, [])
@@ -62,6 +72,7 @@ export function CategoriesPage() {
 
   const handleSave = useCallback(async () => {
     if (!formData.name.trim()) return
+    const parentId = formData.parentId || undefined
 
     if (isAdding) {
       const newCategory: Category = {
@@ -71,6 +82,7 @@ export function CategoriesPage() {
         color: formData.color,
         isIncome: formData.isIncome,
         isExcludedFromStats: formData.isExcludedFromStats,
+        parentId,
         order: categories.length + 1,
         isDefault: false,
         createdAt: new Date().toISOString(),
@@ -84,28 +96,71 @@ export function CategoriesPage() {
         isIncome: formData.isIncome,
         isExcludedFromStats: formData.isExcludedFromStats,
       })
+      try {
+        await categoryService.setParent(editingId, parentId)
+      } catch (err) {
+        toast.error('Catégorie parente invalide', (err as Error).message)
+        return
+      }
     }
 
     handleCancel()
-  }, [formData, isAdding, editingId, categories.length, handleCancel])
+  }, [formData, isAdding, editingId, categories.length, handleCancel, toast])
 
   const handleDelete = useCallback(async (id: string) => {
     await categoryService.delete(id)
     setDeleteConfirm(null)
   }, [])
 
+  // Drag a category onto another one to make it a subcategory
+  const handleDrop = useCallback(async (parentId: string | undefined) => {
+    const categoryId = draggingId
+    setDraggingId(null)
+    setDropTargetId(null)
+    if (!categoryId) return
+    try {
+      await categoryService.setParent(categoryId, parentId)
+    } catch (err) {
+      toast.error('Déplacement impossible', (err as Error).message)
+    }
+  }, [draggingId, toast])
+
+  const renderParentSelect = (categoryId?: string) => {
+    const candidates = categories.filter(c =>
+      c.isIncome === formData.isIncome &&
+      c.id !== categoryId &&
+      (!categoryId || canReparent(categories, categoryId, c.id))
+    )
+    return (
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Catégorie parente</label>
+        <select
+          value={formData.parentId}
+          onChange={(e) => setFormData(prev => ({ ...prev, parentId: e.target.value }))}
+          className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white"
+        >
+          <option value="">Aucune (catégorie principale)</option>
+          {candidates.map(c => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+      </div>
+    )
+  }
+
   const handleToggleExcluded = useCallback(async (category: Category) => {
     await categoryService.update(category.id, {
       isExcludedFromStats: !category.isExcludedFromStats,
     })
   }, [])
 
-  const renderCategoryRow = (category: Category) => {
+  const renderCategoryRow = ({ category, depth }: { category: Category; depth: number }) => {
     const isEditing = editingId === category.id
+    const indent = depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined
 
     if (isEditing) {
       return (
-        <div key={category.id} className="bg-gray-700/50 rounded-lg p-4 space-y-4">
+        <div key={category.id} className="bg-gray-700/50 rounded-lg p-4 space-y-4" style={indent}>
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm text-gray-400 mb-1">Nom</label>
@@ -121,7 +176,7 @@ export function CategoriesPage() {
               <label className="block text-sm text-gray-400 mb-1">Type</label>
               <select
                 value={formData.isIncome ? 'income' : 'expense'}
-                onChange={(e) => setFormData(prev => ({ ...prev, isIncome: e.target.value === 'income' }))}
+                onChange={(e) => setFormData(prev => ({ ...prev, isIncome: e.target.value === 'income', parentId: '' }))}
                 className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white"
               >
                 <option value="expense">Depense</option>
@@ -130,6 +185,8 @@ export function CategoriesPage() {
             </div>
           </div>
 
+          {renderParentSelect(category.id)}
+
           <div>
             <label className="block text-sm text-gray-400 mb-2">Couleur</label>
             <div className="flex flex-wrap gap-2">
@@ -174,9 +231,14 @@ export function CategoriesPage() {
 
     if (deleteConfirm === category.id) {
       return (
-        <div key={category.id} className="bg-red-500/10 border border-red-500/50 rounded-lg p-4">
+        <div key={category.id} className="bg-red-500/10 border border-red-500/50 rounded-lg p-4" style={indent}>
           <p className="text-sm text-gray-300 mb-3">
             Supprimer la categorie "{category.name}" ?
+            {getChildren(categories, category.id).length > 0 && (
+              <span className="text-gray-400 block mt-1">
+                Ses sous-categories remonteront d'un niveau.
+              </span>
+            )}
             {category.isDefault && (
               <span className="text-yellow-400 block mt-1">
                 Cette categorie est utilisee par defaut.
@@ -198,9 +260,35 @@ export function CategoriesPage() {
     return (
       <div
         key={category.id}
-        className="flex items-center justify-between p-3 bg-gray-700/30 rounded-lg hover:bg-gray-700/50 transition-colors"
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move'
+          setDraggingId(category.id)
+        }}
+        onDragEnd={() => {
+          setDraggingId(null)
+          setDropTargetId(null)
+        }}
+        onDragOver={(e) => {
+          if (!draggingId || draggingId === category.id || !canReparent(categories, draggingId, category.id)) return
+          e.preventDefault()
+          setDropTargetId(category.id)
+        }}
+        onDragLeave={() => setDropTargetId(prev => (prev === category.id ? null : prev))}
+        onDrop={(e) => {
+          e.preventDefault()
+          handleDrop(category.id)
+        }}
+        style={indent}
+        className={`flex items-center justify-between p-3 rounded-lg transition-colors ${
+          dropTargetId === category.id
+            ? 'bg-blue-500/20 ring-2 ring-blue-500/50'
+            : 'bg-gray-700/30 hover:bg-gray-700/50'
+        } ${draggingId === category.id ? 'opacity-50' : ''}`}
       >
         <div className="flex items-center gap-3">
+          <GripVertical className="w-4 h-4 text-gray-600 cursor-grab flex-shrink-0" />
+          {depth > 0 && <CornerDownRight className="w-4 h-4 text-gray-500 flex-shrink-0 -ml-1" />}
           <div
             className="w-10 h-10 rounded-full flex items-center justify-center"
             style={{ backgroundColor: `${category.color}20`, color: category.color }}
@@ -241,6 +329,30 @@ export function CategoriesPage() {
     )
   }
 
+  // Shown while dragging a subcategory: drop here to make it a top-level category
+  const renderRootDropZone = (isIncome: boolean) => {
+    const dragged = categories.find(c => c.id === draggingId)
+    if (!dragged?.parentId || dragged.isIncome !== isIncome) return null
+    return (
+      <div
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDropTargetId('__root__')
+        }}
+        onDragLeave={() => setDropTargetId(null)}
+        onDrop={(e) => {
+          e.preventDefault()
+          handleDrop(undefined)
+        }}
+        className={`p-3 border-2 border-dashed rounded-lg text-center text-sm ${
+          dropTargetId === '__root__' ? 'border-blue-500/50 text-blue-400' : 'border-gray-600 text-gray-500'
+        }`}
+      >
+        Deposer ici pour en faire une categorie principale
+      </div>
+    )
+  }
+
   return (
     <div className="max-w-2xl mx-auto space-y-6">
       <div className="flex items-center justify-between">
@@ -281,7 +393,7 @@ export function CategoriesPage() {
                 <label className="block text-sm text-gray-400 mb-1">Type</label>
                 <select
                   value={formData.isIncome ? 'income' : 'expense'}
-                  onChange={(e) => setFormData(prev => ({ ...prev, isIncome: e.target.value === 'income' }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, isIncome: e.target.value === 'income', parentId: '' }))}
                   className="w-full bg-gray-800 border border-gray-600 rounded-lg px-3 py-2 text-white"
                 >
                   <option value="expense">Depense</option>
@@ -290,6 +402,8 @@ export function CategoriesPage() {
               </div>
             </div>
 
+            {renderParentSelect()}
+
             <div>
               <label className="block text-sm text-gray-400 mb-2">Couleur</label>
               <div className="flex flex-wrap gap-2">
@@ -336,7 +450,8 @@ export function CategoriesPage() {
       <Card>
         <CardTitle>Depenses ({expenseCategories.length})</CardTitle>
         <div className="space-y-2 mt-4">
-          {expenseCategories.map(renderCategoryRow)}
+          {expenseTree.map(renderCategoryRow)}
+          {renderRootDropZone(false)}
         </div>
       </Card>
 
@@ -344,7 +459,8 @@ export function CategoriesPage() {
       <Card>
         <CardTitle>Revenus ({incomeCategories.length})</CardTitle>
         <div className="space-y-2 mt-4">
-          {incomeCategories.map(renderCategoryRow)}
+          {incomeTree.map(renderCategoryRow)}
+          {renderRootDropZone(true)}
         </div>
       </Card>
 
@@ -360,6 +476,10 @@ export function CategoriesPage() {
             <EyeOff className="w-4 h-4 mt-0.5 text-gray-500" />
             <span>Les categories exclues (virements internes) ne sont pas comptees</span>
           </li>
+          <li className="flex items-start gap-2">
+            <GripVertical className="w-4 h-4 mt-0.5 text-gray-500" />
+            <span>Glissez une categorie sur une autre pour en faire une sous-categorie : ses depenses sont incluses dans le total du parent</span>
+          </li>
         </ul>
       </Card>
     </div>
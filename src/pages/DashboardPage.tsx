@@ -19,13 +19,13 @@ import {
 import { useTransactions } from '@store/TransactionContext'
 import { transactionService } from '@services/db'
 import {
-  useAllTransactions,
   useFinancialInsights,
   useSpendingPatterns,
   useRecurringTransactions,
   useCashFlow,
   useUnusualTransactions,
   useFinancialAdvisor,
+  useHistory,
 } from '@hooks/index'
 import { Card, CardTitle, useToast } from '@components/common'
 import {
@@ -43,23 +43,40 @@ import {
 } from '@components/dashboard'
 import { LazyExpensesPieChart, LazyDailyBarChart, LazyMonthlyComparisonChart } from '@components/charts'
 import { TransactionList, CategoryFilterButton } from '@components/transactions'
+import { AccountSelect } from '@components/accounts'
 import { AdvisorPanel } from '@components/advisor'
+import { SavedSearchWidget } from '@components/search'
 import { QuickAddExpense } from '@components/budget/QuickAddExpense'
-import { formatDate, formatMoney } from '@utils/formatters'
-import { categoryBudgetService, settingsService } from '@services/db'
+import { isSettled } from '@services/scheduled'
+import { createScheduleFromTransactions } from '@services/recurring'
+import { formatDate, formatMoney, getToday } from '@utils/formatters'
+import { categoryBudgetService, settingsService, recurringScheduleService } from '@services/db'
 import { useLiveQuery } from 'dexie-react-hooks'
+import type { CategoryStat, RecurringTransaction } from '@/types'
 
 type DashboardTab = 'overview' | 'history' | 'calendar' | 'analysis' | 'transactions'
 
 export function DashboardPage() {
-  const { transactions, categories, stats, selectedPeriod, months, bulkUpdateCategory } = useTransactions()
-  const allTransactions = useAllTransactions()
+  const {
+    transactions,
+    accountTransactions: allTransactions, // All periods, limited to the selected account
+    scheduledTransactions,
+    categories,
+    accounts,
+    filters,
+    setFilters,
+    stats,
+    selectedPeriod,
+    months,
+    bulkUpdateCategory,
+  } = useTransactions()
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
   const [filterType, setFilterType] = useState<'expense' | 'income'>('expense')
   const [activeTab, setActiveTab] = useState<DashboardTab>('overview')
   const [recentTransactionsExpanded, setRecentTransactionsExpanded] = useState(false)
   const transactionListRef = useRef<HTMLDivElement>(null)
   const toast = useToast()
+  const { undoAction } = useHistory()
 
   // Current month for quick add
   const currentMonth = useMemo(() => {
@@ -73,16 +90,24 @@ export function DashboardPage() {
     []
   ) || []
 
-  // Load initial balance for bank balance calculation
-  const [initialBalance, setInitialBalance] = useState<number | null>(null)
+  const selectedAccountId = filters.accountIds[0] ?? null
+
+  const handleAccountChange = useCallback((accountId: string | null) => {
+    setFilters({ accountIds: accountId ? [accountId] : [] })
+  }, [setFilters])
+
+  // Initial balance of the selected account (or all accounts) for bank balance calculation
+  const initialBalance = useMemo(() => {
+    if (accounts.length === 0) return null
+    return accounts
+      .filter(a => !selectedAccountId || a.id === selectedAccountId)
+      .reduce((sum, a) => sum + a.initialBalance, 0)
+  }, [accounts, selectedAccountId])
 
   // Load household members for expense assignment
   const [householdMembers, setHouseholdMembers] = useState<string[]>([])
 
   useEffect(() => {
-    settingsService.getInitialBalance().then(balance => {
-      setInitialBalance(balance)
-    })
     settingsService.get('householdMembers').then(members => {
       if (Array.isArray(members)) {
         setHouseholdMembers(members)
@@ -90,13 +115,10 @@ export function DashboardPage() {
     })
   }, [])
 
-  // Calculate real bank balance (initial balance + transactions up to today only)
+  // Calculate real bank balance (initial balance + cleared transactions up to today only)
   const bankBalance = useMemo(() => {
     if (initialBalance === null) return null
-    // Use local date, not UTC (toISOString returns UTC which can cause timezone issues)
-    const now = new Date()
-    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-    const pastTransactions = allTransactions.filter(t => t.date <= today)
+    const pastTransactions = allTransactions.filter(t => isSettled(t))
     const transactionsTotal = pastTransactions.reduce((sum, t) => sum + t.amount, 0)
     return initialBalance + transactionsTotal
   }, [initialBalance, allTransactions])
@@ -122,7 +144,21 @@ export function DashboardPage() {
   const insights = useFinancialInsights(transactions, previousPeriodTransactions)
   const spendingPatterns = useSpendingPatterns(transactions)
   const recurringTransactions = useRecurringTransactions(transactions)
-  const cashFlow = useCashFlow(transactions)
+  const schedules = useLiveQuery(() => recurringScheduleService.getAll())
+  const scheduledPatterns = useMemo(
+    () => new Set((schedules ?? []).map(s => s.pattern).filter((p): p is string => Boolean(p))),
+    [schedules]
+  )
+  // Scheduled entries expected during the period (overdue ones count from today)
+  const periodScheduled = useMemo(() => {
+    const { startDate, endDate } = selectedPeriod
+    const today = getToday()
+    return scheduledTransactions.filter(t => {
+      const date = t.date < today ? today : t.date
+      return date >= startDate && date <= endDate
+    })
+  }, [scheduledTransactions, selectedPeriod])
+  const cashFlow = useCashFlow(transactions, 0, periodScheduled)
   const unusualTransactions = useUnusualTransactions(transactions)
 
   // Financial advisor
@@ -188,18 +224,30 @@ export function DashboardPage() {
   const handleBulkCategoryChange = useCallback(async (transactionIds: string[], categoryId: string) => {
     const updated = await bulkUpdateCategory(transactionIds, categoryId)
     const categoryName = categories.find(c => c.id === categoryId)?.name || categoryId
-    toast.success('Catégorie mise à jour', `${updated} transaction(s) déplacée(s) vers "${categoryName}"`)
-  }, [bulkUpdateCategory, categories, toast])
+    toast.success('Catégorie mise à jour', `${updated} transaction(s) déplacée(s) vers "${categoryName}"`, undoAction)
+  }, [bulkUpdateCategory, categories, toast, undoAction])
+
+  const handleScheduleRecurring = useCallback(async (item: RecurringTransaction) => {
+    try {
+      const schedule = await createScheduleFromTransactions(item.transactions, item.pattern)
+      toast.success('Échéance créée', `« ${schedule.description} » prévue à partir du ${formatDate(schedule.startDate)}`)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [toast])
 
   // Pie chart data - use French category names
   const pieChartData = useMemo(() => {
     if (!stats?.byCategory) return []
-    return stats.byCategory.map((cat) => ({
+    type PieSlice = { id: string; name: string; value: number; color: string; children?: PieSlice[] }
+    const toSlice = (cat: CategoryStat): PieSlice => ({
       id: cat.categoryId,
       name: cat.name, // French name instead of categoryId
       value: cat.amount,
       color: cat.color,
-    }))
+      children: cat.children?.map(toSlice),
+    })
+    return stats.byCategory.map(toSlice)
   }, [stats?.byCategory])
 
   // Daily data for bar chart
@@ -245,7 +293,10 @@ export function DashboardPage() {
           <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
             Tableau de Bord
           </h1>
-          <p className="text-gray-400 capitalize">{periodDisplay}</p>
+          <div className="flex items-center gap-3">
+            <p className="text-gray-400 capitalize">{periodDisplay}</p>
+            <AccountSelect accounts={accounts} value={selectedAccountId} onChange={handleAccountChange} />
+          </div>
         </div>
 
         {/* Tab navigation */}
@@ -500,7 +551,9 @@ export function DashboardPage() {
               <BalanceEvolutionChart
                 transactions={allTransactions}
                 initialBalance={initialBalance || 0}
+                accounts={selectedAccountId ? undefined : accounts}
                 monthsToShow={12}
+                scheduled={scheduledTransactions}
               />
             </div>
           </Card>
@@ -573,6 +626,8 @@ export function DashboardPage() {
               <RecurringExpensesList
                 recurring={recurringTransactions}
                 categories={categories}
+                onSchedule={handleScheduleRecurring}
+                scheduledPatterns={scheduledPatterns}
               />
             </Card>
 
@@ -589,6 +644,14 @@ export function DashboardPage() {
             </Card>
           </div>
 
+          {/* Saved search chosen for the dashboard */}
+          <SavedSearchWidget
+            periodTransactions={transactions}
+            allTransactions={allTransactions}
+            categories={categories}
+            accounts={accounts}
+          />
+
           {/* Detailed breakdown */}
           <div className="grid md:grid-cols-2 gap-4 md:gap-6">
             <TopCategories
@@ -617,6 +680,9 @@ export function DashboardPage() {
           <TransactionList
             transactions={transactions}
             categories={categories}
+            accounts={accounts}
+            selectedAccountId={selectedAccountId}
+            onAccountChange={handleAccountChange}
             selectedCategory={selectedCategory}
             householdMembers={householdMembers}
             onClearCategory={handleClearCategory}
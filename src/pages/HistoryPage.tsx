@@ -0,0 +1,19 @@
+import { HistoryPanel } from '@components/history'
+import { JOURNAL_MAX_ENTRIES } from '@services/db'
+
+export function HistoryPage() {
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
+          Historique
+        </h1>
+        <p className="text-gray-400">
+          Les {JOURNAL_MAX_ENTRIES} dernières modifications de vos données. Ctrl+Z annule la dernière, Ctrl+Maj+Z la rétablit.
+        </p>
+      </div>
+
+      <HistoryPanel />
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+import { useState, useCallback, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { ArrowLeft, ChevronDown, ChevronRight, FileSpreadsheet, Undo2 } from 'lucide-react'
+import { Card, Button, useToast } from '@components/common'
+import { ImportBatchDetails } from '@components/import'
+import { useTransactions } from '@store/TransactionContext'
+import { importService } from '@services/db'
+import { rollbackImport } from '@services/import'
+import { formatDate, formatFullDate } from '@utils/formatters'
+import type { ImportBatch } from '@/types'
+
+const STATUS_LABELS: Record<ImportBatch['status'], { label: string; className: string }> = {
+  pending: { label: 'En attente', className: 'bg-gray-500/20 text-gray-400' },
+  processing: { label: 'Interrompu', className: 'bg-amber-500/20 text-amber-400' },
+  completed: { label: 'Importé', className: 'bg-green-500/20 text-green-400' },
+  error: { label: 'Erreur', className: 'bg-red-500/20 text-red-400' },
+  'rolled-back': { label: 'Annulé', className: 'bg-gray-500/20 text-gray-400' },
+}
+
+export function ImportHistoryPage() {
+  const { categories, accounts } = useTransactions()
+  const batches = useLiveQuery(() => importService.getAll()) ?? []
+  const toast = useToast()
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [undoConfirm, setUndoConfirm] = useState<string | null>(null)
+  const [undoing, setUndoing] = useState(false)
+
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts])
+
+  const handleUndo = useCallback(async (batch: ImportBatch) => {
+    setUndoing(true)
+    try {
+      const result = await rollbackImport(batch.id)
+      toast.success(
+        'Import annulé',
+        `${result.transactions} transaction(s) supprimée(s), ${result.restored} modification(s) annulée(s), ${result.rules} règle(s) apprise(s) supprimée(s)` +
+          (result.movements > 0 ? `, ${result.movements} mouvement(s) d'épargne supprimé(s)` : '')
+      )
+      setUndoConfirm(null)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    } finally {
+      setUndoing(false)
+    }
+  }, [toast])
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div>
+        <Link to="/import" className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white mb-2">
+          <ArrowLeft className="w-4 h-4" />
+          Importer
+        </Link>
+        <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
+          Historique des imports
+        </h1>
+        <p className="text-gray-400">Fichiers importés, lignes ajoutées et annulation</p>
+      </div>
+
+      {batches.length === 0 && (
+        <Card>
+          <p className="text-sm text-gray-500 text-center py-6">Aucun import pour le moment.</p>
+        </Card>
+      )}
+
+      {batches.map(batch => {
+        const status = STATUS_LABELS[batch.status]
+        const isExpanded = expandedId === batch.id
+        const accountName = batch.accountId ? accountNames.get(batch.accountId) : undefined
+
+        return (
+          <Card key={batch.id}>
+            <div className="flex items-start gap-3">
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : batch.id)}
+                className="p-1 text-gray-400 hover:text-white"
+                aria-expanded={isExpanded}
+                aria-label={isExpanded ? 'Masquer le détail' : 'Afficher le détail'}
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </button>
+              <FileSpreadsheet className="w-5 h-5 text-blue-400 mt-0.5 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="font-medium text-white truncate">{batch.filename}</p>
+                  {batch.format && (
+                    <span className="px-1.5 py-0.5 bg-gray-700 text-gray-300 text-[10px] rounded font-medium">
+                      {batch.format}
+                    </span>
+                  )}
+                  <span className={`px-1.5 py-0.5 text-[10px] rounded font-medium ${status.className}`}>
+                    {status.label}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-400 mt-0.5">
+                  Importé le {formatFullDate(batch.importedAt)}
+                  {accountName && ` • ${accountName}`}
+                  {' • '}du {formatDate(batch.periodStart)} au {formatDate(batch.periodEnd)}
+                </p>
+                <p className="text-xs text-gray-500 mt-0.5">
+                  {batch.transactionCount} transaction(s)
+                  {(batch.skippedCount ?? 0) > 0 && ` • ${batch.skippedCount} doublon(s) écarté(s)`}
+                  {(batch.errors?.length ?? 0) > 0 && (
+                    <span className="text-amber-400"> • {batch.errors!.length} ligne(s) illisible(s)</span>
+                  )}
+                  {batch.rolledBackAt && ` • annulé le ${formatFullDate(batch.rolledBackAt)}`}
+                </p>
+              </div>
+              {batch.status !== 'rolled-back' && undoConfirm !== batch.id && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setUndoConfirm(batch.id)}
+                  leftIcon={<Undo2 className="w-4 h-4" />}
+                >
+                  Annuler
+                </Button>
+              )}
+            </div>
+
+            {undoConfirm === batch.id && (
+              <div className="bg-red-500/10 border border-red-500/50 rounded-lg p-3 mt-3">
+                <p className="text-sm text-gray-300 mb-3">
+                  Supprimer les {batch.transactionCount} transaction(s) de cet import, rétablir les catégories
+                  qu'il a modifiées et supprimer les règles apprises depuis ses lignes ainsi que les mouvements
+                  d'épargne de ses virements ?
+                </p>
+                <div className="flex gap-2">
+                  <Button variant="danger" size="sm" onClick={() => handleUndo(batch)} isLoading={undoing}>
+                    Annuler l'import
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setUndoConfirm(null)}>
+                    Garder
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {isExpanded && <ImportBatchDetails batch={batch} categories={categories} />}
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,90 +1,262 @@
-import { useState, useCallback } from 'react'
-import { Upload, FileSpreadsheet, Check, AlertCircle } from 'lucide-react'
-import { Card, CardTitle, Button } from '@components/common'
+import { useState, useCallback, useMemo, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { Upload, FileSpreadsheet, Check, AlertCircle, History, X, Layers } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { ColumnMappingEditor, ImportSourceReview, type MappingSettings } from '@components/import'
 import { useTransactions } from '@store/TransactionContext'
-import { parseExcelFile, convertToTransactions } from '@services/excel/parser'
+import { convertToTransactions, applyColumnMapping, getTransactionPeriod, type ParseResult } from '@services/excel/parser'
+import { importProfileService, importService, balanceCheckpointService, bankAccountService } from '@services/db'
+import {
+  parseStatementSources,
+  reconcileQueue,
+  headerSignature,
+  commitImportQueue,
+  completeImport,
+  ACCEPTED_EXTENSIONS,
+  STATEMENT_PARSERS,
+  type ReconciledTransaction,
+  type QueuedImport,
+} from '@services/import'
 import { applyLearnedRules } from '@services/categorizer/learningService'
+import { detectInternalTransfers } from '@services/transfers'
+import { mergeScheduledTransactions, clearPendingMatches } from '@services/scheduled'
+import { extractBalanceCheckpoints, reconcileAccount } from '@services/balances'
+import { createAutoBackup } from '@services/storage/autoBackup'
+import { formatMoney } from '@utils/formatters'
 import { v4 as uuidv4 } from 'uuid'
-import type { Transaction } from '@/types'
+import type { Transaction, ImportProfile, ImportBatch } from '@/types'
 
-type ImportStatus = 'idle' | 'parsing' | 'preview' | 'importing' | 'success' | 'error'
+type ImportStatus = 'idle' | 'importing' | 'success'
+
+// One file or workbook sheet, imported as its own batch
+interface ImportSource {
+  key: string
+  importId: string
+  label: string
+  formatLabel: string
+  parsed: ParseResult // Before the column mapping, to re-apply another one
+  result: ParseResult
+  // Tabular files only: editable column mapping and matching bank profile
+  settings: MappingSettings | null
+  profile: ImportProfile | null
+  accountId: string // Bank account receiving the transactions
+  transactions: Transaction[]
+  balances: { date: string; balance: number }[] // End-of-day balances from the statement or its "Solde" column
+}
+
+interface QueuedFile {
+  id: string
+  file: File
+  status: 'parsing' | 'ready' | 'error'
+  error?: string
+  sheets?: string[] // Workbooks with several sheets
+  selectedSheets: string[]
+  sources: ImportSource[]
+}
+
+interface Progress {
+  label: string
+  done: number
+  total: number
+}
+
+// Readable reason why a file gave no transaction at all
+function describeParseFailure(result: ParseResult): string {
+  if (result.errors.length === 0) {
+    return 'Aucune transaction trouvée dans le fichier. Vérifiez que le fichier contient bien des données.'
+  }
+  const firstError = result.errors[0]
+  return (
+    `Erreur ligne ${firstError.row}: ${firstError.message}` +
+    (firstError.value ? ` (valeur: "${firstError.value}")` : '') +
+    (result.headers.length > 0 ? `\n\nColonnes détectées: ${result.headers.join(', ')}` : '')
+  )
+}
+
+async function buildSource(source: Omit<ImportSource, 'result' | 'transactions' | 'balances'>): Promise<ImportSource> {
+  const result = source.settings && source.parsed.dataRows
+    ? applyColumnMapping(source.parsed, source.settings.mapping, source.settings)
+    : source.parsed
+  return {
+    ...source,
+    result,
+    transactions: await convertToTransactions(result.rows, source.importId),
+    balances: result.balances ?? extractBalanceCheckpoints(result.rows),
+  }
+}
 
 export function ImportPage() {
-  const { addTransactions } = useTransactions()
+  const { accounts } = useTransactions()
+  const toast = useToast()
   const [status, setStatus] = useState<ImportStatus>('idle')
   const [dragActive, setDragActive] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [preview, setPreview] = useState<{
-    filename: string
-    rowCount: number
-    transactions: Transaction[]
-    headers: string[]
-    mapping: { date?: number; type?: number; description?: number; debit?: number; credit?: number; amount?: number }
-    sampleRow: Record<string, unknown> | null
-  } | null>(null)
-
-  const handleFile = useCallback(async (file: File) => {
-    if (!file.name.match(/\.xlsx?$/i)) {
-      setError('Veuillez sélectionner un fichier Excel (.xlsx ou .xls)')
-      setStatus('error')
-      return
+  const [queue, setQueue] = useState<QueuedFile[]>([])
+  const [progress, setProgress] = useState<Progress | null>(null)
+  const [importedCount, setImportedCount] = useState(0)
+  const activeAccounts = useMemo(() => accounts.filter(a => a.isActive), [accounts])
+
+  // Every source of the queue, in file order
+  const sources = useMemo(() => queue.flatMap(f => f.sources), [queue])
+
+  // Single dedupe pass over the whole queue: later files are also compared with earlier ones.
+  // Rows only collide with rows of the account they go to.
+  const [review, setReview] = useState<{ source: ImportSource; rows: ReconciledTransaction[] }[]>([])
+  useEffect(() => {
+    let cancelled = false
+    const groups = sources.map(s => (s.accountId ? s.transactions.map(t => ({ ...t, accountId: s.accountId })) : s.transactions))
+    reconcileQueue(groups).then(reconciled => {
+      if (!cancelled) setReview(sources.map((source, i) => ({ source, rows: reconciled[i] })))
+    })
+    return () => {
+      cancelled = true
     }
+  }, [sources])
 
-    setStatus('parsing')
-    setError(null)
+  // Rows the user approved or excluded by hand, the others follow their duplicate status
+  const [overrides, setOverrides] = useState<Map<string, boolean>>(new Map())
+  const approvedIds = useMemo(() => {
+    const ids = new Set<string>()
+    for (const { rows } of review) {
+      for (const r of rows) {
+        if (overrides.get(r.transaction.id) ?? r.status === 'new') ids.add(r.transaction.id)
+      }
+    }
+    return ids
+  }, [review, overrides])
+
+  const isParsing = queue.some(f => f.status === 'parsing')
+
+  const updateFile = useCallback((id: string, updates: Partial<QueuedFile>) => {
+    setQueue(prev => prev.map(f => (f.id === id ? { ...f, ...updates } : f)))
+  }, [])
+
+  // Parse the selected sheets of a file (the whole file for non-workbook formats)
+  const loadFile = useCallback(async (entry: QueuedFile, sheetNames?: string[]) => {
+    updateFile(entry.id, { status: 'parsing', error: undefined })
 
     try {
-      const result = await parseExcelFile(file)
+      // The format is detected from the file content
+      const results = await parseStatementSources(entry.file, sheetNames)
+      const sheets = (results[0]?.sheets?.length ?? 0) > 1 ? results[0].sheets : undefined
+      const loaded: ImportSource[] = []
+
+      for (const result of results) {
+        // Tabular files: re-apply the saved bank profile for this header layout
+        let settings: MappingSettings | null = null
+        let profile: ImportProfile | null = null
+        if (result.dataRows) {
+          profile = (await importProfileService.getBySignature(headerSignature(result.headers))) ?? null
+          settings = profile
+            ? { mapping: profile.mapping, dateFormat: profile.dateFormat, signConvention: profile.signConvention }
+            : { mapping: result.detectedMapping, dateFormat: 'DD/MM/YYYY', signConvention: 'negative-debit' }
+          if (profile) {
+            await importProfileService.markUsed(profile.id)
+          }
+        }
+
+        // Skip empty sheets, unless the mapping can still be fixed
+        if (result.rows.length === 0 && !result.dataRows) continue
+
+        loaded.push(await buildSource({
+          key: `${entry.id}:${result.sheetName ?? ''}`,
+          importId: uuidv4(),
+          label: sheets
+            ? `${result.filename} › ${result.sheetName}`
+            : result.filename,
+          formatLabel: STATEMENT_PARSERS.find(p => p.format === result.format)?.label ?? 'Excel',
+          parsed: result,
+          settings,
+          profile,
+          accountId: profile?.accountId ?? activeAccounts[0]?.id ?? '',
+        }))
 
-      // Show detailed error if no rows parsed
-      if (result.rows.length === 0) {
         if (result.errors.length > 0) {
-          const firstError = result.errors[0]
-          setError(
-            `Erreur ligne ${firstError.row}: ${firstError.message}` +
-            (firstError.value ? ` (valeur: "${firstError.value}")` : '') +
-            `\n\nColonnes détectées: ${result.headers.join(', ')}`
-          )
-        } else {
-          setError('Aucune transaction trouvée dans le fichier. Vérifiez que le fichier contient bien des données.')
+          console.warn(`${result.errors.length} lignes ignorées:`, result.errors)
         }
-        setStatus('error')
-        return
       }
 
-      const importId = uuidv4()
-      const transactions = await convertToTransactions(result.rows, importId)
-
-      // Show warning if some rows had errors but we still got data
-      if (result.errors.length > 0) {
-        console.warn(`${result.errors.length} lignes ignorées:`, result.errors)
+      if (loaded.length === 0) {
+        updateFile(entry.id, { status: 'error', error: describeParseFailure(results[0]), sheets, sources: [] })
+        return
       }
 
-      setPreview({
-        filename: result.filename,
-        rowCount: transactions.length,
-        transactions,
-        headers: result.headers,
-        mapping: result.detectedMapping,
-        sampleRow: result.rows[0]?.raw || null,
+      updateFile(entry.id, {
+        status: 'ready',
+        sheets,
+        selectedSheets: results.map(r => r.sheetName).filter((name): name is string => !!name),
+        sources: loaded,
       })
-      setStatus('preview')
     } catch (err) {
-      const errorMessage = (err as Error).message
-      setError(`Erreur lors de l'analyse: ${errorMessage}`)
-      setStatus('error')
+      updateFile(entry.id, { status: 'error', error: `Erreur lors de l'analyse: ${(err as Error).message}`, sources: [] })
+    }
+  }, [activeAccounts, updateFile])
+
+  const handleFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return
+    setError(null)
+    setStatus('idle')
+
+    const entries: QueuedFile[] = files.map(file => ({
+      id: uuidv4(),
+      file,
+      status: 'parsing',
+      selectedSheets: [],
+      sources: [],
+    }))
+    setQueue(prev => [...prev, ...entries])
+
+    // One file at a time, large workbooks are heavy to read
+    for (let i = 0; i < entries.length; i++) {
+      setProgress({ label: 'Analyse des fichiers', done: i, total: entries.length })
+      await loadFile(entries[i])
     }
+    setProgress(null)
+  }, [loadFile])
+
+  const handleSheetsChange = useCallback(async (entry: QueuedFile, sheetNames: string[]) => {
+    if (sheetNames.length === 0) return
+    await loadFile(entry, sheetNames)
+  }, [loadFile])
+
+  const handleRemoveFile = useCallback((id: string) => {
+    setQueue(prev => prev.filter(f => f.id !== id))
+  }, [])
+
+  const updateSource = useCallback((key: string, source: ImportSource) => {
+    setQueue(prev => prev.map(f => ({
+      ...f,
+      sources: f.sources.map(s => (s.key === key ? source : s)),
+    })))
   }, [])
 
+  const handleMappingChange = useCallback(async (source: ImportSource, settings: MappingSettings) => {
+    updateSource(source.key, await buildSource({ ...source, settings }))
+  }, [updateSource])
+
+  const handleSaveProfile = useCallback(async (source: ImportSource, name: string) => {
+    if (!source.settings) return
+    try {
+      const saved = await importProfileService.save({
+        name,
+        headerSignature: headerSignature(source.parsed.headers),
+        ...source.settings,
+        accountId: source.accountId || undefined,
+      })
+      updateSource(source.key, { ...source, profile: saved })
+      toast.success('Profil enregistré', `Les fichiers avec ces colonnes utiliseront le profil « ${name} »`)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [updateSource, toast])
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault()
       setDragActive(false)
-
-      const file = e.dataTransfer.files[0]
-      if (file) handleFile(file)
+      handleFiles(Array.from(e.dataTransfer.files))
     },
-    [handleFile]
+    [handleFiles]
   )
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -99,57 +271,201 @@ export function ImportPage() {
 
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0]
-      if (file) handleFile(file)
+      handleFiles(Array.from(e.target.files ?? []))
+      // Allow picking the same file again after removing it
+      e.target.value = ''
     },
-    [handleFile]
+    [handleFiles]
   )
 
   const handleImport = useCallback(async () => {
-    if (!preview) return
+    // One batch per file or sheet, so each one can be undone on its own
+    const planned: (QueuedImport & { source: ImportSource })[] = []
+    for (const { source, rows } of review) {
+      const approved = rows
+        .filter(r => approvedIds.has(r.transaction.id))
+        .map(r => (source.accountId ? { ...r.transaction, accountId: source.accountId } : r.transaction))
+      if (approved.length === 0) continue
 
-    setStatus('importing')
+      const period = getTransactionPeriod(approved)
+      const batch: ImportBatch = {
+        id: source.importId,
+        filename: source.label,
+        importedAt: new Date().toISOString(),
+        transactionCount: approved.length,
+        periodStart: period.start,
+        periodEnd: period.end,
+        status: 'processing',
+        errors: source.result.errors.length > 0 ? source.result.errors : undefined,
+        format: source.formatLabel,
+        accountId: source.accountId || undefined,
+        skippedCount: rows.length - approved.length,
+      }
+      planned.push({ batch, transactions: approved, source })
+    }
+    if (planned.length === 0) return
 
+    setStatus('importing')
+    setError(null)
+    const steps = 4
+    setProgress({ label: 'Enregistrement des transactions', done: 0, total: steps })
+    let count: number
     try {
-      await addTransactions(preview.transactions)
+      count = await commitImportQueue(planned)
+    } catch (err) {
+      // Nothing was saved, the queue stays as is to try again
+      setError(`Erreur d'import: ${(err as Error).message}`)
+      setStatus('idle')
+      setProgress(null)
+      return
+    }
 
-      // Apply learned rules to ensure all patterns are applied
-      console.log('📚 Applying learned categorization rules...')
-      const updated = await applyLearnedRules()
-      if (updated > 0) {
-        console.log(`✅ ${updated} transaction(s) recategorized from learned rules`)
+    // The rows are saved from here: a step that fails is reported and the others still run
+    const failedSteps: string[] = []
+    const runStep = async <T,>(label: string, step: () => Promise<T>): Promise<T | undefined> => {
+      try {
+        return await step()
+      } catch (err) {
+        console.error(`❌ Import step failed (${label}):`, err)
+        failedSteps.push(label)
+        return undefined
       }
+    }
 
-      setStatus('success')
-      setPreview(null)
-    } catch (err) {
-      setError(`Erreur d'import: ${(err as Error).message}`)
-      setStatus('error')
+    console.log('💾 Creating auto-backup...')
+    await runStep('sauvegarde automatique', createAutoBackup)
+
+    // Apply learned rules to ensure all patterns are applied
+    setProgress({ label: 'Application des règles', done: 1, total: steps })
+    const importIds = planned.map(p => p.batch.id)
+    const updated = await runStep('règles apprises', () => applyLearnedRules(importIds))
+    if (updated) {
+      console.log(`✅ ${updated} transaction(s) recategorized from learned rules`)
+    }
+
+    // Planned entries carried out by the imported bank lines are merged into them
+    const merged = await runStep('rapprochement des opérations prévues', async () => {
+      const entries = await mergeScheduledTransactions(importIds)
+      // Rows already imported as pending are now booked by the bank
+      await clearPendingMatches(review.flatMap(r => r.rows.filter(row => row.status === 'exact')))
+      return entries
+    })
+    if (merged) {
+      toast.info('Opérations prévues', `${merged} opération(s) prévue(s) rapprochée(s) de leur ligne bancaire`)
+    }
+
+    // Link transfers between our own accounts so they don't count as spending
+    setProgress({ label: 'Détection des virements internes', done: 2, total: steps })
+    const transfers = await runStep('détection des virements internes', detectInternalTransfers)
+    if (transfers) {
+      toast.info('Virements internes', `${transfers} virement(s) entre vos comptes détecté(s) et exclu(s) des statistiques`)
+    }
+
+    // Every batch leaves the processing state, as failed if its snapshot could not be taken
+    for (const id of importIds) {
+      const completed = await runStep('finalisation de l\'historique', async () => {
+        await completeImport(id)
+        return true
+      })
+      if (!completed) {
+        await importService.update(id, { status: 'error' }).catch(err => console.error('❌ Failed to mark import as failed:', err))
+      }
+    }
+
+    // Bank balances become checkpoints to spot missing or duplicated rows
+    setProgress({ label: 'Vérification des soldes', done: 3, total: steps })
+    await runStep('vérification des soldes', async () => {
+      const checkedAccounts = new Set<string>()
+      for (const { source } of planned) {
+        if (!source.accountId || source.balances.length === 0) continue
+        await balanceCheckpointService.saveAll(source.accountId, source.balances, source.importId)
+        checkedAccounts.add(source.accountId)
+      }
+      for (const accountId of checkedAccounts) {
+        const { checks, derivedInitialBalance, suggestedInitialBalance } = await reconcileAccount(accountId)
+        const mismatches = checks.filter(c => c.periodGap !== 0)
+        const name = accounts.find(a => a.id === accountId)?.name
+        if (derivedInitialBalance !== undefined) {
+          toast.info('Solde initial', `${name} : déduit du relevé, ${formatMoney(derivedInitialBalance)}`)
+        }
+        if (suggestedInitialBalance !== undefined) {
+          toast.info('Solde initial', `${name} : le relevé indique ${formatMoney(suggestedInitialBalance)} au lieu de 0`, {
+            label: 'Appliquer',
+            onClick: () => {
+              bankAccountService.update(accountId, { initialBalance: suggestedInitialBalance })
+                .then(() => toast.success('Solde initial', `${name} : ${formatMoney(suggestedInitialBalance)}`))
+                .catch(err => toast.error('Erreur', (err as Error).message))
+            },
+          })
+        }
+        if (mismatches.length > 0) {
+          toast.error(
+            'Soldes à vérifier',
+            `${name} : ${mismatches.length} date(s) où le solde de la banque ne correspond pas aux transactions (Paramètres > Comptes)`
+          )
+        }
+      }
+    })
+
+    // The queue is saved whatever failed after, importing it again would duplicate it
+    setImportedCount(count)
+    setStatus('success')
+    setQueue([])
+    setOverrides(new Map())
+    setProgress(null)
+    if (failedSteps.length > 0) {
+      setError(`Les transactions sont enregistrées, mais ces étapes ont échoué : ${Array.from(new Set(failedSteps)).join(', ')}`)
     }
-  }, [preview, addTransactions])
+  }, [review, approvedIds, accounts, toast])
 
   const handleReset = useCallback(() => {
     setStatus('idle')
     setError(null)
-    setPreview(null)
+    setQueue([])
+    setOverrides(new Map())
+  }, [])
+
+  const handleToggleApproved = useCallback((id: string) => {
+    setOverrides(prev => new Map(prev).set(id, !approvedIds.has(id)))
+  }, [approvedIds])
+
+  const handleToggleGroup = useCallback((rows: ReconciledTransaction[], approve: boolean) => {
+    setOverrides(prev => {
+      const next = new Map(prev)
+      for (const r of rows) {
+        next.set(r.transaction.id, approve)
+      }
+      return next
+    })
   }, [])
 
+  const reviewBySource = useMemo(() => new Map(review.map(r => [r.source.key, r.rows])), [review])
+
   return (
     <div className="max-w-2xl mx-auto space-y-6">
-      <div>
-        <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
-          Importer des transactions
-        </h1>
-        <p className="text-gray-400">
-          Importez vos relevés bancaires au format Excel (.xlsx)
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
+            Importer des transactions
+          </h1>
+          <p className="text-gray-400">
+            Importez vos relevés bancaires (Excel, CSV, OFX, QIF ou CAMT.053)
+          </p>
+        </div>
+        <Link
+          to="/import/history"
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-colors flex-shrink-0"
+        >
+          <History className="w-4 h-4" />
+          Historique
+        </Link>
       </div>
 
       {/* Dropzone */}
-      {(status === 'idle' || status === 'error') && (
+      {status !== 'importing' && (
         <Card padding="none">
           <label
-            className={`flex flex-col items-center justify-center h-64 cursor-pointer border-2 border-dashed rounded-xl transition-colors ${
+            className={`flex flex-col items-center justify-center ${queue.length > 0 ? 'h-32' : 'h-64'} cursor-pointer border-2 border-dashed rounded-xl transition-colors ${
               dragActive
                 ? 'border-blue-500 bg-blue-500/10'
                 : 'border-gray-600 hover:border-gray-500'
@@ -160,114 +476,207 @@ export function ImportPage() {
           >
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept={ACCEPTED_EXTENSIONS.join(',')}
+              multiple
               onChange={handleInputChange}
               className="sr-only"
-              aria-label="Sélectionner un fichier Excel"
+              aria-label="Sélectionner des relevés bancaires"
             />
             <Upload
-              className={`w-12 h-12 mb-4 ${
+              className={`${queue.length > 0 ? 'w-8 h-8 mb-2' : 'w-12 h-12 mb-4'} ${
                 dragActive ? 'text-blue-500' : 'text-gray-500'
               }`}
             />
             <p className="text-lg font-medium text-gray-300 mb-1">
-              Glissez votre fichier ici
+              {queue.length > 0 ? 'Ajouter des fichiers' : 'Glissez vos fichiers ici'}
             </p>
             <p className="text-sm text-gray-500">ou cliquez pour parcourir</p>
-            <p className="text-xs text-gray-600 mt-2">
-              Formats acceptés: .xlsx, .xls
-            </p>
+            {queue.length === 0 && (
+              <p className="text-xs text-gray-600 mt-2">
+                Formats acceptés: {ACCEPTED_EXTENSIONS.join(', ')}
+              </p>
+            )}
           </label>
         </Card>
       )}
 
-      {/* Parsing */}
-      {status === 'parsing' && (
+      {/* Progress (parsing the files or importing the queue) */}
+      {progress && (
         <Card>
-          <div className="flex flex-col items-center justify-center py-12">
-            <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4" />
-            <p className="text-lg text-gray-300">Analyse du fichier...</p>
+          <div className="flex items-center gap-4">
+            <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin flex-shrink-0" />
+            <div className="flex-1">
+              <p className="text-sm text-gray-300 mb-2">
+                {progress.label}... ({progress.done}/{progress.total})
+              </p>
+              <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                />
+              </div>
+            </div>
           </div>
         </Card>
       )}
 
-      {/* Preview */}
-      {status === 'preview' && preview && (
-        <Card>
-          <CardTitle icon={<FileSpreadsheet className="w-5 h-5 text-green-400" />}>
-            Aperçu de l'import
-          </CardTitle>
-          <div className="space-y-4 mt-4">
-            <div className="bg-gray-700/50 rounded-lg p-4">
-              <p className="text-sm text-gray-400">Fichier</p>
-              <p className="font-medium">{preview.filename}</p>
-            </div>
-            <div className="bg-gray-700/50 rounded-lg p-4">
-              <p className="text-sm text-gray-400">Transactions détectées</p>
-              <p className="text-2xl font-bold text-green-400">{preview.rowCount}</p>
+      {/* Queue: one card per file, one review per sheet */}
+      {status !== 'importing' && queue.map(entry => (
+        <Card key={entry.id}>
+          <div className="flex items-start justify-between gap-3">
+            <CardTitle icon={<FileSpreadsheet className={`w-5 h-5 ${entry.status === 'error' ? 'text-red-400' : 'text-green-400'}`} />}>
+              {entry.file.name}
+              {entry.sources[0] && (
+                <span className="ml-2 px-1.5 py-0.5 bg-blue-500/20 text-blue-400 text-xs rounded">
+                  {entry.sources[0].formatLabel}
+                </span>
+              )}
+            </CardTitle>
+            <button
+              onClick={() => handleRemoveFile(entry.id)}
+              className="p-1 text-gray-400 hover:text-white"
+              aria-label={`Retirer ${entry.file.name} de la file`}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {entry.status === 'parsing' && (
+            <p className="text-sm text-gray-400 mt-3">Analyse du fichier...</p>
+          )}
+
+          {entry.status === 'error' && entry.error && (
+            <div className="bg-red-500/10 border border-red-500/50 rounded-lg p-3 mt-3 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+              <p className="text-sm text-gray-400 whitespace-pre-line">{entry.error}</p>
             </div>
+          )}
 
-            {/* Sample transactions */}
-            {preview.transactions.length > 0 && (
-              <div className="bg-gray-700/50 rounded-lg p-4">
-                <p className="text-sm text-gray-400 mb-2">Aperçu des premières transactions</p>
-                <div className="space-y-2 text-sm">
-                  {preview.transactions.slice(0, 3).map((t, i) => (
-                    <div key={i} className="flex justify-between items-center py-1 border-b border-gray-600 last:border-0">
-                      <div>
-                        <span className="text-gray-400">{t.date}</span>
-                        <span className="mx-2">-</span>
-                        <span className="truncate">{t.description.substring(0, 30)}</span>
-                      </div>
-                      <span className={t.amount >= 0 ? 'text-green-400' : 'text-red-400'}>
-                        {t.amount >= 0 ? '+' : ''}{t.amount.toFixed(2)} €
-                      </span>
-                    </div>
-                  ))}
-                </div>
-                {preview.transactions.every(t => t.amount === 0) && (
-                  <p className="text-yellow-400 text-xs mt-2">
-                    ⚠️ Tous les montants sont à 0. Vérifiez les colonnes de votre fichier.
-                  </p>
+          {/* Sheet picker (workbooks with several sheets) */}
+          {entry.sheets && (
+            <div className="bg-gray-700/30 rounded-lg p-3 mt-3">
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="flex items-center gap-2 text-sm text-gray-400">
+                  <Layers className="w-4 h-4" />
+                  Feuilles à importer
+                </span>
+                {entry.selectedSheets.length < entry.sheets.length && (
+                  <button
+                    type="button"
+                    onClick={() => handleSheetsChange(entry, entry.sheets!)}
+                    className="text-xs text-blue-400 hover:text-blue-300"
+                    disabled={entry.status === 'parsing'}
+                  >
+                    Toutes les feuilles
+                  </button>
                 )}
               </div>
-            )}
-
-            {/* Detected columns (debug info) */}
-            <details className="bg-gray-700/30 rounded-lg p-3">
-              <summary className="text-sm text-gray-400 cursor-pointer">
-                Colonnes détectées (cliquez pour voir)
-              </summary>
-              <div className="mt-2 text-xs space-y-1">
-                <p><span className="text-gray-500">Colonnes:</span> {preview.headers.join(', ')}</p>
-                <p><span className="text-gray-500">Date:</span> col {preview.mapping.date ?? 'non détectée'}</p>
-                <p><span className="text-gray-500">Description:</span> col {preview.mapping.description ?? 'non détectée'}</p>
-                <p><span className="text-gray-500">Débit:</span> col {preview.mapping.debit ?? 'non détectée'}</p>
-                <p><span className="text-gray-500">Crédit:</span> col {preview.mapping.credit ?? 'non détectée'}</p>
-                <p><span className="text-gray-500">Montant:</span> col {preview.mapping.amount ?? 'non détectée'}</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {entry.sheets.map(sheet => {
+                  const checked = entry.selectedSheets.includes(sheet)
+                  return (
+                    <label key={sheet} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={entry.status === 'parsing' || (checked && entry.selectedSheets.length === 1)}
+                        onChange={() => handleSheetsChange(
+                          entry,
+                          checked
+                            ? entry.selectedSheets.filter(s => s !== sheet)
+                            : entry.sheets!.filter(s => s === sheet || entry.selectedSheets.includes(s))
+                        )}
+                        className="w-4 h-4 rounded border-gray-600 bg-gray-700 text-blue-500 focus:ring-blue-500 cursor-pointer"
+                      />
+                      {sheet}
+                    </label>
+                  )
+                })}
               </div>
-            </details>
-
-            <div className="flex gap-3">
-              <Button variant="primary" size="lg" onClick={handleImport} className="flex-1">
-                Importer {preview.rowCount} transactions
-              </Button>
-              <Button variant="ghost" size="lg" onClick={handleReset}>
-                Annuler
-              </Button>
             </div>
-          </div>
-        </Card>
-      )}
+          )}
 
-      {/* Importing */}
-      {status === 'importing' && (
-        <Card>
-          <div className="flex flex-col items-center justify-center py-12">
-            <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mb-4" />
-            <p className="text-lg text-gray-300">Import en cours...</p>
-          </div>
+          {entry.status === 'ready' && entry.sources.map(source => (
+            <div key={source.key} className="space-y-4 mt-4">
+              {entry.sources.length > 1 && (
+                <p className="font-medium text-sm text-gray-300">{source.result.sheetName}</p>
+              )}
+
+              <ImportSourceReview
+                rows={reviewBySource.get(source.key) ?? []}
+                approvedIds={approvedIds}
+                onToggle={handleToggleApproved}
+                onToggleGroup={handleToggleGroup}
+              />
+
+              {source.transactions.length > 0 && source.transactions.every(t => t.amount === 0) && (
+                <p className="text-yellow-400 text-xs">
+                  ⚠️ Tous les montants sont à 0. Vérifiez les colonnes de votre fichier.
+                </p>
+              )}
+
+              {source.result.errors.length > 0 && (
+                <p className="text-yellow-400 text-xs">
+                  ⚠️ {source.result.errors.length} ligne{source.result.errors.length > 1 ? 's' : ''} ignorée{source.result.errors.length > 1 ? 's' : ''}
+                  {' '}(ligne {source.result.errors[0].row}: {source.result.errors[0].message})
+                </p>
+              )}
+
+              {source.balances.length > 0 && (
+                <p className="text-gray-400 text-xs">
+                  {source.balances.length} solde{source.balances.length > 1 ? 's' : ''} bancaire{source.balances.length > 1 ? 's' : ''} lu{source.balances.length > 1 ? 's' : ''}, ils serviront à vérifier le compte
+                </p>
+              )}
+
+              {/* Destination account */}
+              {activeAccounts.length > 1 && (
+                <label className="flex items-center justify-between gap-3 bg-gray-700/30 rounded-lg p-3">
+                  <span className="text-sm text-gray-400">Compte</span>
+                  <select
+                    value={source.accountId}
+                    onChange={(e) => updateSource(source.key, { ...source, accountId: e.target.value })}
+                    className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white"
+                  >
+                    {activeAccounts.map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              {/* Column mapping (tabular files) */}
+              {source.settings && (
+                <ColumnMappingEditor
+                  key={source.profile?.id ?? 'detected'}
+                  headers={source.parsed.headers}
+                  settings={source.settings}
+                  profile={source.profile}
+                  onChange={(settings) => handleMappingChange(source, settings)}
+                  onSaveProfile={(name) => handleSaveProfile(source, name)}
+                />
+              )}
+            </div>
+          ))}
         </Card>
+      ))}
+
+      {/* Commit the whole queue */}
+      {status === 'idle' && sources.length > 0 && (
+        <div className="flex gap-3">
+          <Button
+            variant="primary"
+            size="lg"
+            onClick={handleImport}
+            className="flex-1"
+            disabled={approvedIds.size === 0 || isParsing}
+          >
+            Importer {approvedIds.size} transaction{approvedIds.size > 1 ? 's' : ''}
+            {sources.length > 1 && ` (${sources.length} relevés)`}
+          </Button>
+          <Button variant="ghost" size="lg" onClick={handleReset}>
+            Annuler
+          </Button>
+        </div>
       )}
 
       {/* Success */}
@@ -281,17 +690,17 @@ export function ImportPage() {
               Import réussi !
             </p>
             <p className="text-gray-400 mb-4">
-              Vos transactions ont été ajoutées avec succès.
+              {importedCount} transaction{importedCount > 1 ? 's ont été ajoutées' : ' a été ajoutée'} avec succès.
             </p>
             <Button variant="secondary" onClick={handleReset}>
-              Importer un autre fichier
+              Importer d'autres fichiers
             </Button>
           </div>
         </Card>
       )}
 
       {/* Error */}
-      {status === 'error' && error && (
+      {error && (
         <div className="bg-red-500/10 border border-red-500/50 rounded-lg p-4 flex items-start gap-3">
           <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
           <div>
@@ -307,18 +716,22 @@ export function ImportPage() {
         <ul className="space-y-2 text-sm text-gray-400">
           <li className="flex items-start gap-2">
             <span className="text-blue-400">1.</span>
-            Exportez vos transactions depuis votre banque en ligne au format Excel
+            Exportez vos transactions depuis votre banque en ligne au format Excel, CSV, OFX/QFX, QIF ou CAMT.053
           </li>
           <li className="flex items-start gap-2">
             <span className="text-blue-400">2.</span>
-            Le fichier doit contenir des colonnes: Date, Description, Montant (ou Débit/Crédit)
+            Pour Excel et CSV, le fichier doit contenir des colonnes: Date, Description, Montant (ou Débit/Crédit)
           </li>
           <li className="flex items-start gap-2">
             <span className="text-blue-400">3.</span>
-            Les colonnes sont détectées automatiquement
+            Le format et les colonnes sont détectés automatiquement, et vous pouvez corriger les colonnes puis les enregistrer comme profil de votre banque
           </li>
           <li className="flex items-start gap-2">
             <span className="text-blue-400">4.</span>
+            Vous pouvez déposer plusieurs fichiers à la fois et choisir les feuilles d'un classeur Excel : tout est importé en une fois, sans doublons entre fichiers
+          </li>
+          <li className="flex items-start gap-2">
+            <span className="text-blue-400">5.</span>
             Les transactions sont catégorisées automatiquement
           </li>
         </ul>
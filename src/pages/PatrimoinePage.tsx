@@ -27,13 +27,19 @@ import {
   History,
   ArrowUpCircle,
   ArrowDownCircle,
+  CalendarClock,
+  Car,
+  ShoppingBag,
+  CreditCard,
 } from 'lucide-react'
 import { v4 as uuidv4 } from 'uuid'
 import { db, assetAccountService, assetMovementService, liabilityService, netWorthSnapshotService, savingsGoalService } from '@services/db'
 import { Card, CardTitle, Button, useToast } from '@components/common'
-import { TransferModal } from '@components/patrimoine/TransferModal'
+import { TransferModal, LiabilityModal, AmortizationModal } from '@components/patrimoine'
+import { buildAmortizationSchedule, hasLoanTerms, summarizeLoan } from '@services/loans'
 import { formatMoney, formatDate } from '@utils/formatters'
-import type { AssetAccount, AssetAccountType, AssetMovement } from '@/types'
+import { LIABILITY_TYPES } from '@/types'
+import type { AssetAccount, AssetAccountType, AssetMovement, Liability } from '@/types'
 
 // Icon mapping
 const ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -46,6 +52,9 @@ const ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
   Bitcoin,
   Building,
   Wallet,
+  Car,
+  ShoppingBag,
+  CreditCard,
 }
 
 // Account type presets
@@ -67,6 +76,8 @@ export function PatrimoinePage() {
   const [showUpdateBalanceModal, setShowUpdateBalanceModal] = useState<AssetAccount | null>(null)
   const [showTransferModal, setShowTransferModal] = useState(false)
   const [showMovementsModal, setShowMovementsModal] = useState<AssetAccount | null>(null)
+  const [editedLiability, setEditedLiability] = useState<Liability | 'new' | null>(null)
+  const [scheduleLiability, setScheduleLiability] = useState<Liability | null>(null)
 
   // Load data
   const accounts = useLiveQuery(() => db.assetAccounts.orderBy('order').toArray(), []) ?? []
@@ -102,6 +113,11 @@ export function PatrimoinePage() {
     return { totalAssets, totalLiabilities, netWorth, byType }
   }, [accounts, liabilities])
 
+  // Where each loan stands, from its amortization schedule
+  const loanSummaries = useMemo(() => new Map(
+    liabilities.flatMap(l => hasLoanTerms(l) ? [[l.id, summarizeLoan(buildAmortizationSchedule(l), l.initialAmount)] as const] : [])
+  ), [liabilities])
+
   // Calculate evolution
   const evolution = useMemo(() => {
     if (snapshots.length < 2) return null
@@ -161,6 +177,14 @@ export function PatrimoinePage() {
     toast.success('Compte supprimé', 'Le compte a été retiré de votre patrimoine')
   }
 
+  // Handle liability delete
+  const handleDeleteLiability = async (liability: Liability) => {
+    if (!confirm(`Supprimer ${liability.name} ?`)) return
+    await liabilityService.delete(liability.id)
+    await netWorthSnapshotService.createSnapshot()
+    toast.success('Crédit supprimé', 'Le crédit a été retiré de votre patrimoine')
+  }
+
   // Goal progress (to 1 million)
   const goalProgress = (totals.netWorth / 1_000_000) * 100
 
@@ -409,6 +433,111 @@ export function PatrimoinePage() {
         )}
       </Card>
 
+      {/* Liabilities */}
+      <Card>
+        <div className="flex items-center justify-between">
+          <CardTitle>Mes crédits</CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => setEditedLiability('new')}>
+            <Plus className="w-4 h-4 mr-2" />
+            Ajouter un crédit
+          </Button>
+        </div>
+        {liabilities.length === 0 ? (
+          <p className="text-sm text-gray-500 mt-4">
+            Aucun crédit. Avec le montant emprunté, le taux et la durée, le capital restant dû suit l'échéancier.
+          </p>
+        ) : (
+          <div className="space-y-3 mt-4">
+            {liabilities.map(liability => {
+              const preset = LIABILITY_TYPES[liability.type]
+              const IconComponent = ICONS[preset.icon] || CreditCard
+              const summary = loanSummaries.get(liability.id)
+              const repaidPercent = summary && liability.initialAmount
+                ? Math.min(100, Math.max(0, (1 - summary.remainingBalance / liability.initialAmount) * 100))
+                : null
+
+              return (
+                <div key={liability.id} className="p-4 bg-gray-700/30 rounded-xl border border-gray-700 hover:border-gray-600 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                      <div className="p-3 rounded-xl" style={{ backgroundColor: `${liability.color}20`, color: liability.color }}>
+                        <IconComponent className="w-6 h-6" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-white">{liability.name}</p>
+                        <div className="flex items-center gap-2 text-sm text-gray-400">
+                          <span>{preset.label}</span>
+                          {liability.institution && (
+                            <>
+                              <span>•</span>
+                              <span>{liability.institution}</span>
+                            </>
+                          )}
+                          {liability.interestRate !== undefined && (
+                            <>
+                              <span>•</span>
+                              <span>{liability.interestRate}%</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <p className="text-xl font-bold text-red-400">{formatMoney(liability.remainingBalance)}</p>
+                        {liability.monthlyPayment !== undefined && (
+                          <p className="text-xs text-gray-500">
+                            {formatMoney(liability.monthlyPayment + (liability.insuranceMonthly ?? 0))} / mois
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {summary && (
+                          <button
+                            onClick={() => setScheduleLiability(liability)}
+                            className="p-2 hover:bg-blue-500/20 rounded-lg transition-colors"
+                            title="Voir l'échéancier"
+                          >
+                            <CalendarClock className="w-4 h-4 text-blue-400" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setEditedLiability(liability)}
+                          className="p-2 hover:bg-gray-600 rounded-lg transition-colors"
+                          title="Modifier"
+                        >
+                          <Edit2 className="w-4 h-4 text-gray-400" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteLiability(liability)}
+                          className="p-2 hover:bg-red-500/20 rounded-lg transition-colors"
+                          title="Supprimer"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-400" />
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+
+                  {summary && repaidPercent !== null && (
+                    <div className="mt-3">
+                      <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500 rounded-full transition-all" style={{ width: `${repaidPercent}%` }} />
+                      </div>
+                      <div className="flex flex-wrap justify-between gap-2 text-xs text-gray-400 mt-1">
+                        <span>{repaidPercent.toFixed(1)}% remboursé · intérêts payés {formatMoney(summary.interestPaid)}</span>
+                        {summary.payoffDate && <span>Fin prévue le {formatDate(summary.payoffDate)}</span>}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </Card>
+
       {/* Add Account Modal */}
       {showAddModal && (
         <AddAccountModal
@@ -437,6 +566,22 @@ export function PatrimoinePage() {
         />
       )}
 
+      {/* Liability Modal */}
+      {editedLiability && (
+        <LiabilityModal
+          liability={editedLiability === 'new' ? undefined : editedLiability}
+          onClose={() => setEditedLiability(null)}
+        />
+      )}
+
+      {/* Amortization Modal */}
+      {scheduleLiability && (
+        <AmortizationModal
+          liability={scheduleLiability}
+          onClose={() => setScheduleLiability(null)}
+        />
+      )}
+
       {/* Movements Modal */}
       {showMovementsModal && (
         <MovementsModal
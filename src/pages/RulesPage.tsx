@@ -0,0 +1,284 @@
+import { useState, useCallback, useMemo, useEffect } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Plus, Pencil, Trash2, GripVertical, Play, Power, Sparkles, User } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { RuleEditor } from '@components/rules'
+import { useTransactions } from '@store/TransactionContext'
+import { useAllTransactions } from '@hooks/index'
+import { ruleService, settingsService } from '@services/db'
+import { resetCategorizer } from '@services/categorizer'
+import { applyLearnedRules } from '@services/categorizer/learningService'
+import { matchesRule, describeConditions } from '@services/categorizer/rules'
+import type { CategorizationRule } from '@/types'
+
+export function RulesPage() {
+  const { categories, accounts } = useTransactions()
+  const allTransactions = useAllTransactions()
+  const rules = useLiveQuery(() => ruleService.getAll()) ?? []
+  const toast = useToast()
+
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dragOrder, setDragOrder] = useState<string[] | null>(null)
+  const [applying, setApplying] = useState(false)
+  const [householdMembers, setHouseholdMembers] = useState<string[]>([])
+
+  useEffect(() => {
+    settingsService.get('householdMembers').then(members => {
+      if (Array.isArray(members)) {
+        setHouseholdMembers(members)
+      }
+    })
+  }, [])
+
+  const categoryMap = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories])
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts])
+
+  // While dragging, show the order being built
+  const orderedRules = useMemo(() => {
+    if (!dragOrder) return rules
+    const byId = new Map(rules.map(r => [r.id, r]))
+    return dragOrder.map(id => byId.get(id)).filter((r): r is CategorizationRule => Boolean(r))
+  }, [rules, dragOrder])
+
+  const matchCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const rule of rules) {
+      counts.set(rule.id, allTransactions.filter(t => matchesRule(rule, t)).length)
+    }
+    return counts
+  }, [rules, allTransactions])
+
+  const handleSave = useCallback(async (rule: CategorizationRule) => {
+    if (rules.some(r => r.id === rule.id)) {
+      await ruleService.update(rule.id, rule)
+    } else {
+      // New rules go to the top of the list
+      const topPriority = rules.reduce((max, r) => Math.max(max, r.priority), 0)
+      await ruleService.add({ ...rule, priority: topPriority + 10 })
+    }
+    resetCategorizer()
+    setEditingRule(null)
+    setIsAdding(false)
+    toast.success('Règle enregistrée', 'Elle sera appliquée aux prochains imports')
+  }, [rules, toast])
+
+  const handleDelete = useCallback(async (id: string) => {
+    await ruleService.delete(id)
+    resetCategorizer()
+    setDeleteConfirm(null)
+  }, [])
+
+  const handleToggleActive = useCallback(async (rule: CategorizationRule) => {
+    await ruleService.update(rule.id, { isActive: !rule.isActive })
+    resetCategorizer()
+  }, [])
+
+  const handleApply = useCallback(async () => {
+    setApplying(true)
+    try {
+      const updated = await applyLearnedRules()
+      toast.success('Règles appliquées', `${updated} transaction(s) mise(s) à jour`)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    } finally {
+      setApplying(false)
+    }
+  }, [toast])
+
+  const handleDragOver = useCallback((targetId: string) => {
+    if (!draggingId || draggingId === targetId) return
+    setDragOrder(prev => {
+      const order = prev ?? rules.map(r => r.id)
+      const from = order.indexOf(draggingId)
+      const to = order.indexOf(targetId)
+      if (from === -1 || to === -1 || from === to) return order
+      const next = [...order]
+      next.splice(from, 1)
+      next.splice(to, 0, draggingId)
+      return next
+    })
+  }, [draggingId, rules])
+
+  const handleDragEnd = useCallback(async () => {
+    const order = dragOrder
+    setDraggingId(null)
+    if (order) {
+      await ruleService.reorder(order)
+      resetCategorizer()
+    }
+    setDragOrder(null)
+  }, [dragOrder])
+
+  const describeActions = (rule: CategorizationRule): string[] => {
+    const actions: string[] = []
+    if (rule.categoryId) actions.push(`→ ${categoryMap.get(rule.categoryId)?.name ?? rule.categoryId}`)
+    if (rule.actions?.budgetGroup) actions.push(rule.actions.budgetGroup === 'needs' ? 'Besoins' : 'Envies')
+    if (rule.actions?.assignedTo) actions.push(`Imputé à ${rule.actions.assignedTo}`)
+    for (const tag of rule.actions?.tags ?? []) actions.push(`#${tag}`)
+    return actions
+  }
+
+  const editor = (isAdding || editingRule) && (
+    <RuleEditor
+      key={editingRule?.id ?? 'new'}
+      rule={editingRule}
+      categories={categories}
+      accounts={accounts}
+      householdMembers={householdMembers}
+      transactions={allTransactions}
+      onSave={handleSave}
+      onCancel={() => {
+        setEditingRule(null)
+        setIsAdding(false)
+      }}
+    />
+  )
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
+            Règles
+          </h1>
+          <p className="text-gray-400">Catégorisation automatique des transactions importées</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="secondary"
+            onClick={handleApply}
+            isLoading={applying}
+            leftIcon={<Play className="w-4 h-4" />}
+          >
+            Appliquer
+          </Button>
+          <Button
+            variant="primary"
+            onClick={() => {
+              setIsAdding(true)
+              setEditingRule(null)
+            }}
+            leftIcon={<Plus className="w-4 h-4" />}
+            disabled={isAdding}
+          >
+            Ajouter
+          </Button>
+        </div>
+      </div>
+
+      {editor}
+
+      <Card>
+        <CardTitle>Règles ({rules.length})</CardTitle>
+        <p className="text-xs text-gray-500 mt-1">
+          Les règles sont testées de haut en bas, la première qui correspond s'applique. Glissez pour changer l'ordre.
+        </p>
+
+        <div className="space-y-2 mt-4">
+          {orderedRules.map(rule => {
+            const actions = describeActions(rule)
+            const isLearned = rule.source !== 'user'
+
+            if (deleteConfirm === rule.id) {
+              return (
+                <div key={rule.id} className="bg-red-500/10 border border-red-500/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-300 mb-3">
+                    Supprimer la règle « {rule.name || describeConditions(rule, accountNames)} » ?
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="danger" size="sm" onClick={() => handleDelete(rule.id)}>
+                      Supprimer
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteConfirm(null)}>
+                      Annuler
+                    </Button>
+                  </div>
+                </div>
+              )
+            }
+
+            return (
+              <div
+                key={rule.id}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move'
+                  setDraggingId(rule.id)
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  handleDragOver(rule.id)
+                }}
+                onDragEnd={handleDragEnd}
+                className={`flex items-center gap-3 p-3 rounded-lg transition-colors ${
+                  draggingId === rule.id ? 'bg-blue-500/20 ring-2 ring-blue-500/50' : 'bg-gray-700/30 hover:bg-gray-700/50'
+                } ${rule.isActive ? '' : 'opacity-50'}`}
+              >
+                <GripVertical className="w-4 h-4 text-gray-600 cursor-grab flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium text-white truncate">
+                      {rule.name || describeConditions(rule, accountNames)}
+                    </p>
+                    <span
+                      className={`inline-flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded font-medium flex-shrink-0 ${
+                        isLearned ? 'bg-purple-500/20 text-purple-400' : 'bg-blue-500/20 text-blue-400'
+                      }`}
+                      title={isLearned ? 'Créée automatiquement après une correction' : 'Créée dans cet écran'}
+                    >
+                      {isLearned ? <Sparkles className="w-3 h-3" /> : <User className="w-3 h-3" />}
+                      {isLearned ? 'Apprise' : 'Manuelle'}
+                    </span>
+                  </div>
+                  {rule.name && (
+                    <p className="text-xs text-gray-500 truncate">{describeConditions(rule, accountNames)}</p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    {actions.join(' • ')}
+                    <span className="text-gray-500 ml-2">
+                      {matchCounts.get(rule.id) ?? 0} transaction(s)
+                    </span>
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleActive(rule)}
+                    className={`p-2 transition-colors ${rule.isActive ? 'text-green-400 hover:text-white' : 'text-gray-500 hover:text-white'}`}
+                    title={rule.isActive ? 'Désactiver' : 'Activer'}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingRule(rule)
+                      setIsAdding(false)
+                    }}
+                    className="p-2 text-gray-400 hover:text-blue-400 transition-colors"
+                    title="Modifier"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setDeleteConfirm(rule.id)}
+                    className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+          {rules.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-6">
+              Aucune règle. Corrigez la catégorie d'une transaction ou créez une règle.
+            </p>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
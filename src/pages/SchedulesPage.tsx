@@ -0,0 +1,213 @@
+import { useState, useCallback, useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Plus, Pencil, Trash2, Power, CalendarClock } from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { ScheduleEditor } from '@components/schedules'
+import { useTransactions } from '@store/TransactionContext'
+import { recurringScheduleService } from '@services/db'
+import { describeFrequency, getNextOccurrence, regenerateSchedule } from '@services/recurring'
+import { formatDate, formatMoney } from '@utils/formatters'
+import type { RecurringSchedule } from '@/types'
+
+export function SchedulesPage() {
+  const { categories, accounts, scheduledTransactions } = useTransactions()
+  const schedules = useLiveQuery(() => recurringScheduleService.getAll()) ?? []
+  const toast = useToast()
+
+  const [editingSchedule, setEditingSchedule] = useState<RecurringSchedule | null>(null)
+  const [isAdding, setIsAdding] = useState(false)
+  const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
+
+  const categoryMap = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories])
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts])
+
+  const upcomingCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const t of scheduledTransactions) {
+      if (t.scheduleId) counts.set(t.scheduleId, (counts.get(t.scheduleId) ?? 0) + 1)
+    }
+    return counts
+  }, [scheduledTransactions])
+
+  // Monthly equivalent of the active debits and credits
+  const monthlyTotal = useMemo(() => schedules
+    .filter(s => s.isActive)
+    .reduce((sum, s) => {
+      const perYear = s.frequency === 'weekly' ? 52 / s.interval
+        : s.frequency === 'monthly' ? 12 / s.interval
+        : s.frequency === 'quarterly' ? 4 / s.interval
+        : 1 / s.interval
+      return sum + (s.amount * perYear) / 12
+    }, 0), [schedules])
+
+  const handleSave = useCallback(async (schedule: RecurringSchedule) => {
+    try {
+      let id = schedule.id
+      if (schedules.some(s => s.id === id)) {
+        await recurringScheduleService.update(id, schedule)
+      } else {
+        id = (await recurringScheduleService.add(schedule)).id
+      }
+      const generated = await regenerateSchedule(id)
+      setEditingSchedule(null)
+      setIsAdding(false)
+      toast.success('Échéance enregistrée', `${generated} opération(s) prévue(s) générée(s)`)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [schedules, toast])
+
+  const handleDelete = useCallback(async (id: string) => {
+    await recurringScheduleService.delete(id)
+    setDeleteConfirm(null)
+  }, [])
+
+  // A paused schedule has no upcoming occurrence, resuming it generates them again
+  const handleToggleActive = useCallback(async (schedule: RecurringSchedule) => {
+    await recurringScheduleService.update(schedule.id, { isActive: !schedule.isActive })
+    await regenerateSchedule(schedule.id)
+  }, [])
+
+  const editor = (isAdding || editingSchedule) && (
+    <ScheduleEditor
+      key={editingSchedule?.id ?? 'new'}
+      schedule={editingSchedule}
+      categories={categories}
+      accounts={accounts}
+      onSave={handleSave}
+      onCancel={() => {
+        setEditingSchedule(null)
+        setIsAdding(false)
+      }}
+    />
+  )
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
+            Échéancier
+          </h1>
+          <p className="text-gray-400">Opérations récurrentes prévues automatiquement</p>
+        </div>
+        <Button
+          variant="primary"
+          onClick={() => {
+            setIsAdding(true)
+            setEditingSchedule(null)
+          }}
+          leftIcon={<Plus className="w-4 h-4" />}
+          disabled={isAdding}
+        >
+          Ajouter
+        </Button>
+      </div>
+
+      {editor}
+
+      <Card>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle icon={<CalendarClock className="w-5 h-5 text-violet-400" />}>
+            Échéances ({schedules.length})
+          </CardTitle>
+          {schedules.length > 0 && (
+            <span className={`text-sm font-medium ${monthlyTotal >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              {monthlyTotal >= 0 ? '+' : ''}{formatMoney(monthlyTotal)}/mois
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Les opérations des 3 prochains mois sont prévues à l'avance et rapprochées de leur ligne bancaire à l'import.
+        </p>
+
+        <div className="space-y-2 mt-4">
+          {schedules.map(schedule => {
+            const category = categoryMap.get(schedule.category)
+            const next = schedule.isActive ? getNextOccurrence(schedule) : undefined
+
+            if (deleteConfirm === schedule.id) {
+              return (
+                <div key={schedule.id} className="bg-red-500/10 border border-red-500/50 rounded-lg p-4">
+                  <p className="text-sm text-gray-300 mb-3">
+                    Supprimer l'échéance « {schedule.description} » et ses opérations prévues ?
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="danger" size="sm" onClick={() => handleDelete(schedule.id)}>
+                      Supprimer
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteConfirm(null)}>
+                      Annuler
+                    </Button>
+                  </div>
+                </div>
+              )
+            }
+
+            return (
+              <div
+                key={schedule.id}
+                className={`flex items-center gap-3 p-3 bg-gray-700/30 hover:bg-gray-700/50 rounded-lg transition-colors ${
+                  schedule.isActive ? '' : 'opacity-50'
+                }`}
+              >
+                <div
+                  className="w-2 h-2 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: category?.color || '#94a3b8' }}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{schedule.description}</p>
+                  <p className="text-xs text-gray-500">
+                    {describeFrequency(schedule)} • {category?.name || 'Autre'}
+                    {schedule.accountId && accounts.length > 1 && ` • ${accountNames.get(schedule.accountId) ?? ''}`}
+                    {schedule.endDate && ` • jusqu'au ${formatDate(schedule.endDate)}`}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-0.5">
+                    {next ? `Prochaine : ${formatDate(next)}` : schedule.isActive ? 'Terminée' : 'En pause'}
+                    {(upcomingCounts.get(schedule.id) ?? 0) > 0 && (
+                      <span className="text-gray-500 ml-2">{upcomingCounts.get(schedule.id)} prévue(s)</span>
+                    )}
+                  </p>
+                </div>
+                <span className={`text-sm font-medium flex-shrink-0 ${schedule.amount >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {schedule.amount >= 0 ? '+' : ''}{formatMoney(schedule.amount)}
+                </span>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleActive(schedule)}
+                    className={`p-2 transition-colors ${schedule.isActive ? 'text-green-400 hover:text-white' : 'text-gray-500 hover:text-white'}`}
+                    title={schedule.isActive ? 'Mettre en pause' : 'Reprendre'}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingSchedule(schedule)
+                      setIsAdding(false)
+                    }}
+                    className="p-2 text-gray-400 hover:text-blue-400 transition-colors"
+                    title="Modifier"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setDeleteConfirm(schedule.id)}
+                    className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                    title="Supprimer"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+          {schedules.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-6">
+              Aucune échéance. Créez-en une ou planifiez une dépense récurrente depuis le tableau de bord.
+            </p>
+          )}
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -1,13 +1,19 @@
-import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
-import { Trash2, AlertTriangle, FileText, FileSpreadsheet, Upload, Save, FolderOpen, RefreshCw, Brain, Wallet, Check, Zap, Eye, EyeOff, Users, Plus, X } from 'lucide-react'
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { Trash2, AlertTriangle, FileText, FileSpreadsheet, Upload, Save, FolderOpen, RefreshCw, Brain, Check, Zap, Eye, EyeOff, Users, Plus, X } from 'lucide-react'
 import { Card, CardTitle, Button, useToast, markAsSaved } from '@components/common'
-import { db, categoryService, settingsService } from '@services/db'
+import { BankAccountsManager } from '@components/accounts'
+import { SyncSettings } from '@components/sync'
+import { IntegrityChecker } from '@components/integrity'
+import { RestoreReportView, MergePreviewView, BackupEncryptionSettings, PassphrasePrompt } from '@components/backup'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { db, categoryService, settingsService, savedSearchService } from '@services/db'
 import { useTransactions } from '@store/TransactionContext'
-import { useAllTransactions } from '@hooks/index'
-import { formatMoney } from '@utils/formatters'
+import { useAllTransactions, useHistory } from '@hooks/index'
 import { exportToCSV } from '@services/export/csv'
+import { searchTransactions, normalizeText } from '@services/search'
 import { generateMonthlyReport, generateTransactionsPDF } from '@services/export/pdf'
-import { exportToFile, importFromFile, mergeFromFile } from '@services/storage/fileStorage'
+import { exportToFile, importFromFile, previewMergeFromFile, isEncryptedFile } from '@services/storage/fileStorage'
+import { applyMerge, type RestoreReport, type MergePreview, type MergeChoices } from '@services/storage'
 import {
   createAutoBackup,
   setupAutoSaveLocation,
@@ -22,18 +28,19 @@ import { getCategorizerWithRules, resetCategorizer } from '@services/categorizer
 import { learnFromAllCorrections } from '@services/categorizer/learningService'
 
 export function SettingsPage() {
-  const { transactions, categories, stats, selectedMonth } = useTransactions()
+  const { transactions, categories, accounts, stats, selectedMonth } = useTransactions()
   const allTransactions = useAllTransactions()
   const toast = useToast()
+  const { undoAction } = useHistory()
   const [showConfirm, setShowConfirm] = useState(false)
   const [exporting, setExporting] = useState<string | null>(null)
+  const savedSearches = useLiveQuery(() => savedSearchService.getAll()) ?? []
+  const [csvSearchId, setCsvSearchId] = useState('')
   const fileInputRef = useRef<HTMLInputElement>(null)
   const mergeInputRef = useRef<HTMLInputElement>(null)
-
-  // Balance calibration state
-  const [currentBalanceInput, setCurrentBalanceInput] = useState('')
-  const [initialBalance, setInitialBalance] = useState<number | null>(null)
-  const [savingBalance, setSavingBalance] = useState(false)
+  const [restoreReport, setRestoreReport] = useState<RestoreReport | null>(null)
+  const [mergePreview, setMergePreview] = useState<MergePreview | null>(null)
+  const [pendingEncryptedFile, setPendingEncryptedFile] = useState<{ file: File; mode: 'load' | 'merge' } | null>(null)
 
   // Auto-save state (File System Access API - Chrome/Edge)
   const [autoSaveConfigured, setAutoSaveConfigured] = useState(hasAutoSaveLocation())
@@ -49,22 +56,6 @@ export function SettingsPage() {
   const [householdMembers, setHouseholdMembers] = useState<string[]>([])
   const [newMemberName, setNewMemberName] = useState('')
 
-  // Calculate total of transactions up to today (exclude future transactions)
-  const transactionsTotal = useMemo(() => {
-    // Use local date, not UTC (toISOString returns UTC which can cause timezone issues)
-    const now = new Date()
-    const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
-    const pastTransactions = allTransactions.filter(t => t.date <= today)
-    return pastTransactions.reduce((sum, t) => sum + t.amount, 0)
-  }, [allTransactions])
-
-  // Load initial balance on mount
-  useEffect(() => {
-    settingsService.getInitialBalance().then(balance => {
-      setInitialBalance(balance)
-    })
-  }, [])
-
   // Load Claude API key status on mount
   useEffect(() => {
     settingsService.get('claudeApiKey').then(key => {
@@ -129,10 +120,6 @@ export function SettingsPage() {
     }
   }, [toast])
 
-  // Calculate current balance based on initial + transactions
-  const calculatedCurrentBalance = (initialBalance || 0) + transactionsTotal
-
-  // Handle balance calibration
   // Setup auto-save location
   const handleSetupAutoSave = useCallback(async () => {
     const success = await setupAutoSaveLocation()
@@ -163,30 +150,6 @@ export function SettingsPage() {
     }
   }, [toast])
 
-  const handleCalibrateBalance = useCallback(async () => {
-    const targetBalance = parseFloat(currentBalanceInput.replace(',', '.'))
-    if (isNaN(targetBalance)) {
-      toast.error('Erreur', 'Entrez un montant valide')
-      return
-    }
-
-    setSavingBalance(true)
-    try {
-      // Calculate what initial balance should be
-      // targetBalance = initialBalance + transactionsTotal
-      // initialBalance = targetBalance - transactionsTotal
-      const newInitialBalance = targetBalance - transactionsTotal
-      await settingsService.setInitialBalance(newInitialBalance)
-      setInitialBalance(newInitialBalance)
-      setCurrentBalanceInput('')
-      toast.success('Solde calibré', `Solde initial ajusté à ${formatMoney(newInitialBalance)}`)
-    } catch (err) {
-      toast.error('Erreur', (err as Error).message)
-    } finally {
-      setSavingBalance(false)
-    }
-  }, [currentBalanceInput, transactionsTotal, toast])
-
   // Save all data to JSON file
   const handleSaveToFile = useCallback(async () => {
     setExporting('save')
@@ -203,17 +166,17 @@ export function SettingsPage() {
   }, [toast])
 
   // Load data from JSON file (replace all)
-  const handleLoadFromFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-
+  const loadFromFile = useCallback(async (file: File, passphrase?: string) => {
     setExporting('load')
     try {
-      const result = await importFromFile(file)
+      const report = await importFromFile(file, passphrase)
+      setPendingEncryptedFile(null)
       // Create auto-backup after loading
       await createAutoBackup()
-      toast.success('Succès', `${result.transactions} transactions chargées !`)
-      window.location.reload()
+      // Shown until the reload, so the user can read what was restored
+      setRestoreReport(report)
+      const transactions = report.tables.find(t => t.table === 'transactions')?.restored ?? 0
+      toast.success('Succès', `${transactions} transactions chargées !`)
     } catch (err) {
       toast.error('Erreur', `Erreur: ${(err as Error).message}`)
     } finally {
@@ -222,18 +185,13 @@ export function SettingsPage() {
     }
   }, [toast])
 
-  // Merge data from JSON file (add to existing)
-  const handleMergeFromFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-
+  // Compare a JSON file with the local data, merged once every conflict has a choice
+  const mergeFromFileWith = useCallback(async (file: File, passphrase?: string) => {
     setExporting('merge')
     try {
-      const result = await mergeFromFile(file)
-      // Create auto-backup after merging
-      await createAutoBackup()
-      toast.success('Succès', `${result.added} transactions ajoutées (${result.skipped} doublons ignorés)`)
-      window.location.reload()
+      setMergePreview(await previewMergeFromFile(file, passphrase))
+      setPendingEncryptedFile(null)
+      setRestoreReport(null)
     } catch (err) {
       toast.error('Erreur', `Erreur: ${(err as Error).message}`)
     } finally {
@@ -242,18 +200,66 @@ export function SettingsPage() {
     }
   }, [toast])
 
+  const handleApplyMerge = useCallback(async (choices: MergeChoices) => {
+    if (!mergePreview) return
+    setExporting('apply-merge')
+    try {
+      const result = await applyMerge(mergePreview, choices)
+      setMergePreview(null)
+      // Create auto-backup after merging
+      await createAutoBackup()
+      toast.success(
+        'Fusion terminée',
+        `${result.added} ajout(s), ${result.modified} modification(s), ${result.deleted} suppression(s)`,
+        undoAction
+      )
+    } catch (err) {
+      toast.error('Erreur', `Erreur: ${(err as Error).message}`)
+    } finally {
+      setExporting(null)
+    }
+  }, [mergePreview, toast, undoAction])
+
+  // An encrypted file goes through the passphrase prompt first
+  const handleFileSelected = useCallback(async (e: React.ChangeEvent<HTMLInputElement>, mode: 'load' | 'merge') => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    if (await isEncryptedFile(file)) {
+      setPendingEncryptedFile({ file, mode })
+      e.target.value = ''
+      return
+    }
+    if (mode === 'load') await loadFromFile(file)
+    else await mergeFromFileWith(file)
+  }, [loadFromFile, mergeFromFileWith])
+
+  const handlePassphraseSubmit = useCallback((passphrase: string) => {
+    if (!pendingEncryptedFile) return
+    const { file, mode } = pendingEncryptedFile
+    if (mode === 'load') loadFromFile(file, passphrase)
+    else mergeFromFileWith(file, passphrase)
+  }, [pendingEncryptedFile, loadFromFile, mergeFromFileWith])
+
   const handleExportCSV = useCallback(() => {
     setExporting('csv')
     try {
+      const search = savedSearches.find(s => s.id === csvSearchId)
+      const exported = search
+        ? searchTransactions(allTransactions, search.query, { categories, accounts })
+        : allTransactions
+      const prefix = search
+        ? normalizeText(search.name).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recherche'
+        : 'transactions'
       exportToCSV(
-        allTransactions,
+        exported,
         categories,
-        `transactions-${new Date().toISOString().split('T')[0]}.csv`
+        `${prefix}-${new Date().toISOString().split('T')[0]}.csv`
       )
     } finally {
       setExporting(null)
     }
-  }, [allTransactions, categories])
+  }, [allTransactions, categories, accounts, savedSearches, csvSearchId])
 
   const handleExportPDF = useCallback(() => {
     if (!stats) return
@@ -359,7 +365,7 @@ export function SettingsPage() {
         if (t.isManuallyEdited) continue
 
         const isExpense = t.amount < 0
-        const newCategory = categorizer.categorize(t.description, t.type, isExpense)
+        const newCategory = categorizer.categorize(t.description, t.type, isExpense, t)
         if (newCategory && newCategory !== t.category) {
           await db.transactions.update(t.id, { category: newCategory })
           updated++
@@ -473,6 +479,12 @@ export function SettingsPage() {
         )}
       </Card>
 
+      {/* Backup encryption */}
+      <BackupEncryptionSettings />
+
+      {/* Sync between devices */}
+      <SyncSettings />
+
       {/* Save/Load Data File - PRIMARY FEATURE */}
       <Card className="border-blue-500/50">
         <CardTitle icon={<FolderOpen className="w-5 h-5 text-blue-400" />}>
@@ -480,6 +492,7 @@ export function SettingsPage() {
         </CardTitle>
         <p className="text-gray-400 text-sm mt-2 mb-4">
           Sauvegardez vos données dans un fichier <code className="bg-gray-700 px-1 rounded">finance-data.json</code> que vous pouvez garder dans un dossier et recharger à tout moment.
+          La fusion compare le fichier avec vos données (ajouts, modifications, suppressions) et vous laisse choisir en cas de conflit.
         </p>
         <div className="flex flex-wrap gap-3">
           <Button
@@ -511,77 +524,43 @@ export function SettingsPage() {
           ref={fileInputRef}
           type="file"
           accept=".json"
-          onChange={handleLoadFromFile}
+          onChange={(e) => handleFileSelected(e, 'load')}
           className="hidden"
         />
         <input
           ref={mergeInputRef}
           type="file"
           accept=".json"
-          onChange={handleMergeFromFile}
+          onChange={(e) => handleFileSelected(e, 'merge')}
           className="hidden"
         />
         <p className="text-xs text-gray-500 mt-3">
           Conseil: Gardez le fichier <code className="bg-gray-700 px-1 rounded">finance-data.json</code> dans un dossier dédié.
           Chargez-le au démarrage pour retrouver vos données.
         </p>
+        {pendingEncryptedFile && (
+          <PassphrasePrompt
+            fileName={pendingEncryptedFile.file.name}
+            isLoading={exporting === pendingEncryptedFile.mode}
+            onSubmit={handlePassphraseSubmit}
+            onCancel={() => setPendingEncryptedFile(null)}
+          />
+        )}
+        {mergePreview && (
+          <MergePreviewView
+            preview={mergePreview}
+            isApplying={exporting === 'apply-merge'}
+            onApply={handleApplyMerge}
+            onCancel={() => setMergePreview(null)}
+          />
+        )}
+        {restoreReport && (
+          <RestoreReportView report={restoreReport} onReload={() => window.location.reload()} />
+        )}
       </Card>
 
-      {/* Balance Calibration */}
-      <Card className="border-green-500/50">
-        <CardTitle icon={<Wallet className="w-5 h-5 text-green-400" />}>
-          Calibrer le solde bancaire
-        </CardTitle>
-        <p className="text-gray-400 text-sm mt-2 mb-4">
-          Entrez votre solde bancaire actuel pour que l'app calcule automatiquement le solde initial.
-        </p>
-
-        {/* Current calculated balance */}
-        <div className="bg-gray-700/50 rounded-lg p-4 mb-4">
-          <div className="flex justify-between items-center">
-            <span className="text-gray-400">Solde calculé par l'app :</span>
-            <span className={`text-xl font-bold ${calculatedCurrentBalance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-              {formatMoney(calculatedCurrentBalance)}
-            </span>
-          </div>
-          {initialBalance !== null && initialBalance !== 0 && (
-            <div className="flex justify-between items-center mt-2 text-sm">
-              <span className="text-gray-500">Solde initial enregistré :</span>
-              <span className="text-gray-400">{formatMoney(initialBalance)}</span>
-            </div>
-          )}
-        </div>
-
-        {/* Input for real balance */}
-        <div className="flex gap-3">
-          <div className="flex-1">
-            <label className="block text-sm text-gray-400 mb-1">
-              Votre vrai solde bancaire aujourd'hui
-            </label>
-            <input
-              type="text"
-              value={currentBalanceInput}
-              onChange={(e) => setCurrentBalanceInput(e.target.value)}
-              placeholder="Ex: 243,62"
-              className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2"
-            />
-          </div>
-          <div className="flex items-end">
-            <Button
-              variant="primary"
-              onClick={handleCalibrateBalance}
-              isLoading={savingBalance}
-              leftIcon={<Check className="w-4 h-4" />}
-              disabled={!currentBalanceInput}
-            >
-              Calibrer
-            </Button>
-          </div>
-        </div>
-        <p className="text-xs text-gray-500 mt-3">
-          L'app ajustera le solde initial pour que le calcul corresponde à votre solde réel.
-        </p>
-      </Card>
+      {/* Bank accounts & balance calibration */}
+      <BankAccountsManager accounts={accounts} transactions={allTransactions} />
 
       {/* Export PDF */}
       <Card>
@@ -621,6 +600,19 @@ export function SettingsPage() {
         <p className="text-gray-400 text-sm mt-2 mb-4">
           Exportez vos transactions au format CSV (compatible Excel).
         </p>
+        {savedSearches.length > 0 && (
+          <select
+            value={csvSearchId}
+            onChange={(e) => setCsvSearchId(e.target.value)}
+            className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white mb-4"
+            aria-label="Transactions à exporter"
+          >
+            <option value="">Toutes les transactions</option>
+            {savedSearches.map(search => (
+              <option key={search.id} value={search.id}>Recherche : {search.name}</option>
+            ))}
+          </select>
+        )}
         <Button
           variant="secondary"
           onClick={handleExportCSV}
@@ -652,6 +644,9 @@ export function SettingsPage() {
         </Button>
       </Card>
 
+      {/* Integrity check */}
+      <IntegrityChecker />
+
       {/* Learn from corrections */}
       <Card className="border-purple-500/50">
         <CardTitle icon={<Brain className="w-5 h-5 text-purple-400" />}>
@@ -0,0 +1,275 @@
+import { useState, useCallback, useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useLiveQuery } from 'dexie-react-hooks'
+import {
+  Plus,
+  Repeat,
+  AlertTriangle,
+  TrendingUp,
+  TrendingDown,
+  Copy,
+  CalendarX,
+  CalendarPlus,
+  CalendarCheck,
+  ChevronDown,
+  ChevronUp,
+} from 'lucide-react'
+import { Card, CardTitle, Button, useToast } from '@components/common'
+import { ScheduleEditor } from '@components/schedules'
+import { useTransactions } from '@store/TransactionContext'
+import { useAllTransactions } from '@hooks/index'
+import { recurringScheduleService } from '@services/db'
+import { describeFrequency, inferSchedule, regenerateSchedule } from '@services/recurring'
+import { getSubscriptions, SUBSCRIPTION_CATEGORY } from '@services/subscriptions'
+import type { Subscription, SubscriptionAlert, SubscriptionAlertType } from '@services/subscriptions'
+import { formatDate, formatMoney, getToday } from '@utils/formatters'
+import type { RecurringSchedule } from '@/types'
+
+const ALERT_ICONS: Record<SubscriptionAlertType, typeof AlertTriangle> = {
+  'price-change': TrendingUp,
+  missing: CalendarX,
+  duplicate: Copy,
+}
+
+function AlertRow({ alert, name }: { alert: SubscriptionAlert; name?: string }) {
+  const Icon = (alert.change ?? 0) < 0 ? TrendingDown : ALERT_ICONS[alert.type]
+  const color = alert.type === 'price-change' ? 'text-amber-400' : 'text-red-400'
+  return (
+    <div className="flex items-start gap-2 text-sm">
+      <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${color}`} />
+      <p className="text-gray-300">
+        {name && <span className="font-medium text-white">{name} : </span>}
+        {alert.message}
+        <span className="text-gray-500"> • {formatDate(alert.date)}</span>
+      </p>
+    </div>
+  )
+}
+
+export function SubscriptionsPage() {
+  const { categories, accounts } = useTransactions()
+  const allTransactions = useAllTransactions()
+  const schedules = useLiveQuery(() => recurringScheduleService.getAll())
+  const toast = useToast()
+
+  const [isAdding, setIsAdding] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [showEnded, setShowEnded] = useState(false)
+
+  const subscriptions = useMemo(
+    () => getSubscriptions(allTransactions, schedules ?? [], getToday()),
+    [allTransactions, schedules]
+  )
+  const active = subscriptions.filter(s => s.isActive)
+  const ended = subscriptions.filter(s => !s.isActive)
+  const alerts = active.flatMap(s => s.alerts.map(alert => ({ alert, name: s.name })))
+  const annualTotal = active.reduce((sum, s) => sum + s.annualCost, 0)
+
+  const categoryMap = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories])
+
+  // Following a detected subscription declares it: its next charges become scheduled entries
+  const handleFollow = useCallback(async (subscription: Subscription) => {
+    try {
+      const schedule = await recurringScheduleService.add({
+        ...inferSchedule(subscription.charges),
+        category: SUBSCRIPTION_CATEGORY,
+      })
+      await regenerateSchedule(schedule.id)
+      toast.success('Abonnement suivi', `Prochain prélèvement prévu le ${formatDate(schedule.startDate)}`)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [toast])
+
+  const handleSave = useCallback(async (schedule: RecurringSchedule) => {
+    try {
+      const saved = await recurringScheduleService.add(schedule)
+      await regenerateSchedule(saved.id)
+      setIsAdding(false)
+      toast.success('Abonnement ajouté', `${saved.description} est suivi dans l'échéancier`)
+    } catch (err) {
+      toast.error('Erreur', (err as Error).message)
+    }
+  }, [toast])
+
+  const renderSubscription = (subscription: Subscription) => {
+    const category = categoryMap.get(subscription.category)
+    const isExpanded = expandedId === subscription.id
+    return (
+      <div key={subscription.id} className="bg-gray-700/30 rounded-lg">
+        <div className="flex items-center gap-3 p-3">
+          <div
+            className="w-2 h-2 rounded-full flex-shrink-0"
+            style={{ backgroundColor: category?.color || '#94a3b8' }}
+          />
+          <button
+            onClick={() => setExpandedId(isExpanded ? null : subscription.id)}
+            className="flex-1 min-w-0 text-left"
+          >
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-medium text-white truncate">{subscription.name}</p>
+              {subscription.alerts.length > 0 && subscription.isActive && (
+                <AlertTriangle className="w-3.5 h-3.5 text-amber-400 flex-shrink-0" />
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              {describeFrequency(subscription)} • {formatMoney(subscription.amount)}
+              {subscription.lastCharge && ` • dernier le ${formatDate(subscription.lastCharge.date)}`}
+              {subscription.isActive && subscription.nextCharge && ` • prochain vers le ${formatDate(subscription.nextCharge)}`}
+            </p>
+          </button>
+          <div className="text-right flex-shrink-0">
+            <p className="text-sm font-medium text-red-400">{formatMoney(subscription.annualCost)}/an</p>
+            <p className="text-xs text-gray-500">{formatMoney(subscription.annualCost / 12)}/mois</p>
+          </div>
+          {subscription.source === 'declared' ? (
+            <Link
+              to="/schedules"
+              className="p-1.5 text-violet-400 hover:text-white rounded transition-colors"
+              title="Suivi dans l'échéancier"
+            >
+              <CalendarCheck className="w-4 h-4" />
+            </Link>
+          ) : (
+            <button
+              onClick={() => handleFollow(subscription)}
+              className="p-1.5 text-gray-400 hover:text-violet-400 rounded transition-colors"
+              title="Suivre dans l'échéancier"
+              aria-label="Suivre dans l'échéancier"
+            >
+              <CalendarPlus className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setExpandedId(isExpanded ? null : subscription.id)}
+            className="p-1.5 text-gray-400 hover:text-white rounded transition-colors"
+            aria-label={isExpanded ? 'Masquer le détail' : 'Voir le détail'}
+          >
+            {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+        </div>
+
+        {isExpanded && (
+          <div className="px-3 pb-3 pt-1 space-y-3 border-t border-gray-700/50">
+            {subscription.alerts.length > 0 && (
+              <div className="space-y-1.5 pt-2">
+                {subscription.alerts.map((alert, index) => (
+                  <AlertRow key={index} alert={alert} />
+                ))}
+              </div>
+            )}
+            <div className="pt-2">
+              <p className="text-xs text-gray-400 mb-1">Historique des prix</p>
+              <ul className="space-y-1">
+                {[...subscription.priceHistory].reverse().map(point => (
+                  <li key={point.date} className="flex justify-between text-xs text-gray-400">
+                    <span>Depuis le {formatDate(point.date)}</span>
+                    <span>{formatMoney(point.amount)}</span>
+                  </li>
+                ))}
+                {subscription.priceHistory.length === 0 && (
+                  <li className="text-xs text-gray-500">Aucun prélèvement pour le moment</li>
+                )}
+              </ul>
+            </div>
+            <p className="text-xs text-gray-500">
+              {subscription.charges.length} prélèvement(s) •{' '}
+              {subscription.source === 'declared' ? 'déclaré dans l\'échéancier' : 'détecté dans les relevés'}
+            </p>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
+            Abonnements
+          </h1>
+          <p className="text-gray-400">Prélèvements réguliers, changements de prix et oublis</p>
+        </div>
+        <Button
+          variant="primary"
+          onClick={() => setIsAdding(true)}
+          leftIcon={<Plus className="w-4 h-4" />}
+          disabled={isAdding}
+        >
+          Ajouter
+        </Button>
+      </div>
+
+      {isAdding && (
+        <ScheduleEditor
+          schedule={null}
+          categories={categories}
+          accounts={accounts}
+          defaultCategory={SUBSCRIPTION_CATEGORY}
+          onSave={handleSave}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <Card>
+          <p className="text-xs text-gray-400">Par mois</p>
+          <p className="text-lg md:text-xl font-bold text-red-400">{formatMoney(annualTotal / 12)}</p>
+        </Card>
+        <Card>
+          <p className="text-xs text-gray-400">Par an</p>
+          <p className="text-lg md:text-xl font-bold text-red-400">{formatMoney(annualTotal)}</p>
+        </Card>
+        <Card>
+          <p className="text-xs text-gray-400">Alertes</p>
+          <p className={`text-lg md:text-xl font-bold ${alerts.length > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+            {alerts.length}
+          </p>
+        </Card>
+      </div>
+
+      {alerts.length > 0 && (
+        <Card className="border-amber-500/30">
+          <CardTitle icon={<AlertTriangle className="w-5 h-5 text-amber-400" />}>
+            À vérifier
+          </CardTitle>
+          <div className="space-y-2 mt-3">
+            {alerts
+              .sort((a, b) => b.alert.date.localeCompare(a.alert.date))
+              .map(({ alert, name }, index) => (
+                <AlertRow key={index} alert={alert} name={name} />
+              ))}
+          </div>
+        </Card>
+      )}
+
+      <Card>
+        <CardTitle icon={<Repeat className="w-5 h-5 text-purple-400" />}>
+          En cours ({active.length})
+        </CardTitle>
+        <div className="space-y-2 mt-4">
+          {active.map(renderSubscription)}
+          {active.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-6">
+              Aucun abonnement détecté. Importez quelques mois de relevés ou ajoutez-en un.
+            </p>
+          )}
+        </div>
+      </Card>
+
+      {ended.length > 0 && (
+        <Card>
+          <button
+            onClick={() => setShowEnded(!showEnded)}
+            className="w-full flex items-center justify-between text-sm text-gray-400 hover:text-white"
+          >
+            <span>Terminés ou en pause ({ended.length})</span>
+            {showEnded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </button>
+          {showEnded && <div className="space-y-2 mt-4 opacity-60">{ended.map(renderSubscription)}</div>}
+        </Card>
+      )}
+    </div>
+  )
+}
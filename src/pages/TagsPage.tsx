@@ -0,0 +1,164 @@
+import { useState, useMemo, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Hash } from 'lucide-react'
+import { Card, CardTitle, Button } from '@components/common'
+import { useTransactions } from '@store/TransactionContext'
+import { useAllTransactions } from '@hooks/index'
+import { buildTagReport } from '@services/tags'
+import { formatMoney } from '@utils/formatters'
+
+type Granularity = 'month' | 'year'
+
+const MONTH_LABELS = ['Janv', 'Févr', 'Mars', 'Avr', 'Mai', 'Juin', 'Juil', 'Août', 'Sept', 'Oct', 'Nov', 'Déc']
+
+export function TagsPage() {
+  const { setFilters } = useTransactions()
+  const allTransactions = useAllTransactions()
+  const navigate = useNavigate()
+  const [granularity, setGranularity] = useState<Granularity>('month')
+  const [selectedYear, setSelectedYear] = useState<string | null>(null)
+
+  const years = useMemo(() => {
+    const set = new Set(allTransactions.map(t => t.date.substring(0, 4)))
+    return Array.from(set).sort().reverse()
+  }, [allTransactions])
+
+  const year = selectedYear ?? years[0] ?? String(new Date().getFullYear())
+
+  // Columns of the report: months of the selected year, or every year
+  const periods = useMemo(() => {
+    if (granularity === 'year') return [...years].reverse()
+    return MONTH_LABELS.map((_, i) => `${year}-${String(i + 1).padStart(2, '0')}`)
+  }, [granularity, year, years])
+
+  const report = useMemo(() => {
+    return buildTagReport(allTransactions, t => {
+      const month = t.budgetMonth || t.date.substring(0, 7)
+      if (granularity === 'year') return month.substring(0, 4)
+      return month.startsWith(year) ? month : null
+    })
+  }, [allTransactions, granularity, year])
+
+  const periodTotals = useMemo(() => {
+    return periods.map(p => report.reduce((sum, row) => sum + (row.byPeriod.get(p) || 0), 0))
+  }, [periods, report])
+
+  const handleShowTransactions = useCallback((tag: string) => {
+    setFilters({ tags: [tag] })
+    navigate('/transactions')
+  }, [setFilters, navigate])
+
+  const periodLabel = (period: string) =>
+    granularity === 'year' ? period : MONTH_LABELS[parseInt(period.substring(5, 7)) - 1]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-white mb-1">
+            Tags
+          </h1>
+          <p className="text-gray-400">Dépenses par tag, tous comptes confondus</p>
+        </div>
+        <div className="flex gap-2 items-center">
+          {granularity === 'month' && years.length > 0 && (
+            <select
+              value={year}
+              onChange={(e) => setSelectedYear(e.target.value)}
+              className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+              aria-label="Année"
+            >
+              {years.map(y => (
+                <option key={y} value={y}>{y}</option>
+              ))}
+            </select>
+          )}
+          {(['month', 'year'] as const).map(g => (
+            <Button
+              key={g}
+              variant={granularity === g ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setGranularity(g)}
+              aria-pressed={granularity === g}
+            >
+              {g === 'month' ? 'Par mois' : 'Par année'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <Card>
+        <CardTitle icon={<Hash className="w-5 h-5 text-amber-400" />}>
+          Dépenses par tag
+        </CardTitle>
+
+        {report.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-8">
+            Aucune dépense taguée sur cette période. Ajoutez des tags depuis la liste des transactions.
+          </p>
+        ) : (
+          <div className="overflow-x-auto mt-4 custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="pb-3 text-left font-medium" scope="col">Tag</th>
+                  {periods.map(p => (
+                    <th key={p} className="pb-3 px-2 text-right font-medium whitespace-nowrap" scope="col">
+                      {periodLabel(p)}
+                    </th>
+                  ))}
+                  <th className="pb-3 pl-2 text-right font-medium" scope="col">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700/50">
+                {report.map(row => (
+                  <tr key={row.tag} className="hover:bg-gray-700/30">
+                    <td className="py-2 pr-2">
+                      <button
+                        onClick={() => handleShowTransactions(row.tag)}
+                        className="text-amber-400 hover:text-amber-300 whitespace-nowrap"
+                        title="Voir les transactions"
+                      >
+                        #{row.tag}
+                      </button>
+                      <span className="text-xs text-gray-500 ml-2">{row.count}</span>
+                    </td>
+                    {periods.map(p => {
+                      const amount = row.byPeriod.get(p)
+                      return (
+                        <td key={p} className="py-2 px-2 text-right whitespace-nowrap text-gray-300">
+                          {amount ? formatMoney(amount) : <span className="text-gray-600">—</span>}
+                        </td>
+                      )
+                    })}
+                    <td className="py-2 pl-2 text-right whitespace-nowrap font-medium text-white">
+                      {formatMoney(row.total)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t border-gray-600 text-gray-400">
+                <tr>
+                  <td className="pt-3 font-medium">Total</td>
+                  {periodTotals.map((total, i) => (
+                    <td key={periods[i]} className="pt-3 px-2 text-right whitespace-nowrap">
+                      {total ? formatMoney(total) : '—'}
+                    </td>
+                  ))}
+                  <td className="pt-3 pl-2 text-right whitespace-nowrap font-medium text-white">
+                    {formatMoney(periodTotals.reduce((sum, t) => sum + t, 0))}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+        {report.length > 0 && (
+          <p className="text-xs text-gray-500 mt-4">
+            Une transaction portant plusieurs tags est comptée dans chacun d'eux, le total peut donc dépasser la dépense réelle.
+          </p>
+        )}
+      </Card>
+    </div>
+  )
+}
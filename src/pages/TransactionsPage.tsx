@@ -1,13 +1,41 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { useTransactions } from '@store/TransactionContext'
 import { transactionService } from '@services/db'
-import { TransactionList } from '@components/transactions'
+import { TransactionList, ScheduledTransactionsList } from '@components/transactions'
 import { useToast } from '@components/common'
+import { useHistory } from '@hooks/index'
+import { SavedSearchesPanel } from '@components/search'
+import { parseSearchQuery, hasDateRange } from '@services/search'
 
 export function TransactionsPage() {
-  const { transactions, categories, bulkUpdateCategory } = useTransactions()
+  const {
+    transactions,
+    accountTransactions,
+    scheduledTransactions,
+    categories,
+    accounts,
+    filters,
+    setFilters,
+    bulkUpdateCategory,
+  } = useTransactions()
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
+  const [query, setQuery] = useState('')
+
+  // A search with its own dates looks beyond the selected period
+  const listTransactions = useMemo(() => {
+    const { filters: searchFilters } = parseSearchQuery(query, { categories, accounts })
+    return hasDateRange(searchFilters) ? accountTransactions : transactions
+  }, [query, categories, accounts, accountTransactions, transactions])
   const toast = useToast()
+  const { undoAction } = useHistory()
+
+  const handleAccountChange = useCallback((accountId: string | null) => {
+    setFilters({ accountIds: accountId ? [accountId] : [] })
+  }, [setFilters])
+
+  const handleTagFilterChange = useCallback((tag: string | null) => {
+    setFilters({ tags: tag ? [tag] : [] })
+  }, [setFilters])
 
   const handleClearCategory = useCallback(() => {
     setSelectedCategory(null)
@@ -28,8 +56,8 @@ export function TransactionsPage() {
   const handleBulkCategoryChange = useCallback(async (transactionIds: string[], categoryId: string) => {
     const updated = await bulkUpdateCategory(transactionIds, categoryId)
     const categoryName = categories.find(c => c.id === categoryId)?.name || categoryId
-    toast.success('Catégorie mise à jour', `${updated} transaction(s) déplacée(s) vers "${categoryName}"`)
-  }, [bulkUpdateCategory, categories, toast])
+    toast.success('Catégorie mise à jour', `${updated} transaction(s) déplacée(s) vers "${categoryName}"`, undoAction)
+  }, [bulkUpdateCategory, categories, toast, undoAction])
 
   return (
     <div className="space-y-6">
@@ -42,15 +70,40 @@ export function TransactionsPage() {
         </p>
       </div>
 
-      <TransactionList
-        transactions={transactions}
+      <ScheduledTransactionsList
+        scheduled={scheduledTransactions}
         categories={categories}
-        selectedCategory={selectedCategory}
-        onClearCategory={handleClearCategory}
-        onCategoryChange={handleCategoryChange}
-        onBudgetMonthChange={handleBudgetMonthChange}
-        onBulkCategoryChange={handleBulkCategoryChange}
+        accounts={accounts}
       />
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_18rem] gap-6 items-start">
+        <TransactionList
+          transactions={listTransactions}
+          categories={categories}
+          accounts={accounts}
+          selectedAccountId={filters.accountIds[0] ?? null}
+          onAccountChange={handleAccountChange}
+          selectedTag={filters.tags[0] ?? null}
+          onTagFilterChange={handleTagFilterChange}
+          selectedCategory={selectedCategory}
+          onClearCategory={handleClearCategory}
+          onCategoryChange={handleCategoryChange}
+          onBudgetMonthChange={handleBudgetMonthChange}
+          onBulkCategoryChange={handleBulkCategoryChange}
+          searchQuery={query}
+          onSearchQueryChange={setQuery}
+        />
+
+        <aside className="lg:sticky lg:top-4">
+          <SavedSearchesPanel
+            query={query}
+            onSelect={setQuery}
+            transactions={accountTransactions}
+            categories={categories}
+            accounts={accounts}
+          />
+        </aside>
+      </div>
     </div>
   )
 }
@@ -2,6 +2,12 @@ export { DashboardPage } from './DashboardPage'
 export { BudgetPage } from './BudgetPage'
 export { PatrimoinePage } from './PatrimoinePage'
 export { ImportPage } from './ImportPage'
+export { ImportHistoryPage } from './ImportHistoryPage'
 export { TransactionsPage } from './TransactionsPage'
 export { CategoriesPage } from './CategoriesPage'
+export { RulesPage } from './RulesPage'
+export { TagsPage } from './TagsPage'
+export { SchedulesPage } from './SchedulesPage'
+export { SubscriptionsPage } from './SubscriptionsPage'
+export { HistoryPage } from './HistoryPage'
 export { SettingsPage } from './SettingsPage'
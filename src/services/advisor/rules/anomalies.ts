@@ -2,7 +2,8 @@
 
 import type { Insight, AnalysisContext } from '../types'
 import { formatMoney } from '@utils/formatters'
-import type { Transaction } from '@/types'
+import { getTransactionStatus } from '@services/scheduled'
+import { getSubscriptions } from '@services/subscriptions'
 
 export function analyzeAnomalies(context: AnalysisContext): Insight[] {
   const insights: Insight[] = []
@@ -38,10 +39,10 @@ export function analyzeAnomalies(context: AnalysisContext): Insight[] {
   }
 
   // 2. Détection des abonnements potentiels
-  const subscriptionPatterns = detectSubscriptions(allTransactions)
+  const subscriptionPatterns = getSubscriptions(allTransactions).filter(s => s.isActive)
 
   if (subscriptionPatterns.length > 0) {
-    const totalMonthly = subscriptionPatterns.reduce((sum, s) => sum + s.amount, 0)
+    const totalMonthly = subscriptionPatterns.reduce((sum, s) => sum + s.annualCost / 12, 0)
 
     insights.push({
       id: 'subscriptions-detected',
@@ -56,14 +57,31 @@ export function analyzeAnomalies(context: AnalysisContext): Insight[] {
       createdAt: new Date().toISOString(),
     })
 
+    // Changements de prix, prélèvements manquants ou en double
+    const subscriptionAlerts = subscriptionPatterns.flatMap(s => s.alerts.map(alert => ({ ...alert, name: s.name })))
+    if (subscriptionAlerts.length > 0) {
+      const latest = subscriptionAlerts.sort((a, b) => b.date.localeCompare(a.date))[0]
+      insights.push({
+        id: 'subscription-alerts',
+        type: 'alert',
+        priority: subscriptionAlerts.some(a => a.type !== 'price-change') ? 'high' : 'medium',
+        category: 'spending',
+        title: `${subscriptionAlerts.length} alerte(s) sur tes abonnements`,
+        description: `${latest.name}: ${latest.message}`,
+        action: 'Consulte la page Abonnements',
+        data: { alerts: subscriptionAlerts },
+        createdAt: new Date().toISOString(),
+      })
+    }
+
     // Détecter les doublons potentiels (streaming, etc.)
     const streamingKeywords = ['netflix', 'disney', 'prime', 'spotify', 'deezer', 'apple music', 'canal', 'ocs', 'hbo', 'paramount']
     const streamingSubscriptions = subscriptionPatterns.filter(s =>
-      streamingKeywords.some(kw => s.description.toLowerCase().includes(kw))
+      streamingKeywords.some(kw => s.name.toLowerCase().includes(kw))
     )
 
     if (streamingSubscriptions.length >= 3) {
-      const streamingTotal = streamingSubscriptions.reduce((sum, s) => sum + s.amount, 0)
+      const streamingTotal = streamingSubscriptions.reduce((sum, s) => sum + s.annualCost / 12, 0)
       insights.push({
         id: 'streaming-multiple',
         type: 'optimization',
@@ -103,9 +121,8 @@ export function analyzeAnomalies(context: AnalysisContext): Insight[] {
     })
   }
 
-  // 4. Transactions en attente (futures)
-  const today = new Date().toISOString().split('T')[0]
-  const futureTransactions = currentMonthTransactions.filter(t => t.date > today)
+  // 4. Transactions en attente (futures, pas encore passées en banque)
+  const futureTransactions = currentMonthTransactions.filter(t => getTransactionStatus(t) === 'pending')
 
   if (futureTransactions.length > 0) {
     const futureTotal = futureTransactions.reduce((sum, t) => sum + t.amount, 0)
@@ -123,70 +140,3 @@ export function analyzeAnomalies(context: AnalysisContext): Insight[] {
 
   return insights
 }
-
-interface SubscriptionPattern {
-  description: string
-  amount: number
-  occurrences: number
-  dates: string[]
-}
-
-function detectSubscriptions(transactions: Transaction[]): SubscriptionPattern[] {
-  const patterns = new Map<string, { amounts: number[]; dates: string[] }>()
-
-  for (const t of transactions) {
-    if (t.amount >= 0) continue
-
-    // Normaliser la description
-    const normalized = t.description
-      .toLowerCase()
-      .replace(/\d{2}\/\d{2}\/\d{4}/g, '')
-      .replace(/\d{2}\/\d{2}/g, '')
-      .replace(/\s+/g, ' ')
-      .trim()
-      .substring(0, 30)
-
-    if (!patterns.has(normalized)) {
-      patterns.set(normalized, { amounts: [], dates: [] })
-    }
-
-    const pattern = patterns.get(normalized)!
-    pattern.amounts.push(Math.abs(t.amount))
-    pattern.dates.push(t.date)
-  }
-
-  // Filtrer les patterns qui ressemblent à des abonnements
-  const subscriptions: SubscriptionPattern[] = []
-
-  for (const [description, data] of patterns) {
-    if (data.amounts.length < 2) continue
-
-    // Vérifier si les montants sont similaires
-    const avgAmount = data.amounts.reduce((a, b) => a + b, 0) / data.amounts.length
-    const allSimilar = data.amounts.every(a => Math.abs(a - avgAmount) / avgAmount < 0.1)
-
-    if (allSimilar && avgAmount > 5 && avgAmount < 100) {
-      // Vérifier si les dates sont espacées régulièrement (~30 jours)
-      const sortedDates = data.dates.sort()
-      let isMonthly = true
-
-      for (let i = 1; i < sortedDates.length && isMonthly; i++) {
-        const diff = (new Date(sortedDates[i]).getTime() - new Date(sortedDates[i-1]).getTime()) / (1000 * 60 * 60 * 24)
-        if (diff < 25 || diff > 35) {
-          isMonthly = false
-        }
-      }
-
-      if (isMonthly || data.amounts.length >= 3) {
-        subscriptions.push({
-          description,
-          amount: avgAmount,
-          occurrences: data.amounts.length,
-          dates: sortedDates,
-        })
-      }
-    }
-  }
-
-  return subscriptions.sort((a, b) => b.amount - a.amount)
-}
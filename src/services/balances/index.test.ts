@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { db, balanceCheckpointService, DEFAULT_BANK_ACCOUNT_ID } from '@services/db'
+import type { Transaction, TransactionStatus } from '@/types'
+import { reconcileAccount } from './index'
+
+function transaction(id: string, date: string, amount: number, status?: TransactionStatus): Transaction {
+  return {
+    id,
+    date,
+    type: 'PAIEMENT_CARTE',
+    description: `Achat ${id}`,
+    amount,
+    category: 'other',
+    importId: 'test',
+    isManuallyEdited: false,
+    source: 'import',
+    accountId: DEFAULT_BANK_ACCOUNT_ID,
+    status,
+    createdAt: '2024-02-10T08:00:00.000Z',
+    updatedAt: '2024-02-10T08:00:00.000Z',
+  }
+}
+
+beforeEach(async () => {
+  await db.open()
+  await db.transactions.bulkAdd([
+    transaction('a', '2024-02-01', -40),
+    transaction('b', '2024-02-05', -10),
+    transaction('pending', '2024-02-05', -25, 'pending'),
+  ])
+  await balanceCheckpointService.saveAll(DEFAULT_BANK_ACCOUNT_ID, [
+    { date: '2024-02-01', balance: 960 },
+    { date: '2024-02-05', balance: 950 },
+  ])
+})
+
+afterEach(async () => {
+  db.close()
+  await db.delete()
+})
+
+describe('reconcileAccount', () => {
+  it('only suggests an initial balance for an account at 0', async () => {
+    const { suggestedInitialBalance, derivedInitialBalance } = await reconcileAccount(DEFAULT_BANK_ACCOUNT_ID)
+
+    expect(suggestedInitialBalance).toBe(1000)
+    expect(derivedInitialBalance).toBeUndefined()
+    expect((await db.bankAccounts.get(DEFAULT_BANK_ACCOUNT_ID))?.initialBalance).toBe(0)
+  })
+
+  it('sets the initial balance of an account without one', async () => {
+    const account = (await db.bankAccounts.get(DEFAULT_BANK_ACCOUNT_ID))!
+    await db.bankAccounts.put({ ...account, initialBalance: undefined as unknown as number })
+
+    const { checks, derivedInitialBalance } = await reconcileAccount(DEFAULT_BANK_ACCOUNT_ID)
+
+    expect(derivedInitialBalance).toBe(1000)
+    expect((await db.bankAccounts.get(DEFAULT_BANK_ACCOUNT_ID))?.initialBalance).toBe(1000)
+    expect(checks.map(c => c.gap)).toEqual([0, 0])
+  })
+
+  it('leaves pending transactions out, as the account balance does', async () => {
+    await db.bankAccounts.update(DEFAULT_BANK_ACCOUNT_ID, { initialBalance: 1000 })
+
+    const { checks, suggestedInitialBalance } = await reconcileAccount(DEFAULT_BANK_ACCOUNT_ID)
+
+    expect(suggestedInitialBalance).toBeUndefined()
+    expect(checks.map(c => c.computedBalance)).toEqual([960, 950])
+    expect(checks.every(c => c.periodGap === 0)).toBe(true)
+  })
+})
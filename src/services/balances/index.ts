@@ -0,0 +1,133 @@
+import { db, bankAccountService, balanceCheckpointService } from '@services/db'
+import { getTransactionStatus } from '@services/scheduled'
+import type { ParsedRow } from '@services/excel/parser'
+import type { BalanceCheckpoint, Transaction } from '@/types'
+
+export interface BalanceCheck {
+  checkpoint: BalanceCheckpoint
+  computedBalance: number // Initial balance + transactions up to the checkpoint date
+  gap: number // Bank balance - computed balance
+  // Unexplained change since the previous checkpoint: rows missing (or duplicated)
+  // between the two dates. The first checkpoint compares with the initial balance.
+  periodGap: number
+  periodStart?: string // Date of the previous checkpoint, excluded
+  suspects: Transaction[] // Rows of the period that would explain the gap if they were duplicates
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+// Same rows as bankAccountService.getBalance: pending and scheduled ones are not on the statement yet
+function isCleared(transaction: Transaction): boolean {
+  return getTransactionStatus(transaction) === 'cleared'
+}
+
+/**
+ * End-of-day balances from the running balance column of a statement.
+ * Exports are sorted either way, the last row of a day is the last one
+ * in chronological order.
+ */
+export function extractBalanceCheckpoints(rows: ParsedRow[]): { date: string; balance: number }[] {
+  const withBalance = rows.filter(r => r.balance !== undefined)
+  if (withBalance.length === 0) return []
+
+  const descending = withBalance[0].date > withBalance[withBalance.length - 1].date
+  const ordered = descending ? [...withBalance].reverse() : withBalance
+
+  const byDate = new Map<string, number>()
+  for (const row of ordered) {
+    byDate.set(row.date, row.balance!)
+  }
+  return Array.from(byDate, ([date, balance]) => ({ date, balance })).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Initial balance that makes the computed balance match the bank on a checkpoint
+ */
+export function deriveInitialBalance(transactions: Transaction[], checkpoint: BalanceCheckpoint): number {
+  const total = transactions
+    .filter(t => isCleared(t) && t.date <= checkpoint.date)
+    .reduce((sum, t) => sum + toCents(t.amount), 0)
+  return (toCents(checkpoint.balance) - total) / 100
+}
+
+/**
+ * Compare each bank balance with the balance computed from the account's transactions
+ */
+export function reconcileBalances(
+  initialBalance: number,
+  transactions: Transaction[],
+  checkpoints: BalanceCheckpoint[]
+): BalanceCheck[] {
+  const sorted = transactions.filter(isCleared).sort((a, b) => a.date.localeCompare(b.date))
+  const ordered = [...checkpoints].sort((a, b) => a.date.localeCompare(b.date))
+  const checks: BalanceCheck[] = []
+
+  let index = 0
+  let runningCents = toCents(initialBalance)
+  let previousGapCents = 0
+
+  for (let i = 0; i < ordered.length; i++) {
+    const checkpoint = ordered[i]
+    const periodStart = i > 0 ? ordered[i - 1].date : undefined
+    const period: Transaction[] = []
+
+    while (index < sorted.length && sorted[index].date <= checkpoint.date) {
+      runningCents += toCents(sorted[index].amount)
+      period.push(sorted[index])
+      index++
+    }
+
+    const gapCents = toCents(checkpoint.balance) - runningCents
+    // The first checkpoint is compared with the initial balance itself
+    const periodGapCents = i === 0 ? gapCents : gapCents - previousGapCents
+    previousGapCents = gapCents
+
+    checks.push({
+      checkpoint,
+      computedBalance: runningCents / 100,
+      gap: gapCents / 100,
+      periodGap: periodGapCents / 100,
+      periodStart,
+      suspects: periodGapCents !== 0
+        ? period.filter(t => toCents(t.amount) === -periodGapCents)
+        : [],
+    })
+  }
+
+  return checks
+}
+
+/**
+ * Reconcile a bank account with its stored checkpoints. An account without an
+ * initial balance gets it from its earliest checkpoint; one still at 0 only gets
+ * a suggestion, 0 may be the real balance and is the user's to replace.
+ */
+export async function reconcileAccount(
+  accountId: string
+): Promise<{ checks: BalanceCheck[]; derivedInitialBalance?: number; suggestedInitialBalance?: number }> {
+  const account = await db.bankAccounts.get(accountId)
+  if (!account) throw new Error('Compte introuvable')
+  const checkpoints = await balanceCheckpointService.getByAccount(accountId)
+  const transactions = await db.transactions.where('accountId').equals(accountId).toArray()
+
+  let initialBalance = account.initialBalance
+  let derivedInitialBalance: number | undefined
+  let suggestedInitialBalance: number | undefined
+  if ((initialBalance === undefined || initialBalance === 0) && checkpoints.length > 0) {
+    const derived = deriveInitialBalance(transactions, checkpoints[0])
+    if (initialBalance === undefined) {
+      await bankAccountService.update(accountId, { initialBalance: derived })
+      initialBalance = derivedInitialBalance = derived
+    } else if (derived !== 0) {
+      suggestedInitialBalance = derived
+    }
+  }
+
+  return {
+    checks: reconcileBalances(initialBalance, transactions, checkpoints),
+    derivedInitialBalance,
+    suggestedInitialBalance,
+  }
+}
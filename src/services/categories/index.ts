@@ -0,0 +1,140 @@
+import { COLORS } from '@utils/constants'
+import type { Category, CategoryStat } from '@/types'
+
+export interface CategoryTreeNode {
+  category: Category
+  depth: number
+}
+
+/**
+ * Direct subcategories of a category (or root categories when parentId is undefined)
+ */
+export function getChildren(categories: Category[], parentId?: string): Category[] {
+  const ids = new Set(categories.map(c => c.id))
+  return categories.filter(c =>
+    parentId === undefined
+      // Categories pointing to a deleted parent are shown at the root
+      ? !c.parentId || !ids.has(c.parentId)
+      : c.parentId === parentId
+  )
+}
+
+/**
+ * A category and all its subcategories, at any depth
+ */
+export function getDescendantIds(categories: Category[], categoryId: string): string[] {
+  const result = [categoryId]
+  for (let i = 0; i < result.length; i++) {
+    for (const child of categories) {
+      if (child.parentId === result[i] && !result.includes(child.id)) {
+        result.push(child.id)
+      }
+    }
+  }
+  return result
+}
+
+/**
+ * Parents of a category, nearest first
+ */
+export function getAncestorIds(categories: Category[], categoryId: string): string[] {
+  const byId = new Map(categories.map(c => [c.id, c]))
+  const result: string[] = []
+  let parentId = byId.get(categoryId)?.parentId
+  while (parentId && byId.has(parentId) && !result.includes(parentId)) {
+    result.push(parentId)
+    parentId = byId.get(parentId)?.parentId
+  }
+  return result
+}
+
+/**
+ * A category can move under another one of the same kind (expense/income)
+ * that is not itself or one of its subcategories
+ */
+export function canReparent(categories: Category[], categoryId: string, newParentId?: string): boolean {
+  if (!newParentId) return true
+  const category = categories.find(c => c.id === categoryId)
+  const parent = categories.find(c => c.id === newParentId)
+  if (!category || !parent || category.isIncome !== parent.isIncome) return false
+  return !getDescendantIds(categories, categoryId).includes(newParentId)
+}
+
+/**
+ * Flatten the tree depth-first for display (parents followed by their subcategories)
+ */
+export function flattenCategoryTree(categories: Category[]): CategoryTreeNode[] {
+  const result: CategoryTreeNode[] = []
+  const visit = (category: Category, depth: number) => {
+    result.push({ category, depth })
+    for (const child of getChildren(categories, category.id)) {
+      visit(child, depth + 1)
+    }
+  }
+  for (const root of getChildren(categories)) {
+    visit(root, 0)
+  }
+  return result
+}
+
+/**
+ * Total of each category including its subcategories
+ */
+export function rollUpAmounts(amounts: Map<string, number>, categories: Category[]): Map<string, number> {
+  const result = new Map(amounts)
+  for (const [categoryId, amount] of amounts) {
+    for (const ancestorId of getAncestorIds(categories, categoryId)) {
+      result.set(ancestorId, (result.get(ancestorId) || 0) + amount)
+    }
+  }
+  return result
+}
+
+/**
+ * Build category stats as a tree: root categories carry the totals of their
+ * subcategories, which are listed in `children` for drill-down
+ */
+export function buildCategoryStats(
+  totals: Map<string, { amount: number; count: number }>,
+  categories: Category[],
+  grandTotal: number
+): CategoryStat[] {
+  const byId = new Map(categories.map(c => [c.id, c]))
+
+  const build = (categoryId: string, visited: Set<string>): CategoryStat | null => {
+    visited.add(categoryId)
+    const own = totals.get(categoryId) || { amount: 0, count: 0 }
+    const children = getChildren(categories, categoryId)
+      .filter(c => !visited.has(c.id))
+      .map(c => build(c.id, visited))
+      .filter((s): s is CategoryStat => s !== null)
+      .sort((a, b) => b.amount - a.amount)
+
+    const amount = own.amount + children.reduce((sum, c) => sum + c.amount, 0)
+    const count = own.count + children.reduce((sum, c) => sum + c.transactionCount, 0)
+    if (count === 0) return null
+
+    const category = byId.get(categoryId)
+    return {
+      categoryId,
+      name: category?.name || 'Inconnu',
+      color: category?.color || COLORS.other || '#94a3b8',
+      amount,
+      percentage: grandTotal > 0 ? (amount / grandTotal) * 100 : 0,
+      transactionCount: count,
+      children: children.length > 0 ? children : undefined,
+    }
+  }
+
+  const rootIds = getChildren(categories).map(c => c.id)
+  // Transactions may still reference a deleted category
+  for (const categoryId of totals.keys()) {
+    if (!byId.has(categoryId)) rootIds.push(categoryId)
+  }
+
+  const visited = new Set<string>()
+  return rootIds
+    .map(id => build(id, visited))
+    .filter((s): s is CategoryStat => s !== null)
+    .sort((a, b) => b.amount - a.amount)
+}
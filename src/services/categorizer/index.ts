@@ -1,4 +1,5 @@
-import type { CategorizationRule } from '@/types'
+import type { CategorizationRule, TransactionType } from '@/types'
+import { matchesRule, type RuleSubject } from './rules'
 
 // Categories that are income (not expenses)
 const INCOME_CATEGORIES = new Set(['salary', 'transfer-in', 'refund', 'caf', 'compte-a-compte'])
@@ -90,9 +91,6 @@ const DEFAULT_PATTERNS: Record<string, RegExp[]> = {
     /\bcaf\b/i,
     /allocations?\s*familiales?/i,
   ],
-  'compte-a-compte': [
-    /faveur\s*de\s*(m\.|mr|mme|mlle)?\s*wirth/i,
-  ],
   'transfer-in': [
     /virement\s*(en\s*)?(votre\s*)?faveur/i,
     /vir(ement)?\s*(inst\s*)?(de|recu)/i,
@@ -127,23 +125,28 @@ export class TransactionCategorizer {
    * @param description - Transaction description
    * @param type - Transaction type (optional)
    * @param isExpense - Whether the transaction is an expense (negative amount)
+   * @param context - Amount, date and account, for rules with conditions on them
    * @returns Category ID or null if no match
    */
-  categorize(description: string, type?: string, isExpense?: boolean): string | null {
+  categorize(
+    description: string,
+    type?: string,
+    isExpense?: boolean,
+    context?: Omit<RuleSubject, 'description' | 'type'>
+  ): string | null {
     const normalizedDesc = description.toLowerCase().trim()
     const normalizedType = type?.toLowerCase().trim() || ''
 
     // 1. Try user-defined rules first (highest priority)
     // User rules are ALWAYS applied regardless of income/expense type
     // because the user explicitly chose that category
+    const subject: RuleSubject = { description, type: (type || 'AUTRE') as TransactionType, ...context }
     for (const rule of this.userRules) {
-      if (!rule.isActive) continue
-
-      const regex = new RegExp(rule.pattern, 'i')
-      const value = rule.field === 'description' ? normalizedDesc : normalizedType
+      // Rules that only tag or assign don't decide the category
+      if (!rule.isActive || !rule.categoryId) continue
 
-      if (regex.test(value)) {
-        console.log(`✅ User rule matched: "${rule.pattern}" → ${rule.categoryId}`)
+      if (matchesRule(rule, subject)) {
+        console.log(`✅ User rule matched: "${rule.name || rule.pattern}" → ${rule.categoryId}`)
         return rule.categoryId
       }
     }
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { db } from '@services/db'
+import type { CategorizationRule, Transaction } from '@/types'
+import { TransactionCategorizer } from './index'
+import { applyLearnedRules } from './learningService'
+
+function rule(id: string, priority: number, fields: Partial<CategorizationRule>): CategorizationRule {
+  return {
+    id,
+    pattern: '',
+    field: 'description',
+    conditions: [{ field: 'description', operator: 'contains', value: 'netflix' }],
+    source: 'user',
+    priority,
+    isActive: true,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    ...fields,
+  }
+}
+
+const transaction: Transaction = {
+  id: 't1',
+  date: '2024-02-10',
+  type: 'PRELEVEMENT',
+  description: 'PRLV NETFLIX.COM',
+  amount: -13.49,
+  category: 'other',
+  importId: 'test',
+  isManuallyEdited: false,
+  source: 'import',
+  createdAt: '2024-02-10T08:00:00.000Z',
+  updatedAt: '2024-02-10T08:00:00.000Z',
+}
+
+// An action-only rule ahead of the rule setting the category
+const rules = [
+  rule('tag', 200, { actions: { tags: ['streaming'], assignedTo: 'Alex' } }),
+  rule('category', 100, { categoryId: 'abonnements', actions: { tags: ['mensuel'], assignedTo: 'Sam' } }),
+]
+
+beforeEach(async () => {
+  await db.open()
+  await db.rules.bulkAdd(rules)
+  await db.transactions.add(transaction)
+})
+
+afterEach(async () => {
+  db.close()
+  await db.delete()
+})
+
+describe('applyLearnedRules', () => {
+  it('takes the category from a rule after an action-only rule', async () => {
+    expect(await applyLearnedRules()).toBe(1)
+
+    const updated = await db.transactions.get('t1')
+    expect(updated?.category).toBe('abonnements')
+    // Actions of every matching rule, the first one setting a field wins
+    expect(updated?.tags).toEqual(['streaming', 'mensuel'])
+    expect(updated?.assignedTo).toBe('Alex')
+  })
+
+  it('agrees with categorize() on the category', async () => {
+    const categorizer = new TransactionCategorizer(rules)
+    await applyLearnedRules()
+
+    expect((await db.transactions.get('t1'))?.category)
+      .toBe(categorizer.categorize(transaction.description, transaction.type, true))
+  })
+})
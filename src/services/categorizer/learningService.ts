@@ -1,7 +1,8 @@
 import { v4 as uuidv4 } from 'uuid'
-import { db, ruleService } from '@services/db'
-import type { CategorizationRule, Transaction } from '@/types'
+import { db, ruleService, importService } from '@services/db'
+import type { CategorizationRule, ImportChange, Transaction } from '@/types'
 import { resetCategorizer } from './index'
+import { findMatchingRules, getRuleUpdates } from './rules'
 
 /**
  * Extract meaningful keywords from a transaction description
@@ -72,16 +73,26 @@ export async function learnFromCorrection(
   }
 
   // Check if a similar rule already exists
+  // Rules written by the user in the rules screen are never rewritten
   const existingRules = await ruleService.getAll()
   const similarRule = existingRules.find(r =>
-    r.pattern.toLowerCase() === pattern.toLowerCase() ||
-    r.pattern.toLowerCase().includes(keywords[0].toLowerCase())
+    r.source !== 'user' && !r.conditions && (
+      r.pattern.toLowerCase() === pattern.toLowerCase() ||
+      r.pattern.toLowerCase().includes(keywords[0].toLowerCase())
+    )
   )
 
   if (similarRule) {
     // Update existing rule if category changed
     if (similarRule.categoryId !== newCategoryId) {
       await ruleService.update(similarRule.id, { categoryId: newCategoryId })
+      // Undoing the import of the corrected row restores the rule
+      await importService.recordChanges(transaction.importId, [{
+        table: 'rules',
+        id: similarRule.id,
+        before: { categoryId: similarRule.categoryId },
+        after: { categoryId: newCategoryId },
+      }])
       console.log(`📝 Updated rule: "${pattern}" → ${newCategoryId}`)
       resetCategorizer() // Reset to pick up new rules
       return { ...similarRule, categoryId: newCategoryId }
@@ -95,6 +106,8 @@ export async function learnFromCorrection(
     categoryId: newCategoryId,
     pattern: pattern,
     field: 'description',
+    source: 'learned',
+    importId: transaction.importId,
     priority: 100, // User rules have high priority
     isActive: true,
     createdAt: new Date().toISOString(),
@@ -117,33 +130,40 @@ export async function getLearnedRules(): Promise<CategorizationRule[]> {
 }
 
 /**
- * Apply learned rules to recategorize transactions
+ * Apply user and learned rules (category, budget group, assignee, tags)
+ * Right after an import, pass the ids of its batches: changes to older transactions
+ * are recorded in the first batch so that undoing the import restores them.
  */
-export async function applyLearnedRules(): Promise<number> {
+export async function applyLearnedRules(importIds: string[] = []): Promise<number> {
   const rules = await ruleService.getAll()
   if (rules.length === 0) return 0
 
   const transactions = await db.transactions.toArray()
+  const changes: ImportChange[] = []
   let updated = 0
 
   for (const t of transactions) {
     // Skip manually edited transactions
     if (t.isManuallyEdited) continue
 
-    for (const rule of rules) {
-      if (!rule.isActive) continue
+    const matching = findMatchingRules(rules, t)
+    if (matching.length === 0) continue
 
-      const regex = new RegExp(rule.pattern, 'i')
-      if (regex.test(t.description)) {
-        if (t.category !== rule.categoryId) {
-          await db.transactions.update(t.id, { category: rule.categoryId })
-          updated++
-        }
-        break // First matching rule wins
+    const updates = getRuleUpdates(matching, t)
+    if (Object.keys(updates).length > 0) {
+      await db.transactions.update(t.id, updates)
+      updated++
+      if (importIds.length > 0 && !(t.importId && importIds.includes(t.importId))) {
+        const before = Object.fromEntries(Object.keys(updates).map(key => [key, t[key as keyof Transaction]]))
+        changes.push({ table: 'transactions', id: t.id, before, after: updates })
       }
     }
   }
 
+  if (importIds.length > 0) {
+    await importService.recordChanges(importIds[0], changes)
+  }
+
   return updated
 }
 
@@ -197,18 +217,14 @@ export async function learnFromAllCorrections(): Promise<{
   let transactionsUpdated = 0
 
   for (const t of uneditedTransactions) {
-    for (const rule of rules) {
-      if (!rule.isActive) continue
-
-      const regex = new RegExp(rule.pattern, 'i')
-      if (regex.test(t.description)) {
-        if (t.category !== rule.categoryId) {
-          await db.transactions.update(t.id, { category: rule.categoryId })
-          transactionsUpdated++
-          console.log(`✅ Updated: "${t.description.substring(0, 30)}..." → ${rule.categoryId}`)
-        }
-        break // First matching rule wins
-      }
+    const matching = findMatchingRules(rules, t)
+    if (matching.length === 0) continue
+
+    const updates = getRuleUpdates(matching, t)
+    if (Object.keys(updates).length > 0) {
+      await db.transactions.update(t.id, updates)
+      transactionsUpdated++
+      console.log(`✅ Updated: "${t.description.substring(0, 30)}..." → ${updates.category ?? 'actions'}`)
     }
   }
 
@@ -234,7 +250,7 @@ export async function recategorizeAllTransactions(): Promise<{
     if (t.isManuallyEdited) continue
 
     const isExpense = t.amount < 0
-    const newCategory = categorizer.categorize(t.description, t.type, isExpense)
+    const newCategory = categorizer.categorize(t.description, t.type, isExpense, t)
 
     if (newCategory && newCategory !== t.category) {
       await db.transactions.update(t.id, { category: newCategory })
@@ -0,0 +1,136 @@
+import type { CategorizationRule, RuleCondition, Transaction } from '@/types'
+
+/**
+ * What a rule can look at. Imported rows don't have an id or account yet,
+ * conditions on missing data simply don't match.
+ */
+export type RuleSubject = Pick<Transaction, 'description' | 'type'> &
+  Partial<Pick<Transaction, 'amount' | 'date' | 'accountId'>>
+
+/**
+ * Conditions of a rule (old rules only have a regex on description or type)
+ */
+export function getRuleConditions(rule: CategorizationRule): RuleCondition[] {
+  if (rule.conditions && rule.conditions.length > 0) return rule.conditions
+  if (!rule.pattern) return []
+  return [{ field: rule.field, operator: 'regex', value: rule.pattern }]
+}
+
+function testRegex(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(value)
+  } catch {
+    // An invalid regex typed in the editor never matches
+    return false
+  }
+}
+
+function weekday(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).getDay()
+}
+
+export function matchesCondition(condition: RuleCondition, subject: RuleSubject): boolean {
+  switch (condition.field) {
+    case 'description':
+    case 'type': {
+      const value = (condition.field === 'description' ? subject.description : subject.type) || ''
+      if (condition.operator === 'in') {
+        return condition.values.includes(subject.type)
+      }
+      if (condition.operator === 'contains') {
+        return value.toLowerCase().includes(condition.value.toLowerCase())
+      }
+      return testRegex(condition.value, value.toLowerCase().trim())
+    }
+    case 'amount': {
+      if (subject.amount === undefined) return false
+      const amount = Math.abs(subject.amount)
+      return (condition.min === undefined || amount >= condition.min)
+        && (condition.max === undefined || amount <= condition.max)
+    }
+    case 'sign':
+      if (subject.amount === undefined) return false
+      return condition.value === 'expense' ? subject.amount < 0 : subject.amount > 0
+    case 'weekday':
+      return subject.date !== undefined && condition.values.includes(weekday(subject.date))
+    case 'account':
+      return subject.accountId !== undefined && condition.values.includes(subject.accountId)
+  }
+}
+
+export function matchesRule(rule: CategorizationRule, subject: RuleSubject): boolean {
+  const conditions = getRuleConditions(rule)
+  if (conditions.length === 0) return false
+  return rule.match === 'any'
+    ? conditions.some(c => matchesCondition(c, subject))
+    : conditions.every(c => matchesCondition(c, subject))
+}
+
+/**
+ * Active rules matching the transaction, in the order given (sorted by priority, highest first)
+ */
+export function findMatchingRules(
+  rules: CategorizationRule[],
+  subject: RuleSubject
+): CategorizationRule[] {
+  return rules.filter(rule => rule.isActive && matchesRule(rule, subject))
+}
+
+/**
+ * Changes the matching rules would make to a transaction (empty when it is already
+ * up to date). As in categorize(), the category comes from the first rule that sets
+ * one: a rule that only tags or assigns does not hide the rules after it. The budget
+ * group and the person come from the first rule setting them, tags add up.
+ */
+export function getRuleUpdates(rules: CategorizationRule[], transaction: Transaction): Partial<Transaction> {
+  const updates: Partial<Transaction> = {}
+  const categoryId = rules.find(rule => rule.categoryId)?.categoryId
+  const budgetGroup = rules.find(rule => rule.actions?.budgetGroup)?.actions?.budgetGroup
+  const assignedTo = rules.find(rule => rule.actions?.assignedTo)?.actions?.assignedTo
+
+  if (categoryId && transaction.category !== categoryId) {
+    updates.category = categoryId
+  }
+  if (budgetGroup && transaction.budgetGroup !== budgetGroup) {
+    updates.budgetGroup = budgetGroup
+  }
+  if (assignedTo && transaction.assignedTo !== assignedTo) {
+    updates.assignedTo = assignedTo
+  }
+  const tags = new Set(transaction.tags ?? [])
+  const missing = Array.from(new Set(rules.flatMap(rule => rule.actions?.tags ?? []))).filter(tag => !tags.has(tag))
+  if (missing.length > 0) {
+    updates.tags = [...(transaction.tags ?? []), ...missing]
+  }
+  return updates
+}
+
+/**
+ * Short French summary of a rule's conditions, for lists
+ */
+export function describeConditions(rule: CategorizationRule, accountNames?: Map<string, string>): string {
+  const weekdays = ['dim', 'lun', 'mar', 'mer', 'jeu', 'ven', 'sam']
+  const parts = getRuleConditions(rule).map(c => {
+    switch (c.field) {
+      case 'description':
+      case 'type': {
+        const label = c.field === 'description' ? 'Libellé' : 'Type'
+        if (c.operator === 'in') return `Type ∈ ${c.values.join(', ')}`
+        return c.operator === 'contains' ? `${label} contient « ${c.value} »` : `${label} ~ /${c.value}/`
+      }
+      case 'amount':
+        if (c.min !== undefined && c.max !== undefined) return `Montant entre ${c.min} et ${c.max} €`
+        if (c.min !== undefined) return `Montant ≥ ${c.min} €`
+        if (c.max !== undefined) return `Montant ≤ ${c.max} €`
+        return 'Montant quelconque'
+      case 'sign':
+        return c.value === 'expense' ? 'Dépense' : 'Revenu'
+      case 'weekday':
+        return `Jour ∈ ${c.values.map(d => weekdays[d]).join(', ')}`
+      case 'account':
+        return `Compte ∈ ${c.values.map(id => accountNames?.get(id) ?? id).join(', ')}`
+    }
+  })
+  return parts.join(rule.match === 'any' ? ' OU ' : ' ET ')
+}
@@ -4,6 +4,7 @@ import type {
   Category,
   CategorizationRule,
   ImportBatch,
+  ImportChange,
   AppSettings,
   CategoryBudget,
   MonthlyBudgetConfig,
@@ -15,8 +16,21 @@ import type {
   Liability,
   BalanceHistory,
   NetWorthSnapshot,
+  ImportProfile,
+  BankAccount,
+  BalanceCheckpoint,
+  RecurringSchedule,
+  SavedSearch,
+  JournalEntry,
+  SyncRecordState,
+  MergeBase,
 } from '@/types'
 import { defaultCategories } from './defaultCategories'
+import { createJournal } from './journal'
+import { createSyncTracker } from './syncTracker'
+import { declareSchema, createDefaultBankAccount, findDuplicateCategoryBudgets } from './schema'
+import { canReparent } from '@services/categories'
+import { getToday } from '@utils/formatters'
 
 export class FinanceDB extends Dexie {
   transactions!: Table<Transaction>
@@ -35,91 +49,37 @@ export class FinanceDB extends Dexie {
   liabilities!: Table<Liability>
   balanceHistory!: Table<BalanceHistory>
   netWorthSnapshots!: Table<NetWorthSnapshot>
+  importProfiles!: Table<ImportProfile>
+  bankAccounts!: Table<BankAccount>
+  balanceCheckpoints!: Table<BalanceCheckpoint>
+  recurringSchedules!: Table<RecurringSchedule>
+  savedSearches!: Table<SavedSearch>
+  journal!: Table<JournalEntry>
+  syncState!: Table<SyncRecordState>
+  mergeBases!: Table<MergeBase>
 
   constructor() {
     super('FinanceTracker')
 
-    this.version(1).stores({
-      transactions: 'id, date, category, type, importId, [date+category]',
-      categories: 'id, name, parentId, order',
-      rules: 'id, categoryId, priority',
-      imports: 'id, importedAt, status',
-      settings: 'id, key',
-    })
-
-    // Version 2: Add budget and savings tables
-    this.version(2).stores({
-      transactions: 'id, date, category, type, importId, [date+category]',
-      categories: 'id, name, parentId, order',
-      rules: 'id, categoryId, priority',
-      imports: 'id, importedAt, status',
-      settings: 'id, key',
-      categoryBudgets: 'id, categoryId, group',
-      monthlyBudgetConfigs: 'id, month',
-      savingsGoals: 'id, priority, isCompleted',
-      savingsContributions: 'id, goalId, date',
-    })
+    declareSchema(this)
 
-    // Version 3: Add monthly savings tracking
-    this.version(3).stores({
-      transactions: 'id, date, category, type, importId, [date+category]',
-      categories: 'id, name, parentId, order',
-      rules: 'id, categoryId, priority',
-      imports: 'id, importedAt, status',
-      settings: 'id, key',
-      categoryBudgets: 'id, categoryId, group',
-      monthlyBudgetConfigs: 'id, month',
-      savingsGoals: 'id, priority, isCompleted',
-      savingsContributions: 'id, goalId, date',
-      monthlySavingsRecords: 'id, month, goalId, [month+goalId]',
-    })
-
-    // Version 4: Add patrimoine (net worth) tracking
-    this.version(4).stores({
-      transactions: 'id, date, category, type, importId, [date+category]',
-      categories: 'id, name, parentId, order',
-      rules: 'id, categoryId, priority',
-      imports: 'id, importedAt, status',
-      settings: 'id, key',
-      categoryBudgets: 'id, categoryId, group',
-      monthlyBudgetConfigs: 'id, month',
-      savingsGoals: 'id, priority, isCompleted',
-      savingsContributions: 'id, goalId, date',
-      monthlySavingsRecords: 'id, month, goalId, [month+goalId]',
-      assetAccounts: 'id, type, order',
-      liabilities: 'id, type',
-      balanceHistory: 'id, accountId, date, [accountId+date]',
-      netWorthSnapshots: 'id, date',
-    })
-
-    // Version 5: Add asset movements for tracking deposits/withdrawals
-    this.version(5).stores({
-      transactions: 'id, date, category, type, importId, [date+category]',
-      categories: 'id, name, parentId, order',
-      rules: 'id, categoryId, priority',
-      imports: 'id, importedAt, status',
-      settings: 'id, key',
-      categoryBudgets: 'id, categoryId, group',
-      monthlyBudgetConfigs: 'id, month',
-      savingsGoals: 'id, priority, isCompleted',
-      savingsContributions: 'id, goalId, date',
-      monthlySavingsRecords: 'id, month, goalId, [month+goalId]',
-      assetAccounts: 'id, type, order',
-      assetMovements: 'id, accountId, date, type, [accountId+date]',
-      liabilities: 'id, type',
-      balanceHistory: 'id, accountId, date, [accountId+date]',
-      netWorthSnapshots: 'id, date',
-    })
-
-    // Initialize default categories on first open
-    this.on('populate', () => {
-      this.categories.bulkAdd(defaultCategories)
+    // Initialize default categories and bank account on first open
+    this.on('populate', async (tx) => {
+      await tx.table('categories').bulkAdd(defaultCategories)
+      await tx.table('bankAccounts').add(createDefaultBankAccount())
     })
   }
 }
 
 export const db = new FinanceDB()
 
+export const journal = createJournal(db)
+export { JOURNAL_MAX_ENTRIES } from './journal'
+
+export const syncTracker = createSyncTracker(db)
+export { UNSYNCED_TABLES } from './syncTracker'
+export { SCHEMA_VERSION, DEFAULT_BANK_ACCOUNT_ID, createDefaultBankAccount } from './schema'
+
 // Ensure all default categories exist
 async function ensureDefaultCategories() {
   const existingCategories = await db.categories.toArray()
@@ -133,12 +93,29 @@ async function ensureDefaultCategories() {
   }
 }
 
+// Clear pending rows whose date has passed
+async function settleTransactionStatuses() {
+  const today = getToday()
+  const cleared = await db.transactions
+    .where('status')
+    .equals('pending')
+    .filter(t => t.date <= today)
+    .modify({ status: 'cleared' })
+  if (cleared > 0) {
+    console.log(`✅ ${cleared} pending transaction(s) cleared`)
+  }
+}
+
 // Open database and log status
 db.open().then(async () => {
   console.log('✅ Database opened successfully')
 
   // Ensure all default categories exist
-  await ensureDefaultCategories()
+  await journal.skip(async () => {
+    await ensureDefaultCategories()
+    await settleTransactionStatuses()
+    await categoryBudgetService.removeDuplicates()
+  })
 
   const count = await db.transactions.count()
   console.log(`📊 ${count} transactions in database`)
@@ -151,8 +128,9 @@ db.open().then(async () => {
 
 // Transaction operations
 export const transactionService = {
+  // Scheduled entries are plans, not bank data: they are left out here (see getScheduled)
   async getAll(filters?: Partial<{ month: string; category: string }>) {
-    let query = db.transactions.orderBy('date').reverse()
+    let query = db.transactions.orderBy('date').reverse().filter((t) => t.status !== 'scheduled')
 
     if (filters?.month) {
       const month = filters.month
@@ -176,7 +154,11 @@ export const transactionService = {
   },
 
   async add(transactions: Transaction[]) {
-    const result = await db.transactions.bulkAdd(transactions)
+    // Transactions created without an account go to the default one
+    const defaultAccount = await bankAccountService.getDefault()
+    const result = await db.transactions.bulkAdd(
+      transactions.map(t => (t.accountId || !defaultAccount ? t : { ...t, accountId: defaultAccount.id }))
+    )
     return result
   },
 
@@ -189,20 +171,246 @@ export const transactionService = {
   },
 
   async delete(id: string) {
+    // The counterpart of an internal transfer is no longer paired
+    const transaction = await db.transactions.get(id)
+    if (transaction?.transferPairId) {
+      await db.transactions.update(transaction.transferPairId, { transferPairId: undefined })
+    }
     const result = await db.transactions.delete(id)
     return result
   },
 
   async deleteByImport(importId: string) {
+    const transactions = await db.transactions.where('importId').equals(importId).toArray()
+    const pairIds = transactions.map(t => t.transferPairId).filter((id): id is string => Boolean(id))
+    if (pairIds.length > 0) {
+      await db.transactions.where('id').anyOf(pairIds).modify({ transferPairId: undefined })
+    }
     const result = await db.transactions.where('importId').equals(importId).delete()
     return result
   },
 
+  async getScheduled() {
+    return db.transactions.where('status').equals('scheduled').sortBy('date')
+  },
+
   async getMonths() {
-    const transactions = await db.transactions.toArray()
+    const transactions = await db.transactions.filter((t) => t.status !== 'scheduled').toArray()
     const months = new Set(transactions.map((t) => t.date.substring(0, 7)))
     return Array.from(months).sort().reverse()
   },
+
+  async getAllTags() {
+    const tags = await db.transactions.orderBy('tags').uniqueKeys()
+    return tags.map(String).sort((a, b) => a.localeCompare(b, 'fr'))
+  },
+
+  async addTags(ids: string[], tags: string[]) {
+    const now = new Date().toISOString()
+    return db.transactions.where('id').anyOf(ids).modify((t) => {
+      const current = t.tags ?? []
+      const missing = tags.filter(tag => !current.includes(tag))
+      if (missing.length === 0) return
+      t.tags = [...current, ...missing]
+      t.updatedAt = now
+    })
+  },
+}
+
+// Bank account operations
+export const bankAccountService = {
+  async getAll() {
+    return db.bankAccounts.orderBy('order').toArray()
+  },
+
+  async getActive() {
+    const accounts = await db.bankAccounts.orderBy('order').toArray()
+    return accounts.filter(a => a.isActive)
+  },
+
+  // The first account, which receives transactions created without an account
+  async getDefault() {
+    return db.bankAccounts.orderBy('order').first()
+  },
+
+  async add(account: Omit<BankAccount, 'id' | 'createdAt' | 'updatedAt' | 'order'>) {
+    const now = new Date().toISOString()
+    const count = await db.bankAccounts.count()
+    const newAccount: BankAccount = {
+      ...account,
+      id: crypto.randomUUID(),
+      order: count,
+      createdAt: now,
+      updatedAt: now,
+    }
+    await db.bankAccounts.add(newAccount)
+    return newAccount
+  },
+
+  async update(id: string, updates: Partial<BankAccount>) {
+    return db.bankAccounts.update(id, {
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    })
+  },
+
+  async delete(id: string) {
+    const count = await db.transactions.where('accountId').equals(id).count()
+    if (count > 0) {
+      throw new Error(`Ce compte contient ${count} transaction(s), archivez-le plutôt`)
+    }
+    // Imports and manual entries need an account to go to
+    if (await db.bankAccounts.count() <= 1) {
+      throw new Error('Gardez au moins un compte bancaire')
+    }
+    await db.balanceCheckpoints.where('accountId').equals(id).delete()
+    return db.bankAccounts.delete(id)
+  },
+
+  // Balance = initial balance + cleared transactions up to a date (today by default)
+  async getBalance(id: string, upTo?: string) {
+    const account = await db.bankAccounts.get(id)
+    if (!account) throw new Error('Compte introuvable')
+    const limit = upTo || getToday()
+    const transactions = await db.transactions.where('accountId').equals(id).toArray()
+    return transactions
+      .filter(t => (t.status ?? 'cleared') === 'cleared' && t.date <= limit)
+      .reduce((sum, t) => sum + t.amount, account.initialBalance)
+  },
+
+  // Adjust the initial balance so the computed balance matches the bank's today
+  async calibrate(id: string, actualBalance: number) {
+    const account = await db.bankAccounts.get(id)
+    if (!account) throw new Error('Compte introuvable')
+    const currentBalance = await this.getBalance(id)
+    const initialBalance = account.initialBalance + (actualBalance - currentBalance)
+    await this.update(id, { initialBalance })
+    return initialBalance
+  },
+}
+
+// Bank balance checkpoints (end-of-day balances read from statements)
+export const balanceCheckpointService = {
+  async getAll() {
+    return db.balanceCheckpoints.orderBy('date').toArray()
+  },
+
+  async getByAccount(accountId: string) {
+    return db.balanceCheckpoints.where('[accountId+date]').between([accountId, Dexie.minKey], [accountId, Dexie.maxKey]).toArray()
+  },
+
+  // A newer statement replaces the balance already known for the same day
+  async saveAll(accountId: string, checkpoints: { date: string; balance: number }[], importId?: string) {
+    const now = new Date().toISOString()
+    await db.transaction('rw', db.balanceCheckpoints, async () => {
+      for (const { date, balance } of checkpoints) {
+        await db.balanceCheckpoints.where('[accountId+date]').equals([accountId, date]).delete()
+        await db.balanceCheckpoints.add({
+          id: crypto.randomUUID(),
+          accountId,
+          date,
+          balance,
+          importId,
+          createdAt: now,
+        })
+      }
+    })
+    return checkpoints.length
+  },
+
+  async delete(id: string) {
+    return db.balanceCheckpoints.delete(id)
+  },
+}
+
+// Recurring schedules
+export const recurringScheduleService = {
+  async getAll() {
+    const schedules = await db.recurringSchedules.toArray()
+    return schedules.sort((a, b) => a.description.localeCompare(b.description, 'fr'))
+  },
+
+  async add(schedule: Omit<RecurringSchedule, 'id' | 'createdAt' | 'updatedAt'>) {
+    const now = new Date().toISOString()
+    const newSchedule: RecurringSchedule = {
+      ...schedule,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    }
+    await db.recurringSchedules.add(newSchedule)
+    return newSchedule
+  },
+
+  async update(id: string, updates: Partial<RecurringSchedule>) {
+    return db.recurringSchedules.update(id, {
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    })
+  },
+
+  // Upcoming occurrences go with the schedule, the ones already at the bank stay
+  async delete(id: string) {
+    await db.transaction('rw', db.recurringSchedules, db.transactions, async () => {
+      await db.transactions
+        .where('scheduleId')
+        .equals(id)
+        .filter(t => t.status === 'scheduled')
+        .delete()
+      await db.recurringSchedules.delete(id)
+    })
+  },
+}
+
+// Saved searches
+export const savedSearchService = {
+  async getAll() {
+    const searches = await db.savedSearches.toArray()
+    return searches.sort((a, b) => a.name.localeCompare(b.name, 'fr'))
+  },
+
+  async add(name: string, query: string) {
+    const now = new Date().toISOString()
+    const search: SavedSearch = {
+      id: crypto.randomUUID(),
+      name,
+      query,
+      createdAt: now,
+      updatedAt: now,
+    }
+    await db.savedSearches.add(search)
+    return search
+  },
+
+  async update(id: string, updates: Partial<Pick<SavedSearch, 'name' | 'query'>>) {
+    return db.savedSearches.update(id, {
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    })
+  },
+
+  async delete(id: string) {
+    return db.savedSearches.delete(id)
+  },
+}
+
+// Mutation journal (entries are written by the journal itself, see ./journal)
+export const journalService = {
+  async getAll() {
+    return db.journal.orderBy('createdAt').reverse().toArray()
+  },
+
+  async get(id: string) {
+    return db.journal.get(id)
+  },
+
+  async update(id: string, updates: Partial<Pick<JournalEntry, 'undoneAt' | 'revertedAt'>>) {
+    return db.journal.update(id, updates)
+  },
+
+  async clear() {
+    return db.journal.clear()
+  },
 }
 
 // Category operations
@@ -225,9 +433,21 @@ export const categoryService = {
     return result
   },
 
+  async setParent(id: string, parentId: string | undefined) {
+    const categories = await db.categories.toArray()
+    if (!canReparent(categories, id, parentId)) {
+      throw new Error('Une catégorie ne peut pas être rangée sous elle-même ou sous une de ses sous-catégories')
+    }
+    return db.categories.update(id, { parentId })
+  },
+
   async delete(id: string) {
-    const result = await db.categories.delete(id)
-    return result
+    // Subcategories move up one level instead of being orphaned
+    return db.transaction('rw', db.categories, async () => {
+      const category = await db.categories.get(id)
+      await db.categories.where('parentId').equals(id).modify({ parentId: category?.parentId })
+      return db.categories.delete(id)
+    })
   },
 }
 
@@ -247,6 +467,15 @@ export const ruleService = {
     return result
   },
 
+  // Ids ordered from highest to lowest priority
+  async reorder(ids: string[]) {
+    await db.transaction('rw', db.rules, async () => {
+      for (const [index, id] of ids.entries()) {
+        await db.rules.update(id, { priority: (ids.length - index) * 10 })
+      }
+    })
+  },
+
   async delete(id: string) {
     const result = await db.rules.delete(id)
     return result
@@ -269,6 +498,14 @@ export const importService = {
     return result
   },
 
+  async recordChanges(id: string, changes: ImportChange[]) {
+    if (changes.length === 0) return
+    const batch = await db.imports.get(id)
+    // Manual and generated transactions don't belong to an import batch
+    if (!batch || batch.status === 'rolled-back') return
+    await db.imports.update(id, { changes: [...(batch.changes ?? []), ...changes] })
+  },
+
   async delete(id: string) {
     // Delete associated transactions
     await transactionService.deleteByImport(id)
@@ -277,6 +514,43 @@ export const importService = {
   },
 }
 
+// Import profile operations (per-bank column mappings)
+export const importProfileService = {
+  async getAll() {
+    return db.importProfiles.orderBy('name').toArray()
+  },
+
+  async getBySignature(headerSignature: string) {
+    return db.importProfiles.where('headerSignature').equals(headerSignature).first()
+  },
+
+  // One profile per header layout: saving again updates it
+  async save(profile: Omit<ImportProfile, 'id' | 'createdAt' | 'updatedAt'>) {
+    const now = new Date().toISOString()
+    const existing = await this.getBySignature(profile.headerSignature)
+    if (existing) {
+      await db.importProfiles.update(existing.id, { ...profile, updatedAt: now })
+      return { ...existing, ...profile, updatedAt: now }
+    }
+    const created: ImportProfile = {
+      ...profile,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    }
+    await db.importProfiles.add(created)
+    return created
+  },
+
+  async markUsed(id: string) {
+    return db.importProfiles.update(id, { lastUsedAt: new Date().toISOString() })
+  },
+
+  async delete(id: string) {
+    return db.importProfiles.delete(id)
+  },
+}
+
 // Category Budget operations
 export const categoryBudgetService = {
   async getAll() {
@@ -287,9 +561,27 @@ export const categoryBudgetService = {
     return db.categoryBudgets.where('categoryId').equals(categoryId).first()
   },
 
+  // A category has one budget: adding another one updates it
   async add(budget: CategoryBudget) {
-    const result = await db.categoryBudgets.add(budget)
-    return result
+    return db.transaction('rw', db.categoryBudgets, async () => {
+      const existing = await db.categoryBudgets.where('categoryId').equals(budget.categoryId).first()
+      if (!existing) return db.categoryBudgets.add(budget)
+      const { id: _id, createdAt: _createdAt, ...updates } = budget
+      await db.categoryBudgets.update(existing.id, updates)
+      return existing.id
+    })
+  },
+
+  // Restores, merges and syncs can bring back a second budget for a category
+  async removeDuplicates() {
+    return db.transaction('rw', db.categoryBudgets, async () => {
+      const toDelete = findDuplicateCategoryBudgets(await db.categoryBudgets.toArray())
+      await db.categoryBudgets.bulkDelete(toDelete)
+      if (toDelete.length > 0) {
+        console.log(`🧹 ${toDelete.length} duplicated category budget(s) removed`)
+      }
+      return toDelete.length
+    })
   },
 
   async update(id: string, updates: Partial<CategoryBudget>) {
@@ -644,28 +936,32 @@ export const assetAccountService = {
     const destAccount = await db.assetAccounts.get(destinationAccountId)
     if (!destAccount) throw new Error('Compte destination introuvable')
 
-    // Create transaction (outgoing transfer from main account)
-    const transaction: Transaction = {
-      id: crypto.randomUUID(),
-      date: transferDate,
-      type: 'VIREMENT_EMIS',
-      description: description || `Virement vers ${destAccount.name}`,
-      amount: -Math.abs(amount), // Negative = outgoing
-      category: 'transfer-out',
-      importId: `transfer-${month}`,
-      isManuallyEdited: false,
-      source: 'manual',
-      createdAt: now,
-      updatedAt: now,
-    }
+    return journal.withLabel(`Virement vers ${destAccount.name}`, async () => {
+      // Create transaction (outgoing transfer from main account)
+      const transaction: Transaction = {
+        id: crypto.randomUUID(),
+        date: transferDate,
+        type: 'VIREMENT_EMIS',
+        description: description || `Virement vers ${destAccount.name}`,
+        amount: -Math.abs(amount), // Negative = outgoing
+        category: 'transfer-out',
+        importId: `transfer-${month}`,
+        accountId: (await bankAccountService.getDefault())?.id,
+        transferAssetAccountId: destinationAccountId,
+        isManuallyEdited: false,
+        source: 'manual',
+        createdAt: now,
+        updatedAt: now,
+      }
 
-    await db.transactions.add(transaction)
+      await db.transactions.add(transaction)
 
-    // Update destination account balance
-    const newBalance = destAccount.currentBalance + Math.abs(amount)
-    await this.updateBalance(destinationAccountId, newBalance)
+      // Update destination account balance
+      const newBalance = destAccount.currentBalance + Math.abs(amount)
+      await this.updateBalance(destinationAccountId, newBalance)
 
-    return { transaction, newBalance }
+      return { transaction, newBalance }
+    })
   },
 
   // Transfer between two asset accounts
@@ -682,18 +978,20 @@ export const assetAccountService = {
     if (!destAccount) throw new Error('Compte destination introuvable')
     if (sourceAccount.currentBalance < amount) throw new Error('Solde insuffisant')
 
-    // Update source account (decrease)
-    const newSourceBalance = sourceAccount.currentBalance - Math.abs(amount)
-    await this.updateBalance(sourceAccountId, newSourceBalance)
+    return journal.withLabel(`Virement de ${sourceAccount.name} vers ${destAccount.name}`, async () => {
+      // Update source account (decrease)
+      const newSourceBalance = sourceAccount.currentBalance - Math.abs(amount)
+      await this.updateBalance(sourceAccountId, newSourceBalance)
 
-    // Update destination account (increase)
-    const newDestBalance = destAccount.currentBalance + Math.abs(amount)
-    await this.updateBalance(destinationAccountId, newDestBalance)
+      // Update destination account (increase)
+      const newDestBalance = destAccount.currentBalance + Math.abs(amount)
+      await this.updateBalance(destinationAccountId, newDestBalance)
 
-    return {
-      sourceBalance: newSourceBalance,
-      destinationBalance: newDestBalance
-    }
+      return {
+        sourceBalance: newSourceBalance,
+        destinationBalance: newDestBalance
+      }
+    })
   },
 }
 
@@ -733,11 +1031,11 @@ export const assetMovementService = {
       createdAt: now,
     }
 
-    // Add movement
-    await db.assetMovements.add(fullMovement)
-
-    // Update account balance
-    await assetAccountService.updateBalance(movement.accountId, newBalance)
+    // The movement and the balance it changes are undone together
+    await journal.withLabel(`Mouvement sur ${account.name}`, async () => {
+      await db.assetMovements.add(fullMovement)
+      await assetAccountService.updateBalance(movement.accountId, newBalance)
+    })
 
     return fullMovement
   },
@@ -746,14 +1044,16 @@ export const assetMovementService = {
     const movement = await db.assetMovements.get(id)
     if (!movement) return
 
-    // Get account and recalculate balance
-    const account = await db.assetAccounts.get(movement.accountId)
-    if (account) {
-      const newBalance = account.currentBalance - movement.amount
-      await assetAccountService.updateBalance(movement.accountId, newBalance)
-    }
+    await journal.withLabel('Suppression d\'un mouvement', async () => {
+      // Get account and recalculate balance
+      const account = await db.assetAccounts.get(movement.accountId)
+      if (account) {
+        const newBalance = account.currentBalance - movement.amount
+        await assetAccountService.updateBalance(movement.accountId, newBalance)
+      }
 
-    await db.assetMovements.delete(id)
+      await db.assetMovements.delete(id)
+    })
   },
 
   async getRecentForAccount(accountId: string, limit = 10) {
@@ -811,9 +1111,12 @@ export const liabilityService = {
     return result
   },
 
+  // The debits that paid its installments stay, unlinked
   async delete(id: string) {
-    const result = await db.liabilities.delete(id)
-    return result
+    await db.transaction('rw', db.liabilities, db.transactions, async () => {
+      await db.transactions.where('liabilityId').equals(id).modify({ liabilityId: undefined })
+      await db.liabilities.delete(id)
+    })
   },
 
   async getTotalBalance() {
@@ -960,13 +1263,14 @@ export const settingsService = {
     }
   },
 
-  // Convenience methods for initial balance
+  // Initial balance of all bank accounts combined
+  // (the legacy single-account value until accounts are created)
   async getInitialBalance(): Promise<number> {
+    const accounts = await db.bankAccounts.toArray()
+    if (accounts.length > 0) {
+      return accounts.reduce((sum, a) => sum + a.initialBalance, 0)
+    }
     const value = await this.get('initialBalance')
     return typeof value === 'number' ? value : 0
   },
-
-  async setInitialBalance(balance: number): Promise<void> {
-    await this.set('initialBalance', balance)
-  },
 }
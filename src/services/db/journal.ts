@@ -0,0 +1,120 @@
+import Dexie, { type Transaction as DexieTransaction } from 'dexie'
+import type { JournalChange, JournalEntry } from '@/types'
+import type { FinanceDB } from './index'
+
+// Settings are preferences, snapshots and balance history are computed again from the data
+export const UNJOURNALED_TABLES = ['journal', 'syncState', 'mergeBases', 'settings', 'netWorthSnapshots', 'balanceHistory']
+
+// Oldest entries are dropped past this count
+export const JOURNAL_MAX_ENTRIES = 200
+
+type Pending = Map<string, JournalChange>
+
+/**
+ * Mutation journal: before and after images of every write to the data tables,
+ * grouped by database transaction and stored once it commits
+ */
+export function createJournal(db: FinanceDB) {
+  // Label of each transaction started through the journal, null for the ones left out of it
+  const labels = new WeakMap<DexieTransaction, string | null>()
+  const pending = new WeakMap<DexieTransaction, Pending>()
+
+  // Sub-transactions (a service called inside another) belong to their parent's entry
+  const getRoot = (trans: DexieTransaction) => {
+    let root = trans
+    while (root.parent) root = root.parent
+    return root
+  }
+
+  // Upgrades and populate run in a versionchange transaction, which Dexie reports as readwrite
+  const isIgnored = (trans: DexieTransaction) =>
+    trans.idbtrans.mode === 'versionchange' || labels.get(getRoot(trans)) === null
+
+  async function save(root: DexieTransaction, changes: Pending) {
+    const entry: JournalEntry = {
+      id: crypto.randomUUID(),
+      label: labels.get(root) ?? undefined,
+      // A record created then deleted in the same transaction leaves nothing to undo
+      changes: Array.from(changes.values()).filter(c => c.before || c.after),
+      createdAt: new Date().toISOString(),
+    }
+    if (entry.changes.length === 0) return
+
+    await db.transaction('rw', db.journal, async () => {
+      // A new write ends the redo stack
+      await db.journal.filter(e => Boolean(e.undoneAt)).delete()
+      await db.journal.add(entry)
+      const count = await db.journal.count()
+      if (count > JOURNAL_MAX_ENTRIES) {
+        const oldest = await db.journal.orderBy('createdAt').limit(count - JOURNAL_MAX_ENTRIES).primaryKeys()
+        await db.journal.bulkDelete(oldest)
+      }
+    })
+  }
+
+  function record(trans: DexieTransaction, table: string, id: unknown, before?: object, after?: object) {
+    const root = getRoot(trans)
+    let changes = pending.get(root)
+    if (!changes) {
+      changes = new Map()
+      pending.set(root, changes)
+      const recorded = changes
+      root.on('complete', () => {
+        Dexie.ignoreTransaction(() => save(root, recorded)).catch(err => {
+          console.error('❌ Failed to write the journal:', err)
+        })
+      })
+    }
+
+    // Several writes to a record keep its first before and its last after
+    const key = `${table}:${String(id)}`
+    const existing = changes.get(key)
+    changes.set(key, {
+      table,
+      id: String(id),
+      before: existing ? existing.before : (before && Dexie.deepClone(before) as Record<string, unknown>),
+      after: after && Dexie.deepClone(after) as Record<string, unknown>,
+    })
+  }
+
+  for (const table of db.tables) {
+    if (UNJOURNALED_TABLES.includes(table.name)) continue
+
+    table.hook('creating', function (_key, obj, trans) {
+      if (isIgnored(trans)) return
+      this.onsuccess = (key) => record(trans, table.name, key, undefined, obj)
+    })
+    table.hook('updating', function (_modifications, key, obj, trans) {
+      if (isIgnored(trans)) return
+      const before = Dexie.deepClone(obj)
+      this.onsuccess = (updated) => record(trans, table.name, key, before, updated)
+    })
+    table.hook('deleting', function (key, obj, trans) {
+      if (isIgnored(trans)) return
+      this.onsuccess = () => record(trans, table.name, key, obj, undefined)
+    })
+  }
+
+  const getJournaledTables = () => db.tables.filter(t => t.name !== 'journal')
+
+  return {
+    /**
+     * Run writes as one journal entry named after the action,
+     * in a single transaction so they are undone together
+     */
+    withLabel<T>(label: string, fn: () => Promise<T>): Promise<T> {
+      return db.transaction('rw', getJournaledTables(), () => {
+        labels.set(Dexie.currentTransaction, label)
+        return fn()
+      })
+    },
+
+    // Maintenance writes (startup fixups, generated occurrences, undo itself) stay out of the journal
+    skip<T>(fn: () => Promise<T>): Promise<T> {
+      return db.transaction('rw', getJournaledTables(), () => {
+        labels.set(Dexie.currentTransaction, null)
+        return fn()
+      })
+    },
+  }
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import Dexie from 'dexie'
+import { SCHEMA_VERSIONS, SCHEMA_VERSION, DEFAULT_BANK_ACCOUNT_ID, declareSchema } from './schema'
+
+const opened: Dexie[] = []
+
+/**
+ * A database as a given version of the app left it, with the rows it held
+ */
+async function createAtVersion(name: string, version: number, rows: Record<string, object[]> = {}) {
+  const db = new Dexie(name)
+  declareSchema(db, version)
+  await db.open()
+  for (const [table, list] of Object.entries(rows)) {
+    await db.table(table).bulkAdd(list)
+  }
+  db.close()
+}
+
+// The same database opened by the current version, running the upgrades
+async function upgrade(name: string) {
+  const db = new Dexie(name)
+  declareSchema(db)
+  await db.open()
+  opened.push(db)
+  return db
+}
+
+function getIndexes(db: Dexie, table: string) {
+  return db.table(table).schema.indexes.map(index => index.name).sort()
+}
+
+let counter = 0
+const uniqueName = () => `schema-test-${++counter}`
+
+afterEach(async () => {
+  for (const db of opened.splice(0)) {
+    db.close()
+    await Dexie.delete(db.name)
+  }
+})
+
+describe('SCHEMA_VERSIONS', () => {
+  it('lists every version once, in order', () => {
+    const versions = SCHEMA_VERSIONS.map(v => v.version)
+    expect(versions).toEqual(versions.map((_, i) => i + 1))
+    expect(SCHEMA_VERSION).toBe(versions[versions.length - 1])
+  })
+
+  it.each(SCHEMA_VERSIONS.map(v => v.version))('upgrades an empty database from version %i', async (version) => {
+    const name = uniqueName()
+    await createAtVersion(name, version)
+    const db = await upgrade(name)
+    const fresh = await upgrade(uniqueName())
+
+    expect(db.verno).toBe(SCHEMA_VERSION)
+    expect(db.tables.map(t => t.name).sort()).toEqual(fresh.tables.map(t => t.name).sort())
+    for (const table of fresh.tables) {
+      expect(getIndexes(db, table.name)).toEqual(getIndexes(fresh, table.name))
+    }
+  })
+})
+
+describe('upgrades', () => {
+  it('keeps the rows of the first version and indexes them', async () => {
+    const name = uniqueName()
+    await createAtVersion(name, 1, {
+      transactions: [
+        { id: 't1', date: '2024-01-05', category: 'food', type: 'expense', amount: -12, description: 'Courses' },
+      ],
+      categories: [{ id: 'food', name: 'Alimentation', order: 1 }],
+    })
+    const db = await upgrade(name)
+
+    expect(await db.table('transactions').get('t1')).toMatchObject({ amount: -12, description: 'Courses' })
+    expect(await db.table('categories').count()).toBe(1)
+    expect(getIndexes(db, 'transactions')).toContain('accountId')
+    expect(getIndexes(db, 'transactions')).toContain('tags')
+  })
+
+  it('puts the transactions of version 7 in a bank account holding the legacy initial balance', async () => {
+    const name = uniqueName()
+    await createAtVersion(name, 7, {
+      transactions: [
+        { id: 't1', date: '2024-01-05', amount: -12 },
+        { id: 't2', date: '2024-01-06', amount: 30 },
+      ],
+      settings: [{ id: 's1', key: 'initialBalance', value: 1500 }],
+    })
+    const db = await upgrade(name)
+
+    const accounts = await db.table('bankAccounts').toArray()
+    expect(accounts).toHaveLength(1)
+    expect(accounts[0]).toMatchObject({ id: DEFAULT_BANK_ACCOUNT_ID, name: 'Compte courant', type: 'checking', initialBalance: 1500 })
+    expect(await db.table('transactions').where('accountId').equals(accounts[0].id).count()).toBe(2)
+  })
+
+  it('gives the future transactions of version 10 a status', async () => {
+    const name = uniqueName()
+    await createAtVersion(name, 10, {
+      transactions: [
+        { id: 'past', date: '2020-01-01', amount: -5, source: 'csv' },
+        { id: 'manual', date: '2999-01-01', amount: -5, source: 'manual' },
+        { id: 'imported', date: '2999-01-01', amount: -5, source: 'csv' },
+      ],
+    })
+    const db = await upgrade(name)
+
+    const transactions = db.table('transactions')
+    expect((await transactions.get('past')).status).toBeUndefined()
+    expect((await transactions.get('manual')).status).toBe('scheduled')
+    expect((await transactions.get('imported')).status).toBe('pending')
+  })
+
+  it('keeps one budget per category from version 16 and drops housing once split', async () => {
+    const name = uniqueName()
+    await createAtVersion(name, 16, {
+      categoryBudgets: [
+        { id: 'b1', categoryId: 'food', monthlyLimit: 300 },
+        { id: 'b2', categoryId: 'food', monthlyLimit: 450 },
+        { id: 'b3', categoryId: 'food', monthlyLimit: 100 },
+        { id: 'b4', categoryId: 'loyer', monthlyLimit: 900 },
+        { id: 'b5', categoryId: 'housing', monthlyLimit: 1000 },
+        { id: 'b6', categoryId: 'transport', monthlyLimit: 80 },
+      ],
+    })
+    const db = await upgrade(name)
+
+    const budgets = await db.table('categoryBudgets').toArray()
+    expect(budgets.map(b => b.id).sort()).toEqual(['b2', 'b4', 'b6'])
+  })
+
+  it('keeps the housing budget while it is not split', async () => {
+    const name = uniqueName()
+    await createAtVersion(name, 16, {
+      categoryBudgets: [{ id: 'b1', categoryId: 'housing', monthlyLimit: 1000 }],
+    })
+    const db = await upgrade(name)
+
+    expect(await db.table('categoryBudgets').count()).toBe(1)
+  })
+})
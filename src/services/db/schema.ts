@@ -0,0 +1,252 @@
+import type Dexie from 'dexie'
+import type { Transaction as DexieTransaction } from 'dexie'
+import type { BankAccount, CategoryBudget, AppSettings, Transaction } from '@/types'
+import { BANK_ACCOUNT_TYPES } from '@/types'
+import { getToday } from '@utils/formatters'
+
+export interface SchemaVersion {
+  version: number
+  description: string
+  // Tables added or whose indexes changed since the previous version (null drops a table)
+  stores: Record<string, string | null>
+  // Data fixup run once, in the upgrade transaction, when a database moves past this version
+  upgrade?: (tx: DexieTransaction) => Promise<void>
+}
+
+// Same id on every device, so the accounts created on each of them merge when they sync
+export const DEFAULT_BANK_ACCOUNT_ID = 'default-account'
+
+/**
+ * Account every transaction belongs to, created with the legacy initial balance setting
+ * (data from before multi-account support lived in a single implicit account)
+ */
+export function createDefaultBankAccount(initialBalance = 0): BankAccount {
+  const now = new Date().toISOString()
+  return {
+    id: DEFAULT_BANK_ACCOUNT_ID,
+    name: 'Compte courant',
+    type: 'checking',
+    initialBalance,
+    color: BANK_ACCOUNT_TYPES.checking.color,
+    isActive: true,
+    order: 0,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+async function assignLegacyBankAccount(tx: DexieTransaction) {
+  const legacyBalance = await tx.table<AppSettings>('settings').where('key').equals('initialBalance').first()
+  const account = createDefaultBankAccount(typeof legacyBalance?.value === 'number' ? legacyBalance.value : 0)
+  await tx.table<BankAccount>('bankAccounts').add(account)
+
+  const assigned = await tx.table<Transaction>('transactions').toCollection().modify({ accountId: account.id })
+  console.log(`🏦 Created ${account.name}, ${assigned} transaction(s) assigned to it`)
+}
+
+// Future-dated rows were used informally for planning before statuses existed
+async function giveFutureTransactionsAStatus(tx: DexieTransaction) {
+  const marked = await tx.table<Transaction>('transactions')
+    .where('date')
+    .above(getToday())
+    .modify((t) => {
+      t.status = t.source === 'manual' ? 'scheduled' : 'pending'
+    })
+  console.log(`🗓️ ${marked} future transaction(s) marked as scheduled or pending`)
+}
+
+/**
+ * Budgets to delete so that each category keeps one (the highest limit), and no
+ * 'housing' budget once it was split into 'loyer' and 'energie'. Budgets come in
+ * primary key order, so every device picks the same ones.
+ */
+export function findDuplicateCategoryBudgets(budgets: CategoryBudget[]): string[] {
+  const kept = new Map<string, CategoryBudget>()
+  const toDelete: string[] = []
+
+  for (const budget of budgets) {
+    const existing = kept.get(budget.categoryId)
+    if (!existing) {
+      kept.set(budget.categoryId, budget)
+    } else if (budget.monthlyLimit > existing.monthlyLimit) {
+      toDelete.push(existing.id)
+      kept.set(budget.categoryId, budget)
+    } else {
+      toDelete.push(budget.id)
+    }
+  }
+
+  const housing = kept.get('housing')
+  if (housing && (kept.has('loyer') || kept.has('energie'))) {
+    toDelete.push(housing.id)
+  }
+  return toDelete
+}
+
+// Older versions of the budget page could add several budgets per category
+async function dedupeCategoryBudgets(tx: DexieTransaction) {
+  const table = tx.table<CategoryBudget>('categoryBudgets')
+  const toDelete = findDuplicateCategoryBudgets(await table.toArray())
+  await table.bulkDelete(toDelete)
+  console.log(`🧹 ${toDelete.length} duplicated category budget(s) removed`)
+}
+
+/**
+ * Every version of the database, oldest first. A version lists only the tables it
+ * adds or changes: Dexie carries the others over from the previous versions.
+ */
+export const SCHEMA_VERSIONS: SchemaVersion[] = [
+  {
+    version: 1,
+    description: 'Transactions, categories, rules, imports and settings',
+    stores: {
+      transactions: 'id, date, category, type, importId, [date+category]',
+      categories: 'id, name, parentId, order',
+      rules: 'id, categoryId, priority',
+      imports: 'id, importedAt, status',
+      settings: 'id, key',
+    },
+  },
+  {
+    version: 2,
+    description: 'Budget and savings tables',
+    stores: {
+      categoryBudgets: 'id, categoryId, group',
+      monthlyBudgetConfigs: 'id, month',
+      savingsGoals: 'id, priority, isCompleted',
+      savingsContributions: 'id, goalId, date',
+    },
+  },
+  {
+    version: 3,
+    description: 'Monthly savings tracking',
+    stores: {
+      monthlySavingsRecords: 'id, month, goalId, [month+goalId]',
+    },
+  },
+  {
+    version: 4,
+    description: 'Patrimoine (net worth) tracking',
+    stores: {
+      assetAccounts: 'id, type, order',
+      liabilities: 'id, type',
+      balanceHistory: 'id, accountId, date, [accountId+date]',
+      netWorthSnapshots: 'id, date',
+    },
+  },
+  {
+    version: 5,
+    description: 'Asset movements for tracking deposits/withdrawals',
+    stores: {
+      assetMovements: 'id, accountId, date, type, [accountId+date]',
+    },
+  },
+  {
+    version: 6,
+    description: 'Index bank-provided transaction ids (OFX FITID, CAMT refs)',
+    stores: {
+      transactions: 'id, date, category, type, importId, externalId, [date+category]',
+    },
+  },
+  {
+    version: 7,
+    description: 'Saved column mappings per bank export layout',
+    stores: {
+      importProfiles: 'id, name, headerSignature',
+    },
+  },
+  {
+    version: 8,
+    description: 'Several bank accounts, each transaction belongs to one',
+    stores: {
+      transactions: 'id, date, category, type, importId, externalId, accountId, [date+category]',
+      bankAccounts: 'id, type, order',
+    },
+    upgrade: assignLegacyBankAccount,
+  },
+  {
+    version: 9,
+    description: 'Free-form tags on transactions (multi-entry index)',
+    stores: {
+      transactions: 'id, date, category, type, importId, externalId, accountId, *tags, [date+category]',
+    },
+  },
+  {
+    version: 10,
+    description: 'Bank balances read from imports, to reconcile accounts',
+    stores: {
+      balanceCheckpoints: 'id, accountId, date, importId, [accountId+date]',
+    },
+  },
+  {
+    version: 11,
+    description: 'Transaction lifecycle (scheduled, pending, cleared)',
+    stores: {
+      transactions: 'id, date, category, type, importId, externalId, accountId, status, *tags, [date+category]',
+    },
+    upgrade: giveFutureTransactionsAStatus,
+  },
+  {
+    version: 12,
+    description: 'Recurring schedules generating expected transactions',
+    stores: {
+      transactions: 'id, date, category, type, importId, externalId, accountId, status, scheduleId, *tags, [date+category]',
+      recurringSchedules: 'id, accountId',
+    },
+  },
+  {
+    version: 13,
+    description: 'Saved search queries',
+    stores: {
+      savedSearches: 'id, name',
+    },
+  },
+  {
+    version: 14,
+    description: 'Mutation journal for undo/redo',
+    stores: {
+      journal: 'id, createdAt',
+    },
+  },
+  {
+    version: 15,
+    description: 'Per-record change sequences for sync between devices',
+    stores: {
+      syncState: 'key, seq',
+    },
+  },
+  {
+    version: 16,
+    description: 'Backup files kept as the common ancestor of merge imports',
+    stores: {
+      mergeBases: 'id, savedAt',
+    },
+  },
+  {
+    version: 17,
+    description: 'One budget per category',
+    stores: {},
+    upgrade: dedupeCategoryBudgets,
+  },
+  {
+    version: 18,
+    description: 'Bank debits paying a loan installment',
+    stores: {
+      transactions: 'id, date, category, type, importId, externalId, accountId, status, scheduleId, liabilityId, *tags, [date+category]',
+    },
+  },
+]
+
+export const SCHEMA_VERSION = SCHEMA_VERSIONS[SCHEMA_VERSIONS.length - 1].version
+
+/**
+ * Declare the versions of the schema on a database, up to a given one
+ * (the tests open databases as older versions of the app left them)
+ */
+export function declareSchema(db: Dexie, upTo = SCHEMA_VERSION) {
+  for (const { version, stores, upgrade } of SCHEMA_VERSIONS) {
+    if (version > upTo) break
+    const declared = db.version(version).stores(stores)
+    if (upgrade) declared.upgrade(upgrade)
+  }
+}
@@ -0,0 +1,123 @@
+import Dexie, { type Transaction as DexieTransaction } from 'dexie'
+import type { FinanceDB } from './index'
+
+// Device preferences (the Claude API key among them), bookkeeping and data computed again on each device
+export const UNSYNCED_TABLES = ['journal', 'syncState', 'mergeBases', 'settings', 'netWorthSnapshots', 'balanceHistory']
+
+interface PendingChange {
+  table: string
+  id: string
+  fieldTimes: Record<string, string>
+  deletedAt?: string | null // null: created again after a deletion, the deletion no longer holds
+}
+
+/**
+ * Change tracking for sync: every write to a synced table bumps the record's
+ * change sequence and stamps the fields it wrote, once its transaction commits
+ */
+export function createSyncTracker(db: FinanceDB) {
+  // Transactions writing changes pulled from the endpoint, already known there
+  const remote = new WeakSet<DexieTransaction>()
+  const pending = new WeakMap<DexieTransaction, Map<string, PendingChange>>()
+  const listeners = new Set<() => void>()
+
+  const getRoot = (trans: DexieTransaction) => {
+    let root = trans
+    while (root.parent) root = root.parent
+    return root
+  }
+
+  // Upgrades and populate run in a versionchange transaction, which Dexie reports as readwrite
+  const isIgnored = (trans: DexieTransaction) =>
+    trans.idbtrans.mode === 'versionchange' || remote.has(getRoot(trans))
+
+  // The record's own updatedAt when the write set it, the time of the write otherwise
+  const getStamp = (after?: Record<string, unknown>, before?: Record<string, unknown>) =>
+    typeof after?.updatedAt === 'string' && after.updatedAt !== before?.updatedAt
+      ? after.updatedAt
+      : new Date().toISOString()
+
+  async function save(changes: Map<string, PendingChange>) {
+    await db.transaction('rw', db.syncState, async () => {
+      let seq = (await db.syncState.orderBy('seq').last())?.seq ?? 0
+      for (const [key, change] of changes) {
+        const existing = await db.syncState.get(key)
+        await db.syncState.put({
+          key,
+          table: change.table,
+          id: change.id,
+          seq: ++seq,
+          fieldTimes: { ...existing?.fieldTimes, ...change.fieldTimes },
+          deletedAt: change.deletedAt === undefined ? existing?.deletedAt : change.deletedAt ?? undefined,
+        })
+      }
+    })
+    listeners.forEach(listener => listener())
+  }
+
+  function record(trans: DexieTransaction, table: string, id: unknown, fields: string[], stamp: string, kind: 'create' | 'update' | 'delete') {
+    const root = getRoot(trans)
+    let changes = pending.get(root)
+    if (!changes) {
+      changes = new Map()
+      pending.set(root, changes)
+      const recorded = changes
+      root.on('complete', () => {
+        Dexie.ignoreTransaction(() => save(recorded)).catch(err => {
+          console.error('❌ Failed to track changes for sync:', err)
+        })
+      })
+    }
+
+    const key = `${table}:${String(id)}`
+    const change = changes.get(key) ?? { table, id: String(id), fieldTimes: {} }
+    for (const field of fields) change.fieldTimes[field] = stamp
+    if (kind === 'delete') change.deletedAt = stamp
+    if (kind === 'create') change.deletedAt = null
+    changes.set(key, change)
+  }
+
+  for (const table of db.tables) {
+    if (UNSYNCED_TABLES.includes(table.name)) continue
+
+    table.hook('creating', function (_key, obj, trans) {
+      if (isIgnored(trans)) return
+      // Stamped with the time of the write, not the row's updatedAt: a restored or
+      // undeleted row is older than its deletion, yet it must win over it
+      this.onsuccess = (key) => record(trans, table.name, key, Object.keys(obj), new Date().toISOString(), 'create')
+    })
+    table.hook('updating', function (_modifications, key, obj, trans) {
+      if (isIgnored(trans)) return
+      const before = Dexie.deepClone(obj) as Record<string, unknown>
+      this.onsuccess = (updated: Record<string, unknown>) => {
+        const fields = new Set([...Object.keys(before), ...Object.keys(updated)])
+        const changed = Array.from(fields).filter(f => JSON.stringify(before[f]) !== JSON.stringify(updated[f]))
+        if (changed.length > 0) record(trans, table.name, key, changed, getStamp(updated, before), 'update')
+      }
+    })
+    table.hook('deleting', function (key, _obj, trans) {
+      if (isIgnored(trans)) return
+      this.onsuccess = () => record(trans, table.name, key, [], new Date().toISOString(), 'delete')
+    })
+  }
+
+  const getSyncedTables = () => db.tables.filter(t => !UNSYNCED_TABLES.includes(t.name))
+
+  return {
+    getSyncedTables,
+
+    // Writes of pulled changes: their sequence is left as it is so they are not pushed back
+    applyRemote<T>(fn: () => Promise<T>): Promise<T> {
+      return db.transaction('rw', [...getSyncedTables(), db.syncState], () => {
+        remote.add(getRoot(Dexie.currentTransaction))
+        return fn()
+      })
+    },
+
+    // Called after local changes are tracked, to sync them soon
+    onLocalChange(listener: () => void): () => void {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+  }
+}
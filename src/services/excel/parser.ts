@@ -1,15 +1,22 @@
 import * as XLSX from 'xlsx'
 import { v4 as uuidv4 } from 'uuid'
-import type { Transaction, TransactionType } from '@/types'
+import type {
+  Transaction,
+  TransactionType,
+  ColumnMapping,
+  ImportDateFormat,
+  ImportSignConvention,
+} from '@/types'
 import { getCategorizer, getCategorizerWithRules } from '@services/categorizer'
+import { getImportedStatus } from '@services/scheduled'
 
-export interface ColumnMapping {
-  date?: number
-  type?: number
-  description?: number
-  debit?: number
-  credit?: number
-  amount?: number
+export type { ColumnMapping }
+
+export interface ParseOptions {
+  dateFormat?: ImportDateFormat
+  signConvention?: ImportSignConvention
+  // Known decimal separator (CSV), otherwise guessed per value
+  decimalSeparator?: ',' | '.'
 }
 
 export interface ParsedRow {
@@ -18,17 +25,35 @@ export interface ParsedRow {
   description: string
   debit: number
   credit: number
+  externalId?: string // Bank-provided unique id (OFX FITID, CAMT reference)
+  balance?: number // Account balance after this row, when the export has a balance column
   raw: Record<string, unknown>
 }
 
+export interface StatementBalance {
+  date: string // YYYY-MM-DD, the balance is the one at the end of that day
+  balance: number
+}
+
 export interface ParseResult {
   rows: ParsedRow[]
   headers: string[]
   errors: ParseError[]
   detectedMapping: ColumnMapping
   filename: string
+  format?: StatementFormat
+  // Rows below the header (tabular formats only), kept to re-parse with another mapping
+  dataRows?: unknown[][]
+  decimalSeparator?: ',' | '.'
+  // Workbooks only: every sheet of the file and the one this result was read from
+  sheets?: string[]
+  sheetName?: string
+  // OFX and CAMT only: end-of-day balances the statement reports, oldest first
+  balances?: StatementBalance[]
 }
 
+export type StatementFormat = 'excel' | 'csv' | 'ofx' | 'qif' | 'camt053'
+
 export interface ParseError {
   row: number
   field: string
@@ -37,22 +62,40 @@ export interface ParseError {
 }
 
 /**
- * Parse an Excel file and extract transaction data
+ * Parse an Excel file and extract transaction data (first sheet)
  */
 export async function parseExcelFile(file: File): Promise<ParseResult> {
+  const [result] = await parseExcelSheets(file)
+  return result
+}
+
+/**
+ * Parse several sheets of a workbook (the first one by default).
+ * Some banks put each month or each account on its own sheet.
+ */
+export async function parseExcelSheets(file: File, sheetNames?: string[]): Promise<ParseResult[]> {
   const buffer = await file.arrayBuffer()
   const workbook = XLSX.read(buffer, { type: 'array', cellDates: true })
-  const sheetName = workbook.SheetNames[0]
-  const sheet = workbook.Sheets[sheetName]
+  const names = sheetNames?.length
+    ? sheetNames.filter(name => workbook.SheetNames.includes(name))
+    : workbook.SheetNames.slice(0, 1)
+  return names.map(name => ({
+    ...parseSheet(workbook.Sheets[name], file.name),
+    sheets: workbook.SheetNames,
+    sheetName: name,
+  }))
+}
+
+function parseSheet(sheet: XLSX.WorkSheet, filename: string): ParseResult {
   const jsonData = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as unknown[][]
 
   if (jsonData.length < 2) {
     return {
       rows: [],
       headers: [],
-      errors: [{ row: 0, field: 'file', message: 'Le fichier est vide ou invalide', value: null }],
+      errors: [{ row: 0, field: 'file', message: 'La feuille est vide ou invalide', value: null }],
       detectedMapping: {},
-      filename: file.name,
+      filename,
     }
   }
 
@@ -75,15 +118,33 @@ export async function parseExcelFile(file: File): Promise<ParseResult> {
     headers,
     errors,
     detectedMapping: mapping,
-    filename: file.name,
+    filename,
+    format: 'excel',
+    dataRows,
   }
 }
 
+/**
+ * Re-parse a tabular file with a user-chosen mapping, date format and sign convention
+ */
+export function applyColumnMapping(
+  result: ParseResult,
+  mapping: ColumnMapping,
+  options: ParseOptions = {}
+): ParseResult {
+  if (!result.dataRows) return result
+  const { rows, errors } = parseRows(result.dataRows, mapping, result.headers, {
+    decimalSeparator: result.decimalSeparator,
+    ...options,
+  })
+  return { ...result, rows, errors }
+}
+
 /**
  * Find the header row by looking for rows with multiple columns
  * that match common banking header patterns
  */
-function findHeaderRow(data: unknown[][]): number {
+export function findHeaderRow(data: unknown[][]): number {
   // Common header keywords for French bank exports
   const headerKeywords = [
     /date/i, /libelle/i, /montant/i, /debit/i, /credit/i,
@@ -134,7 +195,7 @@ function findHeaderRow(data: unknown[][]): number {
 /**
  * Auto-detect column mapping based on header names
  */
-function detectColumnMapping(headers: string[]): ColumnMapping {
+export function detectColumnMapping(headers: string[]): ColumnMapping {
   const mapping: ColumnMapping = {}
 
   // Priority-ordered patterns for better detection
@@ -195,6 +256,10 @@ function detectColumnMapping(headers: string[]): ColumnMapping {
       /^valeur$/i,
       /montant\s*(op|operation)/i,
     ],
+    balance: [
+      /^solde/i,
+      /^balance$/i,
+    ],
   }
 
   headers.forEach((header, index) => {
@@ -238,10 +303,11 @@ function detectColumnMapping(headers: string[]): ColumnMapping {
 /**
  * Parse rows based on column mapping
  */
-function parseRows(
+export function parseRows(
   rows: unknown[][],
   mapping: ColumnMapping,
-  headers: string[]
+  headers: string[],
+  options: ParseOptions = {}
 ): { rows: ParsedRow[]; errors: ParseError[] } {
   const parsedRows: ParsedRow[] = []
   const errors: ParseError[] = []
@@ -258,14 +324,22 @@ function parseRows(
     const dateValue = mapping.date !== undefined ? row[mapping.date] : null
     const typeValue = mapping.type !== undefined ? String(row[mapping.type] ?? '') : ''
     const descValue = mapping.description !== undefined ? String(row[mapping.description] ?? '') : ''
-    const debitValue = mapping.debit !== undefined ? row[mapping.debit] : null
-    const creditValue = mapping.credit !== undefined ? row[mapping.credit] : null
-    const amountValue = mapping.amount !== undefined ? row[mapping.amount] : null
+    const amountCell = (col?: number) => {
+      if (col === undefined) return null
+      const cell = row[col]
+      return options.decimalSeparator && typeof cell === 'string'
+        ? normalizeDecimal(cell, options.decimalSeparator)
+        : cell
+    }
+    const debitValue = amountCell(mapping.debit)
+    const creditValue = amountCell(mapping.credit)
+    const amountValue = amountCell(mapping.amount)
+    const balanceValue = amountCell(mapping.balance)
 
     // Parse date
     let date: string
     try {
-      date = parseDate(dateValue)
+      date = parseDate(dateValue, options.dateFormat)
     } catch {
       errors.push({
         row: rowNum,
@@ -282,7 +356,9 @@ function parseRows(
 
     if (amountValue !== null && amountValue !== undefined) {
       // Single amount column
-      const amount = parseAmount(amountValue)
+      const amount = options.signConvention === 'positive-debit'
+        ? -parseAmount(amountValue)
+        : parseAmount(amountValue)
       if (amount < 0) {
         debit = Math.abs(amount)
       } else {
@@ -294,6 +370,11 @@ function parseRows(
       credit = creditValue ? parseAmount(creditValue) : 0
     }
 
+    // Running balance is optional, a cell without digits is ignored
+    const balance = balanceValue !== null && balanceValue !== undefined && /\d/.test(String(balanceValue))
+      ? parseAmount(balanceValue)
+      : undefined
+
     // Create raw record for reference
     const raw: Record<string, unknown> = {}
     headers.forEach((h, i) => {
@@ -309,7 +390,10 @@ function parseRows(
       const textValues = row
         .map((cell, i) => {
           // Skip date and amount columns
-          if (i === mapping.date || i === mapping.debit || i === mapping.credit || i === mapping.amount) {
+          if (
+            i === mapping.date || i === mapping.debit || i === mapping.credit ||
+            i === mapping.amount || i === mapping.balance
+          ) {
             return null
           }
           const val = String(cell ?? '').trim()
@@ -330,6 +414,7 @@ function parseRows(
       description,
       debit: Math.abs(debit),
       credit: Math.abs(credit),
+      balance,
       raw,
     })
   })
@@ -338,9 +423,10 @@ function parseRows(
 }
 
 /**
- * Parse a date value to ISO format (YYYY-MM-DD)
+ * Parse a date value to ISO format (YYYY-MM-DD).
+ * Day-first is assumed unless the format says MM/DD/YYYY.
  */
-function parseDate(value: unknown): string {
+export function parseDate(value: unknown, format?: ImportDateFormat): string {
   if (value === null || value === undefined || value === '') {
     throw new Error('Empty date')
   }
@@ -364,7 +450,12 @@ function parseDate(value: unknown): string {
     }
   }
 
-  const str = String(value).trim()
+  let str = String(value).trim()
+
+  // US exports: swap month and day so the day-first patterns below apply
+  if (format === 'MM/DD/YYYY') {
+    str = str.replace(/^(\d{1,2})([/.-])(\d{1,2})\2/, '$3$2$1$2')
+  }
 
   // Skip if it's clearly not a date
   if (!str || str.length < 6) {
@@ -429,7 +520,7 @@ function parseDate(value: unknown): string {
 /**
  * Parse an amount value to a number
  */
-function parseAmount(value: unknown): number {
+export function parseAmount(value: unknown): number {
   if (typeof value === 'number') {
     return value
   }
@@ -468,6 +559,20 @@ function parseAmount(value: unknown): number {
   return isNaN(num) ? 0 : num
 }
 
+/**
+ * Rewrite an amount in a canonical "1234.56" form when the file's decimal
+ * separator is known, so "1.234" is not mistaken for 1.234 in French files
+ */
+function normalizeDecimal(value: string, decimalSeparator: ',' | '.'): string {
+  const thousands = decimalSeparator === ',' ? /[.\s\u00a0\u202f']/g : /[,\s\u00a0\u202f']/g
+  let normalized = value.trim().replace(thousands, '')
+  if (decimalSeparator === ',') normalized = normalized.replace(',', '.')
+  // Accounting style negatives: (12.50) or 12.50-
+  if (/^\(.*\)$/.test(normalized)) normalized = '-' + normalized.slice(1, -1)
+  if (/^[^-].*-$/.test(normalized)) normalized = '-' + normalized.slice(0, -1)
+  return normalized
+}
+
 /**
  * Convert parsed rows to Transaction objects
  * Now async to load user-learned rules from database
@@ -483,7 +588,7 @@ export async function convertToTransactions(
   const transactions = rows.map((row, index) => {
     const amount = row.credit > 0 ? row.credit : -row.debit
     const isExpense = amount < 0
-    const categoryId = categorizer.categorize(row.description, row.type, isExpense)
+    const categoryId = categorizer.categorize(row.description, row.type, isExpense, { amount, date: row.date })
     const detectedType = categorizer.detectType(row.description) as TransactionType
 
     const transaction = {
@@ -495,8 +600,10 @@ export async function convertToTransactions(
       category: categoryId || 'other',
       importId,
       originalRow: index + 2,
+      externalId: row.externalId,
       isManuallyEdited: false,
       source: 'import' as const,
+      status: getImportedStatus(row.date),
       createdAt: now,
       updatedAt: now,
     }
@@ -0,0 +1,175 @@
+import { db, journal, journalService } from '@services/db'
+import { resetCategorizer } from '@services/categorizer'
+import { TABLE_LABELS } from '@utils/constants'
+import type { JournalChange, JournalEntry } from '@/types'
+
+export interface HistoryResult {
+  entry: JournalEntry
+  applied: number // Records put back as they were
+  skipped: number // Records edited again since, left as they are
+}
+
+// Touched by every service write, not worth showing or comparing
+const IGNORED_FIELDS = new Set(['updatedAt'])
+
+export function getTableLabel(table: string): string {
+  return TABLE_LABELS[table] ?? table
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Fields whose value differs between the before and after images
+ */
+export function getChangedFields(change: JournalChange): string[] {
+  const before = change.before ?? {}
+  const after = change.after ?? {}
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+  return Array.from(fields).filter(field => !IGNORED_FIELDS.has(field) && !isSame(before[field], after[field]))
+}
+
+/**
+ * Label of an entry: the action that caused it, or a count of its changes per table
+ */
+export function describeEntry(entry: JournalEntry): string {
+  if (entry.label) return entry.label
+
+  const byTable = new Map<string, { created: number; updated: number; deleted: number }>()
+  for (const change of entry.changes) {
+    const counts = byTable.get(change.table) ?? { created: 0, updated: 0, deleted: 0 }
+    if (!change.before) counts.created++
+    else if (!change.after) counts.deleted++
+    else counts.updated++
+    byTable.set(change.table, counts)
+  }
+
+  return Array.from(byTable.entries())
+    .map(([table, { created, updated, deleted }]) => {
+      const parts = [
+        created > 0 && `${created} création(s)`,
+        updated > 0 && `${updated} modification(s)`,
+        deleted > 0 && `${deleted} suppression(s)`,
+      ].filter(Boolean)
+      return `${getTableLabel(table)} : ${parts.join(', ')}`
+    })
+    .join(' · ')
+}
+
+// Everything but the ignored fields is as the journal left it
+function isUnchangedSince(record: Record<string, unknown>, image: Record<string, unknown>): boolean {
+  const fields = new Set([...Object.keys(record), ...Object.keys(image)])
+  return Array.from(fields).every(field => IGNORED_FIELDS.has(field) || isSame(record[field], image[field]))
+}
+
+/**
+ * Bring the records of an entry back to their before (undo) or after (redo) image.
+ * A field edited again since the entry keeps its newer value.
+ */
+async function applyChanges(changes: JournalChange[], target: 'before' | 'after') {
+  let applied = 0
+  let skipped = 0
+  // Undo walks back from the last write
+  const ordered = target === 'before' ? [...changes].reverse() : changes
+
+  for (const change of ordered) {
+    const table = db.table(change.table)
+    const from = target === 'before' ? change.after : change.before
+    const to = target === 'before' ? change.before : change.after
+    const current = await table.get(change.id) as Record<string, unknown> | undefined
+
+    if (!to) {
+      // Created by the entry: removed unless edited since
+      if (!current) continue
+      if (from && !isUnchangedSince(current, from)) {
+        skipped++
+        continue
+      }
+      await table.delete(change.id)
+    } else if (!from) {
+      // Deleted by the entry: back unless created again since
+      if (current) {
+        skipped++
+        continue
+      }
+      await table.put(to)
+    } else if (!current) {
+      // Updated by the entry, deleted by a later one
+      skipped++
+      continue
+    } else {
+      const updates: Record<string, unknown> = {}
+      let conflict = false
+      for (const field of getChangedFields(change)) {
+        if (isSame(current[field], from[field])) {
+          updates[field] = to[field]
+        } else {
+          conflict = true
+        }
+      }
+      if (Object.keys(updates).length > 0) {
+        await table.update(change.id, updates)
+      }
+      if (conflict) {
+        skipped++
+        continue
+      }
+    }
+    applied++
+  }
+
+  if (changes.some(c => c.table === 'rules')) {
+    resetCategorizer() // Pick up the restored rules
+  }
+  return { applied, skipped }
+}
+
+/**
+ * Undo the latest entry not undone yet (Ctrl+Z)
+ */
+export async function undoLast(): Promise<HistoryResult | null> {
+  const entries = await journalService.getAll()
+  const entry = entries.find(e => !e.undoneAt)
+  if (!entry) return null
+
+  const result = await journal.skip(() => applyChanges(entry.changes, 'before'))
+  await journalService.update(entry.id, { undoneAt: new Date().toISOString() })
+  return { entry, ...result }
+}
+
+/**
+ * Redo the latest undone entry (Ctrl+Shift+Z), until a new write ends the redo stack
+ */
+export async function redoLast(): Promise<HistoryResult | null> {
+  const entries = await journalService.getAll()
+  const entry = entries
+    .filter(e => e.undoneAt)
+    .sort((a, b) => b.undoneAt!.localeCompare(a.undoneAt!))[0]
+  if (!entry) return null
+
+  const result = await journal.skip(() => applyChanges(entry.changes, 'after'))
+  await journalService.update(entry.id, { undoneAt: undefined })
+  return { entry, ...result }
+}
+
+/**
+ * Revert a single entry from the history, whatever came after it.
+ * The revert is journaled itself, so it can be undone too.
+ */
+export async function revertEntry(id: string): Promise<HistoryResult> {
+  const entry = await journalService.get(id)
+  if (!entry) {
+    throw new Error('Modification introuvable')
+  }
+  if (entry.undoneAt || entry.revertedAt) {
+    throw new Error('Cette modification a déjà été annulée')
+  }
+
+  const result = await journal.withLabel(
+    `Annulation : ${describeEntry(entry)}`,
+    () => applyChanges(entry.changes, 'before')
+  )
+  await journalService.update(entry.id, { revertedAt: new Date().toISOString() })
+  return { entry, ...result }
+}
@@ -0,0 +1,224 @@
+import { db } from '@services/db'
+import type { Transaction } from '@/types'
+
+export type DuplicateStatus = 'new' | 'exact' | 'likely'
+
+export interface ReconciledTransaction {
+  transaction: Transaction
+  fingerprint: string
+  status: DuplicateStatus
+  match?: Transaction // Existing transaction this row collides with
+}
+
+// Bank exports often report the value date on one statement and the
+// operation date on the next, so likely duplicates may drift by a few days
+const LIKELY_DUPLICATE_WINDOW_DAYS = 3
+
+/**
+ * Normalize a description so that cosmetic differences between two exports
+ * (accents, casing, card numbers, embedded dates) don't break matching
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Remove accents
+    .toUpperCase()
+    .replace(/\d{2}\/\d{2}(\/\d{2,4})?/g, '') // Remove dates
+    .replace(/\d{6,}/g, '') // Remove long numbers (refs, card numbers)
+    .replace(/CB\s*\*\s*\d+/g, 'CB') // Normalize card numbers
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+// Bank ids are only unique within the account they come from
+function externalKey(t: Transaction): string {
+  return `${t.accountId ?? ''}|${t.externalId}`
+}
+
+function dayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / 86400000
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date((dayNumber(date) + days) * 86400000).toISOString().split('T')[0]
+}
+
+/**
+ * Share of words two normalized descriptions have in common (0-1)
+ */
+function descriptionSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+  if (a.includes(b) || b.includes(a)) return 0.9
+
+  const wordsA = new Set(a.split(' ').filter(w => w.length > 2))
+  const wordsB = new Set(b.split(' ').filter(w => w.length > 2))
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+
+  let common = 0
+  for (const word of wordsA) {
+    if (wordsB.has(word)) common++
+  }
+  return common / Math.min(wordsA.size, wordsB.size)
+}
+
+/**
+ * Compute a fingerprint for each transaction: account, date, amount, normalized
+ * description and position among identical rows of the same day.
+ * The position keeps two genuine identical purchases on the same day apart,
+ * the account two identical rows of different accounts.
+ */
+export function fingerprintTransactions(transactions: Transaction[]): Map<string, string> {
+  const fingerprints = new Map<string, string>()
+  const occurrences = new Map<string, number>()
+
+  const ordered = [...transactions].sort((a, b) => {
+    const dateCompare = a.date.localeCompare(b.date)
+    if (dateCompare !== 0) return dateCompare
+    const rowCompare = (a.originalRow ?? 0) - (b.originalRow ?? 0)
+    if (rowCompare !== 0) return rowCompare
+    return a.createdAt.localeCompare(b.createdAt)
+  })
+
+  for (const t of ordered) {
+    const key = `${t.accountId ?? ''}|${t.date}|${toCents(t.amount)}|${normalizeDescription(t.description)}`
+    const position = occurrences.get(key) ?? 0
+    occurrences.set(key, position + 1)
+    fingerprints.set(t.id, `${key}|${position}`)
+  }
+
+  return fingerprints
+}
+
+/**
+ * Compare candidate transactions against existing ones and classify each
+ * candidate as an exact duplicate, a likely duplicate or a new row
+ */
+export function reconcileTransactions(
+  candidates: Transaction[],
+  existing: Transaction[]
+): ReconciledTransaction[] {
+  const candidateFingerprints = fingerprintTransactions(candidates)
+  const existingFingerprints = fingerprintTransactions(existing)
+
+  const existingByFingerprint = new Map<string, Transaction>()
+  const existingByExternalId = new Map<string, Transaction>()
+  for (const t of existing) {
+    existingByFingerprint.set(existingFingerprints.get(t.id)!, t)
+    if (t.externalId) existingByExternalId.set(externalKey(t), t)
+  }
+
+  // Each existing transaction can only explain one candidate
+  const claimed = new Set<string>()
+  const results = new Map<string, ReconciledTransaction>()
+
+  // 1. Exact matches first, so they can't be stolen by a fuzzy match.
+  // A bank-provided id (FITID) wins over the fingerprint when both sides have one.
+  for (const t of candidates) {
+    const fingerprint = candidateFingerprints.get(t.id)!
+    const match = t.externalId
+      ? existingByExternalId.get(externalKey(t)) ?? existingByFingerprint.get(fingerprint)
+      : existingByFingerprint.get(fingerprint)
+    if (match && !claimed.has(match.id)) {
+      claimed.add(match.id)
+      results.set(t.id, { transaction: t, fingerprint, status: 'exact', match })
+    }
+  }
+
+  // 2. Likely matches: same account and amount, close date, similar description
+  for (const t of candidates) {
+    if (results.has(t.id)) continue
+    const fingerprint = candidateFingerprints.get(t.id)!
+    const cents = toCents(t.amount)
+    const day = dayNumber(t.date)
+    const description = normalizeDescription(t.description)
+
+    let best: { match: Transaction; score: number } | null = null
+
+    for (const e of existing) {
+      if (claimed.has(e.id) || e.accountId !== t.accountId || toCents(e.amount) !== cents) continue
+
+      const dayGap = Math.abs(dayNumber(e.date) - day)
+      if (dayGap > LIKELY_DUPLICATE_WINDOW_DAYS) continue
+
+      const similarity = descriptionSimilarity(description, normalizeDescription(e.description))
+      // Same day and amount is suspicious even when the label changed
+      if (similarity < 0.5 && dayGap > 0) continue
+
+      const score = similarity - dayGap * 0.1
+      if (!best || score > best.score) {
+        best = { match: e, score }
+      }
+    }
+
+    if (best) {
+      claimed.add(best.match.id)
+      results.set(t.id, { transaction: t, fingerprint, status: 'likely', match: best.match })
+    } else {
+      results.set(t.id, { transaction: t, fingerprint, status: 'new' })
+    }
+  }
+
+  // Keep the candidates' original order
+  return candidates.map(t => results.get(t.id)!)
+}
+
+// Existing transactions that may collide with the candidates: same period
+// (with the likely-duplicate margin) or same bank id
+async function loadExistingFor(candidates: Transaction[]): Promise<Transaction[]> {
+  const dates = candidates.map(t => t.date).sort()
+  const start = shiftDate(dates[0], -LIKELY_DUPLICATE_WINDOW_DAYS)
+  const end = shiftDate(dates[dates.length - 1], LIKELY_DUPLICATE_WINDOW_DAYS)
+
+  const inPeriod = await db.transactions
+    .where('date')
+    .between(start, end, true, true)
+    .toArray()
+
+  // Bank ids catch re-imports even when the bank shifted the booking date
+  const externalIds = candidates.map(t => t.externalId).filter((id): id is string => !!id)
+  const byExternalId = externalIds.length > 0
+    ? await db.transactions.where('externalId').anyOf(externalIds).toArray()
+    : []
+
+  const existing = new Map(inPeriod.map(t => [t.id, t]))
+  for (const t of byExternalId) {
+    existing.set(t.id, t)
+  }
+  // Scheduled entries are not bank data, they are merged with their bank line after the import
+  return Array.from(existing.values()).filter(t => t.status !== 'scheduled')
+}
+
+/**
+ * Load the existing transactions overlapping the candidates' period
+ * and reconcile the candidates against them
+ */
+export async function reconcileWithExisting(candidates: Transaction[]): Promise<ReconciledTransaction[]> {
+  if (candidates.length === 0) return []
+  return reconcileTransactions(candidates, await loadExistingFor(candidates))
+}
+
+/**
+ * Reconcile several files imported together in a single pass: each group is
+ * compared with the stored transactions and with the new rows of the groups
+ * before it, so overlapping exports in the same queue are caught too
+ */
+export async function reconcileQueue(groups: Transaction[][]): Promise<ReconciledTransaction[][]> {
+  const all = groups.flat()
+  if (all.length === 0) return groups.map(() => [])
+
+  const existing = await loadExistingFor(all)
+  return groups.map(group => {
+    const reconciled = reconcileTransactions(group, existing)
+    for (const r of reconciled) {
+      if (r.status === 'new') existing.push(r.transaction)
+    }
+    return reconciled
+  })
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { db } from '@services/db'
+import type { AssetAccount, AssetMovement, ImportBatch, Transaction } from '@/types'
+import { commitImportQueue, rollbackImport } from './history'
+
+const batch: ImportBatch = {
+  id: 'import-1',
+  filename: 'releve.csv',
+  importedAt: '2024-02-12T08:00:00.000Z',
+  transactionCount: 1,
+  periodStart: '2024-02-10',
+  periodEnd: '2024-02-10',
+  status: 'completed',
+}
+
+const transaction: Transaction = {
+  id: 'out',
+  date: '2024-02-10',
+  type: 'VIREMENT_EMIS',
+  description: 'VIR VERS LIVRET A',
+  amount: -200,
+  category: 'other',
+  importId: batch.id,
+  isManuallyEdited: false,
+  source: 'import',
+  transferAssetAccountId: 'livret-a',
+  createdAt: '2024-02-12T08:00:00.000Z',
+  updatedAt: '2024-02-12T08:00:00.000Z',
+}
+
+const account: AssetAccount = {
+  id: 'livret-a',
+  name: 'Livret A',
+  type: 'livret',
+  currentBalance: 1250,
+  color: '#22c55e',
+  icon: 'PiggyBank',
+  isActive: true,
+  order: 0,
+  createdAt: '2024-01-01T08:00:00.000Z',
+  updatedAt: '2024-02-12T08:00:00.000Z',
+}
+
+function movement(id: string, amount: number, transactionId?: string): AssetMovement {
+  return {
+    id,
+    accountId: account.id,
+    date: '2024-02-10',
+    type: 'deposit',
+    amount,
+    balanceAfter: account.currentBalance,
+    transactionId,
+    createdAt: '2024-02-10T08:00:00.000Z',
+  }
+}
+
+beforeEach(async () => {
+  await db.open()
+  await commitImportQueue([{ batch, transactions: [transaction] }])
+  await db.assetAccounts.add(account)
+  await db.assetMovements.bulkAdd([movement('paid', 200, transaction.id), movement('manual', 50)])
+})
+
+afterEach(async () => {
+  db.close()
+  await db.delete()
+})
+
+describe('rollbackImport', () => {
+  it('deletes the asset movements paid by the rows of the batch', async () => {
+    const result = await rollbackImport(batch.id)
+
+    expect(result).toMatchObject({ transactions: 1, movements: 1 })
+    expect(await db.transactions.get(transaction.id)).toBeUndefined()
+    expect((await db.assetMovements.toArray()).map(m => m.id)).toEqual(['manual'])
+    expect((await db.assetAccounts.get(account.id))?.currentBalance).toBe(1050)
+    expect((await db.imports.get(batch.id))?.status).toBe('rolled-back')
+  })
+})
@@ -0,0 +1,155 @@
+import { db, transactionService, importService, assetAccountService } from '@services/db'
+import { resetCategorizer } from '@services/categorizer'
+import type { CategorizationRule, ImportBatch, ImportChange, ImportedRow, Transaction } from '@/types'
+
+export type ImportDiffStatus = 'added' | 'modified' | 'deleted'
+
+export interface ImportDiffRow {
+  status: ImportDiffStatus
+  imported: ImportedRow
+  current?: Transaction
+  changedFields: (keyof ImportedRow)[]
+}
+
+export interface RollbackResult {
+  transactions: number // Rows of the batch removed
+  restored: number // Older transactions and rules put back as they were
+  rules: number // Learned rules deleted
+  movements: number // Asset movements of its transfers deleted
+}
+
+function toImportedRow(t: Transaction): ImportedRow {
+  return { id: t.id, date: t.date, description: t.description, amount: t.amount, category: t.category }
+}
+
+export interface QueuedImport {
+  batch: ImportBatch
+  transactions: Transaction[]
+}
+
+/**
+ * Store several batches (files or sheets imported together) in a single
+ * database transaction: either the whole queue is saved or nothing is
+ */
+export async function commitImportQueue(queue: QueuedImport[]): Promise<number> {
+  return db.transaction('rw', [db.imports, db.transactions, db.bankAccounts], async () => {
+    let count = 0
+    for (const { batch, transactions } of queue) {
+      await importService.add(batch)
+      await transactionService.add(transactions)
+      count += transactions.length
+    }
+    return count
+  })
+}
+
+/**
+ * Mark an import as done and keep its rows as imported (after rules and
+ * transfer detection) to show what changed since
+ */
+export async function completeImport(importId: string): Promise<void> {
+  const rows = await db.transactions.where('importId').equals(importId).toArray()
+  await db.imports.update(importId, {
+    status: 'completed',
+    transactionCount: rows.length,
+    snapshot: rows.map(toImportedRow),
+  })
+}
+
+/**
+ * Rows added by a batch compared with their current state.
+ * Batches imported before snapshots existed only list their current rows.
+ */
+export function getImportDiff(batch: ImportBatch, current: Transaction[]): ImportDiffRow[] {
+  const byId = new Map(current.map(t => [t.id, t]))
+  const imported = batch.snapshot ?? current.map(toImportedRow)
+  const fields: (keyof ImportedRow)[] = ['date', 'description', 'amount', 'category']
+
+  return imported.map(row => {
+    const t = byId.get(row.id)
+    if (!t) return { status: 'deleted', imported: row, changedFields: [] }
+    const changedFields = fields.filter(field => row[field] !== t[field])
+    return {
+      status: changedFields.length > 0 ? 'modified' : 'added',
+      imported: row,
+      current: t,
+      changedFields,
+    }
+  })
+}
+
+// A record is only restored if nobody edited it again after the import
+function isUnchangedSince(record: object, change: ImportChange): boolean {
+  const values = record as Record<string, unknown>
+  return Object.entries(change.after).every(
+    ([key, value]) => JSON.stringify(values[key]) === JSON.stringify(value)
+  )
+}
+
+/**
+ * Undo an import: delete its rows, their asset movements and its balances, restore the older
+ * transactions and rules it changed, and delete the rules learned from corrections on its rows.
+ * The batch itself is kept, marked as rolled back, for the history.
+ */
+export async function rollbackImport(importId: string): Promise<RollbackResult> {
+  const batch = await db.imports.get(importId)
+  if (!batch) {
+    throw new Error('Import introuvable')
+  }
+  if (batch.status === 'rolled-back') {
+    throw new Error('Cet import a déjà été annulé')
+  }
+
+  const tables = [
+    db.transactions, db.rules, db.imports, db.balanceCheckpoints,
+    db.assetMovements, db.assetAccounts, db.balanceHistory,
+  ]
+  const result = await db.transaction('rw', tables, async () => {
+    // Movements paid by the batch's rows go with them, their account balance too
+    const rowIds = new Set(await db.transactions.where('importId').equals(importId).primaryKeys())
+    const movements = await db.assetMovements.filter(m => m.transactionId !== undefined && rowIds.has(m.transactionId)).toArray()
+    for (const movement of movements) {
+      const account = await db.assetAccounts.get(movement.accountId)
+      if (account) {
+        await assetAccountService.updateBalance(account.id, account.currentBalance - movement.amount)
+      }
+    }
+    await db.assetMovements.bulkDelete(movements.map(m => m.id))
+
+    const transactions = await transactionService.deleteByImport(importId)
+    await db.balanceCheckpoints.where('importId').equals(importId).delete()
+
+    // Latest first, so a record changed twice gets its oldest value back
+    let restored = 0
+    for (const change of [...(batch.changes ?? [])].reverse()) {
+      if (change.deleted) {
+        // A scheduled entry merged into one of the batch's rows comes back
+        if (await db.transactions.get(change.id)) continue
+        await db.transactions.add(change.before as unknown as Transaction)
+      } else if (change.table === 'rules') {
+        const rule = await db.rules.get(change.id)
+        if (!rule || !isUnchangedSince(rule, change)) continue
+        await db.rules.update(change.id, change.before as Partial<CategorizationRule>)
+      } else {
+        const t = await db.transactions.get(change.id)
+        if (!t || !isUnchangedSince(t, change)) continue
+        await db.transactions.update(change.id, change.before as Partial<Transaction>)
+      }
+      restored++
+    }
+
+    const rules = await db.rules
+      .filter(r => r.importId === importId && r.source !== 'user')
+      .delete()
+
+    await db.imports.update(importId, {
+      status: 'rolled-back',
+      rolledBackAt: new Date().toISOString(),
+    })
+
+    return { transactions, restored, rules, movements: movements.length }
+  })
+
+  resetCategorizer()
+  return result
+}
@@ -0,0 +1,22 @@
+export {
+  normalizeDescription,
+  fingerprintTransactions,
+  reconcileTransactions,
+  reconcileWithExisting,
+  reconcileQueue,
+} from './dedupe'
+export type { DuplicateStatus, ReconciledTransaction } from './dedupe'
+
+export {
+  STATEMENT_PARSERS,
+  ACCEPTED_EXTENSIONS,
+  detectStatementParser,
+  parseStatementFile,
+  parseStatementSources,
+} from './parsers'
+export type { StatementParser } from './parsers'
+
+export { headerSignature } from './profiles'
+
+export { commitImportQueue, completeImport, getImportDiff, rollbackImport } from './history'
+export type { ImportDiffRow, ImportDiffStatus, QueuedImport, RollbackResult } from './history'
@@ -0,0 +1,161 @@
+import type { ParsedRow, ParseResult, ParseError, StatementBalance } from '@services/excel/parser'
+import { parseAmount } from '@services/excel/parser'
+import { decodeText } from './encoding'
+
+// Booked balances: the opening one is the balance before the day it is dated, the others after it
+const OPENING_BALANCE_CODES = ['OPBD']
+const CLOSING_BALANCE_CODES = ['PRCD', 'ITBD', 'CLBD']
+
+/**
+ * Parse an ISO 20022 CAMT.053 bank-to-customer statement.
+ * Each <Ntry> becomes a row; the account servicer reference is kept as externalId.
+ * The booked balances of each statement (<Bal>) become checkpoints.
+ */
+export async function parseCamtFile(file: File): Promise<ParseResult> {
+  const text = decodeText(await file.arrayBuffer())
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return {
+      rows: [],
+      headers: [],
+      errors: [{ row: 0, field: 'file', message: 'Fichier XML invalide', value: null }],
+      detectedMapping: {},
+      filename: file.name,
+      format: 'camt053',
+    }
+  }
+
+  const rows: ParsedRow[] = []
+  const errors: ParseError[] = []
+
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'Ntry'))
+
+  entries.forEach((entry, index) => {
+    const rowNum = index + 1
+
+    // Booked entries only: pending (PDNG) entries will come back once booked
+    const status = textAt(entry, 'Sts', 'Cd') || textAt(entry, 'Sts')
+    if (status && status !== 'BOOK') return
+
+    const rawDate = textAt(entry, 'BookgDt', 'Dt') || textAt(entry, 'BookgDt', 'DtTm')
+      || textAt(entry, 'ValDt', 'Dt') || textAt(entry, 'ValDt', 'DtTm')
+    const date = rawDate.match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+    if (!date) {
+      errors.push({ row: rowNum, field: 'date', message: 'Date invalide', value: rawDate })
+      return
+    }
+
+    const rawAmount = textAt(entry, 'Amt')
+    if (!rawAmount) {
+      errors.push({ row: rowNum, field: 'amount', message: 'Montant manquant', value: null })
+      return
+    }
+    const amount = Math.abs(parseAmount(rawAmount))
+    const isDebit = textAt(entry, 'CdtDbtInd') === 'DBIT'
+
+    // Counterparty: the creditor when we pay, the debtor when we receive
+    const counterparty = isDebit
+      ? textAt(entry, 'NtryDtls', 'TxDtls', 'RltdPties', 'Cdtr', 'Nm')
+        || textAt(entry, 'NtryDtls', 'TxDtls', 'RltdPties', 'Cdtr', 'Pty', 'Nm')
+      : textAt(entry, 'NtryDtls', 'TxDtls', 'RltdPties', 'Dbtr', 'Nm')
+        || textAt(entry, 'NtryDtls', 'TxDtls', 'RltdPties', 'Dbtr', 'Pty', 'Nm')
+    const remittance = textAt(entry, 'NtryDtls', 'TxDtls', 'RmtInf', 'Ustrd')
+    const additional = textAt(entry, 'AddtlNtryInf') || textAt(entry, 'NtryDtls', 'TxDtls', 'AddtlTxInf')
+
+    const description = [additional, counterparty, remittance]
+      .filter((part, i, parts) => part && !parts.slice(0, i).some(p => p.includes(part)))
+      .join(' ')
+      .trim() || `Transaction du ${date}`
+
+    const bankCode = textAt(entry, 'BkTxCd', 'Prtry', 'Cd')
+      || textAt(entry, 'BkTxCd', 'Domn', 'Fmly', 'SubFmlyCd')
+
+    const externalId = textAt(entry, 'AcctSvcrRef')
+      || textAt(entry, 'NtryRef')
+      || textAt(entry, 'NtryDtls', 'TxDtls', 'Refs', 'AcctSvcrRef')
+      || textAt(entry, 'NtryDtls', 'TxDtls', 'Refs', 'EndToEndId')
+
+    rows.push({
+      date,
+      type: bankCode,
+      description,
+      debit: isDebit ? amount : 0,
+      credit: isDebit ? 0 : amount,
+      externalId: externalId && externalId !== 'NOTPROVIDED' ? externalId : undefined,
+      raw: {
+        BookgDt: rawDate,
+        Amt: rawAmount,
+        CdtDbtInd: isDebit ? 'DBIT' : 'CRDT',
+        AcctSvcrRef: externalId,
+        AddtlNtryInf: additional,
+        Counterparty: counterparty,
+        Ustrd: remittance,
+      },
+    })
+  })
+
+  if (entries.length === 0) {
+    errors.push({ row: 0, field: 'file', message: 'Aucune opération trouvée dans le relevé CAMT.053', value: null })
+  }
+
+  return {
+    rows,
+    headers: [],
+    errors,
+    detectedMapping: {},
+    filename: file.name,
+    format: 'camt053',
+    balances: readBalances(doc),
+  }
+}
+
+/**
+ * End-of-day booked balances of the statements. Available balances may count
+ * operations still pending, they are left out.
+ */
+function readBalances(doc: Document): StatementBalance[] {
+  const byDate = new Map<string, number>()
+  const balances = Array.from(doc.getElementsByTagNameNS('*', 'Bal'))
+    // Closing balances come last, they win over an opening balance of the next day
+    .sort((a, b) => Number(CLOSING_BALANCE_CODES.includes(balanceCode(a))) - Number(CLOSING_BALANCE_CODES.includes(balanceCode(b))))
+
+  for (const element of balances) {
+    const code = balanceCode(element)
+    const isOpening = OPENING_BALANCE_CODES.includes(code)
+    if (!isOpening && !CLOSING_BALANCE_CODES.includes(code)) continue
+
+    const rawDate = textAt(element, 'Dt', 'Dt') || textAt(element, 'Dt', 'DtTm')
+    const day = rawDate.match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+    const rawAmount = textAt(element, 'Amt')
+    if (!day || !rawAmount) continue
+
+    const amount = Math.abs(parseAmount(rawAmount))
+    const balance = textAt(element, 'CdtDbtInd') === 'DBIT' ? -amount : amount
+    byDate.set(isOpening ? previousDay(day) : day, balance)
+  }
+
+  return Array.from(byDate, ([date, balance]) => ({ date, balance })).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function balanceCode(element: Element): string {
+  return textAt(element, 'Tp', 'CdOrPrtry', 'Cd') || textAt(element, 'Tp', 'CdOrPrtry', 'Prtry')
+}
+
+function previousDay(date: string): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().split('T')[0]
+}
+
+/**
+ * Follow a path of child element local names (namespace-agnostic)
+ * and return the trimmed text of the last one
+ */
+function textAt(element: Element, ...path: string[]): string {
+  let current: Element | undefined = element
+  for (const name of path) {
+    current = Array.from(current.children).find(child => child.localName === name)
+    if (!current) return ''
+  }
+  return current.textContent?.trim() ?? ''
+}
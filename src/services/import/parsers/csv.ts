@@ -0,0 +1,193 @@
+import {
+  findHeaderRow,
+  detectColumnMapping,
+  parseRows,
+  type ParseResult,
+  type ColumnMapping,
+} from '@services/excel/parser'
+import { decodeText } from './encoding'
+
+const DELIMITER_CANDIDATES = [';', ',', '\t', '|']
+
+/**
+ * Parse a delimited text export (CSV, TSV...).
+ * Encoding, delimiter, quote style and number format are detected, then the
+ * rows go through the same header/column detection as Excel files.
+ */
+export async function parseCsvFile(file: File): Promise<ParseResult> {
+  const text = decodeText(await file.arrayBuffer())
+  const delimiter = detectDelimiter(text)
+  const quote = detectQuote(text, delimiter)
+  const table = tokenize(text, delimiter, quote)
+
+  if (table.length < 2) {
+    return {
+      rows: [],
+      headers: [],
+      errors: [{ row: 0, field: 'file', message: 'Le fichier est vide ou invalide', value: null }],
+      detectedMapping: {},
+      filename: file.name,
+      format: 'csv',
+    }
+  }
+
+  const headerRowIndex = findHeaderRow(table)
+  const headers = table[headerRowIndex].map(h => h.trim())
+  const mapping = detectColumnMapping(headers)
+  const dataRows = table.slice(headerRowIndex + 1)
+
+  const decimalSeparator = detectDecimalSeparator(dataRows, mapping)
+  const { rows, errors } = parseRows(dataRows, mapping, headers, { decimalSeparator })
+
+  return {
+    rows,
+    headers,
+    errors,
+    detectedMapping: mapping,
+    filename: file.name,
+    format: 'csv',
+    dataRows,
+    decimalSeparator,
+  }
+}
+
+/**
+ * Check whether a text looks like a delimited table (used to sniff CSV files)
+ */
+export function looksLikeDelimitedText(text: string): boolean {
+  // Binary content is never CSV
+  if (text.includes('\u0000')) return false
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10)
+  if (lines.length < 2) return false
+  const delimiter = detectDelimiter(text)
+  return lines.filter(l => l.includes(delimiter)).length >= Math.min(2, lines.length)
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most consistent
+ * number of columns (ignoring delimiters inside quotes)
+ */
+function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 20)
+
+  let best = { delimiter: ';', score: 0 }
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter))
+
+    // Most frequent non-zero column count (header/title rows may differ)
+    const frequency = new Map<number, number>()
+    for (const count of counts) {
+      if (count > 0) frequency.set(count, (frequency.get(count) || 0) + 1)
+    }
+    let modeCount = 0
+    let modeLines = 0
+    for (const [count, linesWithCount] of frequency) {
+      if (linesWithCount > modeLines || (linesWithCount === modeLines && count > modeCount)) {
+        modeCount = count
+        modeLines = linesWithCount
+      }
+    }
+
+    const score = modeLines * 10 + modeCount
+    if (score > best.score) {
+      best = { delimiter, score }
+    }
+  }
+  return best.delimiter
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0
+  let inQuotes = false
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes
+    else if (char === delimiter && !inQuotes) count++
+  }
+  return count
+}
+
+/**
+ * Most exports quote with ", a few older ones with '
+ */
+function detectQuote(text: string, delimiter: string): string {
+  const d = delimiter === '|' ? '\\|' : delimiter
+  const countQuoted = (q: string) =>
+    (text.match(new RegExp(`(^|${d})${q}[^${q}\\r\\n]*${q}(?=${d}|\\r?$)`, 'gm')) || []).length
+  return countQuoted("'") > countQuoted('"') ? "'" : '"'
+}
+
+/**
+ * Split text into rows and cells (RFC 4180: quotes may wrap delimiters,
+ * line breaks, and doubled quotes)
+ */
+function tokenize(text: string, delimiter: string, quote: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === quote && text[i + 1] === quote) {
+        cell += quote
+        i++
+      } else if (char === quote) {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === quote && cell.trim() === '') {
+      cell = ''
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+/**
+ * Decide the number locale from the amount columns:
+ * "1 234,56" / "-12,50" (French) vs "1,234.56" / "-12.50"
+ */
+function detectDecimalSeparator(rows: string[][], mapping: ColumnMapping): ',' | '.' {
+  const columns = [mapping.amount, mapping.debit, mapping.credit]
+    .filter((col): col is number => col !== undefined)
+
+  let comma = 0
+  let dot = 0
+  for (const row of rows) {
+    for (const col of columns) {
+      const value = (row[col] ?? '').trim()
+      if (/,\d{1,2}$/.test(value)) comma++
+      else if (/\.\d{1,2}$/.test(value)) dot++
+      // "1.234,5" or "1,234.5": the last separator is the decimal one
+      else if (/\.\d{3},/.test(value)) comma++
+      else if (/,\d{3}\./.test(value)) dot++
+    }
+  }
+
+  // French banks are the common case
+  return dot > comma ? '.' : ','
+}
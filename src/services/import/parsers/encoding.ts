@@ -0,0 +1,38 @@
+/**
+ * Decode a statement file to text.
+ * French banks still export a lot of files in Windows-1252, so when the
+ * content is not valid UTF-8 we fall back to that encoding.
+ */
+export function decodeText(buffer: ArrayBuffer, declaredCharset?: string): string {
+  const bytes = new Uint8Array(buffer)
+
+  // Byte order marks
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3))
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes.subarray(2))
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes.subarray(2))
+  }
+
+  if (declaredCharset && /1252|latin|8859/i.test(declaredCharset)) {
+    return new TextDecoder('windows-1252').decode(bytes)
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes)
+  }
+}
+
+/**
+ * Read the beginning of a file as text, used to sniff its format
+ */
+export async function readHead(file: File, size = 2048): Promise<{ text: string; bytes: Uint8Array }> {
+  const buffer = await file.slice(0, size).arrayBuffer()
+  const bytes = new Uint8Array(buffer)
+  return { text: new TextDecoder('utf-8').decode(bytes), bytes }
+}
@@ -0,0 +1,93 @@
+import { parseExcelFile, parseExcelSheets, type ParseResult, type StatementFormat } from '@services/excel/parser'
+import { parseOfxFile } from './ofx'
+import { parseQifFile } from './qif'
+import { parseCamtFile } from './camt'
+import { parseCsvFile, looksLikeDelimitedText } from './csv'
+import { readHead, decodeText } from './encoding'
+
+export interface StatementParser {
+  format: StatementFormat
+  label: string
+  extensions: string[]
+  // Recognize the format from the first bytes of the file
+  sniff: (head: string, bytes: Uint8Array) => boolean
+  parse: (file: File) => Promise<ParseResult>
+}
+
+// Order matters: the first parser whose sniff() matches wins
+export const STATEMENT_PARSERS: StatementParser[] = [
+  {
+    format: 'excel',
+    label: 'Excel',
+    extensions: ['.xlsx', '.xls'],
+    // XLSX is a zip archive, XLS an OLE2 compound document
+    sniff: (_head, bytes) =>
+      (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) ||
+      (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0),
+    parse: parseExcelFile,
+  },
+  {
+    format: 'ofx',
+    label: 'OFX / QFX',
+    extensions: ['.ofx', '.qfx'],
+    sniff: (head) => /OFXHEADER|<OFX>/i.test(head),
+    parse: parseOfxFile,
+  },
+  {
+    format: 'camt053',
+    label: 'CAMT.053',
+    extensions: ['.xml'],
+    sniff: (head) => /camt\.053|<(\w+:)?BkToCstmrStmt/i.test(head),
+    parse: parseCamtFile,
+  },
+  {
+    format: 'qif',
+    label: 'QIF',
+    extensions: ['.qif'],
+    sniff: (head) => /^\s*!(Type|Account|Option)/i.test(head),
+    parse: parseQifFile,
+  },
+  {
+    format: 'csv',
+    label: 'CSV',
+    extensions: ['.csv', '.txt'],
+    // Last resort: any text with a consistent delimiter
+    sniff: (_head, bytes) => looksLikeDelimitedText(decodeText(bytes.slice().buffer)),
+    parse: parseCsvFile,
+  },
+]
+
+export const ACCEPTED_EXTENSIONS = STATEMENT_PARSERS.flatMap(p => p.extensions)
+
+/**
+ * Pick the parser matching the file content (not its extension)
+ */
+export async function detectStatementParser(file: File): Promise<StatementParser | null> {
+  const { text, bytes } = await readHead(file)
+  return STATEMENT_PARSERS.find(p => p.sniff(text, bytes)) ?? null
+}
+
+/**
+ * Parse any supported bank statement file into ParsedRow objects
+ */
+export async function parseStatementFile(file: File): Promise<ParseResult> {
+  const parser = await detectStatementParser(file)
+  if (!parser) {
+    throw new Error(
+      `Format de fichier non reconnu. Formats acceptés: ${ACCEPTED_EXTENSIONS.join(', ')}`
+    )
+  }
+  return parser.parse(file)
+}
+
+/**
+ * Parse a statement file into one result per source: the chosen sheets of a
+ * workbook (first sheet by default), or the file itself for other formats
+ */
+export async function parseStatementSources(file: File, sheetNames?: string[]): Promise<ParseResult[]> {
+  const parser = await detectStatementParser(file)
+  if (parser?.format === 'excel') {
+    return parseExcelSheets(file, sheetNames)
+  }
+  return [await parseStatementFile(file)]
+}
@@ -0,0 +1,128 @@
+import type { ParsedRow, ParseResult, ParseError, StatementBalance } from '@services/excel/parser'
+import { parseAmount } from '@services/excel/parser'
+import { decodeText } from './encoding'
+
+/**
+ * Parse an OFX / QFX statement (OFX 1.x SGML or OFX 2.x XML).
+ * Each <STMTTRN> block becomes a row; the FITID is kept as externalId.
+ * The ledger balance (the available one when it is missing) becomes a checkpoint.
+ */
+export async function parseOfxFile(file: File): Promise<ParseResult> {
+  const buffer = await file.arrayBuffer()
+
+  // OFX 1.x declares its charset in the plain-text header
+  const header = new TextDecoder('utf-8').decode(buffer.slice(0, 512))
+  const charset = header.match(/CHARSET:\s*(\S+)/i)?.[1]
+  const text = decodeText(buffer, charset)
+
+  const rows: ParsedRow[] = []
+  const errors: ParseError[] = []
+
+  // SGML files may omit closing tags on fields but always close STMTTRN
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || []
+
+  blocks.forEach((block, index) => {
+    const rowNum = index + 1
+    const field = (tag: string) => readField(block, tag)
+
+    const rawDate = field('DTPOSTED') || field('DTUSER')
+    const date = parseOfxDate(rawDate)
+    if (!date) {
+      errors.push({ row: rowNum, field: 'date', message: 'Date invalide', value: rawDate })
+      return
+    }
+
+    const rawAmount = field('TRNAMT')
+    if (!rawAmount) {
+      errors.push({ row: rowNum, field: 'amount', message: 'Montant manquant', value: null })
+      return
+    }
+    const amount = parseAmount(rawAmount)
+
+    const name = field('NAME') || field('PAYEE')
+    const memo = field('MEMO')
+    const description = [name, memo && memo !== name ? memo : '']
+      .filter(Boolean)
+      .join(' ')
+      .trim() || `Transaction du ${date}`
+
+    rows.push({
+      date,
+      type: field('TRNTYPE'),
+      description,
+      debit: amount < 0 ? Math.abs(amount) : 0,
+      credit: amount > 0 ? amount : 0,
+      externalId: field('FITID') || undefined,
+      raw: {
+        TRNTYPE: field('TRNTYPE'),
+        DTPOSTED: rawDate,
+        TRNAMT: rawAmount,
+        FITID: field('FITID'),
+        NAME: name,
+        MEMO: memo,
+      },
+    })
+  })
+
+  if (blocks.length === 0) {
+    errors.push({ row: 0, field: 'file', message: 'Aucune opération trouvée dans le fichier OFX', value: null })
+  }
+
+  return {
+    rows,
+    headers: [],
+    errors,
+    detectedMapping: {},
+    filename: file.name,
+    format: 'ofx',
+    balances: readBalances(text),
+  }
+}
+
+/**
+ * Booked balance of each statement of the file, on its DTASOF date. The available
+ * balance may count pending operations, it is only used without a ledger balance.
+ */
+function readBalances(text: string): StatementBalance[] {
+  const byDate = new Map<string, number>()
+  // Aggregates are always closed, even in SGML files
+  const statements = text.match(/<(?:STMTRS|CCSTMTRS)>[\s\S]*?<\/(?:STMTRS|CCSTMTRS)>/gi) || []
+
+  for (const statement of statements) {
+    const block = statement.match(/<LEDGERBAL>[\s\S]*?<\/LEDGERBAL>/i)?.[0]
+      ?? statement.match(/<AVAILBAL>[\s\S]*?<\/AVAILBAL>/i)?.[0]
+    if (!block) continue
+    const date = parseOfxDate(readField(block, 'DTASOF'))
+    const rawAmount = readField(block, 'BALAMT')
+    if (!date || !rawAmount) continue
+    byDate.set(date, parseAmount(rawAmount))
+  }
+
+  return Array.from(byDate, ([date, balance]) => ({ date, balance })).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Read a field value, whether the tag is closed (XML) or not (SGML)
+ */
+function readField(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))
+  return match ? decodeEntities(match[1].trim()) : ''
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[TZ]]
+ */
+function parseOfxDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!match) return null
+  return `${match[1]}-${match[2]}-${match[3]}`
+}
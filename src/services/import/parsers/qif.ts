@@ -0,0 +1,114 @@
+import type { ParsedRow, ParseResult, ParseError } from '@services/excel/parser'
+import { parseAmount, parseDate } from '@services/excel/parser'
+import { decodeText } from './encoding'
+
+/**
+ * Parse a QIF statement.
+ * Records are separated by "^" and each line starts with a one-letter code
+ * (D = date, T/U = amount, P = payee, M = memo, N = number).
+ */
+export async function parseQifFile(file: File): Promise<ParseResult> {
+  const text = decodeText(await file.arrayBuffer())
+
+  const rows: ParsedRow[] = []
+  const errors: ParseError[] = []
+
+  const records = text
+    .split(/^\^\s*$/m)
+    .map(record => record.trim())
+    .filter(record => record.length > 0)
+
+  const parsedRecords = records.map(parseRecord)
+  const dayFirst = detectDayFirst(parsedRecords.map(fields => fields.D).filter(Boolean))
+
+  let rowNum = 0
+  for (const fields of parsedRecords) {
+    // Account blocks and other non-transaction records have no date
+    if (!fields.D) continue
+    rowNum++
+
+    let date: string
+    try {
+      date = parseDate(toDayFirst(fields.D, dayFirst))
+    } catch {
+      errors.push({ row: rowNum, field: 'date', message: 'Date invalide', value: fields.D })
+      continue
+    }
+
+    const rawAmount = fields.T ?? fields.U
+    if (!rawAmount) {
+      errors.push({ row: rowNum, field: 'amount', message: 'Montant manquant', value: null })
+      continue
+    }
+    const amount = parseAmount(rawAmount)
+
+    const description = [fields.P, fields.M && fields.M !== fields.P ? fields.M : '']
+      .filter(Boolean)
+      .join(' ')
+      .trim() || `Transaction du ${date}`
+
+    rows.push({
+      date,
+      type: fields.N || '',
+      description,
+      debit: amount < 0 ? Math.abs(amount) : 0,
+      credit: amount > 0 ? amount : 0,
+      raw: fields,
+    })
+  }
+
+  if (rowNum === 0) {
+    errors.push({ row: 0, field: 'file', message: 'Aucune opération trouvée dans le fichier QIF', value: null })
+  }
+
+  return {
+    rows,
+    headers: [],
+    errors,
+    detectedMapping: {},
+    filename: file.name,
+    format: 'qif',
+  }
+}
+
+function parseRecord(record: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  for (const line of record.split(/\r?\n/)) {
+    // Skip section headers like "!Type:Bank"
+    if (!line || line.startsWith('!')) continue
+    const code = line[0].toUpperCase()
+    if (!(code in fields)) {
+      fields[code] = line.slice(1).trim()
+    }
+  }
+  return fields
+}
+
+function splitQifDate(value: string): string[] {
+  // US-style QIF writes the year as 1/15'26
+  return value.replace(/\s+/g, '').split(/[/.'-]/)
+}
+
+/**
+ * QIF has no fixed date order: French banks write DD/MM, Quicken writes MM/DD.
+ * Look at the whole file to decide, defaulting to DD/MM.
+ */
+function detectDayFirst(dates: string[]): boolean {
+  for (const date of dates) {
+    if (date.includes("'")) return false
+    const [first, second] = splitQifDate(date).map(Number)
+    if (first > 12) return true
+    if (second > 12) return false
+  }
+  return true
+}
+
+/**
+ * Rewrite a QIF date as DD/MM/YYYY so parseDate can read it
+ */
+function toDayFirst(value: string, dayFirst: boolean): string {
+  const parts = splitQifDate(value)
+  if (parts.length !== 3 || parts[0].length === 4) return value
+  const [day, month] = dayFirst ? [parts[0], parts[1]] : [parts[1], parts[0]]
+  return `${day}/${month}/${parts[2]}`
+}
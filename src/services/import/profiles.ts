@@ -0,0 +1,16 @@
+/**
+ * Identify a bank export layout from its header row.
+ * Case, accents and spacing are ignored so "Libellé" and "LIBELLE" match.
+ */
+export function headerSignature(headers: string[]): string {
+  return headers
+    .map(header =>
+      header
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .join('|')
+}
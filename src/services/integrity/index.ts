@@ -0,0 +1,360 @@
+import { db, journal } from '@services/db'
+import { formatDate, formatMoney, getToday } from '@utils/formatters'
+import { TABLE_LABELS } from '@utils/constants'
+import type { AssetAccount, AssetMovement, BankAccount, SavingsContribution, SavingsGoal, Transaction } from '@/types'
+
+type Row = Record<string, unknown>
+
+// Category given to records whose category was deleted
+const FALLBACK_CATEGORY_ID = 'other'
+
+export interface FieldChange {
+  field: string
+  before: unknown
+  after: unknown // Undefined removes the field
+}
+
+export type RepairChange =
+  | { type: 'update'; table: string; id: string; name: string; fields: FieldChange[] }
+  | { type: 'add'; table: string; id: string; name: string; record: Row }
+  | { type: 'delete'; table: string; id: string; name: string }
+
+export interface IntegrityRepair {
+  label: string
+  changes: RepairChange[]
+}
+
+export interface IntegrityIssue {
+  key: string
+  table: string
+  recordId: string
+  name: string
+  cause: string
+  repairs: IntegrityRepair[] // The first one is the one applied by "repair all"
+}
+
+export interface IntegrityReport {
+  checkedAt: string
+  recordCount: number
+  issues: IntegrityIssue[]
+}
+
+/**
+ * A field pointing to a record of another table. `repair` is what becomes
+ * of the record when the target is gone.
+ */
+interface Reference {
+  table: string
+  field: string
+  target: string
+  label: string // What the field points to, in a sentence
+  isRequired?: boolean // A record without a value is broken as well
+  repair: 'clear' | 'delete' | 'fallback-category' | 'default-account'
+}
+
+const REFERENCES: Reference[] = [
+  { table: 'transactions', field: 'category', target: 'categories', label: 'la catégorie', isRequired: true, repair: 'fallback-category' },
+  { table: 'transactions', field: 'accountId', target: 'bankAccounts', label: 'le compte bancaire', isRequired: true, repair: 'default-account' },
+  { table: 'transactions', field: 'transferPairId', target: 'transactions', label: 'la transaction liée', repair: 'clear' },
+  { table: 'transactions', field: 'transferAssetAccountId', target: 'assetAccounts', label: 'le compte de patrimoine', repair: 'clear' },
+  { table: 'transactions', field: 'scheduleId', target: 'recurringSchedules', label: "l'échéance", repair: 'clear' },
+  { table: 'transactions', field: 'liabilityId', target: 'liabilities', label: 'le crédit', repair: 'clear' },
+  { table: 'categories', field: 'parentId', target: 'categories', label: 'la catégorie parente', repair: 'clear' },
+  { table: 'rules', field: 'categoryId', target: 'categories', label: 'la catégorie', repair: 'clear' },
+  { table: 'recurringSchedules', field: 'category', target: 'categories', label: 'la catégorie', isRequired: true, repair: 'fallback-category' },
+  { table: 'recurringSchedules', field: 'accountId', target: 'bankAccounts', label: 'le compte bancaire', repair: 'clear' },
+  { table: 'categoryBudgets', field: 'categoryId', target: 'categories', label: 'la catégorie', isRequired: true, repair: 'delete' },
+  { table: 'savingsGoals', field: 'linkedAssetAccountId', target: 'assetAccounts', label: 'le compte de patrimoine', repair: 'clear' },
+  { table: 'savingsContributions', field: 'goalId', target: 'savingsGoals', label: "l'objectif", isRequired: true, repair: 'delete' },
+  { table: 'monthlySavingsRecords', field: 'goalId', target: 'savingsGoals', label: "l'objectif", isRequired: true, repair: 'delete' },
+  { table: 'assetMovements', field: 'accountId', target: 'assetAccounts', label: 'le compte de patrimoine', isRequired: true, repair: 'delete' },
+  { table: 'assetMovements', field: 'transactionId', target: 'transactions', label: 'la transaction', repair: 'clear' },
+  { table: 'balanceCheckpoints', field: 'accountId', target: 'bankAccounts', label: 'le compte bancaire', isRequired: true, repair: 'delete' },
+]
+
+const CHECKED_TABLES = Array.from(new Set(REFERENCES.flatMap(r => [r.table, r.target])))
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function describeRecord(table: string, row: Row): string {
+  if (table === 'transactions') {
+    const t = row as unknown as Transaction
+    return `${formatDate(t.date)} · ${t.description} · ${formatMoney(t.amount)}`
+  }
+  if (table === 'assetMovements' || table === 'savingsContributions') {
+    const m = row as unknown as AssetMovement | SavingsContribution
+    return `${formatDate(m.date)} · ${formatMoney(m.amount)}`
+  }
+  const name = row.name ?? row.description ?? row.month ?? row.date
+  return typeof name === 'string' && name ? name : String(row.id)
+}
+
+function update(table: string, row: Row, fields: Record<string, unknown>): RepairChange {
+  return {
+    type: 'update',
+    table,
+    id: String(row.id),
+    name: describeRecord(table, row),
+    fields: Object.entries(fields).map(([field, after]) => ({ field, before: row[field], after })),
+  }
+}
+
+function remove(table: string, row: Row): RepairChange {
+  return { type: 'delete', table, id: String(row.id), name: describeRecord(table, row) }
+}
+
+function add(table: string, record: Row): RepairChange {
+  return { type: 'add', table, id: String(record.id), name: describeRecord(table, record), record }
+}
+
+function checkReferences(rows: Map<string, Row[]>): IntegrityIssue[] {
+  const ids = new Map(CHECKED_TABLES.map(name => [name, new Set(rows.get(name)!.map(row => String(row.id)))]))
+  const categories = rows.get('categories')!
+  const fallbackCategory = categories.find(c => c.id === FALLBACK_CATEGORY_ID)
+  // Same account as bankAccountService.getDefault
+  const defaultAccount = [...rows.get('bankAccounts')! as unknown as BankAccount[]].sort((a, b) => a.order - b.order)[0]
+
+  const issues: IntegrityIssue[] = []
+  for (const ref of REFERENCES) {
+    for (const row of rows.get(ref.table)!) {
+      const value = row[ref.field]
+      const isMissing = value === undefined || value === null || value === ''
+      if (isMissing ? !ref.isRequired : ids.get(ref.target)!.has(String(value))) continue
+
+      const repairs: IntegrityRepair[] = []
+      if (ref.repair === 'delete') {
+        repairs.push({ label: `Supprimer l'enregistrement`, changes: [remove(ref.table, row)] })
+      } else if (ref.repair === 'clear') {
+        repairs.push({ label: `Retirer le lien vers ${ref.label}`, changes: [update(ref.table, row, { [ref.field]: undefined })] })
+      } else if (ref.repair === 'fallback-category' && fallbackCategory) {
+        repairs.push({
+          label: `Classer en « ${fallbackCategory.name} »`,
+          changes: [update(ref.table, row, { [ref.field]: FALLBACK_CATEGORY_ID })],
+        })
+      } else if (ref.repair === 'default-account' && defaultAccount) {
+        repairs.push({
+          label: `Rattacher au compte « ${defaultAccount.name} »`,
+          changes: [update(ref.table, row, { [ref.field]: defaultAccount.id })],
+        })
+      }
+
+      issues.push({
+        key: `${ref.table}:${String(row.id)}:${ref.field}`,
+        table: ref.table,
+        recordId: String(row.id),
+        name: describeRecord(ref.table, row),
+        cause: isMissing
+          ? `Sans ${ref.label}`
+          : `Pointe vers ${ref.label} « ${String(value)} », qui n'existe plus dans ${TABLE_LABELS[ref.target] ?? ref.target}`,
+        repairs,
+      })
+    }
+  }
+
+  // Categories of the parts of split transactions
+  const categoryIds = ids.get('categories')!
+  for (const row of rows.get('transactions')! as unknown as Transaction[]) {
+    const missing = (row.splits ?? []).filter(split => !categoryIds.has(split.category))
+    if (missing.length === 0) continue
+
+    const splits = row.splits!.map(split => categoryIds.has(split.category) ? split : { ...split, category: FALLBACK_CATEGORY_ID })
+    issues.push({
+      key: `transactions:${row.id}:splits`,
+      table: 'transactions',
+      recordId: row.id,
+      name: describeRecord('transactions', row as unknown as Row),
+      cause: `${missing.length} part(s) de la répartition pointent vers une catégorie qui n'existe plus (${missing.map(s => s.category).join(', ')})`,
+      repairs: fallbackCategory
+        ? [{ label: `Classer ces parts en « ${fallbackCategory.name} »`, changes: [update('transactions', row as unknown as Row, { splits })] }]
+        : [],
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Movements of an asset account carry the balance after them: each one should follow
+ * the previous by its amount, and the last one should match the account's balance
+ */
+function checkAssetBalances(accounts: AssetAccount[], movements: AssetMovement[]): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = []
+
+  for (const account of accounts) {
+    const list = movements
+      .filter(m => m.accountId === account.id)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+    if (list.length === 0) continue
+
+    // Balances recomputed from the first movement
+    let runningCents = toCents(list[0].balanceAfter)
+    const drifted: RepairChange[] = []
+    for (const movement of list.slice(1)) {
+      runningCents += toCents(movement.amount)
+      if (toCents(movement.balanceAfter) !== runningCents) {
+        drifted.push(update('assetMovements', movement as unknown as Row, { balanceAfter: runningCents / 100 }))
+      }
+    }
+    if (drifted.length > 0) {
+      issues.push({
+        key: `assetAccounts:${account.id}:movements`,
+        table: 'assetAccounts',
+        recordId: account.id,
+        name: account.name,
+        cause: `${drifted.length} mouvement(s) dont le solde après opération ne suit pas les montants des mouvements précédents`,
+        repairs: [{ label: 'Recalculer les soldes des mouvements', changes: drifted }],
+      })
+    }
+
+    const gapCents = toCents(account.currentBalance) - runningCents
+    if (gapCents === 0) continue
+
+    const now = new Date().toISOString()
+    const adjustment: AssetMovement = {
+      id: crypto.randomUUID(),
+      accountId: account.id,
+      date: getToday(),
+      amount: gapCents / 100,
+      type: 'adjustment',
+      description: 'Ajustement (diagnostic)',
+      balanceAfter: account.currentBalance,
+      createdAt: now,
+    }
+    issues.push({
+      key: `assetAccounts:${account.id}:currentBalance`,
+      table: 'assetAccounts',
+      recordId: account.id,
+      name: account.name,
+      cause: `Le solde du compte (${formatMoney(account.currentBalance)}) diffère du solde après le dernier mouvement (${formatMoney(runningCents / 100)})`,
+      repairs: [
+        { label: `Ajouter un mouvement d'ajustement de ${formatMoney(gapCents / 100)}`, changes: [add('assetMovements', adjustment as unknown as Row)] },
+        {
+          label: `Ramener le solde du compte à ${formatMoney(runningCents / 100)}`,
+          changes: [update('assetAccounts', account as unknown as Row, { currentBalance: runningCents / 100, updatedAt: now })],
+        },
+      ],
+    })
+  }
+
+  return issues
+}
+
+/**
+ * A goal's amount is the sum of its contributions. Goals linked to an asset account
+ * follow the account's balance instead, and goals without contributions only hold
+ * the amount typed when they were created.
+ */
+function checkGoalAmounts(goals: SavingsGoal[], contributions: SavingsContribution[]): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = []
+
+  for (const goal of goals) {
+    if (goal.linkedAssetAccountId) continue
+    const own = contributions.filter(c => c.goalId === goal.id)
+    if (own.length === 0) continue
+
+    const totalCents = own.reduce((sum, c) => sum + toCents(c.amount), 0)
+    const gapCents = toCents(goal.currentAmount) - totalCents
+    if (gapCents === 0) continue
+
+    const now = new Date().toISOString()
+    const total = totalCents / 100
+    const adjustment: SavingsContribution = {
+      id: crypto.randomUUID(),
+      goalId: goal.id,
+      amount: gapCents / 100,
+      date: getToday(),
+      note: 'Ajustement (diagnostic)',
+      createdAt: now,
+    }
+    issues.push({
+      key: `savingsGoals:${goal.id}:currentAmount`,
+      table: 'savingsGoals',
+      recordId: goal.id,
+      name: goal.name,
+      cause: `Le montant épargné (${formatMoney(goal.currentAmount)}) diffère de la somme des ${own.length} versement(s) (${formatMoney(total)})`,
+      repairs: [
+        {
+          label: `Ramener le montant à ${formatMoney(total)}`,
+          changes: [update('savingsGoals', goal as unknown as Row, {
+            currentAmount: total,
+            isCompleted: total >= goal.targetAmount,
+            updatedAt: now,
+          })],
+        },
+        { label: `Ajouter un versement d'ajustement de ${formatMoney(gapCents / 100)}`, changes: [add('savingsContributions', adjustment as unknown as Row)] },
+      ],
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Scan the tables for broken references and amounts that disagree with the
+ * records they are computed from. Nothing is written.
+ */
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  const names = Array.from(new Set([...CHECKED_TABLES, 'savingsContributions']))
+  const rows = new Map<string, Row[]>()
+  await db.transaction('r', names, async () => {
+    for (const name of names) {
+      rows.set(name, await db.table(name).toArray())
+    }
+  })
+
+  const issues = [
+    ...checkReferences(rows),
+    ...checkAssetBalances(rows.get('assetAccounts') as unknown as AssetAccount[], rows.get('assetMovements') as unknown as AssetMovement[]),
+    ...checkGoalAmounts(rows.get('savingsGoals') as unknown as SavingsGoal[], rows.get('savingsContributions') as unknown as SavingsContribution[]),
+  ]
+
+  return {
+    checkedAt: new Date().toISOString(),
+    recordCount: Array.from(rows.values()).reduce((sum, list) => sum + list.length, 0),
+    issues,
+  }
+}
+
+/**
+ * Write repairs from a report, as one entry of the undo journal. A record changed
+ * since the scan makes the whole repair fail rather than overwrite the change.
+ */
+export async function applyRepairs(repairs: IntegrityRepair[], label: string): Promise<number> {
+  const changes = repairs.flatMap(r => r.changes)
+  const deleted = new Set<string>()
+
+  await journal.withLabel(`Diagnostic : ${label}`, async () => {
+    for (const change of changes) {
+      // Other repairs of a record deleted by a previous one
+      if (deleted.has(`${change.table}:${change.id}`)) continue
+
+      const table = db.table(change.table)
+      const current = await table.get(change.id) as Row | undefined
+      const isStale = change.type === 'add'
+        ? current !== undefined
+        : !current || (change.type === 'update' && change.fields.some(f => !isSame(current[f.field], f.before)))
+      if (isStale) {
+        throw new Error('Les données ont changé depuis le diagnostic, relancez-le')
+      }
+
+      if (change.type === 'add') {
+        await table.add(change.record)
+      } else if (change.type === 'delete') {
+        await table.delete(change.id)
+        deleted.add(`${change.table}:${change.id}`)
+      } else {
+        // Dexie removes the fields set to undefined
+        await table.update(change.id, Object.fromEntries(change.fields.map(f => [f.field, f.after])))
+      }
+    }
+  })
+
+  console.log(`🩺 Applied ${repairs.length} repair(s), ${changes.length} record(s) changed`)
+  return changes.length
+}
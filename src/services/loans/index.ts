@@ -0,0 +1,289 @@
+import { db, liabilityService } from '@services/db'
+import { addDays, addMonths, dayGap } from '@services/recurring'
+import { normalizeText } from '@services/search/query'
+import { getToday } from '@utils/formatters'
+import type { Liability, Transaction } from '@/types'
+
+// A debit pays an installment when it is this close in date and amount
+const PAYMENT_DATE_TOLERANCE_DAYS = 10
+const PAYMENT_AMOUNT_TOLERANCE = 0.01 // Share of the installment
+
+// Legal cap of the early repayment penalty (Code de la consommation, art. L313-47)
+const PENALTY_MAX_MONTHS_OF_INTEREST = 6
+const PENALTY_MAX_SHARE_OF_CAPITAL = 0.03
+
+export type LoanTerms = Pick<
+  Liability,
+  'initialAmount' | 'interestRate' | 'startDate' | 'endDate' | 'insuranceMonthly' | 'deferralMonths' | 'deferralType' | 'earlyRepayments'
+>
+
+export interface ScheduledEarlyRepayment {
+  id: string
+  date: string
+  amount: number // Capped to the capital left
+  penalty: number
+}
+
+export interface Installment {
+  number: number // From 1
+  date: string // YYYY-MM-DD
+  payment: number // Principal + interest, insurance excluded
+  principal: number // Negative when the deferred interest adds to the capital
+  interest: number // Capitalized during a total deferral, paid otherwise
+  insurance: number
+  balanceAfter: number
+  isDeferred: boolean
+  earlyRepayments: ScheduledEarlyRepayment[] // Paid since the previous installment, before this one
+}
+
+export interface LoanSummary {
+  remainingBalance: number
+  monthlyPayment: number // Next installment (or the last one), insurance excluded
+  nextInstallment?: Installment
+  paidCount: number
+  totalCount: number
+  interestPaid: number
+  insurancePaid: number
+  penaltiesPaid: number
+  totalInterest: number
+  totalCost: number // Interest, insurance and penalties over the whole loan
+  payoffDate?: string // Last installment
+}
+
+export interface InstallmentPayment {
+  installment: Installment
+  transaction?: Transaction
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+// Constant installment repaying the capital over the given number of months
+function getAnnuityCents(capitalCents: number, monthlyRate: number, months: number): number {
+  if (months <= 0) return capitalCents
+  if (monthlyRate === 0) return Math.ceil(capitalCents / months)
+  return Math.round(capitalCents * monthlyRate / (1 - Math.pow(1 + monthlyRate, -months)))
+}
+
+/**
+ * Six months of interest on the amount repaid, at most 3% of the capital left before it
+ */
+export function getLegalPenalty(amount: number, capitalBefore: number, interestRate: number): number {
+  const interest = amount * interestRate / 100 / 12 * PENALTY_MAX_MONTHS_OF_INTEREST
+  return Math.round(Math.min(interest, capitalBefore * PENALTY_MAX_SHARE_OF_CAPITAL) * 100) / 100
+}
+
+/**
+ * Number of installments from the first to the last, both included
+ */
+export function getLoanDuration(startDate: string, endDate: string): number {
+  const [startYear, startMonth] = startDate.split('-').map(Number)
+  const [endYear, endMonth] = endDate.split('-').map(Number)
+  return (endYear - startYear) * 12 + (endMonth - startMonth) + 1
+}
+
+/**
+ * Whether the liability has what the schedule needs. Without it, the remaining
+ * balance is the one typed by hand.
+ */
+export function hasLoanTerms(terms: Partial<LoanTerms>): terms is LoanTerms & Required<Pick<LoanTerms, 'initialAmount' | 'startDate' | 'endDate'>> {
+  return !!terms.initialAmount && terms.initialAmount > 0
+    && !!terms.startDate && !!terms.endDate
+    && getLoanDuration(terms.startDate, terms.endDate) > 0
+}
+
+/**
+ * Monthly installments of a fixed-rate loan, principal and interest apart. The
+ * deferral months come first, then constant installments. An early repayment comes
+ * off the capital before the next installment, and either shortens the loan or
+ * lowers the installments that follow.
+ */
+export function buildAmortizationSchedule(terms: LoanTerms): Installment[] {
+  if (!hasLoanTerms(terms)) return []
+
+  const monthlyRate = (terms.interestRate ?? 0) / 100 / 12
+  const duration = getLoanDuration(terms.startDate, terms.endDate)
+  const deferral = Math.min(Math.max(0, terms.deferralMonths ?? 0), duration - 1)
+  const insuranceCents = toCents(terms.insuranceMonthly ?? 0)
+  const repayments = [...(terms.earlyRepayments ?? [])].sort((a, b) => a.date.localeCompare(b.date))
+
+  const installments: Installment[] = []
+  let balanceCents = toCents(terms.initialAmount)
+  let paymentCents: number | undefined
+  let previousDate = ''
+
+  for (let index = 0; index < duration && balanceCents > 0; index++) {
+    const date = addMonths(terms.startDate, index)
+
+    const earlyRepayments: ScheduledEarlyRepayment[] = []
+    for (const repayment of repayments.filter(r => r.date > previousDate && r.date <= date)) {
+      const amountCents = Math.min(toCents(repayment.amount), balanceCents)
+      if (amountCents <= 0) continue
+      const penalty = repayment.penalty ?? getLegalPenalty(amountCents / 100, balanceCents / 100, terms.interestRate ?? 0)
+      earlyRepayments.push({ id: repayment.id, date: repayment.date, amount: amountCents / 100, penalty })
+      balanceCents -= amountCents
+      // Same end date: the installments are computed again on what is left
+      if (repayment.keep === 'duration') paymentCents = undefined
+    }
+    previousDate = date
+
+    const interestCents = Math.round(balanceCents * monthlyRate)
+    const isDeferred = index < deferral
+    let principalCents: number
+    let dueCents: number
+
+    if (isDeferred) {
+      const isTotal = terms.deferralType === 'total'
+      principalCents = isTotal ? -interestCents : 0
+      dueCents = isTotal ? 0 : interestCents
+    } else {
+      paymentCents ??= getAnnuityCents(balanceCents, monthlyRate, duration - index)
+      // The last installment takes what rounding left
+      principalCents = index === duration - 1
+        ? balanceCents
+        : Math.min(paymentCents - interestCents, balanceCents)
+      dueCents = principalCents + interestCents
+    }
+    balanceCents -= principalCents
+
+    installments.push({
+      number: index + 1,
+      date,
+      payment: dueCents / 100,
+      principal: principalCents / 100,
+      interest: interestCents / 100,
+      insurance: insuranceCents / 100,
+      balanceAfter: balanceCents / 100,
+      isDeferred,
+      earlyRepayments,
+    })
+  }
+
+  return installments
+}
+
+/**
+ * Where the loan stands on a date: what was paid up to it, what is left
+ */
+export function summarizeLoan(schedule: Installment[], initialAmount: number, today: string = getToday()): LoanSummary {
+  const past = schedule.filter(i => i.date <= today)
+  const next = schedule.find(i => i.date > today)
+  const last = past[past.length - 1]
+  // Early repayments already made whose installment is still ahead
+  const repaidAhead = next?.earlyRepayments.filter(r => r.date <= today) ?? []
+  const penalties = [...past.flatMap(i => i.earlyRepayments), ...repaidAhead]
+
+  const sum = (list: Installment[], pick: (i: Installment) => number) =>
+    list.reduce((total, i) => total + toCents(pick(i)), 0) / 100
+  const totalInterest = sum(schedule, i => i.interest)
+  const totalPenalties = schedule.flatMap(i => i.earlyRepayments).reduce((total, r) => total + toCents(r.penalty), 0) / 100
+
+  return {
+    remainingBalance: ((last ? toCents(last.balanceAfter) : toCents(initialAmount))
+      - repaidAhead.reduce((total, r) => total + toCents(r.amount), 0)) / 100,
+    monthlyPayment: (next ?? last)?.payment ?? 0,
+    nextInstallment: next,
+    paidCount: past.length,
+    totalCount: schedule.length,
+    interestPaid: sum(past, i => i.interest),
+    insurancePaid: sum(past, i => i.insurance),
+    penaltiesPaid: penalties.reduce((total, r) => total + toCents(r.penalty), 0) / 100,
+    totalInterest,
+    totalCost: (toCents(totalInterest) + toCents(sum(schedule, i => i.insurance)) + toCents(totalPenalties)) / 100,
+    payoffDate: schedule[schedule.length - 1]?.date,
+  }
+}
+
+/**
+ * Pair each installment with the debit that paid it, the closest in date
+ */
+export function matchInstallments(schedule: Installment[], transactions: Transaction[]): InstallmentPayment[] {
+  const left = [...transactions]
+  return schedule.map((installment) => {
+    // Nothing is debited during a total deferral without insurance
+    if (installment.payment + installment.insurance <= 0) return { installment }
+    let best = -1
+    for (let i = 0; i < left.length; i++) {
+      const gap = Math.abs(dayGap(installment.date, left[i].date))
+      if (gap <= PAYMENT_DATE_TOLERANCE_DAYS && (best === -1 || gap < Math.abs(dayGap(installment.date, left[best].date)))) {
+        best = i
+      }
+    }
+    return { installment, transaction: best === -1 ? undefined : left.splice(best, 1)[0] }
+  })
+}
+
+function isInstallmentAmount(transaction: Transaction, installment: Installment): boolean {
+  const dueCents = toCents(installment.payment + installment.insurance)
+  return Math.abs(toCents(-transaction.amount) - dueCents) <= Math.max(1, dueCents * PAYMENT_AMOUNT_TOLERANCE)
+}
+
+/**
+ * Link the bank debits paying the installments due so far to the loan: a debit of
+ * the installment's amount around its date, whose text contains the payment pattern
+ * when one is set. Returns the number of debits linked.
+ */
+export async function linkLoanPayments(liability: Liability, today: string = getToday()): Promise<number> {
+  const schedule = buildAmortizationSchedule(liability).filter(i => i.date <= today)
+  if (schedule.length === 0) return 0
+
+  const linked = await db.transactions.where('liabilityId').equals(liability.id).toArray()
+  const unpaid = matchInstallments(schedule, linked)
+    .filter(p => !p.transaction && p.installment.payment + p.installment.insurance > 0)
+    .map(p => p.installment)
+  if (unpaid.length === 0) return 0
+
+  const pattern = liability.paymentPattern ? normalizeText(liability.paymentPattern) : ''
+  const candidates = await db.transactions
+    .where('date')
+    .between(addDays(unpaid[0].date, -PAYMENT_DATE_TOLERANCE_DAYS), addDays(today, 1))
+    .filter(t => t.amount < 0
+      && !t.liabilityId
+      && (t.status ?? 'cleared') === 'cleared'
+      && (!pattern || normalizeText(t.description).includes(pattern)))
+    .toArray()
+
+  let count = 0
+  for (const installment of unpaid) {
+    const { transaction } = matchInstallments([installment], candidates.filter(t => isInstallmentAmount(t, installment)))[0]
+    if (!transaction) continue
+    await db.transactions.update(transaction.id, { liabilityId: liability.id })
+    candidates.splice(candidates.indexOf(transaction), 1)
+    count++
+  }
+  return count
+}
+
+/**
+ * Bring a loan up to date: link its new debits, and set its remaining balance
+ * and installment from the schedule
+ */
+export async function refreshLoan(liability: Liability, today: string = getToday()): Promise<number> {
+  if (!hasLoanTerms(liability)) return 0
+
+  const linked = await linkLoanPayments(liability, today)
+  const summary = summarizeLoan(buildAmortizationSchedule(liability), liability.initialAmount, today)
+  if (summary.remainingBalance !== liability.remainingBalance || summary.monthlyPayment !== liability.monthlyPayment) {
+    await liabilityService.update(liability.id, {
+      remainingBalance: summary.remainingBalance,
+      monthlyPayment: summary.monthlyPayment,
+    })
+  }
+  return linked
+}
+
+/**
+ * Refresh every active loan, run on startup as installments fall due
+ */
+export async function refreshLoans(today: string = getToday()): Promise<number> {
+  const liabilities = await liabilityService.getActive()
+  let linked = 0
+  for (const liability of liabilities) {
+    linked += await refreshLoan(liability, today)
+  }
+  if (linked > 0) {
+    console.log(`🏠 ${linked} bank debit(s) linked to loan installments`)
+  }
+  return linked
+}
@@ -0,0 +1,215 @@
+import { db, recurringScheduleService, transactionService } from '@services/db'
+import { getToday } from '@utils/formatters'
+import { SCHEDULE_FREQUENCIES } from '@/types'
+import type { RecurringSchedule, ScheduleFrequency, Transaction } from '@/types'
+
+// Expected transactions are generated this far ahead
+export const SCHEDULE_HORIZON_MONTHS = 3
+
+export type ScheduleTiming = Pick<RecurringSchedule, 'frequency' | 'interval' | 'startDate' | 'endDate'>
+
+const MONTHS_PER_STEP: Record<Exclude<ScheduleFrequency, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+}
+
+function parseDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split('-').map(Number)
+  return [year, month, day]
+}
+
+function toDateString(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = parseDate(date)
+  const result = new Date(Date.UTC(year, month - 1, day + days))
+  return toDateString(result.getUTCFullYear(), result.getUTCMonth() + 1, result.getUTCDate())
+}
+
+// The day of the month is kept, or the last day when the month is shorter (31 -> 30, 28)
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = parseDate(date)
+  const index = year * 12 + (month - 1) + months
+  const targetYear = Math.floor(index / 12)
+  const targetMonth = (index % 12) + 1
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth, 0)).getUTCDate()
+  return toDateString(targetYear, targetMonth, Math.min(day, lastDay))
+}
+
+// Always computed from the start date, so a 31st does not drift to the 28th after February
+export function getOccurrenceDate(schedule: ScheduleTiming, index: number): string {
+  const step = Math.max(1, schedule.interval) * index
+  if (schedule.frequency === 'weekly') return addDays(schedule.startDate, step * 7)
+  return addMonths(schedule.startDate, step * MONTHS_PER_STEP[schedule.frequency])
+}
+
+export function describeFrequency(schedule: Pick<RecurringSchedule, 'frequency' | 'interval'>): string {
+  const { label, unit } = SCHEDULE_FREQUENCIES[schedule.frequency]
+  return schedule.interval > 1 ? `Tous les ${schedule.interval} ${unit}` : label
+}
+
+/**
+ * Dates of the schedule between from and to, both included
+ */
+export function getOccurrences(schedule: ScheduleTiming, from: string, to: string): string[] {
+  const last = schedule.endDate && schedule.endDate < to ? schedule.endDate : to
+  const dates: string[] = []
+  for (let index = 0; ; index++) {
+    const date = getOccurrenceDate(schedule, index)
+    if (date > last) break
+    if (date >= from) dates.push(date)
+  }
+  return dates
+}
+
+export function getNextOccurrence(schedule: ScheduleTiming, today: string = getToday()): string | undefined {
+  return getOccurrences(schedule, today, addMonths(today, 12 * Math.max(1, schedule.interval)))[0]
+}
+
+function buildOccurrence(schedule: RecurringSchedule, date: string, now: string): Transaction {
+  return {
+    // The same on every device, so the occurrences each of them generates merge when they sync
+    id: `${schedule.id}:${date}`,
+    date,
+    type: schedule.amount >= 0 ? 'VIREMENT_RECU' : 'PRELEVEMENT',
+    description: schedule.description,
+    amount: schedule.amount,
+    category: schedule.category,
+    accountId: schedule.accountId,
+    importId: `schedule-${schedule.id}`,
+    isManuallyEdited: false,
+    source: 'manual',
+    status: 'scheduled',
+    scheduleId: schedule.id,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+async function generateForSchedule(schedule: RecurringSchedule, today: string): Promise<number> {
+  if (!schedule.isActive) return 0
+
+  // Past occurrences are at the bank already, only the ones ahead are expected
+  const after = schedule.generatedUntil ? addDays(schedule.generatedUntil, 1) : schedule.startDate
+  const from = after > today ? after : today
+  const horizon = addMonths(today, SCHEDULE_HORIZON_MONTHS)
+  const to = schedule.endDate && schedule.endDate < horizon ? schedule.endDate : horizon
+  if (from > to) return 0
+
+  const now = new Date().toISOString()
+  const generated = getOccurrences(schedule, from, to).map(date => buildOccurrence(schedule, date, now))
+  // Occurrences another device generated and synced here already
+  const existing = await db.transactions.bulkGet(generated.map(t => t.id))
+  const occurrences = generated.filter((_, i) => !existing[i])
+  if (occurrences.length > 0) {
+    await transactionService.add(occurrences)
+  }
+  await recurringScheduleService.update(schedule.id, { generatedUntil: to })
+  return occurrences.length
+}
+
+/**
+ * Create the expected transactions of every active schedule up to the horizon.
+ * Each schedule remembers how far it went, so an occurrence deleted or merged
+ * with its bank line is not generated again.
+ */
+export async function generateScheduledTransactions(today: string = getToday()): Promise<number> {
+  const schedules = await recurringScheduleService.getAll()
+  let count = 0
+  for (const schedule of schedules) {
+    count += await generateForSchedule(schedule, today)
+  }
+  if (count > 0) {
+    console.log(`🔁 ${count} scheduled transaction(s) generated from recurring schedules`)
+  }
+  return count
+}
+
+/**
+ * After an edit, the upcoming occurrences are replaced by the new amount, dates and category
+ */
+export async function regenerateSchedule(id: string, today: string = getToday()): Promise<number> {
+  await db.transactions
+    .where('scheduleId')
+    .equals(id)
+    .filter(t => t.status === 'scheduled')
+    .delete()
+  await recurringScheduleService.update(id, { generatedUntil: undefined })
+
+  const schedule = await db.recurringSchedules.get(id)
+  return schedule ? generateForSchedule(schedule, today) : 0
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+export function dayGap(from: string, to: string): number {
+  const [fy, fm, fd] = parseDate(from)
+  const [ty, tm, td] = parseDate(to)
+  return (Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000
+}
+
+/**
+ * Guess a schedule from the transactions of a detected recurrence: frequency from
+ * the usual gap between them, amount, category and account from the latest one,
+ * first occurrence on the next expected date
+ */
+export function inferSchedule(
+  transactions: Transaction[],
+  today: string = getToday()
+): Omit<RecurringSchedule, 'id' | 'createdAt' | 'updatedAt'> {
+  if (transactions.length === 0) throw new Error('Aucune transaction pour créer l\'échéance')
+
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date))
+  const latest = sorted[sorted.length - 1]
+  const gaps = sorted.slice(1).map((t, i) => dayGap(sorted[i].date, t.date)).filter(gap => gap > 0)
+  const gap = gaps.length > 0 ? median(gaps) : 30
+
+  let frequency: ScheduleFrequency = 'monthly'
+  let interval = 1
+  if (gap < 25) {
+    frequency = 'weekly'
+    interval = Math.max(1, Math.round(gap / 7))
+  } else if (gap < 75) {
+    interval = Math.max(1, Math.round(gap / 30))
+  } else if (gap < 135) {
+    frequency = 'quarterly'
+  } else if (gap < 270) {
+    interval = 6
+  } else {
+    frequency = 'yearly'
+  }
+
+  const timing: ScheduleTiming = { frequency, interval, startDate: latest.date }
+  const next = getOccurrences(timing, addDays(latest.date, 1), addMonths(today, 12 * interval))
+    .find(date => date >= today)
+
+  return {
+    description: latest.description,
+    amount: latest.amount,
+    category: latest.category,
+    accountId: latest.accountId,
+    frequency,
+    interval,
+    startDate: next ?? today,
+    isActive: true,
+  }
+}
+
+/**
+ * Turn a detected recurrence into a schedule and generate its expected transactions
+ */
+export async function createScheduleFromTransactions(
+  transactions: Transaction[],
+  pattern?: string
+): Promise<RecurringSchedule> {
+  const schedule = await recurringScheduleService.add({ ...inferSchedule(transactions), pattern })
+  await generateForSchedule(schedule, getToday())
+  return schedule
+}
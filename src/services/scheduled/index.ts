@@ -0,0 +1,176 @@
+import { db, transactionService, importService } from '@services/db'
+import { getToday } from '@utils/formatters'
+import type { ImportChange, Transaction, TransactionStatus } from '@/types'
+
+// A planned debit rarely hits the bank on the exact day (weekends, bank delays)
+export const SCHEDULED_WINDOW_DAYS = 7
+
+// Planned amounts are estimates (electricity bill, phone plan with extras)
+export const SCHEDULED_AMOUNT_TOLERANCE = 0.1
+
+export interface ScheduledMatch {
+  scheduled: Transaction
+  bank: Transaction
+}
+
+export interface ProjectedPoint {
+  date: string
+  balance: number
+}
+
+export function getTransactionStatus(transaction: Transaction): TransactionStatus {
+  return transaction.status ?? 'cleared'
+}
+
+/**
+ * Part of the bank balance today: neither planned, nor waiting at the bank, nor future-dated
+ */
+export function isSettled(transaction: Transaction, today: string = getToday()): boolean {
+  return getTransactionStatus(transaction) === 'cleared' && transaction.date <= today
+}
+
+/**
+ * Status of a row read from a bank export: rows dated after today are not booked yet
+ */
+export function getImportedStatus(date: string, today: string = getToday()): TransactionStatus {
+  return date > today ? 'pending' : 'cleared'
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+function dayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / 86400000
+}
+
+/**
+ * Pair scheduled entries with the bank lines that carried them out: same account,
+ * same sign, amount within the tolerance and date within the window.
+ * Closest dates and amounts are paired first.
+ */
+export function findScheduledMatches(
+  scheduled: Transaction[],
+  bankLines: Transaction[],
+  windowDays: number = SCHEDULED_WINDOW_DAYS
+): ScheduledMatch[] {
+  const candidates: (ScheduledMatch & { score: number })[] = []
+
+  for (const entry of scheduled) {
+    const expected = toCents(entry.amount)
+    if (expected === 0) continue
+    for (const bank of bankLines) {
+      if (entry.accountId && bank.accountId && entry.accountId !== bank.accountId) continue
+      const actual = toCents(bank.amount)
+      if (Math.sign(actual) !== Math.sign(expected)) continue
+      const amountGap = Math.abs(actual - expected) / Math.abs(expected)
+      if (amountGap > SCHEDULED_AMOUNT_TOLERANCE) continue
+      const dayGap = Math.abs(dayNumber(bank.date) - dayNumber(entry.date))
+      if (dayGap > windowDays) continue
+      // An exact amount is worth a few days of gap
+      candidates.push({ scheduled: entry, bank, score: dayGap + amountGap * 50 })
+    }
+  }
+
+  const claimed = new Set<string>()
+  const matches: ScheduledMatch[] = []
+  for (const { scheduled: entry, bank } of candidates.sort((a, b) => a.score - b.score)) {
+    if (claimed.has(entry.id) || claimed.has(bank.id)) continue
+    claimed.add(entry.id)
+    claimed.add(bank.id)
+    matches.push({ scheduled: entry, bank })
+  }
+  return matches
+}
+
+/**
+ * What the bank line takes from the scheduled entry: the bank keeps the date,
+ * label and amount, the entry brings what the user decided when planning it
+ */
+export function getScheduledMergeUpdates(scheduled: Transaction, bank: Transaction): Partial<Transaction> {
+  const updates: Partial<Transaction> = {}
+  if (scheduled.category !== 'other') updates.category = scheduled.category
+  if (scheduled.budgetGroup && !bank.budgetGroup) updates.budgetGroup = scheduled.budgetGroup
+  if (scheduled.budgetMonth && !bank.budgetMonth) updates.budgetMonth = scheduled.budgetMonth
+  if (scheduled.assignedTo && !bank.assignedTo) updates.assignedTo = scheduled.assignedTo
+  if (scheduled.isManuallyEdited) updates.isManuallyEdited = true
+  if (scheduled.scheduleId) updates.scheduleId = scheduled.scheduleId
+  if (scheduled.tags?.length) {
+    updates.tags = Array.from(new Set([...(bank.tags ?? []), ...scheduled.tags]))
+  }
+  // Splits only hold if the amount did not change
+  if (scheduled.splits?.length && toCents(scheduled.amount) === toCents(bank.amount)) {
+    updates.splits = scheduled.splits
+  }
+  return updates
+}
+
+/**
+ * Merge the scheduled entries carried out by the bank lines of these import batches.
+ * Each merged entry is deleted and recorded in the batch, so undoing the import
+ * brings it back. Returns the number of entries merged.
+ */
+export async function mergeScheduledTransactions(importIds: string[]): Promise<number> {
+  const scheduled = await transactionService.getScheduled()
+  if (scheduled.length === 0 || importIds.length === 0) return 0
+
+  const bankLines = (await db.transactions.where('importId').anyOf(importIds).toArray())
+    .filter(t => t.source === 'import' && getTransactionStatus(t) !== 'scheduled')
+  const matches = findScheduledMatches(scheduled, bankLines)
+  if (matches.length === 0) return 0
+
+  const changes = new Map<string, ImportChange[]>()
+  const now = new Date().toISOString()
+  await db.transaction('rw', db.transactions, async () => {
+    for (const { scheduled: entry, bank } of matches) {
+      await db.transactions.update(bank.id, { ...getScheduledMergeUpdates(entry, bank), updatedAt: now })
+      await db.transactions.delete(entry.id)
+      const batchChanges = changes.get(bank.importId) ?? []
+      batchChanges.push({ table: 'transactions', id: entry.id, before: { ...entry }, after: {}, deleted: true })
+      changes.set(bank.importId, batchChanges)
+    }
+  })
+
+  for (const [importId, batchChanges] of changes) {
+    await importService.recordChanges(importId, batchChanges)
+  }
+
+  console.log(`🗓️ ${matches.length} scheduled transaction(s) merged with their bank line`)
+  return matches.length
+}
+
+/**
+ * Pending rows found again in a newer export, now booked by the bank, become cleared
+ */
+export async function clearPendingMatches(rows: { transaction: Transaction; match?: Transaction }[]): Promise<number> {
+  const ids = rows
+    .filter(r => r.match && getTransactionStatus(r.match) === 'pending' && getTransactionStatus(r.transaction) === 'cleared')
+    .map(r => r.match!.id)
+  if (ids.length === 0) return 0
+  return db.transactions.where('id').anyOf(ids).modify({ status: 'cleared', updatedAt: new Date().toISOString() })
+}
+
+/**
+ * Balance after each day with upcoming entries (pending rows and scheduled entries),
+ * starting from the balance of today. Overdue scheduled entries count from today.
+ */
+export function projectBalance(
+  startBalance: number,
+  upcoming: Transaction[],
+  today: string = getToday()
+): ProjectedPoint[] {
+  const byDate = new Map<string, number>()
+  for (const t of upcoming) {
+    const date = t.date < today ? today : t.date
+    byDate.set(date, (byDate.get(date) ?? 0) + toCents(t.amount))
+  }
+
+  let balance = toCents(startBalance)
+  return Array.from(byDate.keys())
+    .sort()
+    .map(date => {
+      balance += byDate.get(date)!
+      return { date, balance: balance / 100 }
+    })
+}
@@ -0,0 +1,14 @@
+export {
+  parseSearchQuery,
+  filterTransactions,
+  searchTransactions,
+  hasDateRange,
+  createEmptyFilters,
+  tokenizeQuery,
+  parseDatePeriod,
+  resolveCategories,
+  normalizeText,
+} from './query'
+export type { ParsedSearch, SearchContext, SearchKey, SearchToken } from './query'
+export { getSearchSuggestions, applySuggestion, SEARCH_KEYS } from './suggestions'
+export type { SearchSuggestion, SuggestionContext, SuggestionResult } from './suggestions'
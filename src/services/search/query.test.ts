@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import type { Transaction } from '@/types'
+import { parseSearchQuery, filterTransactions } from './query'
+
+const context = { categories: [], accounts: [] }
+
+function transaction(id: string, amount: number): Transaction {
+  return {
+    id,
+    date: '2024-02-10',
+    type: 'PAIEMENT_CARTE',
+    description: `Achat ${id}`,
+    amount,
+    category: 'other',
+    importId: 'test',
+    isManuallyEdited: false,
+    source: 'import',
+    createdAt: '2024-02-10T08:00:00.000Z',
+    updatedAt: '2024-02-10T08:00:00.000Z',
+  }
+}
+
+const transactions = [
+  transaction('a', 19.97),
+  transaction('b', 19.98),
+  transaction('c', 19.99),
+  transaction('d', 20),
+  transaction('e', -19.99),
+  transaction('f', -19.98),
+]
+
+// Ids of the transactions a query keeps
+function search(query: string): string[] {
+  const { filters, errors } = parseSearchQuery(query, context)
+  expect(errors).toEqual([])
+  return filterTransactions(transactions, filters, []).map(t => t.id)
+}
+
+describe('amount comparisons', () => {
+  it('moves strict bounds by exactly one cent', () => {
+    expect(parseSearchQuery('amount<19.99', context).filters.amountRange.max).toBe(19.98)
+    expect(parseSearchQuery('amount>19.99', context).filters.amountRange.min).toBe(20)
+  })
+
+  it('keeps the cent right below a strict upper bound', () => {
+    expect(search('amount<19.99')).toEqual(['a', 'b', 'e', 'f'])
+    expect(search('amount<=19.99')).toEqual(['a', 'b', 'c', 'e', 'f'])
+  })
+
+  it('keeps the cent right above a strict lower bound', () => {
+    expect(search('amount>19.98')).toEqual(['c', 'd'])
+    expect(search('amount>=19.98')).toEqual(['b', 'c', 'd'])
+  })
+
+  it('handles the boundary of debits', () => {
+    expect(search('amount<-19.98')).toEqual(['e'])
+    expect(search('amount>-19.99')).toEqual(['a', 'b', 'c', 'd', 'f'])
+  })
+
+  it('matches an exact amount', () => {
+    expect(search('amount:19.99')).toEqual(['c'])
+  })
+})
@@ -0,0 +1,410 @@
+import { getDescendantIds } from '@services/categories'
+import { normalizeTag } from '@services/tags'
+import { DEFAULT_FILTERS, TRANSACTION_TYPE_LABELS } from '@utils/constants'
+import type { BankAccount, Category, Transaction, TransactionFilters, TransactionType } from '@/types'
+
+export type SearchKey = 'cat' | 'desc' | 'amount' | 'date' | 'person' | 'tag' | 'account' | 'type' | 'is'
+
+type Operator = ':' | '<' | '<=' | '>' | '>='
+
+export interface SearchToken {
+  text: string // As typed, quotes included
+  start: number
+  end: number
+}
+
+export interface SearchContext {
+  categories: Category[]
+  accounts: BankAccount[]
+}
+
+export interface ParsedSearch {
+  filters: TransactionFilters
+  errors: string[] // One per term that could not be read, the other terms still apply
+}
+
+// French spellings are accepted too
+const KEY_ALIASES: Record<string, SearchKey> = {
+  cat: 'cat',
+  category: 'cat',
+  categorie: 'cat',
+  desc: 'desc',
+  description: 'desc',
+  libelle: 'desc',
+  amount: 'amount',
+  montant: 'amount',
+  date: 'date',
+  person: 'person',
+  personne: 'person',
+  qui: 'person',
+  tag: 'tag',
+  account: 'account',
+  compte: 'account',
+  type: 'type',
+  is: 'is',
+  est: 'is',
+}
+
+const TERM_PATTERN = /^([a-zA-Zéè]+)(<=|>=|<|>|:)(.*)$/
+
+export function createEmptyFilters(): TransactionFilters {
+  return structuredClone(DEFAULT_FILTERS) as TransactionFilters
+}
+
+/**
+ * Lowercase, without accents: "Épargne" and "epargne" are the same word
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
+/**
+ * Split a query on spaces, keeping "quoted phrases" in one token
+ */
+export function tokenizeQuery(query: string): SearchToken[] {
+  const tokens: SearchToken[] = []
+  let start = -1
+  let inQuotes = false
+  for (let i = 0; i <= query.length; i++) {
+    const char = query[i]
+    if (i === query.length || (/\s/.test(char) && !inQuotes)) {
+      if (start !== -1) tokens.push({ text: query.slice(start, i), start, end: i })
+      start = -1
+      continue
+    }
+    if (start === -1) start = i
+    if (char === '"') inQuotes = !inQuotes
+  }
+  return tokens
+}
+
+export function unquote(value: string): string {
+  return value.replace(/^"|"$/g, '')
+}
+
+export function resolveKey(key: string): SearchKey | undefined {
+  return KEY_ALIASES[normalizeText(key)]
+}
+
+function parseAmount(value: string): number | undefined {
+  const amount = Number(value.replace(',', '.').replace(/\s|€/g, ''))
+  return value.trim() !== '' && Number.isFinite(amount) ? amount : undefined
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * First and last day of a year (2026), quarter (2026-Q2), month (2026-05) or day
+ */
+export function parseDatePeriod(value: string): { start: string; end: string } | undefined {
+  let match = value.match(/^(\d{4})$/)
+  if (match) return { start: `${match[1]}-01-01`, end: `${match[1]}-12-31` }
+
+  match = value.match(/^(\d{4})-[qQtT]([1-4])$/)
+  if (match) {
+    const year = Number(match[1])
+    const firstMonth = (Number(match[2]) - 1) * 3 + 1
+    return {
+      start: `${year}-${pad(firstMonth)}-01`,
+      end: `${year}-${pad(firstMonth + 2)}-${lastDayOfMonth(year, firstMonth + 2)}`,
+    }
+  }
+
+  match = value.match(/^(\d{4})-(\d{2})$/)
+  if (match && Number(match[2]) >= 1 && Number(match[2]) <= 12) {
+    return { start: `${value}-01`, end: `${value}-${lastDayOfMonth(Number(match[1]), Number(match[2]))}` }
+  }
+
+  match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+    if (month >= 1 && month <= 12 && day >= 1 && day <= lastDayOfMonth(year, month)) {
+      return { start: value, end: value }
+    }
+  }
+  return undefined
+}
+
+function shiftDay(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0]
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+// In whole cents: 19.99 - 0.01 in floating point is 19.979999999999997
+function shiftByCents(amount: number, cents: number): number {
+  return (toCents(amount) + cents) / 100
+}
+
+// Several amount or date terms narrow the range, they never widen it
+function narrowRange<T extends number | string>(
+  range: { min: T | null; max: T | null },
+  min: T | null,
+  max: T | null
+) {
+  if (min !== null && (range.min === null || min > range.min)) range.min = min
+  if (max !== null && (range.max === null || max < range.max)) range.max = max
+}
+
+/**
+ * Categories named by a search term: by id or name, exact matches first, then prefixes
+ */
+export function resolveCategories(value: string, categories: Category[]): string[] {
+  const wanted = normalizeText(value)
+  const exact = categories.filter(c => normalizeText(c.id) === wanted || normalizeText(c.name) === wanted)
+  if (exact.length > 0) return exact.map(c => c.id)
+  return categories
+    .filter(c => normalizeText(c.name).startsWith(wanted) || normalizeText(c.id).split('-').some(part => part.startsWith(wanted)))
+    .map(c => c.id)
+}
+
+function resolveAccounts(value: string, accounts: BankAccount[]): string[] {
+  const wanted = normalizeText(value)
+  return accounts
+    .filter(a => a.id === value || normalizeText(a.name).includes(wanted))
+    .map(a => a.id)
+}
+
+function resolveType(value: string): TransactionType | undefined {
+  const wanted = normalizeText(value).replace(/\s+/g, '_')
+  const entry = Object.entries(TRANSACTION_TYPE_LABELS).find(
+    ([type, label]) => normalizeText(type) === wanted || normalizeText(label).replace(/\s+/g, '_') === wanted
+  )
+  return entry?.[0] as TransactionType | undefined
+}
+
+/**
+ * Read a search query into filters. Terms: free words, "phrases", cat:, desc:, amount<-50,
+ * amount:10..20, date:2026-Q2, date>=2026-01-01, person:, tag: or #tag, account:, type:,
+ * is:income / is:expense. A leading '-' excludes words, categories, tags, people and accounts.
+ */
+export function parseSearchQuery(query: string, context: SearchContext): ParsedSearch {
+  const filters = createEmptyFilters()
+  const errors: string[] = []
+  const words: string[] = []
+
+  for (const { text } of tokenizeQuery(query)) {
+    const negated = text.startsWith('-') && text.length > 1
+    const term = negated ? text.slice(1) : text
+
+    if (term.startsWith('#') && term.length > 1) {
+      const tags = negated ? filters.excluded.tags : filters.tags
+      tags.push(normalizeTag(unquote(term)))
+      continue
+    }
+
+    const match = term.match(TERM_PATTERN)
+    const key = match ? resolveKey(match[1]) : undefined
+    if (!match || !key) {
+      const word = unquote(term)
+      if (!word) continue
+      if (negated) filters.excluded.terms.push(normalizeText(word))
+      else words.push(term)
+      continue
+    }
+
+    let operator = match[2] as Operator
+    let value = match[3]
+    // amount:<-50 reads like amount<-50
+    const inlineOperator = operator === ':' ? value.match(/^(<=|>=|<|>)/) : null
+    if (inlineOperator) {
+      operator = inlineOperator[1] as Operator
+      value = value.slice(operator.length)
+    }
+    value = unquote(value)
+    if (!value) {
+      errors.push(`Valeur manquante : ${text}`)
+      continue
+    }
+
+    if (negated && ['amount', 'date', 'type', 'is'].includes(key)) {
+      errors.push(`Exclusion impossible pour ${match[1]} : ${text}`)
+      continue
+    }
+    if (operator !== ':' && key !== 'amount' && key !== 'date') {
+      errors.push(`Comparaison impossible pour ${match[1]} : ${text}`)
+      continue
+    }
+
+    switch (key) {
+      case 'desc':
+        if (negated) filters.excluded.terms.push(normalizeText(value))
+        else words.push(value.includes(' ') ? `"${value}"` : value)
+        break
+
+      case 'cat': {
+        const ids = resolveCategories(value, context.categories)
+        if (ids.length === 0) errors.push(`Catégorie inconnue : ${value}`)
+        const target = negated ? filters.excluded.categories : filters.categories
+        target.push(...ids)
+        break
+      }
+
+      case 'tag': {
+        const target = negated ? filters.excluded.tags : filters.tags
+        target.push(normalizeTag(value))
+        break
+      }
+
+      case 'person': {
+        const target = negated ? filters.excluded.assignedTo : filters.assignedTo
+        target.push(value)
+        break
+      }
+
+      case 'account': {
+        const ids = resolveAccounts(value, context.accounts)
+        if (ids.length === 0) errors.push(`Compte inconnu : ${value}`)
+        const target = negated ? filters.excluded.accountIds : filters.accountIds
+        target.push(...ids)
+        break
+      }
+
+      case 'type': {
+        const type = resolveType(value)
+        if (type) filters.types.push(type)
+        else errors.push(`Type inconnu : ${value}`)
+        break
+      }
+
+      case 'is': {
+        const kind = normalizeText(value)
+        if (['income', 'revenu', 'revenus', 'credit'].includes(kind)) filters.showExpenses = false
+        else if (['expense', 'depense', 'depenses', 'debit'].includes(kind)) filters.showIncome = false
+        else errors.push(`Valeur inconnue : ${text} (income ou expense)`)
+        break
+      }
+
+      case 'amount': {
+        const [from, to] = value.split('..')
+        if (operator === ':' && to !== undefined) {
+          const min = from ? parseAmount(from) : null
+          const max = to ? parseAmount(to) : null
+          if (min === undefined || max === undefined) errors.push(`Montant invalide : ${value}`)
+          else narrowRange(filters.amountRange, min, max)
+          break
+        }
+        const amount = parseAmount(value)
+        if (amount === undefined) {
+          errors.push(`Montant invalide : ${value}`)
+          break
+        }
+        // Amounts are in euros, strict comparisons move by one cent (0.01)
+        if (operator === ':') narrowRange(filters.amountRange, amount, amount)
+        else if (operator === '<') narrowRange(filters.amountRange, null, shiftByCents(amount, -1))
+        else if (operator === '<=') narrowRange(filters.amountRange, null, amount)
+        else if (operator === '>') narrowRange(filters.amountRange, shiftByCents(amount, 1), null)
+        else narrowRange(filters.amountRange, amount, null)
+        break
+      }
+
+      case 'date': {
+        const [from, to] = value.split('..')
+        if (operator === ':' && to !== undefined) {
+          const start = from ? parseDatePeriod(from) : undefined
+          const end = to ? parseDatePeriod(to) : undefined
+          if ((from && !start) || (to && !end)) {
+            errors.push(`Date invalide : ${value}`)
+            break
+          }
+          narrowDates(filters, start?.start ?? null, end?.end ?? null)
+          break
+        }
+        const period = parseDatePeriod(value)
+        if (!period) {
+          errors.push(`Date invalide : ${value} (2026, 2026-Q2, 2026-05 ou 2026-05-14)`)
+          break
+        }
+        if (operator === ':') narrowDates(filters, period.start, period.end)
+        else if (operator === '<') narrowDates(filters, null, shiftDay(period.start, -1))
+        else if (operator === '<=') narrowDates(filters, null, period.end)
+        else if (operator === '>') narrowDates(filters, shiftDay(period.end, 1), null)
+        else narrowDates(filters, period.start, null)
+        break
+      }
+    }
+  }
+
+  filters.searchQuery = words.join(' ')
+  return { filters, errors }
+}
+
+function narrowDates(filters: TransactionFilters, start: string | null, end: string | null) {
+  const range = { min: filters.dateRange.start, max: filters.dateRange.end }
+  narrowRange(range, start, end)
+  filters.dateRange = { start: range.min, end: range.max }
+}
+
+export function hasDateRange(filters: TransactionFilters): boolean {
+  return Boolean(filters.dateRange.start || filters.dateRange.end)
+}
+
+/**
+ * Transactions matching the filters of a search. Categories include their
+ * subcategories and the split lines of a transaction.
+ */
+export function filterTransactions(
+  transactions: Transaction[],
+  filters: TransactionFilters,
+  categories: Category[]
+): Transaction[] {
+  const expandCategories = (ids: string[]) =>
+    new Set(ids.flatMap(id => getDescendantIds(categories, id)))
+  const inCategories = (t: Transaction, ids: Set<string>) =>
+    ids.has(t.category) || Boolean(t.splits?.some(s => ids.has(s.category)))
+
+  const categoryIds = filters.categories.length > 0 ? expandCategories(filters.categories) : null
+  const excludedCategoryIds = expandCategories(filters.excluded.categories)
+  const words = tokenizeQuery(filters.searchQuery).map(token => normalizeText(unquote(token.text))).filter(Boolean)
+  const people = filters.assignedTo.map(normalizeText)
+  const excludedPeople = filters.excluded.assignedTo.map(normalizeText)
+  const { start, end } = filters.dateRange
+  const { min, max } = filters.amountRange
+
+  return transactions.filter(t => {
+    if (start && t.date < start) return false
+    if (end && t.date > end) return false
+    if (min !== null && toCents(t.amount) < toCents(min)) return false
+    if (max !== null && toCents(t.amount) > toCents(max)) return false
+    if (!filters.showIncome && t.amount > 0) return false
+    if (!filters.showExpenses && t.amount < 0) return false
+    if (filters.types.length > 0 && !filters.types.includes(t.type)) return false
+    if (categoryIds && !inCategories(t, categoryIds)) return false
+    if (excludedCategoryIds.size > 0 && inCategories(t, excludedCategoryIds)) return false
+    if (filters.accountIds.length > 0 && !(t.accountId && filters.accountIds.includes(t.accountId))) return false
+    if (t.accountId && filters.excluded.accountIds.includes(t.accountId)) return false
+    if (filters.tags.length > 0 && !t.tags?.some(tag => filters.tags.includes(tag))) return false
+    if (t.tags?.some(tag => filters.excluded.tags.includes(tag))) return false
+
+    const person = t.assignedTo ? normalizeText(t.assignedTo) : ''
+    if (people.length > 0 && !people.includes(person)) return false
+    if (person && excludedPeople.includes(person)) return false
+
+    if (words.length > 0 || filters.excluded.terms.length > 0) {
+      const description = normalizeText(t.description)
+      if (!words.every(word => description.includes(word))) return false
+      if (filters.excluded.terms.some(term => description.includes(term))) return false
+    }
+    return true
+  })
+}
+
+/**
+ * Parse and apply a search query in one go (saved searches, widgets, exports)
+ */
+export function searchTransactions(
+  transactions: Transaction[],
+  query: string,
+  context: SearchContext
+): Transaction[] {
+  return filterTransactions(transactions, parseSearchQuery(query, context).filters, context.categories)
+}
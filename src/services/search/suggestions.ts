@@ -0,0 +1,136 @@
+import { TRANSACTION_TYPE_LABELS } from '@utils/constants'
+import { getCurrentMonth, getPreviousMonth } from '@utils/formatters'
+import type { BankAccount, Category } from '@/types'
+import { normalizeText, resolveKey, tokenizeQuery, unquote, type SearchKey } from './query'
+
+export interface SearchSuggestion {
+  label: string
+  insert: string // Replaces the term under the cursor
+  hint?: string
+  isKey: boolean // Keys wait for their value, values end the term
+}
+
+export interface SuggestionContext {
+  categories: Category[]
+  accounts: BankAccount[]
+  tags: string[]
+  people: string[]
+}
+
+export interface SuggestionResult {
+  suggestions: SearchSuggestion[]
+  start: number // Range of the term under the cursor
+  end: number
+}
+
+const MAX_SUGGESTIONS = 8
+
+export const SEARCH_KEYS: { key: SearchKey; insert: string; hint: string }[] = [
+  { key: 'cat', insert: 'cat:', hint: 'Catégorie, sous-catégories incluses' },
+  { key: 'amount', insert: 'amount', hint: 'amount<-50, amount>=100, amount:10..20' },
+  { key: 'date', insert: 'date:', hint: '2026, 2026-Q2, 2026-05, date>=2026-01-15' },
+  { key: 'person', insert: 'person:', hint: 'Personne imputée' },
+  { key: 'tag', insert: 'tag:', hint: 'Tag, ou #tag' },
+  { key: 'desc', insert: 'desc:', hint: 'Mot ou "expression" du libellé' },
+  { key: 'account', insert: 'account:', hint: 'Compte bancaire' },
+  { key: 'type', insert: 'type:', hint: "Type d'opération" },
+  { key: 'is', insert: 'is:', hint: 'income ou expense' },
+]
+
+function quoteIfNeeded(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value
+}
+
+function getQuarter(month: string): string {
+  const [year, m] = month.split('-').map(Number)
+  return `${year}-Q${Math.ceil(m / 3)}`
+}
+
+function getValueOptions(key: SearchKey, context: SuggestionContext): { value: string; hint?: string }[] {
+  switch (key) {
+    case 'cat':
+      return context.categories.map(c => ({ value: c.id, hint: c.name }))
+    case 'tag':
+      return context.tags.map(tag => ({ value: tag }))
+    case 'person':
+      return context.people.map(person => ({ value: person }))
+    case 'account':
+      return context.accounts.map(a => ({ value: a.name }))
+    case 'type':
+      return Object.entries(TRANSACTION_TYPE_LABELS).map(([type, label]) => ({ value: type, hint: label }))
+    case 'is':
+      return [{ value: 'expense', hint: 'Dépenses' }, { value: 'income', hint: 'Revenus' }]
+    case 'date': {
+      const month = getCurrentMonth()
+      const year = Number(month.slice(0, 4))
+      return [
+        { value: month, hint: 'Ce mois-ci' },
+        { value: getPreviousMonth(month), hint: 'Le mois dernier' },
+        { value: getQuarter(month), hint: 'Ce trimestre' },
+        { value: String(year), hint: 'Cette année' },
+        { value: String(year - 1), hint: "L'année dernière" },
+      ]
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Completions for the term under the cursor: search keys while typing a word,
+ * values of the key once it is typed (categories, tags, people, accounts, periods)
+ */
+export function getSearchSuggestions(query: string, cursor: number, context: SuggestionContext): SuggestionResult {
+  const token = tokenizeQuery(query).find(t => t.start <= cursor && cursor <= t.end)
+  const start = token?.start ?? cursor
+  const end = token?.end ?? cursor
+  const typed = query.slice(start, cursor)
+  const negation = typed.startsWith('-') ? '-' : ''
+  const term = typed.slice(negation.length)
+
+  const valueMatch = term.match(/^([a-zA-Zéè]+)(:|<=|>=|<|>)(.*)$/)
+  const key = valueMatch ? resolveKey(valueMatch[1]) : undefined
+
+  if (valueMatch && key) {
+    if (key === 'amount') return { suggestions: [], start, end }
+    const prefix = `${negation}${valueMatch[1]}${valueMatch[2]}`
+    const wanted = normalizeText(unquote(valueMatch[3]))
+    const suggestions = getValueOptions(key, context)
+      .filter(({ value, hint }) =>
+        normalizeText(value).includes(wanted) || (hint !== undefined && normalizeText(hint).includes(wanted))
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map(({ value, hint }) => ({ label: value, insert: `${prefix}${quoteIfNeeded(value)}`, hint, isKey: false }))
+    return { suggestions, start, end }
+  }
+
+  if (term.startsWith('#')) {
+    const wanted = normalizeText(term.slice(1))
+    const suggestions = context.tags
+      .filter(tag => tag.includes(wanted))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(tag => ({ label: `#${tag}`, insert: `${negation}#${quoteIfNeeded(tag)}`, isKey: false }))
+    return { suggestions, start, end }
+  }
+
+  const wanted = normalizeText(term)
+  const suggestions = SEARCH_KEYS
+    .filter(({ key }) => key.startsWith(wanted))
+    .map(({ insert, hint }) => ({ label: insert, insert: `${negation}${insert}`, hint, isKey: true }))
+  return { suggestions, start, end }
+}
+
+/**
+ * Put a suggestion in place of the term under the cursor, returns the new query and cursor
+ */
+export function applySuggestion(
+  query: string,
+  result: Pick<SuggestionResult, 'start' | 'end'>,
+  suggestion: SearchSuggestion
+): { query: string; cursor: number } {
+  const before = query.slice(0, result.start)
+  const after = query.slice(result.end)
+  const separator = suggestion.isKey || after.startsWith(' ') ? '' : ' '
+  const next = `${before}${suggestion.insert}${separator}${after}`
+  return { query: next, cursor: before.length + suggestion.insert.length + separator.length }
+}
@@ -0,0 +1,100 @@
+import { db } from '@services/db'
+import type { Transaction, TransactionSplit } from '@/types'
+
+/**
+ * A transaction as seen by aggregations: either an unsplit transaction or one
+ * split line carrying the parent's date, description, account...
+ * Split lines share the parent's data, so they are only meant for totals and
+ * read-only lists (use updateTransactionLine to edit them).
+ */
+export interface TransactionLine extends Transaction {
+  parentId: string
+  splitId?: string
+}
+
+export function hasSplits(transaction: Transaction): boolean {
+  return Boolean(transaction.splits && transaction.splits.length > 0)
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/**
+ * Replace every split transaction by its split lines.
+ * If the lines don't add up to the parent amount (edited amount, rounding),
+ * the remainder stays on the parent category so totals never drift.
+ */
+export function expandSplits(transactions: Transaction[]): TransactionLine[] {
+  const lines: TransactionLine[] = []
+
+  for (const t of transactions) {
+    if (!hasSplits(t)) {
+      lines.push({ ...t, parentId: t.id })
+      continue
+    }
+
+    for (const split of t.splits!) {
+      lines.push({
+        ...t,
+        id: `${t.id}:${split.id}`,
+        parentId: t.id,
+        splitId: split.id,
+        amount: split.amount,
+        category: split.category,
+        assignedTo: split.assignedTo,
+        budgetGroup: split.budgetGroup,
+        splits: undefined,
+      })
+    }
+
+    const remainderCents = toCents(t.amount) - t.splits!.reduce((sum, s) => sum + toCents(s.amount), 0)
+    if (remainderCents !== 0) {
+      lines.push({
+        ...t,
+        id: `${t.id}:remainder`,
+        parentId: t.id,
+        amount: remainderCents / 100,
+        splits: undefined,
+      })
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Check split lines before saving them. Returns an error message or null.
+ */
+export function validateSplits(parentAmount: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) return 'Une répartition doit contenir au moins 2 lignes'
+  if (splits.some(s => !s.category)) return 'Chaque ligne doit avoir une catégorie'
+  if (splits.some(s => s.amount === 0 || Math.sign(s.amount) !== Math.sign(parentAmount))) {
+    return 'Chaque ligne doit avoir un montant du même signe que la transaction'
+  }
+  const total = splits.reduce((sum, s) => sum + toCents(s.amount), 0)
+  if (total !== toCents(parentAmount)) {
+    return `La somme des lignes (${(total / 100).toFixed(2)}) doit être égale au montant (${parentAmount.toFixed(2)})`
+  }
+  return null
+}
+
+/**
+ * Update the category, person or budget group of a transaction or of one of its split lines
+ */
+export async function updateTransactionLine(
+  line: TransactionLine,
+  updates: Partial<Pick<TransactionSplit, 'category' | 'assignedTo' | 'budgetGroup'>>
+): Promise<void> {
+  const now = new Date().toISOString()
+
+  if (!line.splitId) {
+    await db.transactions.update(line.parentId, { ...updates, updatedAt: now })
+    return
+  }
+
+  const parent = await db.transactions.get(line.parentId)
+  if (!parent?.splits) return
+  const splits = parent.splits.map(s => (s.id === line.splitId ? { ...s, ...updates } : s))
+  await db.transactions.update(line.parentId, { splits, updatedAt: now })
+}
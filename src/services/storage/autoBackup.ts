@@ -1,23 +1,11 @@
 import { db } from '@services/db'
-import type { Transaction, Category, CategorizationRule, CategoryBudget, MonthlyBudgetConfig, SavingsGoal, AssetAccount } from '@/types'
+import { createBackup, serializeBackup, parseBackup, readBackup, restoreBackup, type RestoreReport } from './backup'
+import { isEncryptedBackup, isBackupEncryptionLocked, getBackupPassphrase, unlockBackupEncryption } from './encryption'
+import { saveMergeBase } from './merge'
 
 const BACKUP_KEY = 'finance-tracker-backup'
-const BACKUP_VERSION = 2
 const UNSAVED_CHANGES_KEY = 'finance-unsaved-changes'
 
-interface BackupData {
-  version: number
-  savedAt: string
-  transactions: Transaction[]
-  categories: Category[]
-  rules: CategorizationRule[]
-  categoryBudgets?: CategoryBudget[]
-  monthlyBudgetConfigs?: MonthlyBudgetConfig[]
-  savingsGoals?: SavingsGoal[]
-  assetAccounts?: AssetAccount[]
-  settings?: { key: string; value: unknown }[]
-}
-
 // Store the file handle for auto-save
 let fileHandle: FileSystemFileHandle | null = null
 
@@ -50,35 +38,23 @@ function decompress(str: string): string {
  */
 export async function createAutoBackup(): Promise<void> {
   try {
-    const transactions = await db.transactions.toArray()
-    const categories = await db.categories.toArray()
-    const rules = await db.rules.toArray()
-    const categoryBudgets = await db.categoryBudgets.toArray()
-    const monthlyBudgetConfigs = await db.monthlyBudgetConfigs.toArray()
-    const savingsGoals = await db.savingsGoals.toArray()
-    const assetAccounts = await db.assetAccounts.toArray()
-    const settings = await db.settings.toArray()
+    const backup = await createBackup()
+    const transactionCount = backup.tables.transactions.length
+    const accountCount = backup.tables.assetAccounts.length
 
     // Only backup if there's data (transactions OR patrimoine)
-    if (transactions.length === 0 && assetAccounts.length === 0) {
+    if (transactionCount === 0 && accountCount === 0) {
       console.log('⏭️ No data to backup')
       return
     }
 
-    const backup: BackupData = {
-      version: BACKUP_VERSION,
-      savedAt: new Date().toISOString(),
-      transactions,
-      categories,
-      rules,
-      categoryBudgets,
-      monthlyBudgetConfigs,
-      savingsGoals,
-      assetAccounts,
-      settings: settings.map(s => ({ key: s.key, value: s.value })),
+    // Never fall back to a readable copy when the user asked for encryption
+    if (isBackupEncryptionLocked()) {
+      console.log('🔒 Backup encryption locked, skipping auto-backup')
+      return
     }
 
-    const json = JSON.stringify(backup)
+    const json = await serializeBackup(backup)
     const compressed = compress(json)
 
     // Check if it fits in localStorage (usually 5-10MB limit)
@@ -89,7 +65,7 @@ export async function createAutoBackup(): Promise<void> {
     }
 
     localStorage.setItem(BACKUP_KEY, compressed)
-    console.log(`✅ Auto-backup created: ${transactions.length} transactions, ${assetAccounts.length} accounts (${sizeInMB.toFixed(2)}MB)`)
+    console.log(`✅ Auto-backup created: ${transactionCount} transactions, ${accountCount} accounts (${sizeInMB.toFixed(2)}MB)`)
   } catch (err) {
     console.error('❌ Failed to create auto-backup:', err)
   }
@@ -105,18 +81,26 @@ export function hasBackup(): boolean {
 /**
  * Get backup info without fully parsing
  */
-export function getBackupInfo(): { savedAt: string; transactionCount: number; accountCount?: number } | null {
+export function getBackupInfo(): { savedAt: string; transactionCount: number; accountCount?: number; encrypted?: boolean } | null {
   try {
     const compressed = localStorage.getItem(BACKUP_KEY)
     if (!compressed) return null
 
     const json = decompress(compressed)
-    const backup = JSON.parse(json) as BackupData
+    const data = JSON.parse(json)
+    // Only the date of an encrypted backup can be read without the passphrase
+    if (isEncryptedBackup(data)) {
+      return { savedAt: data.savedAt, transactionCount: 0, encrypted: true }
+    }
+
+    const backup = parseBackup(json)
+    const transactionCount = backup.tables.transactions?.length || 0
+    const accountCount = backup.tables.assetAccounts?.length || 0
 
     return {
       savedAt: backup.savedAt,
-      transactionCount: (backup.transactions?.length || 0) + (backup.assetAccounts?.length || 0),
-      accountCount: backup.assetAccounts?.length || 0,
+      transactionCount: transactionCount + accountCount,
+      accountCount,
     }
   } catch {
     return null
@@ -126,74 +110,23 @@ export function getBackupInfo(): { savedAt: string; transactionCount: number; ac
 /**
  * Restore database from localStorage backup
  */
-export async function restoreFromBackup(): Promise<{ transactions: number; restored: boolean }> {
+export async function restoreFromBackup(passphrase?: string): Promise<{ transactions: number; restored: boolean; report?: RestoreReport }> {
   try {
     const compressed = localStorage.getItem(BACKUP_KEY)
     if (!compressed) {
       return { transactions: 0, restored: false }
     }
 
-    const json = decompress(compressed)
-    const backup = JSON.parse(json) as BackupData
-
-    if (!backup.version) {
-      console.error('❌ Invalid backup format')
-      return { transactions: 0, restored: false }
-    }
-
-    // Clear and restore core tables
-    await db.transactions.clear()
-    await db.categories.clear()
-    await db.rules.clear()
+    const report = await restoreBackup(await readBackup(decompress(compressed), passphrase))
+    const restoredCount = (table: string) => report.tables.find(t => t.table === table)?.restored || 0
 
-    if (backup.categories && backup.categories.length > 0) {
-      await db.categories.bulkAdd(backup.categories)
-    }
-
-    if (backup.transactions && backup.transactions.length > 0) {
-      await db.transactions.bulkAdd(backup.transactions)
-    }
-
-    if (backup.rules && backup.rules.length > 0) {
-      await db.rules.bulkAdd(backup.rules)
-    }
-
-    // Restore budget data
-    if (backup.categoryBudgets && backup.categoryBudgets.length > 0) {
-      await db.categoryBudgets.clear()
-      await db.categoryBudgets.bulkAdd(backup.categoryBudgets)
-    }
-
-    if (backup.monthlyBudgetConfigs && backup.monthlyBudgetConfigs.length > 0) {
-      await db.monthlyBudgetConfigs.clear()
-      await db.monthlyBudgetConfigs.bulkAdd(backup.monthlyBudgetConfigs)
-    }
-
-    if (backup.savingsGoals && backup.savingsGoals.length > 0) {
-      await db.savingsGoals.clear()
-      await db.savingsGoals.bulkAdd(backup.savingsGoals)
-    }
-
-    // Restore patrimoine data
-    if (backup.assetAccounts && backup.assetAccounts.length > 0) {
-      await db.assetAccounts.clear()
-      await db.assetAccounts.bulkAdd(backup.assetAccounts)
-    }
-
-    // Restore settings
-    if (backup.settings && backup.settings.length > 0) {
-      await db.settings.clear()
-      for (const setting of backup.settings) {
-        await db.settings.add({ id: setting.key, key: setting.key, value: setting.value })
-      }
-    }
-
-    const totalItems = (backup.transactions?.length || 0) + (backup.assetAccounts?.length || 0)
-    console.log(`✅ Restored ${backup.transactions?.length || 0} transactions, ${backup.assetAccounts?.length || 0} accounts from backup`)
+    const totalItems = restoredCount('transactions') + restoredCount('assetAccounts')
+    console.log(`✅ Restored ${restoredCount('transactions')} transactions, ${restoredCount('assetAccounts')} accounts from backup`)
 
     return {
       transactions: totalItems,
       restored: true,
+      report,
     }
   } catch (err) {
     console.error('❌ Failed to restore from backup:', err)
@@ -201,6 +134,15 @@ export async function restoreFromBackup(): Promise<{ transactions: number; resto
   }
 }
 
+/**
+ * Enter the backup passphrase for this session, checked against the localStorage copy when it is encrypted
+ */
+export async function unlockBackups(passphrase: string): Promise<void> {
+  const compressed = localStorage.getItem(BACKUP_KEY)
+  const data = compressed ? JSON.parse(decompress(compressed)) : null
+  await unlockBackupEncryption(passphrase, isEncryptedBackup(data) ? data : undefined)
+}
+
 /**
  * Clear the backup from localStorage
  */
@@ -211,9 +153,10 @@ export function clearBackup(): void {
 
 /**
  * Check if IndexedDB is empty and backup exists, then restore
+ * (an encrypted backup needs its passphrase, asked through askPassphrase)
  * Returns true if restoration happened
  */
-export async function checkAndRestoreIfNeeded(): Promise<boolean> {
+export async function checkAndRestoreIfNeeded(askPassphrase?: () => Promise<string | null>): Promise<boolean> {
   try {
     const transactionCount = await db.transactions.count()
     const accountCount = await db.assetAccounts.count()
@@ -229,12 +172,21 @@ export async function checkAndRestoreIfNeeded(): Promise<boolean> {
     }
 
     const backupInfo = getBackupInfo()
-    if (!backupInfo || backupInfo.transactionCount === 0) {
+    if (!backupInfo || (!backupInfo.encrypted && backupInfo.transactionCount === 0)) {
       return false
     }
 
     console.log(`🔄 IndexedDB empty but backup found (${backupInfo.transactionCount} items from ${backupInfo.savedAt})`)
 
+    if (backupInfo.encrypted) {
+      const passphrase = getBackupPassphrase() ?? await askPassphrase?.()
+      if (!passphrase) return false
+      const result = await restoreFromBackup(passphrase)
+      // The next auto-backups are encrypted with the same passphrase
+      if (result.restored) await unlockBackupEncryption(passphrase)
+      return result.restored
+    }
+
     const result = await restoreFromBackup()
     return result.restored
   } catch (err) {
@@ -304,36 +256,16 @@ export async function saveToFile(): Promise<boolean> {
   }
 
   try {
-    const transactions = await db.transactions.toArray()
-    const categories = await db.categories.toArray()
-    const rules = await db.rules.toArray()
-    const categoryBudgets = await db.categoryBudgets.toArray()
-    const monthlyBudgetConfigs = await db.monthlyBudgetConfigs.toArray()
-    const savingsGoals = await db.savingsGoals.toArray()
-    const assetAccounts = await db.assetAccounts.toArray()
-    const settings = await db.settings.toArray()
-
-    const backup: BackupData = {
-      version: BACKUP_VERSION,
-      savedAt: new Date().toISOString(),
-      transactions,
-      categories,
-      rules,
-      categoryBudgets,
-      monthlyBudgetConfigs,
-      savingsGoals,
-      assetAccounts,
-      settings: settings.map(s => ({ key: s.key, value: s.value })),
-    }
-
-    const json = JSON.stringify(backup, null, 2)
+    const backup = await createBackup()
+    const json = await serializeBackup(backup, 2)
 
     // Write to file
     const writable = await fileHandle.createWritable()
     await writable.write(json)
     await writable.close()
+    await saveMergeBase(backup)
 
-    console.log(`💾 Auto-saved to file: ${transactions.length} transactions`)
+    console.log(`💾 Auto-saved to file: ${backup.tables.transactions.length} transactions`)
     return true
   } catch (err) {
     console.error('❌ Failed to auto-save to file:', err)
@@ -414,34 +346,15 @@ export function getUnsavedChangesTime(): number | null {
  */
 export async function downloadBackup(): Promise<boolean> {
   try {
-    const transactions = await db.transactions.toArray()
-    const categories = await db.categories.toArray()
-    const rules = await db.rules.toArray()
-    const categoryBudgets = await db.categoryBudgets.toArray()
-    const monthlyBudgetConfigs = await db.monthlyBudgetConfigs.toArray()
-    const savingsGoals = await db.savingsGoals.toArray()
-    const assetAccounts = await db.assetAccounts.toArray()
-    const settings = await db.settings.toArray()
-
-    if (transactions.length === 0) {
+    const backup = await createBackup()
+    const transactionCount = backup.tables.transactions.length
+
+    if (transactionCount === 0) {
       console.log('⏭️ No transactions to backup')
       return false
     }
 
-    const backup: BackupData = {
-      version: BACKUP_VERSION,
-      savedAt: new Date().toISOString(),
-      transactions,
-      categories,
-      rules,
-      categoryBudgets,
-      monthlyBudgetConfigs,
-      savingsGoals,
-      assetAccounts,
-      settings: settings.map(s => ({ key: s.key, value: s.value })),
-    }
-
-    const json = JSON.stringify(backup, null, 2)
+    const json = await serializeBackup(backup, 2)
     const blob = new Blob([json], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
 
@@ -452,11 +365,12 @@ export async function downloadBackup(): Promise<boolean> {
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
+    await saveMergeBase(backup)
 
     // Clear unsaved changes after successful download
     clearUnsavedChanges()
 
-    console.log(`💾 Downloaded backup: ${transactions.length} transactions`)
+    console.log(`💾 Downloaded backup: ${transactionCount} transactions`)
     return true
   } catch (err) {
     console.error('❌ Failed to download backup:', err)
@@ -0,0 +1,314 @@
+import { db, journal, journalService, categoryBudgetService, createDefaultBankAccount } from '@services/db'
+import {
+  isEncryptedBackup,
+  encryptBackup,
+  decryptBackup,
+  isBackupEncryptionEnabled,
+  getBackupPassphrase,
+} from './encryption'
+
+/**
+ * Backup format versions:
+ * 1. finance-data.json: transactions, categories and rules
+ * 2. auto-backup: budgets, goals, accounts and settings as top-level lists
+ * 3. every database table under `tables`
+ */
+export const BACKUP_VERSION = 3
+
+type BackupRow = Record<string, unknown>
+
+export interface BackupFile {
+  version: number
+  savedAt: string
+  tables: Record<string, BackupRow[]>
+  migratedFrom?: number // Version of the file as read, when older than the current one
+  id?: string
+  bases?: string[] // Files exchanged by the saving device, latest first, to find the base of a merge
+}
+
+export interface TableRestoreReport {
+  table: string
+  inFile: number // Rows found in the file
+  restored: number // Rows in the table after the restore
+  skipped: number // Invalid or duplicated rows left out
+  issues: string[]
+}
+
+export interface RestoreReport {
+  version: number // Version of the file, before migration
+  savedAt: string
+  tables: TableRestoreReport[]
+  ignoredTables: string[] // In the file but unknown to this version of the app
+}
+
+// The undo journal, the sync state and the merge bases describe this device's edits,
+// they have no meaning once restored elsewhere
+const NOT_BACKED_UP = ['journal', 'syncState', 'mergeBases']
+
+// Never replaced by an empty list: the app cannot work without them
+const REQUIRED_TABLES = ['categories']
+
+// Settings left out of backups unless the user asks for them
+export const SECRET_SETTINGS = ['claudeApiKey']
+export const INCLUDE_SECRETS_SETTING = 'backupIncludesSecrets'
+
+export function getBackupTables(): string[] {
+  return db.tables.map(t => t.name).filter(name => !NOT_BACKED_UP.includes(name))
+}
+
+// Each migration turns a backup of version N into version N + 1
+const BACKUP_MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  1: ({ exportedAt, categories, ...data }) => ({
+    ...data,
+    version: 2,
+    savedAt: exportedAt,
+    // Prélèvements were wrongly excluded from the stats in these files
+    categories: Array.isArray(categories)
+      ? categories.map(c => (c.id === 'internal' ? { ...c, isExcludedFromStats: false } : c))
+      : categories,
+  }),
+  2: ({ version: _version, savedAt, settings, ...lists }) => {
+    const tables: Record<string, unknown> = {}
+    for (const [name, rows] of Object.entries(lists)) {
+      if (Array.isArray(rows)) tables[name] = rows
+    }
+    // Settings were saved without their id, the key is unique
+    if (Array.isArray(settings)) {
+      tables.settings = (settings as { key: string; value: unknown }[])
+        .map(({ key, value }) => ({ id: key, key, value }))
+    }
+    // Files from before multi-account support: their transactions go to one account
+    if (Array.isArray(tables.transactions) && !Array.isArray(tables.bankAccounts)) {
+      const legacyBalance = (tables.settings as BackupRow[] | undefined)?.find(s => s.key === 'initialBalance')?.value
+      const account = createDefaultBankAccount(typeof legacyBalance === 'number' ? legacyBalance : 0)
+      tables.bankAccounts = [account]
+      tables.transactions = (tables.transactions as BackupRow[])
+        .map(t => (t && typeof t === 'object' && !t.accountId ? { ...t, accountId: account.id } : t))
+    }
+    return { version: 3, savedAt, tables }
+  },
+}
+
+/**
+ * Bring a backup of any known version to the current format
+ */
+export function migrateBackup(data: Record<string, unknown>): BackupFile {
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error('Format de fichier invalide')
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error('Cette sauvegarde vient d\'une version plus récente de l\'application')
+  }
+
+  let migrated = data
+  while ((migrated.version as number) < BACKUP_VERSION) {
+    migrated = BACKUP_MIGRATIONS[migrated.version as number](migrated)
+  }
+
+  const backup = migrated as unknown as BackupFile
+  if (!backup.tables || typeof backup.tables !== 'object') {
+    throw new Error('Format de fichier invalide')
+  }
+  return data.version < BACKUP_VERSION ? { ...backup, migratedFrom: data.version } : backup
+}
+
+/**
+ * Read a backup file (JSON text) and migrate it to the current format
+ */
+export function parseBackup(json: string): BackupFile {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('Le fichier n\'est pas une sauvegarde JSON valide')
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Format de fichier invalide')
+  }
+  return migrateBackup(data as Record<string, unknown>)
+}
+
+/**
+ * Snapshot of every table, read in one transaction so the tables agree with each other
+ */
+export async function createBackup(): Promise<BackupFile> {
+  const names = getBackupTables()
+  const tables: Record<string, BackupRow[]> = {}
+  await db.transaction('r', names, async () => {
+    for (const name of names) {
+      tables[name] = await db.table(name).toArray()
+    }
+  })
+
+  const includeSecrets = tables.settings.some(s => s.key === INCLUDE_SECRETS_SETTING && s.value === true)
+  if (!includeSecrets) {
+    tables.settings = tables.settings.filter(s => !SECRET_SETTINGS.includes(s.key as string))
+  }
+  const bases = await db.mergeBases.orderBy('savedAt').reverse().primaryKeys()
+  return { version: BACKUP_VERSION, savedAt: new Date().toISOString(), tables, id: crypto.randomUUID(), bases }
+}
+
+/**
+ * Backup as written to a file or to localStorage: encrypted when the user turned encryption on
+ */
+export async function serializeBackup(backup: BackupFile, space?: number): Promise<string> {
+  const json = JSON.stringify(backup, null, space)
+  if (!isBackupEncryptionEnabled()) return json
+
+  const passphrase = getBackupPassphrase()
+  if (!passphrase) {
+    throw new Error('Sauvegardes chiffrées : saisissez la phrase secrète dans les paramètres')
+  }
+  return JSON.stringify(await encryptBackup(json, backup.savedAt, passphrase), null, space)
+}
+
+/**
+ * Read a backup written by serializeBackup, decrypting it when needed
+ * (with the given passphrase, or the one entered for this session)
+ */
+export async function readBackup(text: string, passphrase?: string): Promise<BackupFile> {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Le fichier n\'est pas une sauvegarde JSON valide')
+  }
+  if (!isEncryptedBackup(data)) return parseBackup(text)
+
+  const key = passphrase ?? getBackupPassphrase()
+  if (!key) {
+    throw new Error('Cette sauvegarde est chiffrée : saisissez sa phrase secrète')
+  }
+  return parseBackup(await decryptBackup(data, key))
+}
+
+function isValidTransaction(row: BackupRow): boolean {
+  return typeof row.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(row.date)
+    && typeof row.amount === 'number' && Number.isFinite(row.amount)
+    && typeof row.description === 'string'
+}
+
+// Ids a table's rows point to, checked after the rows themselves
+const REFERENCES: { table: string; field: string; target: string; label: string }[] = [
+  { table: 'transactions', field: 'category', target: 'categories', label: 'catégorie inconnue' },
+  { table: 'transactions', field: 'accountId', target: 'bankAccounts', label: 'compte bancaire inconnu' },
+  { table: 'assetMovements', field: 'accountId', target: 'assetAccounts', label: 'compte de patrimoine inconnu' },
+  { table: 'savingsContributions', field: 'goalId', target: 'savingsGoals', label: 'objectif inconnu' },
+  { table: 'monthlySavingsRecords', field: 'goalId', target: 'savingsGoals', label: 'objectif inconnu' },
+  { table: 'balanceCheckpoints', field: 'accountId', target: 'bankAccounts', label: 'compte bancaire inconnu' },
+]
+
+/**
+ * Integrity check before a restore: rows without an id, duplicated ids and
+ * transactions missing their date, amount or description are left out;
+ * references to missing records are reported but kept
+ */
+export function checkBackup(backup: BackupFile) {
+  const known = new Set(getBackupTables())
+  const rows = new Map<string, BackupRow[]>()
+  const reports = new Map<string, TableRestoreReport>()
+  const ignoredTables = Object.keys(backup.tables).filter(name => !known.has(name))
+
+  for (const [table, list] of Object.entries(backup.tables)) {
+    if (!known.has(table)) continue
+    const report: TableRestoreReport = { table, inFile: 0, restored: 0, skipped: 0, issues: [] }
+    reports.set(table, report)
+
+    if (!Array.isArray(list)) {
+      report.issues.push('Liste illisible, table laissée telle quelle')
+      continue
+    }
+    report.inFile = list.length
+
+    const byId = new Map<string, BackupRow>()
+    let invalid = 0
+    for (const row of list) {
+      if (!row || typeof row !== 'object' || typeof row.id !== 'string' || !row.id) {
+        invalid++
+        continue
+      }
+      if (table === 'transactions' && !isValidTransaction(row)) {
+        invalid++
+        continue
+      }
+      byId.set(row.id, row) // The last copy of a duplicated id wins
+    }
+    const duplicates = list.length - invalid - byId.size
+    if (invalid > 0) report.issues.push(`${invalid} ligne(s) invalide(s) ignorée(s)`)
+    if (duplicates > 0) report.issues.push(`${duplicates} doublon(s) d'identifiant ignoré(s)`)
+    report.skipped = invalid + duplicates
+
+    if (byId.size === 0 && REQUIRED_TABLES.includes(table)) {
+      report.issues.push('Aucune ligne valide, table laissée telle quelle')
+      continue
+    }
+    rows.set(table, Array.from(byId.values()))
+  }
+
+  for (const { table, field, target, label } of REFERENCES) {
+    const source = rows.get(table)
+    const targets = rows.get(target)
+    if (!source || !targets) continue
+    const ids = new Set(targets.map(r => r.id))
+    const broken = source.filter(r => typeof r[field] === 'string' && !ids.has(r[field] as string)).length
+    if (broken > 0) reports.get(table)!.issues.push(`${broken} ligne(s) avec ${label}`)
+  }
+
+  return { rows, reports, ignoredTables }
+}
+
+/**
+ * Replace the tables found in the backup (the others are left as they are)
+ * in one transaction, then compare what the database holds with the file
+ */
+export async function restoreBackup(backup: BackupFile): Promise<RestoreReport> {
+  const fileVersion = backup.migratedFrom ?? backup.version
+  const { rows, reports, ignoredTables } = checkBackup(backup)
+
+  await journal.skip(async () => {
+    // Secrets left out of the file stay as they are on this device
+    const settings = rows.get('settings')
+    if (settings) {
+      const keys = new Set(settings.map(s => s.key))
+      const kept = await db.settings
+        .filter(s => SECRET_SETTINGS.includes(s.key) && !keys.has(s.key))
+        .toArray()
+      rows.set('settings', [...settings, ...kept as unknown as BackupRow[]])
+    }
+
+    for (const [table, list] of rows) {
+      await db.table(table).clear()
+      await db.table(table).bulkAdd(list)
+    }
+  })
+  // Entries of the journal point to records that may no longer exist
+  await journalService.clear()
+
+  for (const [table, list] of rows) {
+    const report = reports.get(table)!
+    report.restored = await db.table(table).count()
+    if (report.restored !== list.length) {
+      report.issues.push(`${list.length} ligne(s) attendue(s), ${report.restored} en base`)
+    }
+  }
+
+  // Files saved before budgets were unique per category
+  const budgets = reports.get('categoryBudgets')
+  if (budgets) {
+    const removed = await journal.skip(() => categoryBudgetService.removeDuplicates())
+    if (removed > 0) {
+      budgets.restored -= removed
+      budgets.issues.push(`${removed} budget(s) en double pour une même catégorie supprimé(s)`)
+    }
+  }
+
+  console.log(`✅ Restored ${rows.size} table(s) from a version ${fileVersion} backup`)
+
+  return {
+    version: fileVersion,
+    savedAt: backup.savedAt,
+    tables: Array.from(reports.values()),
+    ignoredTables,
+  }
+}
+
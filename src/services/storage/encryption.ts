@@ -0,0 +1,135 @@
+const ENCRYPTION_KEY = 'finance-backup-encryption'
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000
+// Above this, a crafted file could freeze the page while the key is derived
+const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 10
+
+/**
+ * Backup encrypted with a passphrase: AES-GCM with a key derived by PBKDF2.
+ * Only the date stays readable, to show which backup is stored.
+ */
+export interface EncryptedBackup {
+  encrypted: 'AES-GCM'
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  iv: string
+  savedAt: string
+  data: string // Base64 ciphertext of the backup JSON
+}
+
+// Kept in memory only: automatic backups need it, storing it would defeat the encryption
+let sessionPassphrase: string | null = null
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return Boolean(data) && typeof data === 'object' && (data as EncryptedBackup).encrypted === 'AES-GCM'
+}
+
+export async function encryptBackup(json: string, savedAt: string, passphrase: string): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json))
+
+  return {
+    encrypted: 'AES-GCM',
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    iv: toBase64(iv),
+    savedAt,
+    data: toBase64(new Uint8Array(ciphertext)),
+  }
+}
+
+/**
+ * Decrypt a backup back to its JSON text.
+ * AES-GCM authenticates the data: a wrong passphrase or an altered file both fail here.
+ */
+export async function decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<string> {
+  const { iterations } = backup.kdf
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error('Sauvegarde chiffrée invalide : paramètres de dérivation de clé inattendus')
+  }
+  const key = await deriveKey(passphrase, fromBase64(backup.kdf.salt), iterations)
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.iv) },
+      key,
+      fromBase64(backup.data)
+    )
+    return new TextDecoder().decode(plaintext)
+  } catch {
+    throw new Error('Phrase secrète incorrecte ou sauvegarde altérée')
+  }
+}
+
+// ============================================
+// Passphrase for this device
+// ============================================
+
+/**
+ * Whether backups of this device are encrypted (kept in localStorage,
+ * readable before the database is restored)
+ */
+export function isBackupEncryptionEnabled(): boolean {
+  return localStorage.getItem(ENCRYPTION_KEY) === 'enabled'
+}
+
+// Encryption is on but the passphrase was not entered since the app was opened
+export function isBackupEncryptionLocked(): boolean {
+  return isBackupEncryptionEnabled() && sessionPassphrase === null
+}
+
+export function getBackupPassphrase(): string | null {
+  return sessionPassphrase
+}
+
+export function enableBackupEncryption(passphrase: string): void {
+  localStorage.setItem(ENCRYPTION_KEY, 'enabled')
+  sessionPassphrase = passphrase
+}
+
+export function disableBackupEncryption(): void {
+  localStorage.removeItem(ENCRYPTION_KEY)
+  sessionPassphrase = null
+}
+
+/**
+ * Enter the passphrase for this session, checked against an encrypted backup when there is one
+ */
+export async function unlockBackupEncryption(passphrase: string, check?: EncryptedBackup): Promise<void> {
+  if (check) {
+    await decryptBackup(check, passphrase)
+  }
+  sessionPassphrase = passphrase
+}
@@ -1,112 +1,59 @@
 import { db } from '@services/db'
-import type { Transaction, Category, CategorizationRule } from '@/types'
-
-export interface DataFile {
-  version: number
-  exportedAt: string
-  transactions: Transaction[]
-  categories: Category[]
-  rules: CategorizationRule[]
-}
+import { createBackup, serializeBackup, readBackup, restoreBackup, type RestoreReport } from './backup'
+import { isEncryptedBackup } from './encryption'
+import { saveMergeBase, previewMerge, type MergePreview } from './merge'
 
 /**
  * Export all data to a JSON file that user can save locally
  */
 export async function exportToFile(): Promise<void> {
-  const transactions = await db.transactions.toArray()
-  const categories = await db.categories.toArray()
-  const rules = await db.rules.toArray()
-
-  const data: DataFile = {
-    version: 1,
-    exportedAt: new Date().toISOString(),
-    transactions,
-    categories,
-    rules,
-  }
+  const backup = await createBackup()
 
-  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const blob = new Blob([await serializeBackup(backup, 2)], { type: 'application/json' })
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
   a.download = `finance-data.json`
   a.click()
   URL.revokeObjectURL(url)
+  await saveMergeBase(backup)
 
-  console.log(`📁 Exported ${transactions.length} transactions to file`)
+  console.log(`📁 Exported ${backup.tables.transactions.length} transactions to file`)
 }
 
 /**
- * Import data from a JSON file
+ * Whether a file is an encrypted backup, so its passphrase can be asked before reading it
  */
-export async function importFromFile(file: File): Promise<{ transactions: number; replaced: boolean }> {
-  const text = await file.text()
-  const data = JSON.parse(text) as DataFile
-
-  if (!data.version || !data.transactions) {
-    throw new Error('Format de fichier invalide')
-  }
-
-  // Clear existing data and import new
-  await db.transactions.clear()
-  await db.rules.clear()
-
-  // Import categories (merge with defaults)
-  if (data.categories && data.categories.length > 0) {
-    // Fix: ensure prélèvements are included in stats (was wrongly excluded)
-    const fixedCategories = data.categories.map(cat => {
-      if (cat.id === 'internal') {
-        return { ...cat, isExcludedFromStats: false }
-      }
-      return cat
-    })
-    await db.categories.clear()
-    await db.categories.bulkAdd(fixedCategories)
-  }
-
-  // Import transactions
-  if (data.transactions.length > 0) {
-    await db.transactions.bulkAdd(data.transactions)
-  }
-
-  // Import rules
-  if (data.rules && data.rules.length > 0) {
-    await db.rules.bulkAdd(data.rules)
-  }
-
-  return {
-    transactions: data.transactions.length,
-    replaced: true,
+export async function isEncryptedFile(file: File): Promise<boolean> {
+  try {
+    return isEncryptedBackup(JSON.parse(await file.text()))
+  } catch {
+    return false // Reported when the file is actually read
   }
 }
 
 /**
- * Add transactions from a file without clearing existing data
+ * Import data from a JSON file (any backup version, encrypted or not), replacing the tables it holds
  */
-export async function mergeFromFile(file: File): Promise<{ added: number; skipped: number }> {
-  const text = await file.text()
-  const data = JSON.parse(text) as DataFile
+export async function importFromFile(file: File, passphrase?: string): Promise<RestoreReport> {
+  const backup = await readBackup(await file.text(), passphrase)
 
-  if (!data.version || !data.transactions) {
+  if (!Array.isArray(backup.tables.transactions)) {
     throw new Error('Format de fichier invalide')
   }
 
-  // Get existing transaction IDs
-  const existingIds = new Set((await db.transactions.toArray()).map(t => t.id))
-
-  // Filter out duplicates
-  const newTransactions = data.transactions.filter(t => !existingIds.has(t.id))
-
-  if (newTransactions.length > 0) {
-    await db.transactions.bulkAdd(newTransactions)
-  }
-
-  console.log(`📁 Merged ${newTransactions.length} new transactions (${data.transactions.length - newTransactions.length} skipped)`)
+  const report = await restoreBackup(backup)
+  // The data now matches the file: later files derived from it can be merged against it
+  await saveMergeBase(backup)
+  return report
+}
 
-  return {
-    added: newTransactions.length,
-    skipped: data.transactions.length - newTransactions.length,
-  }
+/**
+ * Compare a file with the local data before merging it (see applyMerge)
+ */
+export async function previewMergeFromFile(file: File, passphrase?: string): Promise<MergePreview> {
+  const backup = await readBackup(await file.text(), passphrase)
+  return previewMerge(backup)
 }
 
 /**
@@ -1,7 +1,8 @@
 export {
   exportToFile,
   importFromFile,
-  mergeFromFile,
+  previewMergeFromFile,
+  isEncryptedFile,
   hasData,
   getStats,
 } from './fileStorage'
@@ -13,4 +14,43 @@ export {
   hasBackup,
   getBackupInfo,
   clearBackup,
+  unlockBackups,
 } from './autoBackup'
+
+export {
+  BACKUP_VERSION,
+  createBackup,
+  parseBackup,
+  migrateBackup,
+  checkBackup,
+  restoreBackup,
+  getBackupTables,
+  serializeBackup,
+  readBackup,
+  SECRET_SETTINGS,
+  INCLUDE_SECRETS_SETTING,
+} from './backup'
+export type { BackupFile, RestoreReport, TableRestoreReport } from './backup'
+
+export { previewMerge, applyMerge, saveMergeBase, conflictKey } from './merge'
+export type {
+  MergePreview,
+  MergeChoices,
+  MergeResult,
+  MergeSide,
+  TableMergePreview,
+  RecordMerge,
+  FieldConflict,
+} from './merge'
+
+export {
+  isEncryptedBackup,
+  encryptBackup,
+  decryptBackup,
+  isBackupEncryptionEnabled,
+  isBackupEncryptionLocked,
+  enableBackupEncryption,
+  disableBackupEncryption,
+  unlockBackupEncryption,
+} from './encryption'
+export type { EncryptedBackup } from './encryption'
@@ -0,0 +1,252 @@
+import { db, journal, categoryBudgetService, UNSYNCED_TABLES } from '@services/db'
+import type { MergeBase } from '@/types'
+import { getBackupTables, checkBackup, type BackupFile } from './backup'
+
+// Backup files kept as merge bases, the oldest are dropped
+const MERGE_BASES_KEPT = 3
+
+// Written by every save: the latest of the two sides is kept without asking
+const DERIVED_FIELDS = ['updatedAt']
+
+type Row = Record<string, unknown>
+
+export type MergeSide = 'local' | 'file'
+
+export interface FieldConflict {
+  field: string
+  base?: unknown // Value both sides started from, unknown without a merge base
+  local: unknown
+  file: unknown
+}
+
+/**
+ * What merging a file does to one record. A record deleted on one side and
+ * modified on the other is a conflict of its own (`deletedIn`).
+ */
+export interface RecordMerge {
+  table: string
+  id: string
+  kind: 'added' | 'modified' | 'deleted'
+  local?: Row
+  file?: Row
+  fields: string[] // Modified in the file only, taken as they are
+  conflicts: FieldConflict[]
+  deletedIn?: MergeSide
+}
+
+export interface TableMergePreview {
+  table: string
+  added: number
+  modified: number
+  deleted: number
+  conflicts: number
+  records: RecordMerge[]
+}
+
+export interface MergePreview {
+  backup: BackupFile
+  baseSavedAt?: string // Without a base, every difference is a conflict and nothing counts as deleted
+  tables: TableMergePreview[]
+  conflictCount: number
+  ignoredTables: string[]
+}
+
+// Choice of the side to keep, by conflictKey
+export type MergeChoices = Record<string, MergeSide>
+
+export interface MergeResult {
+  added: number
+  modified: number
+  deleted: number
+}
+
+// Preferences and data of this device only, as for sync
+function getMergeTables(): string[] {
+  return getBackupTables().filter(name => !UNSYNCED_TABLES.includes(name))
+}
+
+export function conflictKey(record: RecordMerge, field = '*'): string {
+  return `${record.table}:${record.id}:${field}`
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function isSameRecord(a: Row, b: Row): boolean {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)])
+  return Array.from(fields).every(field => DERIVED_FIELDS.includes(field) || isSame(a[field], b[field]))
+}
+
+/**
+ * Keep a backup file exchanged with another device (saved, downloaded or loaded),
+ * so a later file derived from it can be merged against it
+ */
+export async function saveMergeBase(backup: BackupFile): Promise<void> {
+  // Written by a version of the app that did not name its files
+  if (!backup.id) return
+
+  const tables = Object.fromEntries(
+    getMergeTables()
+      .filter(name => Array.isArray(backup.tables[name]))
+      .map(name => [name, backup.tables[name]])
+  )
+  await db.transaction('rw', db.mergeBases, async () => {
+    await db.mergeBases.put({ id: backup.id!, savedAt: backup.savedAt, tables })
+    const dropped = await db.mergeBases.orderBy('savedAt').reverse().offset(MERGE_BASES_KEPT).primaryKeys()
+    await db.mergeBases.bulkDelete(dropped)
+  })
+}
+
+// The latest file both devices had: the file itself, or one its device had when it was saved
+async function findMergeBase(backup: BackupFile): Promise<MergeBase | undefined> {
+  for (const id of [backup.id, ...(backup.bases ?? [])]) {
+    if (!id) continue
+    const base = await db.mergeBases.get(id)
+    if (base) return base
+  }
+  return undefined
+}
+
+function mergeRecord(table: string, id: string, base?: Row, local?: Row, file?: Row): RecordMerge | null {
+  const record: RecordMerge = { table, id, kind: 'modified', local, file, fields: [], conflicts: [] }
+
+  if (!file) {
+    // Added here, or deleted on both sides
+    if (!base || !local) return null
+    return { ...record, kind: 'deleted', deletedIn: isSameRecord(local, base) ? undefined : 'file' }
+  }
+  if (!local) {
+    if (!base) return { ...record, kind: 'added' }
+    // Deleted here: brought back only if the file changed it since
+    return isSameRecord(file, base) ? null : { ...record, kind: 'added', deletedIn: 'local' }
+  }
+
+  const fields = new Set([...Object.keys(local), ...Object.keys(file)])
+  for (const field of fields) {
+    if (DERIVED_FIELDS.includes(field) || isSame(local[field], file[field])) continue
+    if (base && isSame(file[field], base[field])) continue // Changed here only
+    if (base && isSame(local[field], base[field])) {
+      record.fields.push(field)
+    } else {
+      record.conflicts.push({ field, base: base?.[field], local: local[field], file: file[field] })
+    }
+  }
+  return record.fields.length > 0 || record.conflicts.length > 0 ? record : null
+}
+
+/**
+ * Three-way comparison of a backup file with the local data, against the
+ * latest file both sides had. Nothing is written.
+ */
+export async function previewMerge(backup: BackupFile): Promise<MergePreview> {
+  const { rows, ignoredTables } = checkBackup(backup)
+  const base = await findMergeBase(backup)
+  // Tables missing from the file (older versions) are left as they are
+  const names = getMergeTables().filter(name => rows.has(name))
+
+  const local = new Map<string, Row[]>()
+  await db.transaction('r', names, async () => {
+    for (const name of names) {
+      local.set(name, await db.table(name).toArray())
+    }
+  })
+
+  const tables: TableMergePreview[] = []
+  for (const name of names) {
+    const byId = (list: Row[] = []) => new Map(list.map(row => [row.id as string, row]))
+    const baseRows = byId(base?.tables[name])
+    const localRows = byId(local.get(name))
+    const fileRows = byId(rows.get(name))
+
+    const records: RecordMerge[] = []
+    for (const id of new Set([...baseRows.keys(), ...localRows.keys(), ...fileRows.keys()])) {
+      const record = mergeRecord(name, id, baseRows.get(id), localRows.get(id), fileRows.get(id))
+      if (record) records.push(record)
+    }
+    if (records.length === 0) continue
+
+    tables.push({
+      table: name,
+      added: records.filter(r => r.kind === 'added').length,
+      modified: records.filter(r => r.kind === 'modified').length,
+      deleted: records.filter(r => r.kind === 'deleted').length,
+      conflicts: records.reduce((sum, r) => sum + r.conflicts.length + (r.deletedIn ? 1 : 0), 0),
+      records,
+    })
+  }
+
+  return {
+    backup,
+    baseSavedAt: base?.savedAt,
+    tables,
+    conflictCount: tables.reduce((sum, t) => sum + t.conflicts, 0),
+    ignoredTables,
+  }
+}
+
+function setField(row: Row, field: string, value: unknown) {
+  if (value === undefined) delete row[field]
+  else row[field] = value
+}
+
+// Record to write (null to delete it), undefined when the local one stays
+function resolveRecord(record: RecordMerge, choices: MergeChoices): Row | null | undefined {
+  if (record.deletedIn && choices[conflictKey(record)] !== 'file') return undefined
+  if (record.kind === 'added') return record.file
+  if (record.kind === 'deleted') return null
+
+  const merged = { ...record.local }
+  for (const field of record.fields) {
+    setField(merged, field, record.file![field])
+  }
+  for (const conflict of record.conflicts) {
+    if (choices[conflictKey(record, conflict.field)] === 'file') setField(merged, conflict.field, conflict.file)
+  }
+  // Every conflict kept the local value
+  if (isSameRecord(merged, record.local!)) return undefined
+
+  const times = [record.local!.updatedAt, record.file!.updatedAt].filter((t): t is string => typeof t === 'string')
+  if (times.length > 0) merged.updatedAt = times.sort().pop()
+  return merged
+}
+
+/**
+ * Write a previewed merge, once a side is chosen for every conflict.
+ * The merge is one entry of the undo journal.
+ */
+export async function applyMerge(preview: MergePreview, choices: MergeChoices): Promise<MergeResult> {
+  const records = preview.tables.flatMap(t => t.records)
+  const isMissingChoice = records.some(record =>
+    (record.deletedIn && !choices[conflictKey(record)])
+    || record.conflicts.some(c => !choices[conflictKey(record, c.field)])
+  )
+  if (isMissingChoice) {
+    throw new Error('Choisissez une version pour chaque conflit')
+  }
+
+  const result: MergeResult = { added: 0, modified: 0, deleted: 0 }
+  const savedAt = new Date(preview.backup.savedAt).toLocaleDateString('fr-FR')
+  await journal.withLabel(`Fusion de la sauvegarde du ${savedAt}`, async () => {
+    for (const record of records) {
+      const resolved = resolveRecord(record, choices)
+      if (resolved === undefined) continue
+      const table = db.table(record.table)
+      if (resolved === null) {
+        await table.delete(record.id)
+        result.deleted++
+      } else {
+        await table.put(resolved)
+        result[record.kind === 'added' ? 'added' : 'modified']++
+      }
+    }
+    // Both sides may have a budget for the same category
+    result.deleted += await categoryBudgetService.removeDuplicates()
+  })
+
+  // Both sides now have this file
+  await saveMergeBase(preview.backup)
+
+  console.log(`🔀 Merged backup: ${result.added} added, ${result.modified} modified, ${result.deleted} deleted`)
+  return result
+}
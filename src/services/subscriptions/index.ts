@@ -0,0 +1,250 @@
+import { dayGap, getNextOccurrence, getOccurrenceDate } from '@services/recurring'
+import { getTransactionStatus } from '@services/scheduled'
+import { formatDate, formatMoney, getToday } from '@utils/formatters'
+import type { RecurringSchedule, ScheduleFrequency, Transaction } from '@/types'
+
+export const SUBSCRIPTION_CATEGORY = 'abonnements'
+
+// Outside the subscriptions category, larger regular debits are rent, loans, transfers...
+export const SUBSCRIPTION_MAX_AMOUNT = 100
+
+// A charge is late, not missing, until this many days after its expected date
+export const SUBSCRIPTION_GRACE_DAYS = 7
+
+// Days covered by one cycle of each frequency
+const CYCLE_DAYS: Record<ScheduleFrequency, number> = {
+  weekly: 7,
+  monthly: 30.44,
+  quarterly: 91.31,
+  yearly: 365.25,
+}
+
+export type SubscriptionAlertType = 'price-change' | 'missing' | 'duplicate'
+
+export interface SubscriptionAlert {
+  type: SubscriptionAlertType
+  date: string
+  message: string
+  change?: number // Price change, positive when the price goes up
+  transactions: Transaction[]
+}
+
+export interface PricePoint {
+  date: string // First charge at this price
+  amount: number // Positive
+}
+
+export interface Subscription {
+  id: string // Schedule id when declared, normalized description otherwise
+  name: string
+  source: 'detected' | 'declared'
+  scheduleId?: string
+  category: string
+  accountId?: string
+  frequency: ScheduleFrequency
+  interval: number
+  charges: Transaction[] // Oldest first
+  lastCharge?: Transaction
+  nextCharge?: string // Expected date of the next charge, in the past when missing
+  amount: number // Current price, positive
+  priceHistory: PricePoint[]
+  annualCost: number
+  isActive: boolean // Detected subscriptions end after two cycles without a charge
+  alerts: SubscriptionAlert[]
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/**
+ * Key grouping the charges of a subscription: dates and spaces removed from the label
+ */
+export function getSubscriptionKey(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\d{2}\/\d{2}\/\d{4}/g, '')
+    .replace(/\d{2}\/\d{2}/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 30)
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Only gaps close to a real billing cycle qualify, unlike inferSchedule which always guesses one
+function classifyCycle(gap: number): { frequency: ScheduleFrequency; interval: number } | undefined {
+  if (gap >= 5 && gap <= 9) return { frequency: 'weekly', interval: 1 }
+  if (gap >= 12 && gap <= 16) return { frequency: 'weekly', interval: 2 }
+  if (gap >= 25 && gap <= 35) return { frequency: 'monthly', interval: 1 }
+  if (gap >= 80 && gap <= 100) return { frequency: 'quarterly', interval: 1 }
+  if (gap >= 170 && gap <= 195) return { frequency: 'monthly', interval: 6 }
+  if (gap >= 350 && gap <= 380) return { frequency: 'yearly', interval: 1 }
+  return undefined
+}
+
+function getCycleDays(frequency: ScheduleFrequency, interval: number): number {
+  return CYCLE_DAYS[frequency] * Math.max(1, interval)
+}
+
+export function getPriceHistory(charges: Transaction[]): PricePoint[] {
+  const history: PricePoint[] = []
+  for (const charge of charges) {
+    const amount = Math.abs(charge.amount)
+    const previous = history[history.length - 1]
+    if (!previous || toCents(previous.amount) !== toCents(amount)) {
+      history.push({ date: charge.date, amount })
+    }
+  }
+  return history
+}
+
+function buildSubscription(
+  base: Pick<Subscription, 'id' | 'name' | 'source' | 'scheduleId' | 'category' | 'accountId' | 'frequency' | 'interval'>,
+  charges: Transaction[],
+  schedule: RecurringSchedule | undefined,
+  today: string
+): Subscription {
+  const sorted = [...charges].sort((a, b) => a.date.localeCompare(b.date))
+  const lastCharge = sorted[sorted.length - 1]
+  const cycleDays = getCycleDays(base.frequency, base.interval)
+  const timing = { frequency: base.frequency, interval: base.interval }
+  const alerts: SubscriptionAlert[] = []
+
+  const nextCharge = lastCharge
+    ? getOccurrenceDate({ ...timing, startDate: lastCharge.date }, 1)
+    : schedule && getNextOccurrence(schedule, today)
+  const daysLate = nextCharge ? dayGap(nextCharge, today) : 0
+  const isActive = schedule ? schedule.isActive : daysLate <= cycleDays * 2
+
+  // Two charges within half a cycle: billed twice for the same period
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = dayGap(sorted[i - 1].date, sorted[i].date)
+    if (gap < cycleDays / 2 && dayGap(sorted[i].date, today) <= 365) {
+      alerts.push({
+        type: 'duplicate',
+        date: sorted[i].date,
+        message: `Prélevé deux fois sur la même période (${gap} jour(s) d'écart)`,
+        transactions: [sorted[i - 1], sorted[i]],
+      })
+    }
+  }
+
+  const priceHistory = getPriceHistory(sorted)
+  const current = priceHistory[priceHistory.length - 1]
+  if (priceHistory.length > 1 && current.date === lastCharge?.date) {
+    const previous = priceHistory[priceHistory.length - 2]
+    const change = current.amount - previous.amount
+    alerts.push({
+      type: 'price-change',
+      date: current.date,
+      message: `Le prix passe de ${formatMoney(previous.amount)} à ${formatMoney(current.amount)} (${change > 0 ? '+' : ''}${formatMoney(change)})`,
+      change,
+      transactions: [lastCharge],
+    })
+  }
+
+  if (isActive && nextCharge && daysLate > SUBSCRIPTION_GRACE_DAYS) {
+    alerts.push({
+      type: 'missing',
+      date: nextCharge,
+      message: `Prélèvement attendu vers le ${formatDate(nextCharge)} non trouvé`,
+      transactions: [],
+    })
+  }
+
+  const amount = current?.amount ?? Math.abs(schedule?.amount ?? 0)
+  return {
+    ...base,
+    charges: sorted,
+    lastCharge,
+    nextCharge,
+    amount,
+    priceHistory,
+    annualCost: isActive ? (amount * CYCLE_DAYS.yearly) / cycleDays : 0,
+    isActive,
+    alerts: alerts.sort((a, b) => b.date.localeCompare(a.date)),
+  }
+}
+
+/**
+ * Subscriptions from the bank history and the schedules of the subscriptions category.
+ * A detected subscription is a group of debits with the same label, billed on a regular
+ * cycle and mostly at the same price (so it can still change price once or twice).
+ * Charges of a declared subscription are the rows its schedule was merged into,
+ * plus the detected ones with the same label.
+ */
+export function getSubscriptions(
+  transactions: Transaction[],
+  schedules: RecurringSchedule[] = [],
+  today: string = getToday()
+): Subscription[] {
+  const groups = new Map<string, Transaction[]>()
+  for (const t of transactions) {
+    if (t.amount >= 0 || t.date > today || getTransactionStatus(t) === 'scheduled') continue
+    const key = getSubscriptionKey(t.description)
+    if (!key) continue
+    const group = groups.get(key) ?? []
+    group.push(t)
+    groups.set(key, group)
+  }
+
+  const subscriptions: Subscription[] = []
+  const claimedKeys = new Set<string>()
+
+  for (const schedule of schedules) {
+    if (schedule.category !== SUBSCRIPTION_CATEGORY || schedule.amount >= 0) continue
+    const charges = new Map<string, Transaction>()
+    for (const t of transactions) {
+      if (t.scheduleId === schedule.id && getTransactionStatus(t) !== 'scheduled') charges.set(t.id, t)
+    }
+    const keys = new Set([getSubscriptionKey(schedule.description), ...Array.from(charges.values(), t => getSubscriptionKey(t.description))])
+    for (const key of keys) {
+      for (const t of groups.get(key) ?? []) charges.set(t.id, t)
+      claimedKeys.add(key)
+    }
+    subscriptions.push(buildSubscription({
+      id: schedule.id,
+      name: schedule.description,
+      source: 'declared',
+      scheduleId: schedule.id,
+      category: schedule.category,
+      accountId: schedule.accountId,
+      frequency: schedule.frequency,
+      interval: schedule.interval,
+    }, Array.from(charges.values()), schedule, today))
+  }
+
+  for (const [key, group] of groups) {
+    if (group.length < 2 || claimedKeys.has(key)) continue
+    const sorted = [...group].sort((a, b) => a.date.localeCompare(b.date))
+    const latest = sorted[sorted.length - 1]
+
+    const gaps = sorted.slice(1).map((t, i) => dayGap(sorted[i].date, t.date))
+    const cycle = classifyCycle(median(gaps))
+    if (!cycle) continue
+
+    const isSubscriptionCategory = sorted.some(t => t.category === SUBSCRIPTION_CATEGORY)
+    if (!isSubscriptionCategory && Math.abs(latest.amount) >= SUBSCRIPTION_MAX_AMOUNT) continue
+
+    // Mostly the same price from one charge to the next, unlike groceries or fuel
+    const samePrice = sorted.slice(1).filter((t, i) => toCents(t.amount) === toCents(sorted[i].amount)).length
+    if (!isSubscriptionCategory && samePrice < Math.ceil(gaps.length * 0.6)) continue
+
+    subscriptions.push(buildSubscription({
+      id: key,
+      name: latest.description,
+      source: 'detected',
+      category: latest.category,
+      accountId: latest.accountId,
+      ...cycle,
+    }, sorted, undefined, today))
+  }
+
+  return subscriptions.sort((a, b) => Number(b.isActive) - Number(a.isActive) || b.annualCost - a.annualCost)
+}
+
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { db, journalService, transactionService } from '@services/db'
+import { createBackup, restoreBackup } from '@services/storage/backup'
+import { undoLast } from '@services/history'
+import type { SyncChange, Transaction } from '@/types'
+import { enableSync, syncNow, countPendingChanges, mergeChanges } from './index'
+
+// In-memory endpoint, as server/sync-server.js logs the pushed changes
+let log: (SyncChange & { seq: number; deviceId: string })[] = []
+
+function serve(url: string, init?: RequestInit) {
+  const { pathname, searchParams } = new URL(url)
+  if (pathname !== '/changes') return new Response(null, { status: 404 })
+  if (init?.method === 'POST') {
+    const body = JSON.parse(init.body as string) as { deviceId: string; changes: SyncChange[] }
+    for (const change of body.changes) log.push({ ...change, seq: log.length + 1, deviceId: body.deviceId })
+    return Response.json({ seq: log.length })
+  }
+  const since = Number(searchParams.get('since')) || 0
+  return Response.json({ seq: log.length, changes: log.filter(c => c.seq > since) })
+}
+
+// What a device that saw every logged change holds for a record
+function replayOnOtherDevice(table: string, id: string): SyncChange | undefined {
+  return log
+    .filter(c => c.table === table && c.id === id)
+    .reduce<SyncChange | undefined>((merged, change) => (merged ? mergeChanges(merged, change) : change), undefined)
+}
+
+// Journal entries and sync stamps are written once their transaction commits
+async function waitFor(condition: () => Promise<boolean>) {
+  for (let i = 0; i < 100 && !(await condition()); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+}
+
+const pendingChanges = async () => (await countPendingChanges()) > 0
+
+let now = Date.parse('2024-03-01T10:00:00.000Z')
+
+// Each step a minute later, so the writes never share a time
+function tick() {
+  now += 60 * 1000
+  vi.setSystemTime(now)
+}
+
+const transaction: Transaction = {
+  id: 't1',
+  date: '2024-01-05',
+  description: 'CARREFOUR',
+  amount: -42,
+  category: 'other',
+  type: 'PAIEMENT_CARTE',
+  importId: 'manual',
+  isManuallyEdited: false,
+  source: 'manual',
+  createdAt: '2024-01-05T09:00:00.000Z',
+  updatedAt: '2024-01-05T09:00:00.000Z',
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(now)
+  vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => serve(url, init)))
+  log = []
+  await db.open()
+  await transactionService.add([transaction])
+  await enableSync('http://sync.test', 'secret')
+})
+
+afterEach(async () => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+  db.close()
+  await db.delete()
+})
+
+describe('sync after a local rewrite of records', () => {
+  it('keeps the records of a restored backup on the other devices', async () => {
+    const backup = await createBackup()
+    tick()
+    await restoreBackup(backup)
+    await waitFor(pendingChanges)
+    tick()
+    await syncNow()
+
+    expect(replayOnOtherDevice('transactions', 't1')?.record).toMatchObject({ id: 't1', amount: -42 })
+  })
+
+  it('brings back a deleted record on the other devices once the deletion is undone', async () => {
+    tick()
+    await transactionService.delete('t1')
+    await waitFor(async () => (await journalService.getAll()).length > 0)
+    tick()
+    await syncNow()
+    expect(replayOnOtherDevice('transactions', 't1')?.record).toBeUndefined()
+
+    tick()
+    await undoLast()
+    await waitFor(pendingChanges)
+    tick()
+    await syncNow()
+
+    expect(await db.transactions.get('t1')).toBeDefined()
+    expect(replayOnOtherDevice('transactions', 't1')?.record).toMatchObject({ id: 't1', amount: -42 })
+  })
+})
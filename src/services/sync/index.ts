@@ -0,0 +1,329 @@
+import { db, journal, syncTracker, settingsService, categoryBudgetService } from '@services/db'
+import type { SyncChange, SyncRecordState } from '@/types'
+import { mergeChanges } from './merge'
+
+export { mergeChanges } from './merge'
+
+const SYNC_SETTING = 'sync'
+const AUTO_SYNC_INTERVAL = 60 * 1000
+const AUTO_SYNC_DELAY = 5 * 1000 // After a local change, so a burst of edits goes in one sync
+const PUSH_BATCH_SIZE = 500
+
+// Time of the fields of a record written before sync was turned on: any later write wins
+const UNKNOWN_TIME = '1970-01-01T00:00:00.000Z'
+
+export interface SyncConfig {
+  endpoint: string
+  token?: string
+  deviceId: string
+  lastPushedSeq: number // Local change sequence pushed up to
+  lastPulledSeq: number // Endpoint sequence pulled up to
+  lastSyncAt?: string
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error'
+
+export interface SyncStatus {
+  state: SyncState
+  lastSyncAt?: string
+  error?: string
+}
+
+export interface SyncResult {
+  pushed: number
+  pulled: number
+  conflicts: number // Records edited here and on another device, merged field by field
+}
+
+// A change as logged by the endpoint
+interface RemoteChange extends SyncChange {
+  seq: number
+  deviceId: string
+}
+
+// ============================================
+// Status, shown in the header
+// ============================================
+
+let status: SyncStatus = { state: 'disabled' }
+const statusListeners = new Set<() => void>()
+
+function setStatus(next: SyncStatus) {
+  status = next
+  statusListeners.forEach(listener => listener())
+}
+
+export function getSyncStatus(): SyncStatus {
+  return status
+}
+
+export function subscribeSyncStatus(listener: () => void): () => void {
+  statusListeners.add(listener)
+  return () => statusListeners.delete(listener)
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+export async function getSyncConfig(): Promise<SyncConfig | null> {
+  return (await settingsService.get(SYNC_SETTING)) as SyncConfig | null
+}
+
+async function saveSyncConfig(config: SyncConfig) {
+  await settingsService.set(SYNC_SETTING, config)
+}
+
+function getInitialFieldTimes(record: Record<string, unknown>): Record<string, string> {
+  const time = typeof record.updatedAt === 'string' ? record.updatedAt
+    : typeof record.createdAt === 'string' ? record.createdAt
+      : UNKNOWN_TIME
+  return Object.fromEntries(Object.keys(record).map(field => [field, time]))
+}
+
+/**
+ * Give a change sequence to the records written before sync was turned on,
+ * so the first sync pushes all of them
+ */
+async function trackExistingRecords() {
+  const tables = syncTracker.getSyncedTables()
+  await db.transaction('rw', [...tables, db.syncState], async () => {
+    const tracked = new Set(await db.syncState.toCollection().primaryKeys())
+    let seq = (await db.syncState.orderBy('seq').last())?.seq ?? 0
+    const states: SyncRecordState[] = []
+
+    for (const table of tables) {
+      for (const record of await table.toArray()) {
+        const key = `${table.name}:${record.id}`
+        if (tracked.has(key)) continue
+        states.push({ key, table: table.name, id: record.id, seq: ++seq, fieldTimes: getInitialFieldTimes(record) })
+      }
+    }
+    await db.syncState.bulkPut(states)
+  })
+}
+
+/**
+ * Sync this device with an endpoint (see server/sync-server.js), starting with a full push
+ */
+export async function enableSync(endpoint: string, token: string): Promise<SyncResult | null> {
+  const url = endpoint.trim().replace(/\/+$/, '')
+  try {
+    new URL(url)
+  } catch {
+    throw new Error('Adresse du serveur de synchronisation invalide')
+  }
+  if (!token.trim()) {
+    throw new Error('Le jeton du serveur de synchronisation est obligatoire')
+  }
+
+  const existing = await getSyncConfig()
+  await trackExistingRecords()
+  await saveSyncConfig({
+    endpoint: url,
+    token: token.trim(),
+    deviceId: existing?.deviceId ?? crypto.randomUUID(),
+    lastPushedSeq: 0,
+    lastPulledSeq: 0,
+  })
+  return syncNow()
+}
+
+export async function disableSync(): Promise<void> {
+  await settingsService.delete(SYNC_SETTING)
+  setStatus({ state: 'disabled' })
+}
+
+/**
+ * Local changes not pushed yet
+ */
+export async function countPendingChanges(): Promise<number> {
+  const config = await getSyncConfig()
+  if (!config) return 0
+  return db.syncState.where('seq').above(config.lastPushedSeq).count()
+}
+
+// ============================================
+// Push and pull
+// ============================================
+
+async function request<T>(config: SyncConfig, path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${config.endpoint}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token && { Authorization: `Bearer ${config.token}` }),
+    },
+  })
+  if (!response.ok) {
+    throw new Error(response.status === 401
+      ? 'Serveur de synchronisation : jeton refusé'
+      : `Serveur de synchronisation : erreur ${response.status}`)
+  }
+  return response.json() as Promise<T>
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Merge pulled changes into the local records, outside of the undo journal
+ * and without giving them a new sequence (they are already on the endpoint)
+ */
+async function applyRemoteChanges(changes: RemoteChange[], lastPushedSeq: number): Promise<number> {
+  const synced = new Set(syncTracker.getSyncedTables().map(t => t.name))
+  let conflicts = 0
+
+  await journal.skip(() => syncTracker.applyRemote(async () => {
+    for (const change of changes) {
+      // Tables of a newer version of the app
+      if (!synced.has(change.table)) continue
+
+      const table = db.table(change.table)
+      const key = `${change.table}:${change.id}`
+      const state = await db.syncState.get(key)
+      const current = await table.get(change.id) as Record<string, unknown> | undefined
+      const local: SyncChange = {
+        table: change.table,
+        id: change.id,
+        record: current,
+        fieldTimes: state?.fieldTimes ?? (current ? getInitialFieldTimes(current) : {}),
+        deletedAt: state?.deletedAt,
+      }
+
+      const hasUnpushedEdits = Boolean(state && state.seq > lastPushedSeq)
+      if (hasUnpushedEdits && current && change.record
+        && Object.keys(change.fieldTimes).some(f => f in local.fieldTimes && !isSame(current[f], change.record![f]))) {
+        conflicts++
+      }
+
+      const merged = mergeChanges(local, change)
+      if (merged.record) {
+        if (!isSame(merged.record, current)) await table.put(merged.record)
+      } else if (current) {
+        await table.delete(change.id)
+      }
+      await db.syncState.put({
+        key,
+        table: change.table,
+        id: change.id,
+        seq: state?.seq ?? 0,
+        fieldTimes: merged.fieldTimes,
+        deletedAt: merged.deletedAt,
+      })
+    }
+  }))
+
+  return conflicts
+}
+
+async function pushChanges(config: SyncConfig): Promise<number> {
+  let pushed = 0
+  for (;;) {
+    const states = await db.syncState
+      .where('seq')
+      .above(config.lastPushedSeq)
+      .limit(PUSH_BATCH_SIZE)
+      .toArray()
+    if (states.length === 0) return pushed
+
+    const changes: SyncChange[] = []
+    for (const state of states) {
+      const record = await db.table(state.table).get(state.id)
+      changes.push({ table: state.table, id: state.id, record, fieldTimes: state.fieldTimes, deletedAt: state.deletedAt })
+    }
+    await request(config, '/changes', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: config.deviceId, changes }),
+    })
+
+    config.lastPushedSeq = states[states.length - 1].seq
+    await saveSyncConfig(config)
+    pushed += changes.length
+  }
+}
+
+async function runSync(): Promise<SyncResult | null> {
+  const config = await getSyncConfig()
+  if (!config) {
+    setStatus({ state: 'disabled' })
+    return null
+  }
+
+  setStatus({ ...status, state: 'syncing', error: undefined })
+  try {
+    const pulled = await request<{ seq: number; changes: RemoteChange[] }>(
+      config,
+      `/changes?since=${config.lastPulledSeq}`
+    )
+    const changes = pulled.changes.filter(c => c.deviceId !== config.deviceId)
+    const conflicts = await applyRemoteChanges(changes, config.lastPushedSeq)
+    config.lastPulledSeq = pulled.seq
+    await saveSyncConfig(config)
+    // Two devices may each have added a budget for the same category: the deletion
+    // is a local change, pushed below so the other devices drop it too
+    await journal.skip(() => categoryBudgetService.removeDuplicates())
+
+    const pushed = await pushChanges(config)
+
+    config.lastSyncAt = new Date().toISOString()
+    await saveSyncConfig(config)
+    setStatus({ state: 'idle', lastSyncAt: config.lastSyncAt })
+    console.log(`🔄 Synced: ${pushed} pushed, ${changes.length} pulled`)
+
+    return { pushed, pulled: changes.length, conflicts }
+  } catch (err) {
+    // fetch rejects with a TypeError when the endpoint cannot be reached
+    const isOffline = !navigator.onLine || err instanceof TypeError
+    setStatus({
+      state: isOffline ? 'offline' : 'error',
+      lastSyncAt: config.lastSyncAt,
+      error: isOffline ? 'Serveur de synchronisation injoignable' : (err as Error).message,
+    })
+    throw err
+  }
+}
+
+let running: Promise<SyncResult | null> | null = null
+
+/**
+ * Pull the changes of the other devices, then push this one's.
+ * Calls made while a sync runs share its result.
+ */
+export function syncNow(): Promise<SyncResult | null> {
+  if (!running) {
+    running = runSync().finally(() => {
+      running = null
+    })
+  }
+  return running
+}
+
+/**
+ * Sync every minute, shortly after local changes and when the connection comes back.
+ * Returns a function that stops it.
+ */
+export function startAutoSync(): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  // Failures are shown through the status
+  const run = () => {
+    syncNow().catch(err => console.error('❌ Sync failed:', err))
+  }
+  const schedule = () => {
+    clearTimeout(timer)
+    timer = setTimeout(run, AUTO_SYNC_DELAY)
+  }
+
+  const interval = setInterval(run, AUTO_SYNC_INTERVAL)
+  const unsubscribe = syncTracker.onLocalChange(schedule)
+  window.addEventListener('online', run)
+  run()
+
+  return () => {
+    clearTimeout(timer)
+    clearInterval(interval)
+    unsubscribe()
+    window.removeEventListener('online', run)
+  }
+}
@@ -0,0 +1,51 @@
+import type { SyncChange } from '@/types'
+
+// Equal times are settled on the value itself, so every device keeps the same one
+function pickRemote(localTime: string, remoteTime: string, localValue: unknown, remoteValue: unknown): boolean {
+  if (remoteTime !== localTime) return remoteTime > localTime
+  return JSON.stringify(remoteValue ?? null) > JSON.stringify(localValue ?? null)
+}
+
+/**
+ * Merge two versions of a record field by field: each field keeps the value
+ * written last (by `updatedAt`, or the time of the write). A deletion wins over
+ * the fields written before it, a field written after it brings the record back.
+ */
+export function mergeChanges(local: SyncChange, remote: SyncChange): SyncChange {
+  const fieldTimes: Record<string, string> = {}
+  const record: Record<string, unknown> = {}
+
+  const fields = new Set([
+    ...Object.keys(local.fieldTimes), ...Object.keys(local.record ?? {}),
+    ...Object.keys(remote.fieldTimes), ...Object.keys(remote.record ?? {}),
+  ])
+  for (const field of fields) {
+    const localTime = local.fieldTimes[field] ?? ''
+    const remoteTime = remote.fieldTimes[field] ?? ''
+    const localValue = local.record?.[field]
+    const remoteValue = remote.record?.[field]
+
+    // A deleted side has times but no values left
+    const useRemote = !local.record
+      || (Boolean(remote.record) && pickRemote(localTime, remoteTime, localValue, remoteValue))
+    const time = remoteTime > localTime ? remoteTime : localTime
+    if (time) fieldTimes[field] = time
+    const value = useRemote ? remoteValue : localValue
+    if (value !== undefined) record[field] = value
+  }
+
+  const deletedAt = [local.deletedAt, remote.deletedAt]
+    .filter((time): time is string => Boolean(time))
+    .sort()
+    .pop()
+  const lastWrite = Object.values(fieldTimes).sort().pop() ?? ''
+  const isDeleted = Boolean(deletedAt) && deletedAt! >= lastWrite
+
+  return {
+    table: remote.table,
+    id: remote.id,
+    record: isDeleted || (!local.record && !remote.record) ? undefined : { ...record, id: remote.id },
+    fieldTimes,
+    deletedAt,
+  }
+}
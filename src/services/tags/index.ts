@@ -0,0 +1,57 @@
+import { expandSplits } from '@services/splits'
+import { isInternalTransfer } from '@services/transfers'
+import type { Transaction } from '@/types'
+
+/**
+ * Tags are compared as typed by the user, minus the leading '#' and extra spaces
+ */
+export function normalizeTag(raw: string): string {
+  return raw.trim().replace(/^#+/, '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+export function normalizeTags(raw: string[]): string[] {
+  return Array.from(new Set(raw.map(normalizeTag).filter(Boolean)))
+}
+
+export interface TagReportRow {
+  tag: string
+  byPeriod: Map<string, number> // Period key -> spent amount (positive)
+  total: number
+  count: number // Transactions, a split one counts once
+}
+
+/**
+ * Spending per tag and per period. Split lines keep the tags of their
+ * transaction; internal transfers and income are left out.
+ * A transaction with several tags counts in each of them.
+ */
+export function buildTagReport(
+  transactions: Transaction[],
+  getPeriod: (t: Transaction) => string | null
+): TagReportRow[] {
+  const rows = new Map<string, TagReportRow>()
+  const counted = new Set<string>()
+
+  for (const line of expandSplits(transactions)) {
+    if (!line.tags?.length || line.amount >= 0 || isInternalTransfer(line)) continue
+    const period = getPeriod(line)
+    if (!period) continue
+
+    for (const tag of line.tags) {
+      let row = rows.get(tag)
+      if (!row) {
+        row = { tag, byPeriod: new Map(), total: 0, count: 0 }
+        rows.set(tag, row)
+      }
+      const spent = -line.amount
+      row.byPeriod.set(period, (row.byPeriod.get(period) || 0) + spent)
+      row.total += spent
+      if (!counted.has(`${tag}|${line.parentId}`)) {
+        counted.add(`${tag}|${line.parentId}`)
+        row.count++
+      }
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => b.total - a.total)
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { db } from '@services/db'
+import type { AssetMovement, Transaction } from '@/types'
+import { detectInternalTransfers, unlinkTransfer } from './index'
+
+function transaction(id: string, accountId: string, amount: number, description: string): Transaction {
+  return {
+    id,
+    date: '2024-02-10',
+    type: amount < 0 ? 'VIREMENT_EMIS' : 'VIREMENT_RECU',
+    description,
+    amount,
+    category: 'other',
+    importId: 'test',
+    isManuallyEdited: false,
+    source: 'import',
+    accountId,
+    createdAt: '2024-02-10T08:00:00.000Z',
+    updatedAt: '2024-02-10T08:00:00.000Z',
+  }
+}
+
+beforeEach(async () => {
+  await db.open()
+})
+
+afterEach(async () => {
+  db.close()
+  await db.delete()
+})
+
+describe('unlinkTransfer', () => {
+  it('keeps an unlinked pair apart on the next detection', async () => {
+    await db.transactions.bulkAdd([
+      transaction('out', 'checking', -200, 'VIR VERS LIVRET'),
+      transaction('in', 'savings', 200, 'VIR DE COMPTE COURANT'),
+    ])
+    expect(await detectInternalTransfers()).toBe(1)
+    expect((await db.transactions.get('out'))?.transferPairId).toBe('in')
+
+    await unlinkTransfer('out')
+    expect(await detectInternalTransfers()).toBe(0)
+
+    const [outgoing, incoming] = await db.transactions.bulkGet(['out', 'in'])
+    expect(outgoing?.transferPairId).toBeUndefined()
+    expect(incoming?.transferPairId).toBeUndefined()
+  })
+
+  it('still pairs each side with another counterpart', async () => {
+    await db.transactions.bulkAdd([
+      transaction('out', 'checking', -200, 'VIR VERS LIVRET'),
+      transaction('in', 'savings', 200, 'VIR DE COMPTE COURANT'),
+    ])
+    await detectInternalTransfers()
+    await unlinkTransfer('in')
+
+    await db.transactions.add({ ...transaction('in-2', 'savings', 200, 'VIR DE COMPTE COURANT'), date: '2024-02-11' })
+    expect(await detectInternalTransfers()).toBe(1)
+    expect((await db.transactions.get('out'))?.transferPairId).toBe('in-2')
+  })
+
+  it('keeps an unlinked asset movement apart on the next detection', async () => {
+    const movement: AssetMovement = {
+      id: 'm1',
+      accountId: 'livret-a',
+      date: '2024-02-10',
+      type: 'deposit',
+      amount: 200,
+      balanceAfter: 200,
+      createdAt: '2024-02-10T08:00:00.000Z',
+    }
+    await db.transactions.add(transaction('out', 'checking', -200, 'VIR VERS LIVRET A'))
+    await db.assetMovements.add(movement)
+    expect(await detectInternalTransfers()).toBe(1)
+
+    await unlinkTransfer('out')
+    expect(await detectInternalTransfers()).toBe(0)
+    expect((await db.assetMovements.get('m1'))?.transactionId).toBeUndefined()
+    expect((await db.transactions.get('out'))?.transferAssetAccountId).toBeUndefined()
+  })
+})
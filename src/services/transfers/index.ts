@@ -0,0 +1,195 @@
+import { db } from '@services/db'
+import type { Transaction, AssetMovement } from '@/types'
+
+// A transfer is usually debited and credited within a couple of business days
+export const TRANSFER_WINDOW_DAYS = 3
+
+const TRANSFER_CATEGORIES = new Set(['transfer-in', 'transfer-out', 'compte-a-compte'])
+
+export interface TransferPair {
+  outgoing: Transaction
+  incoming: Transaction
+}
+
+export interface AssetTransferMatch {
+  transaction: Transaction
+  movement: AssetMovement
+}
+
+/**
+ * A transaction moving money between our own accounts (excluded from income/expense stats)
+ */
+export function isInternalTransfer(transaction: Transaction): boolean {
+  return Boolean(transaction.transferPairId || transaction.transferAssetAccountId)
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+// The user unlinked these two once, detection leaves them apart
+function isUnlinked(transaction: Transaction, otherId: string): boolean {
+  return transaction.unlinkedTransferIds?.includes(otherId) ?? false
+}
+
+function dayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number)
+  return Date.UTC(year, month - 1, day) / 86400000
+}
+
+/**
+ * Equal amounts alone are not enough (a refund can match a purchase),
+ * at least one side must look like a bank transfer
+ */
+function looksLikeTransfer(transaction: Transaction): boolean {
+  return transaction.type === 'VIREMENT_EMIS'
+    || transaction.type === 'VIREMENT_RECU'
+    || TRANSFER_CATEGORIES.has(transaction.category)
+    || /\bvir(ement)?\b|transfert/i.test(transaction.description)
+}
+
+/**
+ * Pair outgoing and incoming transactions of the same amount on two different
+ * bank accounts within a few days. Closest dates are paired first.
+ */
+export function findTransferPairs(
+  transactions: Transaction[],
+  windowDays: number = TRANSFER_WINDOW_DAYS
+): TransferPair[] {
+  const unpaired = transactions.filter(t => t.accountId && !isInternalTransfer(t))
+
+  // Index incoming transactions by amount
+  const incomingByCents = new Map<number, Transaction[]>()
+  for (const t of unpaired) {
+    if (t.amount <= 0) continue
+    const cents = toCents(t.amount)
+    incomingByCents.set(cents, [...(incomingByCents.get(cents) || []), t])
+  }
+
+  const candidates: { outgoing: Transaction; incoming: Transaction; score: number }[] = []
+  for (const outgoing of unpaired) {
+    if (outgoing.amount >= 0) continue
+    for (const incoming of incomingByCents.get(toCents(-outgoing.amount)) || []) {
+      if (incoming.accountId === outgoing.accountId) continue
+      if (isUnlinked(outgoing, incoming.id) || isUnlinked(incoming, outgoing.id)) continue
+      if (!looksLikeTransfer(outgoing) && !looksLikeTransfer(incoming)) continue
+      const dayGap = Math.abs(dayNumber(incoming.date) - dayNumber(outgoing.date))
+      if (dayGap > windowDays) continue
+      // Prefer close dates, then pairs where both sides look like transfers
+      const score = dayGap - (looksLikeTransfer(outgoing) && looksLikeTransfer(incoming) ? 0.5 : 0)
+      candidates.push({ outgoing, incoming, score })
+    }
+  }
+
+  const claimed = new Set<string>()
+  const pairs: TransferPair[] = []
+  for (const { outgoing, incoming } of candidates.sort((a, b) => a.score - b.score)) {
+    if (claimed.has(outgoing.id) || claimed.has(incoming.id)) continue
+    claimed.add(outgoing.id)
+    claimed.add(incoming.id)
+    pairs.push({ outgoing, incoming })
+  }
+  return pairs
+}
+
+/**
+ * Match bank transactions with deposits/withdrawals recorded on asset accounts
+ * (money sent to a Livret A shows up as a debit on the bank and a deposit on the asset)
+ */
+export function findAssetTransfers(
+  transactions: Transaction[],
+  movements: AssetMovement[],
+  windowDays: number = TRANSFER_WINDOW_DAYS
+): AssetTransferMatch[] {
+  const candidates: { transaction: Transaction; movement: AssetMovement; dayGap: number }[] = []
+
+  for (const movement of movements) {
+    if (movement.transactionId) continue
+    if (movement.type !== 'deposit' && movement.type !== 'withdrawal') continue
+    for (const transaction of transactions) {
+      if (isInternalTransfer(transaction) || !looksLikeTransfer(transaction)) continue
+      if (isUnlinked(transaction, movement.id)) continue
+      // A deposit on the asset is a debit on the bank and vice versa
+      if (toCents(transaction.amount) !== -toCents(movement.amount)) continue
+      const dayGap = Math.abs(dayNumber(transaction.date) - dayNumber(movement.date))
+      if (dayGap > windowDays) continue
+      candidates.push({ transaction, movement, dayGap })
+    }
+  }
+
+  const claimed = new Set<string>()
+  const matches: AssetTransferMatch[] = []
+  for (const { transaction, movement } of candidates.sort((a, b) => a.dayGap - b.dayGap)) {
+    if (claimed.has(transaction.id) || claimed.has(movement.id)) continue
+    claimed.add(transaction.id)
+    claimed.add(movement.id)
+    matches.push({ transaction, movement })
+  }
+  return matches
+}
+
+/**
+ * Scan stored transactions and link every internal transfer found.
+ * Returns the number of transfers linked.
+ */
+export async function detectInternalTransfers(): Promise<number> {
+  const transactions = await db.transactions.filter(t => t.status !== 'scheduled').toArray()
+  const movements = await db.assetMovements.toArray()
+
+  const pairs = findTransferPairs(transactions)
+  const pairedIds = new Set(pairs.flatMap(p => [p.outgoing.id, p.incoming.id]))
+  const assetMatches = findAssetTransfers(transactions.filter(t => !pairedIds.has(t.id)), movements)
+
+  if (pairs.length === 0 && assetMatches.length === 0) return 0
+
+  const now = new Date().toISOString()
+  await db.transaction('rw', db.transactions, db.assetMovements, async () => {
+    for (const { outgoing, incoming } of pairs) {
+      await db.transactions.update(outgoing.id, { transferPairId: incoming.id, updatedAt: now })
+      await db.transactions.update(incoming.id, { transferPairId: outgoing.id, updatedAt: now })
+    }
+    for (const { transaction, movement } of assetMatches) {
+      await db.transactions.update(transaction.id, { transferAssetAccountId: movement.accountId, updatedAt: now })
+      await db.assetMovements.update(movement.id, { transactionId: transaction.id })
+    }
+  })
+
+  console.log(`🔁 ${pairs.length} internal transfer(s) paired, ${assetMatches.length} linked to asset accounts`)
+  return pairs.length + assetMatches.length
+}
+
+/**
+ * Remove the internal transfer link of a transaction (and of its counterpart).
+ * Both sides remember it, so the next detection does not pair them again.
+ */
+export async function unlinkTransfer(transactionId: string): Promise<void> {
+  const transaction = await db.transactions.get(transactionId)
+  if (!transaction) return
+
+  const now = new Date().toISOString()
+  const remember = (t: Transaction, ids: string[]) =>
+    Array.from(new Set([...(t.unlinkedTransferIds ?? []), ...ids]))
+
+  await db.transaction('rw', db.transactions, db.assetMovements, async () => {
+    const unlinkedIds: string[] = []
+    const counterpart = transaction.transferPairId ? await db.transactions.get(transaction.transferPairId) : undefined
+    if (counterpart) {
+      await db.transactions.update(counterpart.id, {
+        transferPairId: undefined,
+        unlinkedTransferIds: remember(counterpart, [transactionId]),
+        updatedAt: now,
+      })
+      unlinkedIds.push(counterpart.id)
+    }
+    const movements = db.assetMovements.where('accountId').equals(transaction.transferAssetAccountId ?? '')
+      .filter(m => m.transactionId === transactionId)
+    unlinkedIds.push(...await movements.primaryKeys())
+    await movements.modify({ transactionId: undefined })
+    await db.transactions.update(transactionId, {
+      transferPairId: undefined,
+      transferAssetAccountId: undefined,
+      unlinkedTransferIds: remember(transaction, unlinkedIds),
+      updatedAt: now,
+    })
+  })
+}
@@ -5,15 +5,23 @@ import {
   useCallback,
   useEffect,
   useMemo,
+  useState,
   type ReactNode,
 } from 'react'
 import { useLiveQuery } from 'dexie-react-hooks'
-import { transactionService, categoryService, db } from '@services/db'
+import { transactionService, categoryService, bankAccountService, db, journal } from '@services/db'
 import { createAutoBackup, checkAndRestoreIfNeeded } from '@services/storage/autoBackup'
 import { learnFromCorrection } from '@services/categorizer/learningService'
-import type { Transaction, Category, TransactionFilters, MonthlyStats, CategoryStat, Period } from '@/types'
+import { isInternalTransfer } from '@services/transfers'
+import { expandSplits } from '@services/splits'
+import { buildCategoryStats, getDescendantIds } from '@services/categories'
+import { generateScheduledTransactions } from '@services/recurring'
+import { refreshLoans } from '@services/loans'
+import { startAutoSync } from '@services/sync'
+import { BackupPassphraseModal } from '@components/backup'
+import type { Transaction, Category, BankAccount, TransactionFilters, MonthlyStats, Period } from '@/types'
 import { getCurrentMonth } from '@utils/formatters'
-import { DEFAULT_FILTERS, COLORS } from '@utils/constants'
+import { DEFAULT_FILTERS } from '@utils/constants'
 
 // Helper to get month range
 function getMonthRange(month: string): { start: string; end: string } {
@@ -109,7 +117,10 @@ const initialState: TransactionState = {
 // Context type
 interface TransactionContextType extends TransactionState {
   transactions: Transaction[]
+  accountTransactions: Transaction[] // All periods, filtered by the selected accounts and tags
+  scheduledTransactions: Transaction[] // Planned entries of the selected accounts, left out of the stats
   categories: Category[]
+  accounts: BankAccount[]
   months: string[]
   stats: MonthlyStats | null
   setMonth: (month: string) => void
@@ -128,17 +139,47 @@ const TransactionContext = createContext<TransactionContextType | null>(null)
 // Provider component
 export function TransactionProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(transactionReducer, initialState)
+  // Restore on startup waiting for the passphrase of an encrypted backup
+  const [passphraseRequest, setPassphraseRequest] = useState<((passphrase: string | null) => void) | null>(null)
+
+  const answerPassphrase = useCallback((passphrase: string | null) => {
+    passphraseRequest?.(passphrase)
+    setPassphraseRequest(null)
+  }, [passphraseRequest])
 
   // Get all transactions from IndexedDB
   const allTransactions = useLiveQuery(() => transactionService.getAll()) ?? []
 
+  const accounts = useLiveQuery(() => bankAccountService.getAll()) ?? []
+
+  // Filter transactions by account (empty selection = all accounts)
+  const accountTransactions = useMemo(() => {
+    const { accountIds, tags } = state.filters
+    let filtered = allTransactions
+    if (accountIds?.length) {
+      filtered = filtered.filter((t) => t.accountId && accountIds.includes(t.accountId))
+    }
+    if (tags?.length) {
+      filtered = filtered.filter((t) => t.tags?.some((tag) => tags.includes(tag)))
+    }
+    return filtered
+  }, [allTransactions, state.filters])
+
+  const allScheduled = useLiveQuery(() => transactionService.getScheduled()) ?? []
+
+  const scheduledTransactions = useMemo(() => {
+    const { accountIds } = state.filters
+    if (!accountIds?.length) return allScheduled
+    return allScheduled.filter((t) => !t.accountId || accountIds.includes(t.accountId))
+  }, [allScheduled, state.filters])
+
   // Filter transactions by period
   // Use budgetMonth if set, otherwise use the transaction's natural date
   const transactions = useMemo(() => {
     const { startDate, endDate } = state.selectedPeriod
     const periodMonth = startDate.substring(0, 7) // YYYY-MM
 
-    return allTransactions.filter((t) => {
+    return accountTransactions.filter((t) => {
       // If budgetMonth is set, check if it matches the selected period's month
       if (t.budgetMonth) {
         return t.budgetMonth === periodMonth
@@ -146,7 +187,7 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
       // Otherwise, filter by actual transaction date
       return t.date >= startDate && t.date <= endDate
     })
-  }, [allTransactions, state.selectedPeriod])
+  }, [accountTransactions, state.selectedPeriod])
 
   const categories = useLiveQuery(() => categoryService.getAll()) ?? []
 
@@ -162,13 +203,17 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     const expensesByCategory = new Map<string, { amount: number; count: number }>()
     const incomeByCategory = new Map<string, { amount: number; count: number }>()
 
-    // Get excluded categories
+    // Get excluded categories (with their subcategories)
     const excludedCategories = new Set(
-      categories.filter((c) => c.isExcludedFromStats).map((c) => c.id)
+      categories
+        .filter((c) => c.isExcludedFromStats)
+        .flatMap((c) => getDescendantIds(categories, c.id))
     )
 
-    for (const t of transactions) {
-      if (excludedCategories.has(t.category)) continue
+    // Split transactions count through their lines (groceries + household goods...)
+    for (const t of expandSplits(transactions)) {
+      // Money moving between our own accounts is neither income nor spending
+      if (excludedCategories.has(t.category) || isInternalTransfer(t)) continue
 
       // Use the AMOUNT SIGN to determine if it's income or expense
       if (t.amount > 0) {
@@ -188,35 +233,9 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
       }
     }
 
-    // Build category stats for expenses (based on actual negative transactions)
-    const byCategory: CategoryStat[] = Array.from(expensesByCategory.entries())
-      .map(([categoryId, data]) => {
-        const category = categories.find((c) => c.id === categoryId)
-        return {
-          categoryId,
-          name: category?.name || 'Inconnu',
-          color: category?.color || COLORS.other || '#94a3b8',
-          amount: data.amount,
-          percentage: expenses > 0 ? (data.amount / expenses) * 100 : 0,
-          transactionCount: data.count,
-        }
-      })
-      .sort((a, b) => b.amount - a.amount)
-
-    // Build category stats for income (based on actual positive transactions)
-    const byIncome: CategoryStat[] = Array.from(incomeByCategory.entries())
-      .map(([categoryId, data]) => {
-        const category = categories.find((c) => c.id === categoryId)
-        return {
-          categoryId,
-          name: category?.name || 'Inconnu',
-          color: category?.color || COLORS.other || '#94a3b8',
-          amount: data.amount,
-          percentage: income > 0 ? (data.amount / income) * 100 : 0,
-          transactionCount: data.count,
-        }
-      })
-      .sort((a, b) => b.amount - a.amount)
+    // Subcategory totals roll up into their parent (Alimentation → Courses / Restaurants)
+    const byCategory = buildCategoryStats(expensesByCategory, categories, expenses)
+    const byIncome = buildCategoryStats(incomeByCategory, categories, income)
 
     return {
       month: state.selectedPeriod.label,
@@ -267,16 +286,18 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
 
   const updateTransaction = useCallback(async (id: string, updates: Partial<Transaction>) => {
     try {
-      // If category is being changed, learn from the correction
-      if (updates.category) {
-        const transaction = await db.transactions.get(id)
-        if (transaction && transaction.category !== updates.category) {
-          // Learn from this correction for future categorization
-          await learnFromCorrection(transaction, updates.category)
-          console.log(`📚 Learned: "${transaction.description.substring(0, 30)}..." → ${updates.category}`)
+      await journal.withLabel('Modification d\'une transaction', async () => {
+        // If category is being changed, learn from the correction
+        if (updates.category) {
+          const transaction = await db.transactions.get(id)
+          if (transaction && transaction.category !== updates.category) {
+            // Learn from this correction for future categorization
+            await learnFromCorrection(transaction, updates.category)
+            console.log(`📚 Learned: "${transaction.description.substring(0, 30)}..." → ${updates.category}`)
+          }
         }
-      }
-      await transactionService.update(id, updates)
+        await transactionService.update(id, updates)
+      })
     } catch (err) {
       dispatch({ type: 'SET_ERROR', payload: (err as Error).message })
     }
@@ -284,7 +305,7 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
 
   const deleteTransaction = useCallback(async (id: string) => {
     try {
-      await transactionService.delete(id)
+      await journal.withLabel('Suppression d\'une transaction', () => transactionService.delete(id))
     } catch (err) {
       dispatch({ type: 'SET_ERROR', payload: (err as Error).message })
     }
@@ -293,18 +314,21 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
   const bulkUpdateCategory = useCallback(async (transactionIds: string[], categoryId: string) => {
     let updated = 0
     try {
-      for (const id of transactionIds) {
-        const transaction = await db.transactions.get(id)
-        if (transaction && transaction.category !== categoryId) {
-          // Learn from this correction for future categorization
-          await learnFromCorrection(transaction, categoryId)
-          await transactionService.update(id, {
-            category: categoryId,
-            isManuallyEdited: true,
-          })
-          updated++
+      // One journal entry for the whole selection, undone in one go
+      await journal.withLabel(`Recatégorisation de ${transactionIds.length} transaction(s)`, async () => {
+        for (const id of transactionIds) {
+          const transaction = await db.transactions.get(id)
+          if (transaction && transaction.category !== categoryId) {
+            // Learn from this correction for future categorization
+            await learnFromCorrection(transaction, categoryId)
+            await transactionService.update(id, {
+              category: categoryId,
+              isManuallyEdited: true,
+            })
+            updated++
+          }
         }
-      }
+      })
       console.log(`📚 Bulk update: ${updated} transactions → ${categoryId}`)
       return updated
     } catch (err) {
@@ -315,7 +339,8 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
 
   // Check and restore from backup on startup if IndexedDB is empty
   useEffect(() => {
-    checkAndRestoreIfNeeded().then((restored) => {
+    const askPassphrase = () => new Promise<string | null>(resolve => setPassphraseRequest(() => resolve))
+    checkAndRestoreIfNeeded(askPassphrase).then((restored) => {
       if (restored) {
         console.log('🔄 Data restored from backup!')
         // Force a refresh by reloading
@@ -324,6 +349,23 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
     })
   }, [])
 
+  // Recurring schedules keep their expected transactions generated ahead
+  useEffect(() => {
+    journal.skip(() => generateScheduledTransactions()).catch((error) => {
+      console.error('❌ Recurring schedule generation failed:', error)
+    })
+  }, [])
+
+  // Loans follow their amortization schedule as installments fall due
+  useEffect(() => {
+    journal.skip(() => refreshLoans()).catch((error) => {
+      console.error('❌ Loan refresh failed:', error)
+    })
+  }, [])
+
+  // Sync with the other devices when an endpoint is set
+  useEffect(() => startAutoSync(), [])
+
   // Set initial period if we have data
   useEffect(() => {
     if (months.length > 0 && state.selectedPeriod.type === 'month') {
@@ -350,7 +392,10 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
   const value: TransactionContextType = {
     ...state,
     transactions,
+    accountTransactions,
+    scheduledTransactions,
     categories,
+    accounts,
     months,
     stats,
     setMonth,
@@ -366,6 +411,12 @@ export function TransactionProvider({ children }: { children: ReactNode }) {
   return (
     <TransactionContext.Provider value={value}>
       {children}
+      {passphraseRequest && (
+        <BackupPassphraseModal
+          onSubmit={(passphrase) => answerPassphrase(passphrase)}
+          onCancel={() => answerPassphrase(null)}
+        />
+      )}
     </TransactionContext.Provider>
   )
 }
@@ -8,15 +8,38 @@ export interface Transaction {
   category: string
   importId: string
   originalRow?: number
+  externalId?: string // Bank-provided unique id (OFX FITID, CAMT reference), stable across re-imports
   isManuallyEdited: boolean
   source: 'import' | 'manual' // How the transaction was created
-  budgetGroup?: 'needs' | 'wants' // For manual transactions: user-chosen budget group
+  budgetGroup?: 'needs' | 'wants' | 'ignored' // User-chosen budget group ('ignored' = left out of the budget)
   budgetMonth?: string // YYYY-MM - Override which month this counts towards (e.g., salary received Dec 29 counting for January)
   assignedTo?: string // Person in household who made this expense (e.g., "Marvin", "Partner")
+  accountId?: string // BankAccount the transaction belongs to
+  transferPairId?: string // Internal transfer: counterpart transaction on another bank account
+  transferAssetAccountId?: string // Internal transfer: AssetAccount on the other side
+  unlinkedTransferIds?: string[] // Transactions or asset movements the user unlinked, never paired with it again
+  splits?: TransactionSplit[] // Breakdown across categories/people, replaces the parent in aggregations
+  tags?: string[]
+  status?: TransactionStatus // Undefined = cleared (rows stored before statuses existed)
+  scheduleId?: string // RecurringSchedule that generated (or planned) this transaction
+  liabilityId?: string // Loan whose installment this debit pays
   createdAt: string
   updatedAt: string
 }
 
+// Lifecycle of a transaction: planned ahead (not at the bank yet), shown by the bank
+// but not booked yet (future-dated rows of an export), then cleared
+export type TransactionStatus = 'scheduled' | 'pending' | 'cleared'
+
+// Part of a transaction (e.g. groceries + household goods on one receipt)
+export interface TransactionSplit {
+  id: string
+  amount: number // Same sign as the parent transaction
+  category: string
+  assignedTo?: string
+  budgetGroup?: Transaction['budgetGroup']
+}
+
 export type TransactionType =
   | 'PAIEMENT_CARTE'
   | 'VIREMENT_RECU'
@@ -26,6 +49,33 @@ export type TransactionType =
   | 'COTISATION'
   | 'AUTRE'
 
+// Bank account types
+export type BankAccountType =
+  | 'checking'    // Compte courant
+  | 'joint'       // Compte joint
+  | 'credit-card' // Carte à débit différé / crédit
+  | 'other'
+
+export interface BankAccount {
+  id: string
+  name: string
+  type: BankAccountType
+  institution?: string
+  initialBalance: number // Balance before the first transaction, adjusted by calibration
+  color: string
+  isActive: boolean
+  order: number
+  createdAt: string
+  updatedAt: string
+}
+
+export const BANK_ACCOUNT_TYPES: Record<BankAccountType, { label: string; color: string }> = {
+  'checking': { label: 'Compte courant', color: '#3b82f6' },
+  'joint': { label: 'Compte joint', color: '#8b5cf6' },
+  'credit-card': { label: 'Carte de crédit', color: '#f59e0b' },
+  'other': { label: 'Autre', color: '#6b7280' },
+}
+
 // Category types
 export interface Category {
   id: string
@@ -42,12 +92,33 @@ export interface Category {
 
 export interface CategorizationRule {
   id: string
-  categoryId: string
-  pattern: string // Regex pattern
+  name?: string
+  categoryId?: string // Action: set category (undefined = leave the category unchanged)
+  pattern: string // Regex pattern (legacy rules without conditions)
   field: 'description' | 'type'
-  priority: number
+  conditions?: RuleCondition[] // Replaces pattern/field when set
+  match?: 'all' | 'any' // How conditions combine (AND / OR), defaults to 'all'
+  actions?: RuleActions // Actions besides setting the category
+  source?: 'user' | 'learned' // Learned = created by learnFromCorrection (default for old rules)
+  importId?: string // Learned from a correction on a transaction of this import batch
+  priority: number // Higher runs first, the first matching rule that sets a category wins
   isActive: boolean
   createdAt: string
+  updatedAt?: string
+}
+
+export type RuleCondition =
+  | { field: 'description' | 'type'; operator: 'contains' | 'regex'; value: string }
+  | { field: 'type'; operator: 'in'; values: TransactionType[] }
+  | { field: 'amount'; operator: 'between'; min?: number; max?: number } // Absolute amount
+  | { field: 'sign'; operator: 'is'; value: 'expense' | 'income' }
+  | { field: 'weekday'; operator: 'in'; values: number[] } // 0 = Sunday
+  | { field: 'account'; operator: 'in'; values: string[] }
+
+export interface RuleActions {
+  budgetGroup?: 'needs' | 'wants'
+  assignedTo?: string
+  tags?: string[] // Added to the transaction's tags
 }
 
 // Import types
@@ -58,8 +129,29 @@ export interface ImportBatch {
   transactionCount: number
   periodStart: string
   periodEnd: string
-  status: 'pending' | 'processing' | 'completed' | 'error'
-  errors?: ImportError[]
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'rolled-back'
+  errors?: ImportError[] // Rows the parser skipped
+  format?: string // Statement format label (CSV, OFX...)
+  accountId?: string
+  skippedCount?: number // Parsed rows left out at review (duplicates)
+  snapshot?: ImportedRow[] // Rows as they were imported, to diff with their current state
+  changes?: ImportChange[] // Edits the import caused outside its own rows
+  rolledBackAt?: string
+}
+
+export type ImportedRow = Pick<Transaction, 'id' | 'date' | 'description' | 'amount' | 'category'>
+
+/**
+ * Previous and new values of a record touched because of an import batch:
+ * an older transaction recategorized by the learned rules, or a learned rule
+ * rewritten after correcting one of the batch's rows
+ */
+export interface ImportChange {
+  table: 'transactions' | 'rules'
+  id: string
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+  deleted?: boolean // The import deleted the record (scheduled entry merged into a bank line), before holds all of it
 }
 
 export interface ImportError {
@@ -69,6 +161,38 @@ export interface ImportError {
   value: unknown
 }
 
+// Column indexes of a tabular bank export (Excel, CSV)
+export interface ColumnMapping {
+  date?: number
+  type?: number
+  description?: number
+  debit?: number
+  credit?: number
+  amount?: number
+  balance?: number // Running balance ("Solde"), stored as checkpoints
+}
+
+export type ImportDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD'
+
+// How a single amount column is signed
+export type ImportSignConvention =
+  | 'negative-debit' // -12,50 is an expense (most banks)
+  | 'positive-debit' // 12,50 is an expense (credit card exports)
+
+// Saved column mapping for a bank export layout
+export interface ImportProfile {
+  id: string
+  name: string
+  headerSignature: string // Normalized header names, used to recognize later files
+  mapping: ColumnMapping
+  dateFormat: ImportDateFormat
+  signConvention: ImportSignConvention
+  accountId?: string // Bank account the files are imported into
+  createdAt: string
+  updatedAt: string
+  lastUsedAt?: string
+}
+
 // Filter types
 export interface TransactionFilters {
   dateRange: {
@@ -81,11 +205,79 @@ export interface TransactionFilters {
     min: number | null
     max: number | null
   }
-  searchQuery: string
+  searchQuery: string // Words that must all appear in the description
+  accountIds: string[] // Empty = all accounts
+  tags: string[] // Empty = all, otherwise transactions with any of these tags
+  assignedTo: string[] // Empty = all, otherwise transactions assigned to any of these people
+  excluded: ExcludedFilters // Negated terms of a search query (-desc:uber, -cat:loyer)
   showIncome: boolean
   showExpenses: boolean
 }
 
+export interface ExcludedFilters {
+  terms: string[]
+  categories: string[]
+  tags: string[]
+  assignedTo: string[]
+  accountIds: string[]
+}
+
+// Named search query, reused in the transactions sidebar, dashboard widget and exports
+export interface SavedSearch {
+  id: string
+  name: string
+  query: string // Search language, ex: "cat:restaurant amount<-50 date:2026-Q2"
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Record as it was before and after a write: no before for a creation,
+ * no after for a deletion
+ */
+export interface JournalChange {
+  table: string
+  id: string
+  before?: Record<string, unknown>
+  after?: Record<string, unknown>
+}
+
+// Writes of one database transaction, undone and redone together
+export interface JournalEntry {
+  id: string
+  label?: string // Action that caused the writes, described from the changes otherwise
+  changes: JournalChange[]
+  createdAt: string
+  undoneAt?: string // Undone with Ctrl+Z, can be redone until the next write
+  revertedAt?: string // Reverted from the history, the revert is an entry of its own
+}
+
+// Sync state of a record: sequence of its last local change and when each field was last written
+export interface SyncRecordState {
+  key: string // table:id
+  table: string
+  id: string
+  seq: number // Local change sequence, pushed once above the last pushed one
+  fieldTimes: Record<string, string>
+  deletedAt?: string
+}
+
+// A record as exchanged with the sync endpoint, without a record once deleted
+export interface SyncChange {
+  table: string
+  id: string
+  record?: Record<string, unknown>
+  fieldTimes: Record<string, string>
+  deletedAt?: string
+}
+
+// Copy of a backup file exchanged with another device, the common ancestor of a later merge
+export interface MergeBase {
+  id: string // Id of the backup file
+  savedAt: string
+  tables: Record<string, Record<string, unknown>[]>
+}
+
 // Stats types
 export interface MonthlyStats {
   month: string // YYYY-MM
@@ -104,6 +296,7 @@ export interface CategoryStat {
   amount: number
   percentage: number
   transactionCount: number
+  children?: CategoryStat[] // Subcategories, already included in amount and transactionCount
 }
 
 // Settings types
@@ -162,13 +355,41 @@ export interface RecurringTransaction {
   transactions: Transaction[]
 }
 
+// Recurring schedule (rent, salary, insurance...) generating expected transactions ahead
+export type ScheduleFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly'
+
+export interface RecurringSchedule {
+  id: string
+  description: string
+  amount: number // Positive = credit, Negative = debit
+  category: string
+  accountId?: string
+  frequency: ScheduleFrequency
+  interval: number // Every N weeks, months, quarters or years
+  startDate: string // YYYY-MM-DD - First occurrence, also sets the day of the month
+  endDate?: string // YYYY-MM-DD - No occurrence after this date
+  pattern?: string // Normalized description of the detected recurrence it was created from
+  isActive: boolean
+  generatedUntil?: string // YYYY-MM-DD - Occurrences up to this date were generated
+  createdAt: string
+  updatedAt: string
+}
+
+export const SCHEDULE_FREQUENCIES: Record<ScheduleFrequency, { label: string; unit: string }> = {
+  weekly: { label: 'Hebdomadaire', unit: 'semaine(s)' },
+  monthly: { label: 'Mensuelle', unit: 'mois' },
+  quarterly: { label: 'Trimestrielle', unit: 'trimestre(s)' },
+  yearly: { label: 'Annuelle', unit: 'an(s)' },
+}
+
 export interface CashFlowPoint {
   date: string
   dateLabel: string
   income: number
   expenses: number
   netFlow: number
-  cumulativeBalance: number
+  cumulativeBalance?: number // Undefined after today
+  projectedBalance?: number // With pending and scheduled entries, from today on
 }
 
 // Budget types
@@ -292,9 +513,17 @@ export interface AssetMovement {
   type: 'deposit' | 'withdrawal' | 'interest' | 'transfer' | 'adjustment'
   description?: string
   balanceAfter: number // Balance after this movement
+  transactionId?: string // Bank transaction paying for this movement (internal transfer)
   createdAt: string
 }
 
+export const LIABILITY_TYPES: Record<LiabilityType, { label: string; color: string; icon: string }> = {
+  'credit-immobilier': { label: 'Crédit immobilier', color: '#64748b', icon: 'Home' },
+  'credit-conso': { label: 'Crédit conso', color: '#f43f5e', icon: 'ShoppingBag' },
+  'credit-auto': { label: 'Crédit auto', color: '#f97316', icon: 'Car' },
+  'other': { label: 'Autre dette', color: '#94a3b8', icon: 'CreditCard' },
+}
+
 export interface Liability {
   id: string
   name: string
@@ -303,14 +532,32 @@ export interface Liability {
   remainingBalance: number // What's left to pay
   initialAmount?: number // Original loan amount
   interestRate?: number
-  monthlyPayment?: number
-  endDate?: string // When the loan ends
+  monthlyPayment?: number // Computed from the loan terms when they are set
+  endDate?: string // When the loan ends (YYYY-MM-DD, last installment)
+  // Loan terms: with the initial amount, rate and both dates, the remaining balance follows the amortization schedule
+  startDate?: string // YYYY-MM-DD - First installment, also sets the day of the month
+  insuranceMonthly?: number // Borrower insurance paid with each installment
+  deferralMonths?: number // First installments without principal (différé)
+  deferralType?: LoanDeferralType
+  earlyRepayments?: EarlyRepayment[]
+  paymentPattern?: string // Text of the bank debit, to link transactions to installments
   color: string
   isActive: boolean
   createdAt: string
   updatedAt: string
 }
 
+// Partial: the interest is paid during the deferral; total: nothing is paid and the interest adds to the capital
+export type LoanDeferralType = 'partial' | 'total'
+
+export interface EarlyRepayment {
+  id: string
+  date: string // YYYY-MM-DD
+  amount: number // Capital repaid
+  penalty?: number // Indemnité de remboursement anticipé (undefined = the legal cap)
+  keep: 'payment' | 'duration' // What stays the same after it: the installment (shorter loan) or the end date (lower installment)
+}
+
 export interface BalanceHistory {
   id: string
   accountId: string
@@ -319,6 +566,16 @@ export interface BalanceHistory {
   createdAt: string
 }
 
+// Balance reported by the bank at the end of a day, used to check that no row is missing or duplicated
+export interface BalanceCheckpoint {
+  id: string
+  accountId: string // Bank account
+  date: string // YYYY-MM-DD
+  balance: number
+  importId?: string // Import batch the balance was read from
+  createdAt: string
+}
+
 export interface NetWorthSnapshot {
   id: string
   date: string // YYYY-MM-DD
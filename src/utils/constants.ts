@@ -28,6 +28,30 @@ export const TRANSACTION_TYPE_LABELS: Record<string, string> = {
   AUTRE: 'Autre',
 }
 
+// Database table labels (history, backups)
+export const TABLE_LABELS: Record<string, string> = {
+  transactions: 'Transactions',
+  categories: 'Catégories',
+  rules: 'Règles',
+  imports: 'Imports',
+  settings: 'Paramètres',
+  categoryBudgets: 'Budgets',
+  monthlyBudgetConfigs: 'Budgets mensuels',
+  savingsGoals: 'Objectifs',
+  savingsContributions: 'Versements',
+  monthlySavingsRecords: 'Épargne mensuelle',
+  assetAccounts: 'Comptes de patrimoine',
+  assetMovements: 'Mouvements',
+  liabilities: 'Dettes',
+  balanceHistory: 'Historique des soldes',
+  netWorthSnapshots: 'Évolution du patrimoine',
+  importProfiles: "Profils d'import",
+  bankAccounts: 'Comptes bancaires',
+  balanceCheckpoints: 'Soldes relevés',
+  recurringSchedules: 'Échéances',
+  savedSearches: 'Recherches',
+}
+
 // Tooltip styles for Recharts
 export const TOOLTIP_STYLE = {
   contentStyle: {
@@ -54,6 +78,10 @@ export const DEFAULT_FILTERS = {
   types: [],
   amountRange: { min: null, max: null },
   searchQuery: '',
+  accountIds: [],
+  tags: [],
+  assignedTo: [],
+  excluded: { terms: [], categories: [], tags: [], assignedTo: [], accountIds: [] },
   showIncome: true,
   showExpenses: true,
 }
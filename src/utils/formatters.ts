@@ -52,6 +52,14 @@ export function formatFullDate(dateStr: string): string {
   return fullDateFormatter.format(new Date(dateStr))
 }
 
+/**
+ * Get today in YYYY-MM-DD format, local date (toISOString returns UTC)
+ */
+export function getToday(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
 /**
  * Get current month in YYYY-MM format
  */